@@ -0,0 +1,154 @@
+import type { Plugin } from "vite";
+import type { Orchestrator } from "../src/types";
+import type { MockCall, MockFixtureState } from "../src/utils/mockServer";
+
+/**
+ * Local mock server: mounts every orchestrator's apiPath under /mock on the
+ * Vite dev server so consumer teams can build against the specs before the
+ * orchestrators ship.
+ *
+ *   <method> /mock<apiPath>          mocked call (see src/utils/mockServer.ts)
+ *   GET      /mock/__routes          mounted routes
+ *   GET      /mock/__calls           recent calls
+ *   GET      /mock/__events          calls as server-sent events (the portal's run log listens here)
+ *   GET|PUT|DELETE /mock/__fixtures/<orchestratorId>   fixture state
+ *
+ * The registry is read from the local backend and falls back to the seed
+ * when the backend is not running.
+ */
+
+const REGISTRY_API = "http://127.0.0.1:4097/api/orchestrators";
+const REGISTRY_TTL_MS = 5000;
+const MAX_CALLS = 200;
+
+type MockModule = typeof import("../src/utils/mockServer");
+
+export default function mockServerPlugin(): Plugin {
+    return {
+        name: "orchestrator-mock-server",
+        configureServer(server) {
+            const calls: MockCall[] = [];
+            const fixtures = new Map<string, MockFixtureState>();
+            const listeners = new Set<{ write: (chunk: string) => unknown }>();
+            let registry: { at: number; orchs: Orchestrator[] } | null = null;
+            let nextId = 1;
+
+            const load = () => server.ssrLoadModule("/src/utils/mockServer.ts") as Promise<MockModule>;
+
+            const orchestrators = async (): Promise<Orchestrator[]> => {
+                if (registry && Date.now() - registry.at < REGISTRY_TTL_MS) return registry.orchs;
+                let orchs: Orchestrator[] | null = null;
+                try {
+                    const resp = await fetch(REGISTRY_API);
+                    if (resp.ok) {
+                        const { validateOrchestrator } = await server.ssrLoadModule("/src/utils/orchestratorValidation.ts");
+                        const data: unknown = await resp.json();
+                        if (Array.isArray(data) && data.length) orchs = data.filter(d => validateOrchestrator(d).length === 0) as Orchestrator[];
+                    }
+                } catch {
+                    // backend offline
+                }
+                if (!orchs) orchs = (await server.ssrLoadModule("/src/data/mockOrchestrators.ts")).ORCHESTRATORS as Orchestrator[];
+                registry = { at: Date.now(), orchs };
+                return orchs;
+            };
+
+            const record = (call: MockCall) => {
+                calls.push(call);
+                if (calls.length > MAX_CALLS) calls.shift();
+                for (const l of listeners) l.write(`data: ${JSON.stringify(call)}\n\n`);
+            };
+
+            server.middlewares.use("/mock", async (req, res) => {
+                const started = Date.now();
+                const method = (req.method ?? "GET").toUpperCase();
+                const path = (req.url ?? "/").split("?")[0];
+
+                const send = (status: number, body: unknown) => {
+                    res.statusCode = status;
+                    res.setHeader("Content-Type", "application/json");
+                    res.end(JSON.stringify(body, null, 2));
+                };
+
+                res.setHeader("Access-Control-Allow-Origin", "*");
+                res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+                res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, PATCH, DELETE, OPTIONS");
+                if (method === "OPTIONS") {
+                    res.statusCode = 204;
+                    res.end();
+                    return;
+                }
+
+                let raw = "";
+                for await (const chunk of req) raw += chunk;
+                let body: unknown = undefined;
+                if (raw.trim()) {
+                    try {
+                        body = JSON.parse(raw);
+                    } catch (e: any) {
+                        send(400, { error: "MOCK_INVALID_JSON", message: e.message });
+                        return;
+                    }
+                }
+
+                try {
+                    const mock = await load();
+
+                    if (path === "/__events") {
+                        res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+                        res.write(": connected\n\n");
+                        listeners.add(res);
+                        req.on("close", () => listeners.delete(res));
+                        return;
+                    }
+                    if (path === "/__calls") return send(200, calls);
+                    if (path === "/__routes") return send(200, mock.mockRoutes(await orchestrators()));
+
+                    const fixtureId = /^\/__fixtures\/([^/]+)$/.exec(path)?.[1];
+                    if (fixtureId) {
+                        const id = decodeURIComponent(fixtureId);
+                        if (method === "PUT") {
+                            const state = body as MockFixtureState | undefined;
+                            if (!state || typeof state.facts !== "object" || state.facts === null || Array.isArray(state.facts)) {
+                                return send(400, { error: "MOCK_INVALID_FIXTURE", message: "expected { facts: {...}, failWith?: string }" });
+                            }
+                            fixtures.set(id, { facts: state.facts, failWith: state.failWith || undefined });
+                        } else if (method === "DELETE") {
+                            fixtures.delete(id);
+                        }
+                        return send(200, fixtures.get(id) ?? mock.EMPTY_FIXTURE_STATE);
+                    }
+
+                    const orchs = await orchestrators();
+                    const routes = mock.mockRoutes(orchs);
+                    const route = mock.matchMockRoute(routes, method, path);
+                    const orch = route && orchs.find(o => o.id === route.orchestratorId);
+                    if (!orch) {
+                        send(404, { error: "MOCK_ROUTE_NOT_FOUND", message: `${method} ${path} is not an orchestrator apiPath`, routes });
+                        record({ id: nextId++, at: new Date().toISOString(), method, path, orchestratorId: null, status: 404, errorCode: null, ruleId: null, durationMs: Date.now() - started });
+                        return;
+                    }
+
+                    const reply = mock.mockReply(orch, body, fixtures.get(orch.id));
+                    res.setHeader("X-Mock-Orchestrator", orch.id);
+                    if (reply.ruleId) res.setHeader("X-Mock-Rule", reply.ruleId);
+                    if (reply.skippedRules.length) res.setHeader("X-Mock-Skipped-Rules", reply.skippedRules.join(","));
+                    send(reply.status, reply.body);
+                    record({
+                        id: nextId++,
+                        at: new Date().toISOString(),
+                        method,
+                        path,
+                        orchestratorId: orch.id,
+                        status: reply.status,
+                        errorCode: reply.errorCode,
+                        ruleId: reply.ruleId,
+                        durationMs: Date.now() - started,
+                    });
+                } catch (e: any) {
+                    send(500, { error: "MOCK_SERVER_ERROR", message: e.message });
+                }
+            });
+        },
+    };
+}
@@ -19,7 +19,6 @@ import OperationsCenter from "./pages/OperationsCenter";
 
 import OrchestratorOverview from "./pages/OrchestratorOverview";
 import OrchestratorWorkspace from "./pages/OrchestratorWorkspace";
-import { ORCHESTRATORS } from "./data/mockOrchestrators";
 
 
 
@@ -31,12 +30,20 @@ import Rca from "./pages/Rca";
 import EmployeeWorkspace from "./pages/EmployeeWorkspace";
 import EmployeeWorkspaceV2 from "./pages/EmployeeWorkspaceV2";
 import FactoryStandards from "./pages/FactoryStandards";
+import FlowSpecs from "./pages/FlowSpecs";
+import RunbookCoverage from "./pages/RunbookCoverage";
+import NodeRegistry from "./pages/NodeRegistry";
 
 import { Card, RiskBadge, CodeBlock, SidebarSection, NavItem } from "./components/ui/shared";
-import { AppCategory, PortalApp, Skill, RunStatus, Run, FlowSpec, Runbook, IncidentBundle, DataContract, Risk } from "./types";
+import { AppCategory, PortalApp, Skill, RunStatus, Run, RunArtifact, Orchestrator, FlowSpec, Runbook, IncidentBundle, DataContract, Risk } from "./types";
 import { ThemeProvider, useTheme, THEMES, ThemeId } from "./theme";
+import { OrchestratorProvider, useOrchestrators } from "./orchestrators";
+import { NodeProvider } from "./nodes";
 import { nowIso, fmtTime, cn, shortId, safeJsonParse, randId, badgeClasses, statusClasses } from "./utils";
 import { APPS, FLOWS, RUNBOOKS, INCIDENTS, DATA_CONTRACTS } from "./data/mockData";
+import { MOCK_BASE, MOCK_RUN_TITLE, MockCall, mockCallLine } from "./utils/mockServer";
+import { contractCaseLine, runContractSuite } from "./utils/contractTests";
+import { STATUS_RISK } from "./utils/orchestratorLifecycle";
 
 
 
@@ -74,6 +81,8 @@ function AppInner() {
   // Legacy alias for compatibility
   const SKILLS = crew;
 
+  const { orchestrators } = useOrchestrators();
+
   const openApp = (id: string) => {
     setOpenTabs((prev) => {
       if (!prev.includes(id)) return [...prev, id];
@@ -178,7 +187,92 @@ function AppInner() {
     finish("success");
   };
 
+  // Q1 gate: replays the orchestrator's test targets against a live or mock endpoint
+  const runContractTests = async (orch: Orchestrator, baseUrl: string) => {
+    const r: Run = {
+      id: randId(),
+      title: `Q1 contract: ${orch.name}`,
+      createdAt: nowIso(),
+      status: "queued",
+      risk: "safe",
+      engine: "deterministic",
+      logs: [`[queue] queued: ${orch.id} @ ${baseUrl}`],
+      contract: { gate: "Q1", orchestratorId: orch.id, baseUrl, passed: 0, failed: 0, total: 0 },
+    };
+
+    setRuns((xs) => [r, ...xs]);
+    setSelectedRunId(r.id);
+
+    const pushLog = (line: string) => {
+      r.logs.push(line);
+      setRuns((xs) => xs.map((x) => (x.id === r.id ? { ...r } : x)));
+    };
+
+    r.status = "running";
+    pushLog(`[start] ${orch.apiPath}`);
 
+    try {
+      const results = await runContractSuite(orch, {
+        baseUrl,
+        onCase: (result, _index, total) => {
+          r.contract = {
+            ...r.contract!,
+            total,
+            passed: r.contract!.passed + (result.outcome === "pass" ? 1 : 0),
+            failed: r.contract!.failed + (result.outcome === "pass" ? 0 : 1),
+          };
+          pushLog(contractCaseLine(result));
+        },
+      });
+      if (results.length === 0) pushLog("[warn] no test targets to run");
+      r.status = results.length > 0 && results.every((x) => x.outcome === "pass") ? "success" : "failed";
+    } catch (e: any) {
+      pushLog(`[error] ${e.message}`);
+      r.status = "failed";
+    }
+    pushLog(`[done] ${r.status} (${r.contract!.passed}/${r.contract!.total} passed)`);
+  };
+
+  // Attaches a generated file to a run; with no runId a finished run is created to carry it
+  const attachToRun = (runId: string | null, title: string, artifact: RunArtifact) => {
+    const line = `[artifact] ${artifact.name} (${artifact.content.length} bytes)`;
+    if (runId) {
+      setRuns((xs) => xs.map((x) => (x.id === runId ? { ...x, logs: [...x.logs, line], artifacts: [...(x.artifacts ?? []), artifact] } : x)));
+      return;
+    }
+    const r: Run = {
+      id: randId(),
+      title,
+      createdAt: nowIso(),
+      status: "success",
+      risk: "safe",
+      engine: "deterministic",
+      logs: [line],
+      artifacts: [artifact],
+    };
+    setRuns((xs) => [r, ...xs]);
+  };
+
+  // Mock server traffic goes into one long-lived run so QA can follow it in the run log
+  const mockRunId = useRef<string | null>(null);
+  useEffect(() => {
+    if (typeof EventSource === "undefined") return;
+    const events = new EventSource(`${MOCK_BASE}/__events`);
+    events.onmessage = (ev) => {
+      const call = safeJsonParse<MockCall>(ev.data);
+      if (!call) return;
+      const line = mockCallLine(call);
+      const id = mockRunId.current ?? (mockRunId.current = randId());
+      setRuns((xs) => {
+        if (xs.some((x) => x.id === id)) return xs.map((x) => (x.id === id ? { ...x, logs: [...x.logs, line] } : x));
+        const r: Run = { id, title: MOCK_RUN_TITLE, createdAt: nowIso(), status: "running", risk: "safe", engine: "deterministic", logs: [line] };
+        return [r, ...xs];
+      });
+    };
+    // No mock server outside the Vite dev server: stop reconnecting
+    events.onerror = () => events.close();
+    return () => events.close();
+  }, []);
 
   const currentAppTitle = useMemo(() => {
     if (activeAppId.startsWith("employee.")) {
@@ -193,7 +287,7 @@ function AppInner() {
     if (activeAppId === "home") return "Dashboard";
     if (activeAppId.startsWith("orch.")) {
         const [, , oId] = activeAppId.split(".");
-        const o = ORCHESTRATORS.find(o => o.id === oId);
+        const o = orchestrators.find(o => o.id === oId);
         return o ? o.name : "Orchestrator Workspace";
     }
     if (activeAppId === "factory.tour") return "Quick Tour";
@@ -202,7 +296,7 @@ function AppInner() {
     if (activeAppId === "factory.crew") return "AI Crew";
     if (activeAppId === "home") return "Dashboard";
     return APPS.find((a) => a.id === activeAppId)?.title ?? "Dashboard";
-  }, [activeAppId]);
+  }, [activeAppId, orchestrators]);
 
   const labelFor = (id: string) => {
     if (id.startsWith("employee.")) {
@@ -217,7 +311,7 @@ function AppInner() {
     if (id === "home") return "Dashboard";
     if (id.startsWith("orch.")) {
         const [, , oId] = id.split(".");
-        const o = ORCHESTRATORS.find(o => o.id === oId);
+        const o = orchestrators.find(o => o.id === oId);
         return o ? o.name : id;
     }
     if (id === "factory.tour") return "Quick Tour";
@@ -238,8 +332,8 @@ function AppInner() {
     if (id.startsWith("api.")) return "safe";
     if (id.startsWith("orch.")) {
         const [, , oId] = id.split(".");
-        const o = ORCHESTRATORS.find(o => o.id === oId);
-        return o?.status === 'active' ? "safe" : o?.status === 'draft' ? "guarded" : "external";
+        const o = orchestrators.find(o => o.id === oId);
+        return o ? STATUS_RISK[o.status] : "external";
     }
     if (id === "home") return "safe";
     if (id === "home") return "safe";
@@ -253,6 +347,8 @@ function AppInner() {
   const nav = useMemo(() => {
     return {
       "Factory": ["factory.tour", "factory.manifesto", "factory.standards", "factory.crew"],
+      "Assets": ["assets.orchestrator", "assets.nodes", "assets.flows"],
+      "Monitoring": ["mon.report", "mon.runbooks"],
     } as Record<string, string[]>;
   }, []);
 
@@ -358,14 +454,18 @@ function AppInner() {
     if (tabId === "factory.tour") return <FactoryDocument file="quick-tour" headerIcon="factory" headerTitle="AI Software Factory" headerSub="快速導覽 — 5 分鐘理解工廠如何運作" />;
     if (tabId.startsWith("orch.")) {
       const [, domain, orchId] = tabId.split(".");
-      return <OrchestratorWorkspace domain={domain} orchId={orchId} />;
+      return <OrchestratorWorkspace domain={domain} orchId={orchId} openApp={openApp} closeTab={() => closeTab(tabId)} runs={runs} attachToRun={attachToRun} />;
     }
     if (tabId === "factory.manifesto") return <FactoryDocument file="constitution" headerIcon="scroll" headerTitle="Constitution" headerSub="工廠意法 — 核心原則與價值" />;
     if (tabId === "factory.standards") return <FactoryDocument file="standards" headerIcon="ruler" headerTitle="Standards" headerSub="工程標準與規範" />;
     if (tabId === "factory.crew") return <AICrew openEmployee={openEmployee} onCrewChanged={loadCrew} />;
     if (tabId === "exec.skills") return <AICrew openEmployee={openEmployee} onCrewChanged={loadCrew} />;
-    if (tabId === "exec.gates") return <Gates runSkill={runSkill} />;
-    if (tabId === "mon.report") return <Monitoring runSkill={runSkill} />;
+    if (tabId === "assets.orchestrator") return <OrchestratorOverview openApp={openApp} />;
+    if (tabId === "assets.nodes") return <NodeRegistry openApp={openApp} />;
+    if (tabId === "assets.flows") return <FlowSpecs />;
+    if (tabId === "exec.gates") return <Gates runSkill={runSkill} runs={runs} runContractTests={runContractTests} />;
+    if (tabId === "mon.report") return <Monitoring runSkill={runSkill} openApp={openApp} />;
+    if (tabId === "mon.runbooks") return <RunbookCoverage openApp={openApp} />;
     if (tabId === "inv.rca") return <Rca selectedIncidentId={selectedIncidentId} setSelectedIncidentId={setSelectedIncidentId} runSkill={runSkill} />;
     if (tabId.startsWith("employee.")) {
       const [empPart] = tabId.split("#");
@@ -503,7 +603,11 @@ function AppInner() {
 export default function App() {
     return (
         <ThemeProvider>
-            <AppInner />
+            <NodeProvider>
+                <OrchestratorProvider>
+                    <AppInner />
+                </OrchestratorProvider>
+            </NodeProvider>
         </ThemeProvider>
     );
 }
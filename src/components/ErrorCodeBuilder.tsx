@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from "react";
+import Icon from "./Icon";
+import { ErrorCodeDef, Orchestrator } from "../types";
+import { cn } from "../utils";
+import { ERROR_CODE_STANDARD, findErrorCodeOwners, httpStatusForErrorType, lintErrorCode } from "../utils/errorCodeLint";
+
+interface ErrorCodeBuilderProps {
+    orchestrators: Orchestrator[];
+    onAdd: (orchestratorId: string, def: ErrorCodeDef) => Promise<void>;
+}
+
+type Draft = {
+    errorType: string;
+    codeClass: string;
+    area: string;
+    family: string;
+    detail: string;
+};
+
+const EMPTY: Draft = { errorType: "", codeClass: "", area: "", family: "", detail: "" };
+
+function normalizeDetail(s: string) {
+    return s.trim().toUpperCase().replace(/[\s-]+/g, "_").replace(/[^A-Z0-9_]/g, "");
+}
+
+/**
+ * Guided error-code builder — walks the decision-order of Error Code Rules v1:
+ * ErrorType → CODE_CLASS → AREA → FAMILY → DETAIL.
+ */
+export default function ErrorCodeBuilder({ orchestrators, onAdd }: ErrorCodeBuilderProps) {
+    const [step, setStep] = useState(0);
+    const [draft, setDraft] = useState<Draft>(EMPTY);
+    const [targetId, setTargetId] = useState(orchestrators[0]?.id ?? "");
+    const [description, setDescription] = useState("");
+    const [added, setAdded] = useState<string | null>(null);
+    const [addError, setAddError] = useState<string | null>(null);
+
+    const order = ERROR_CODE_STANDARD.decisionOrder;
+    const families = draft.area ? ERROR_CODE_STANDARD.families[draft.area] ?? [] : [];
+    const code = [draft.codeClass, draft.area, draft.family, draft.detail].filter(Boolean).join("_");
+    const complete = Boolean(draft.errorType && draft.codeClass && draft.area && draft.family && draft.detail);
+    const httpStatus = httpStatusForErrorType(draft.errorType);
+
+    const violations = useMemo(() => (complete ? lintErrorCode(code, draft.codeClass) : []), [complete, code, draft.codeClass]);
+    const owners = useMemo(() => (complete ? findErrorCodeOwners(code, orchestrators) : []), [complete, code, orchestrators]);
+
+    const choose = (patch: Partial<Draft>) => {
+        // Changing an earlier answer invalidates the answers that depend on it
+        const next = { ...draft, ...patch };
+        if (patch.area !== undefined && patch.area !== draft.area) next.family = "";
+        setDraft(next);
+        setAdded(null);
+        setStep(s => Math.min(s + 1, order.length - 1));
+    };
+
+    const reset = () => {
+        setDraft(EMPTY);
+        setStep(0);
+        setDescription("");
+        setAdded(null);
+        setAddError(null);
+    };
+
+    const handleAdd = async () => {
+        if (!complete || !targetId) return;
+        setAddError(null);
+        try {
+            await onAdd(targetId, {
+                code,
+                category: draft.codeClass as ErrorCodeDef["category"],
+                description: description.trim() || `${draft.errorType} (${httpStatus ?? "?"})`,
+                errorType: draft.errorType,
+                ...(httpStatus !== undefined ? { httpStatus } : {}),
+            });
+            setAdded(targetId);
+        } catch (err: any) {
+            setAddError(err.message || "Save failed");
+        }
+    };
+
+    const answers = [draft.errorType, draft.codeClass, draft.area, draft.family, draft.detail];
+
+    return (
+        <div className="border border-zinc-200 rounded-lg bg-white">
+            <div className="px-4 py-3 border-b border-zinc-100 flex items-center justify-between">
+                <div>
+                    <h4 className="font-semibold text-sm text-zinc-800">Error Code Builder</h4>
+                    <p className="text-xs text-zinc-500 mt-0.5">依判定順序逐步產生符合規範的錯誤碼</p>
+                </div>
+                <button onClick={reset} className="text-xs text-zinc-500 hover:text-zinc-800 flex items-center gap-1">
+                    <Icon name="restart" size={12} /> Reset
+                </button>
+            </div>
+
+            {/* Steps */}
+            <div className="flex border-b border-zinc-100">
+                {order.map((label, i) => (
+                    <button
+                        key={i}
+                        onClick={() => setStep(i)}
+                        disabled={i > 0 && !answers[i - 1]}
+                        className={cn(
+                            "flex-1 px-2 py-2 text-[11px] text-left border-b-2 transition-colors disabled:opacity-40",
+                            step === i ? "border-blue-500 text-blue-700 bg-blue-50/50" : "border-transparent text-zinc-500 hover:bg-zinc-50"
+                        )}
+                    >
+                        <span className="font-bold mr-1">{i + 1}.</span>{label}
+                        {answers[i] && <div className="font-mono text-[10px] text-zinc-700 truncate">{answers[i]}</div>}
+                    </button>
+                ))}
+            </div>
+
+            <div className="p-4">
+                {step === 0 && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                        {ERROR_CODE_STANDARD.errorTypes.map(m => (
+                            <OptionButton key={m.type} selected={draft.errorType === m.type} onClick={() => choose({ errorType: m.type })}>
+                                <span className="font-mono text-blue-600">{m.type}</span>
+                                <span className="text-zinc-400 ml-1">{m.httpStatus}</span>
+                            </OptionButton>
+                        ))}
+                    </div>
+                )}
+
+                {step === 1 && (
+                    <div className="space-y-2">
+                        {ERROR_CODE_STANDARD.codeClasses.map(v => (
+                            <OptionButton key={v.code} selected={draft.codeClass === v.code} onClick={() => choose({ codeClass: v.code })}>
+                                <code className="text-purple-700 mr-2">{v.code}</code>
+                                <span className="text-zinc-600">{v.meaning}</span>
+                            </OptionButton>
+                        ))}
+                    </div>
+                )}
+
+                {step === 2 && (
+                    <div className="space-y-2">
+                        {ERROR_CODE_STANDARD.areas.map(v => (
+                            <OptionButton key={v.code} selected={draft.area === v.code} onClick={() => choose({ area: v.code })}>
+                                <code className="text-purple-700 mr-2">{v.code}</code>
+                                <span className="text-zinc-600">{v.meaning}</span>
+                            </OptionButton>
+                        ))}
+                    </div>
+                )}
+
+                {step === 3 && (
+                    <div className="flex flex-wrap gap-2">
+                        {families.map(f => (
+                            <OptionButton key={f} selected={draft.family === f} onClick={() => choose({ family: f })}>
+                                <span className="font-mono text-purple-700">{f}</span>
+                            </OptionButton>
+                        ))}
+                        {families.length === 0 && <span className="text-xs text-zinc-400">Choose an AREA first.</span>}
+                    </div>
+                )}
+
+                {step === 4 && (
+                    <div className="space-y-2">
+                        <input
+                            value={draft.detail}
+                            onChange={e => { setDraft({ ...draft, detail: normalizeDetail(e.target.value) }); setAdded(null); }}
+                            placeholder="e.g. LOT_NOT_FOUND"
+                            className="w-full px-3 py-1.5 text-sm font-mono border border-zinc-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                        />
+                        <div className="flex flex-wrap gap-1.5">
+                            {ERROR_CODE_STANDARD.detailExamples.map(ex => (
+                                <button
+                                    key={ex}
+                                    onClick={() => { setDraft({ ...draft, detail: ex }); setAdded(null); }}
+                                    className="bg-zinc-100 text-emerald-700 px-2 py-0.5 rounded text-[11px] font-mono hover:bg-zinc-200"
+                                >
+                                    {ex}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* Result */}
+            {complete && (
+                <div className="px-4 pb-4 space-y-3">
+                    <div className="p-3 bg-blue-50 border border-blue-200 rounded flex items-center justify-between">
+                        <code className="text-sm font-mono text-blue-800 break-all">{code}</code>
+                        <span className="text-xs font-mono bg-white border border-blue-200 text-blue-700 px-2 py-0.5 rounded shrink-0 ml-3">
+                            HTTP {httpStatus ?? "?"}
+                        </span>
+                    </div>
+
+                    {violations.map((v, i) => (
+                        <div key={i} className="px-3 py-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-700">
+                            <Icon name="warning" size={14} className="inline text-amber-500" /> {v.sectionTitle}: {v.message}
+                        </div>
+                    ))}
+
+                    {owners.length > 0 && (
+                        <div className="px-3 py-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+                            <Icon name="error" size={14} className="inline" /> Already defined in {owners.map(o => o.id).join(", ")}
+                        </div>
+                    )}
+
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={targetId}
+                            onChange={e => { setTargetId(e.target.value); setAdded(null); }}
+                            className="px-2 py-1.5 text-xs border border-zinc-300 rounded-md bg-white focus:outline-none"
+                        >
+                            {orchestrators.map(o => <option key={o.id} value={o.id}>{o.id}</option>)}
+                        </select>
+                        <input
+                            value={description}
+                            onChange={e => setDescription(e.target.value)}
+                            placeholder="Description"
+                            className="flex-1 px-2 py-1.5 text-xs border border-zinc-300 rounded-md focus:outline-none"
+                        />
+                        <button
+                            onClick={handleAdd}
+                            disabled={!targetId || owners.some(o => o.id === targetId)}
+                            className="px-3 py-1.5 rounded-md text-xs font-semibold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 flex items-center gap-1"
+                        >
+                            <Icon name="plus" size={12} /> Add to orchestrator
+                        </button>
+                    </div>
+                    {added && <div className="text-xs text-green-700"><Icon name="check" size={12} /> Added to {added}.</div>}
+                    {addError && <div className="text-xs text-red-700 whitespace-pre-line"><Icon name="error" size={12} /> {addError}</div>}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function OptionButton({ selected, onClick, children }: { selected: boolean; onClick: () => void; children: React.ReactNode }) {
+    return (
+        <button
+            onClick={onClick}
+            className={cn(
+                "w-full text-left px-3 py-2 rounded border text-xs transition-colors",
+                selected ? "border-blue-300 bg-blue-50" : "border-zinc-200 bg-white hover:border-zinc-300 hover:bg-zinc-50"
+            )}
+        >
+            {children}
+        </button>
+    );
+}
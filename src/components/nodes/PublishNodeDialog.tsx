@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from "react";
+import Icon from "../Icon";
+import { cn, safeJsonParse } from "../../utils";
+import { NodeConfig } from "../../types";
+import { useNodes } from "../../nodes";
+import { useOrchestrators } from "../../orchestrators";
+import { bumpVersion } from "../../utils/schemaCompat";
+import { findNode } from "../../utils/nodeRegistry";
+import { contractImpact } from "../../utils/changeImpact";
+import ChangeImpactView from "../orchestrator/ChangeImpactView";
+
+const inputCls = "w-full mt-1 px-3 py-2 border border-stone-300 rounded-lg text-sm disabled:bg-stone-100 disabled:text-stone-400";
+const labelCls = "text-xs font-semibold text-stone-500";
+
+function pretty(v: unknown) {
+    return JSON.stringify(v ?? {}, null, 2);
+}
+
+/** Publishes a new node, or — given `base` — a new version of an existing one. */
+export default function PublishNodeDialog({ base, onPublished, onClose }: { base?: NodeConfig; onPublished: (node: NodeConfig) => void; onClose: () => void }) {
+    const { nodes, publish } = useNodes();
+    const { orchestrators } = useOrchestrators();
+    const [draft, setDraft] = useState(() => ({
+        id: base?.id ?? "",
+        nodeType: base?.nodeType ?? "",
+        owner: base?.owner ?? "",
+        version: base ? bumpVersion(base.version, "minor") : "1.0.0",
+        description: base?.description ?? "",
+        inputSchema: pretty(base?.inputSchema ?? { type: "object", properties: {} }),
+        outputSchema: pretty(base?.outputSchema ?? { type: "object", properties: {} }),
+    }));
+    const [errors, setErrors] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    const set = (key: keyof typeof draft, value: string) => setDraft(d => ({ ...d, [key]: value }));
+    const nodeTypes = Array.from(new Set(nodes.map(n => n.nodeType)));
+
+    // What moving each group of registry consumers from its version to this one would do
+    const impacts = useMemo(() => {
+        if (!base) return [];
+        const next = { inputSchema: safeJsonParse<unknown>(draft.inputSchema), outputSchema: safeJsonParse<unknown>(draft.outputSchema) };
+        if (next.inputSchema === null || next.outputSchema === null) return [];
+        const byVersion = new Map<string, typeof orchestrators>();
+        for (const o of orchestrators) {
+            const version = o.nodeContracts.find(c => c.nodeId === base.id)?.version;
+            if (version) byVersion.set(version, [...(byVersion.get(version) ?? []), o]);
+        }
+        return Array.from(byVersion.entries()).flatMap(([version, users]) => {
+            const from = findNode(nodes, base.id, version);
+            return from ? [{ version, users, impact: contractImpact(base.id, from, next, users) }] : [];
+        });
+    }, [base, draft.inputSchema, draft.outputSchema, orchestrators, nodes]);
+
+    const handlePublish = async () => {
+        const problems: string[] = [];
+        const parse = (text: string, path: string) => {
+            try {
+                return JSON.parse(text);
+            } catch (e: any) {
+                problems.push(`${path}: invalid JSON (${e.message})`);
+                return {};
+            }
+        };
+        const node: NodeConfig = {
+            id: draft.id.trim(),
+            nodeType: draft.nodeType.trim(),
+            owner: draft.owner.trim(),
+            version: draft.version.trim(),
+            description: draft.description,
+            inputSchema: parse(draft.inputSchema, "inputSchema"),
+            outputSchema: parse(draft.outputSchema, "outputSchema"),
+        };
+        setErrors(problems);
+        if (problems.length) return;
+        setSaving(true);
+        try {
+            onPublished(await publish(node));
+        } catch (e: any) {
+            setErrors(e.message.split("\n"));
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 overflow-y-auto py-8">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl mx-4 my-auto">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-stone-200">
+                    <h2 className="text-xl font-bold text-stone-800">{base ? `New version of ${base.id}` : "Publish node"}</h2>
+                    <button onClick={onClose} className="text-stone-400 hover:text-stone-600 text-2xl leading-none">&times;</button>
+                </div>
+
+                <div className="px-6 py-4 space-y-4 max-h-[70vh] overflow-y-auto">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <label className="block">
+                            <span className={labelCls}>Node ID *</span>
+                            <input value={draft.id} onChange={e => set("id", e.target.value)} disabled={!!base} placeholder="node-query-lot" className={cn(inputCls, "font-mono")} />
+                        </label>
+                        <label className="block">
+                            <span className={labelCls}>Version *</span>
+                            <input value={draft.version} onChange={e => set("version", e.target.value)} className={cn(inputCls, "font-mono")} />
+                        </label>
+                        <label className="block">
+                            <span className={labelCls}>Type *</span>
+                            <input value={draft.nodeType} onChange={e => set("nodeType", e.target.value)} list="node-types" placeholder="service-call" className={inputCls} />
+                            <datalist id="node-types">
+                                {nodeTypes.map(t => <option key={t} value={t} />)}
+                            </datalist>
+                        </label>
+                        <label className="block">
+                            <span className={labelCls}>Owner *</span>
+                            <input value={draft.owner} onChange={e => set("owner", e.target.value)} className={inputCls} />
+                        </label>
+                    </div>
+                    <label className="block">
+                        <span className={labelCls}>Description</span>
+                        <input value={draft.description} onChange={e => set("description", e.target.value)} className={inputCls} />
+                    </label>
+                    <div className="grid grid-cols-2 gap-4">
+                        {(["inputSchema", "outputSchema"] as const).map(key => (
+                            <label key={key} className="block">
+                                <span className={labelCls}>{key === "inputSchema" ? "Input" : "Output"} Schema (JSON)</span>
+                                <textarea value={draft[key]} onChange={e => set(key, e.target.value)} rows={12} className={cn(inputCls, "font-mono text-xs")} />
+                            </label>
+                        ))}
+                    </div>
+
+                    {impacts.length > 0 && (
+                        <div className="space-y-3">
+                            <div className={labelCls}>Change impact on orchestrators that reference {base!.id}</div>
+                            {impacts.map(({ version, users, impact }) => (
+                                <ChangeImpactView
+                                    key={version}
+                                    impact={impact}
+                                    title={<span>From <span className="font-mono">@{version}</span> ({users.length} orchestrator{users.length === 1 ? "" : "s"})</span>}
+                                />
+                            ))}
+                        </div>
+                    )}
+
+                    {errors.length > 0 && (
+                        <div className="bg-red-50 border border-red-200 text-red-700 text-sm px-4 py-2 rounded-lg">
+                            {errors.map((e, i) => <div key={i}>{e}</div>)}
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-stone-200 bg-stone-50/50 rounded-b-2xl">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-bold bg-stone-100 text-stone-600 border border-stone-300 hover:bg-stone-200 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handlePublish}
+                        disabled={saving}
+                        className="px-6 py-2 rounded-lg text-sm font-bold bg-orange-500 text-white border border-orange-600 hover:bg-orange-600 transition-colors disabled:opacity-50"
+                    >
+                        <Icon name="save" size={14} /> {saving ? "Publishing…" : "Publish"}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
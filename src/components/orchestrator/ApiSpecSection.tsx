@@ -1,6 +1,103 @@
-import React from "react";
+import React, { useMemo, useState } from "react";
 import { Orchestrator } from "../../types";
-import { Card, CodeBlock } from "../ui/shared";
+import { Card, CodeBlock, cn } from "../ui/shared";
+import Icon from "../Icon";
+import { isEmptySchema, JsonSchema, SchemaViolation, validateJson } from "../../utils/jsonSchema";
+import JsonSchemaViewer from "./JsonSchemaViewer";
+
+function ViolationList({ violations }: { violations: SchemaViolation[] }) {
+    return (
+        <ul className="mt-2 space-y-1">
+            {violations.map((v, i) => (
+                <li key={i} className="flex items-start gap-2 text-xs">
+                    <span className={cn(
+                        "font-mono px-1 rounded shrink-0",
+                        v.severity === "error" ? "bg-red-50 text-red-700" : "bg-amber-50 text-amber-700"
+                    )}>
+                        {v.path}
+                    </span>
+                    <span className="text-zinc-700">{v.message}</span>
+                    <span className="font-mono text-zinc-400 shrink-0 ml-auto">{v.keyword}</span>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+/** Conformance of a bundled example against its schema. */
+function ExampleCheck({ example, schema }: { example: unknown; schema: JsonSchema | undefined }) {
+    if (!schema || isEmptySchema(schema)) {
+        return <div className="mt-2 text-xs text-zinc-400">No schema to check the example against.</div>;
+    }
+    const violations = validateJson(example, schema, { flagUndeclared: true });
+    if (violations.length === 0) {
+        return <div className="mt-2 text-xs text-green-700 flex items-center gap-1"><Icon name="check" size={12} /> Example conforms to the schema.</div>;
+    }
+    const errors = violations.filter(v => v.severity === "error").length;
+    return (
+        <div className="mt-2">
+            <div className={cn("text-xs font-semibold flex items-center gap-1", errors ? "text-red-700" : "text-amber-700")}>
+                <Icon name={errors ? "error" : "warning"} size={12} />
+                {errors ? `Example violates the schema (${errors} error${errors > 1 ? "s" : ""})` : "Example drifts from the schema"}
+            </div>
+            <ViolationList violations={violations} />
+        </div>
+    );
+}
+
+/** Editable request payload, validated live against requestSchema. */
+function TryItPanel({ spec }: { spec: Orchestrator["apiSpec"] }) {
+    const initial = JSON.stringify(spec.requestExample ?? {}, null, 2);
+    const [text, setText] = useState(initial);
+
+    const result = useMemo(() => {
+        let payload: unknown;
+        try {
+            payload = JSON.parse(text);
+        } catch (e: any) {
+            return { parseError: e.message as string, violations: [] as SchemaViolation[] };
+        }
+        return { parseError: null, violations: validateJson(payload, spec.requestSchema, { flagUndeclared: true }) };
+    }, [text, spec.requestSchema]);
+
+    const errors = result.violations.filter(v => v.severity === "error").length;
+    const format = () => {
+        try {
+            setText(JSON.stringify(JSON.parse(text), null, 2));
+        } catch { /* leave as typed; the parse error is already shown */ }
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-semibold text-zinc-800">Try it — Request Payload</span>
+                <div className="flex gap-2 text-xs">
+                    <button onClick={format} className="px-2 py-0.5 rounded border border-zinc-300 text-zinc-600 hover:bg-zinc-50">Format</button>
+                    <button onClick={() => setText(initial)} className="px-2 py-0.5 rounded border border-zinc-300 text-zinc-600 hover:bg-zinc-50">Reset to example</button>
+                </div>
+            </div>
+            <textarea
+                value={text}
+                onChange={e => setText(e.target.value)}
+                spellCheck={false}
+                rows={Math.min(18, Math.max(6, text.split("\n").length + 1))}
+                className={cn(
+                    "w-full rounded-xl border bg-zinc-950 p-3 font-mono text-xs text-zinc-100 focus:outline-none focus:ring-2",
+                    result.parseError || errors ? "border-red-400 focus:ring-red-500/30" : "border-zinc-200 focus:ring-blue-500/20"
+                )}
+            />
+            {result.parseError ? (
+                <div className="mt-1 text-xs text-red-700 font-mono">JSON: {result.parseError}</div>
+            ) : isEmptySchema(spec.requestSchema) ? (
+                <div className="mt-1 text-xs text-zinc-400">Valid JSON. No request schema to validate against.</div>
+            ) : result.violations.length === 0 ? (
+                <div className="mt-1 text-xs text-green-700 flex items-center gap-1"><Icon name="check" size={12} /> Payload is valid against requestSchema.</div>
+            ) : (
+                <ViolationList violations={result.violations} />
+            )}
+        </div>
+    );
+}
 
 export default function ApiSpecSection({ spec }: { spec: Orchestrator["apiSpec"] }) {
     if (!spec) return null;
@@ -19,16 +116,31 @@ export default function ApiSpecSection({ spec }: { spec: Orchestrator["apiSpec"]
                     </div>
                 </div>
 
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    <div>
+                        <span className="text-sm font-semibold text-zinc-800 block mb-2">Request Schema</span>
+                        <JsonSchemaViewer schema={spec.requestSchema} />
+                    </div>
+                    <div>
+                        <span className="text-sm font-semibold text-zinc-800 block mb-2">Response Schema</span>
+                        <JsonSchemaViewer schema={spec.responseSchema} />
+                    </div>
+                </div>
+
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
                     <div>
                         <span className="text-sm font-semibold text-zinc-800 block mb-2">Request Example Payload</span>
                         <CodeBlock text={JSON.stringify(spec.requestExample, null, 2)} />
+                        <ExampleCheck example={spec.requestExample} schema={spec.requestSchema} />
                     </div>
                     <div>
                         <span className="text-sm font-semibold text-zinc-800 block mb-2">Response Example Payload</span>
                         <CodeBlock text={JSON.stringify(spec.responseExample, null, 2)} />
+                        <ExampleCheck example={spec.responseExample} schema={spec.responseSchema} />
                     </div>
                 </div>
+
+                <TryItPanel key={spec.endpoint} spec={spec} />
             </div>
         </Card>
     );
@@ -0,0 +1,73 @@
+import React from "react";
+import Icon from "../Icon";
+import { cn } from "../../utils";
+import { ContractImpact, ImpactKind } from "../../utils/changeImpact";
+import { LEVEL_CLASSES, LEVEL_ORDER } from "./CompatibilityReportView";
+
+const KIND_LABELS: Record<ImpactKind, string> = {
+    step: "runs node",
+    downstream: "downstream",
+    test: "test target",
+};
+
+/** Impact report for one node contract edit: the classified schema changes and everything that consumes them. */
+export default function ChangeImpactView({ impact, title }: { impact: ContractImpact; title?: React.ReactNode }) {
+    const changes = LEVEL_ORDER.flatMap(level => impact.changes.filter(c => c.level === level));
+    const broken = impact.items.filter(i => !i.compatible).length;
+
+    return (
+        <div className="space-y-2 text-xs">
+            <div className={cn("flex flex-wrap items-center gap-2 px-3 py-2 rounded-lg border", impact.breaking ? "bg-red-50 border-red-200 text-red-800" : "bg-green-50 border-green-200 text-green-800")}>
+                <Icon name={impact.breaking ? "warning" : "check"} size={12} />
+                <span>
+                    {title ?? <span className="font-mono">{impact.nodeId}</span>}: {changes.length} schema change{changes.length === 1 ? "" : "s"} ({impact.required ?? "none"})
+                    {" — "}
+                    {impact.items.length === 0 ? "no consumers found" : broken ? `${broken} of ${impact.items.length} affected items likely to break` : `all ${impact.items.length} affected items stay compatible`}.
+                </span>
+            </div>
+
+            {changes.length > 0 && (
+                <ul className="space-y-0.5 pl-1">
+                    {changes.map((c, i) => (
+                        <li key={i} className="flex items-start gap-2">
+                            <span className={cn("px-1.5 rounded border text-[10px] uppercase font-semibold shrink-0", LEVEL_CLASSES[c.level])}>{c.breaking ? "breaking" : c.level}</span>
+                            <span className="text-zinc-500 w-14 shrink-0">{c.direction === "request" ? "input" : "output"}</span>
+                            <span className="font-mono text-zinc-800">{c.jsonPath}</span>
+                            <span className="text-zinc-600">{c.message}<span className="text-zinc-400"> — {c.reason}</span></span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {impact.items.length > 0 && (
+                <table className="w-full">
+                    <thead>
+                        <tr className="text-left text-zinc-400">
+                            <th className="py-1 pr-2 font-medium">Verdict</th>
+                            <th className="py-1 pr-2 font-medium">Kind</th>
+                            <th className="py-1 pr-2 font-medium">Where</th>
+                            <th className="py-1 font-medium">Why</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-zinc-100">
+                        {impact.items.map((it, i) => (
+                            <tr key={i} className="align-top">
+                                <td className="py-1 pr-2 whitespace-nowrap">
+                                    {it.compatible
+                                        ? <span className="text-green-700 flex items-center gap-1"><Icon name="check" size={12} /> compatible</span>
+                                        : <span className="text-red-700 flex items-center gap-1"><Icon name="error" size={12} /> breaks</span>}
+                                </td>
+                                <td className="py-1 pr-2 text-zinc-500 whitespace-nowrap">{KIND_LABELS[it.kind]}</td>
+                                <td className="py-1 pr-2">
+                                    <div className="font-mono text-zinc-800">{it.orchestratorId} · {it.ref}</div>
+                                    <div className="text-zinc-500">{it.text}</div>
+                                </td>
+                                <td className="py-1 text-zinc-600">{it.why.join("; ")}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
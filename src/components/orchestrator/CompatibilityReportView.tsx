@@ -0,0 +1,65 @@
+import React from "react";
+import Icon from "../Icon";
+import { cn } from "../../utils";
+import { bumpVersion, ChangeLevel, CompatibilityReport } from "../../utils/schemaCompat";
+
+export const LEVEL_CLASSES: Record<ChangeLevel, string> = {
+    major: "bg-red-50 text-red-700 border-red-200",
+    minor: "bg-amber-50 text-amber-700 border-amber-200",
+    patch: "bg-zinc-50 text-zinc-600 border-zinc-200",
+};
+export const LEVEL_ORDER: ChangeLevel[] = ["major", "minor", "patch"];
+
+/** Schema compatibility between two versions: the bump it calls for, and every classified change. */
+export default function CompatibilityReportView({ report, onApplyBump }: { report: CompatibilityReport; onApplyBump?: (version: string) => void }) {
+    if (!report.required) {
+        return <div className="text-xs text-zinc-500 flex items-center gap-1"><Icon name="check" size={12} /> API schemas unchanged since {report.fromVersion}.</div>;
+    }
+    const suggested = bumpVersion(report.fromVersion, report.required);
+    const changes = LEVEL_ORDER.flatMap(level => report.changes.filter(c => c.level === level));
+    const breaking = changes.filter(c => c.breaking).length;
+
+    return (
+        <div className="space-y-2 text-xs">
+            <div className={cn("flex flex-wrap items-center gap-2 px-3 py-2 rounded-lg border", report.ok ? "bg-green-50 border-green-200 text-green-800" : "bg-red-50 border-red-200 text-red-800")}>
+                <Icon name={report.ok ? "check" : "warning"} size={12} />
+                <span>
+                    {breaking > 0 ? `${breaking} breaking change${breaking === 1 ? "" : "s"}` : "No breaking changes"} since {report.fromVersion} — needs
+                    a <b>{report.required}</b> bump ({suggested} or later); version is <span className="font-mono">{report.toVersion}</span>.
+                </span>
+                {!report.ok && onApplyBump && (
+                    <button onClick={() => onApplyBump(suggested)} className="ml-auto px-2 py-0.5 rounded border border-red-300 bg-white hover:bg-red-100 font-semibold">
+                        Set {suggested}
+                    </button>
+                )}
+            </div>
+            <table className="w-full">
+                <thead>
+                    <tr className="text-left text-zinc-400">
+                        <th className="py-1 pr-2 font-medium">Level</th>
+                        <th className="py-1 pr-2 font-medium">Side</th>
+                        <th className="py-1 pr-2 font-medium">JSON path</th>
+                        <th className="py-1 font-medium">Change</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-100">
+                    {changes.map((c, i) => (
+                        <tr key={i} className="align-top">
+                            <td className="py-1 pr-2">
+                                <span className={cn("px-1.5 py-0.5 rounded border text-[10px] uppercase font-semibold", LEVEL_CLASSES[c.level])}>
+                                    {c.breaking ? "breaking" : c.level}
+                                </span>
+                            </td>
+                            <td className="py-1 pr-2 text-zinc-500">{c.direction}</td>
+                            <td className="py-1 pr-2 font-mono text-zinc-800">{c.jsonPath}</td>
+                            <td className="py-1 text-zinc-700">
+                                {c.message}
+                                <span className="text-zinc-400"> — {c.reason}</span>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
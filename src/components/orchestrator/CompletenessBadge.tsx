@@ -0,0 +1,16 @@
+import React from "react";
+import { cn } from "../ui/shared";
+
+export function completenessTone(score: number) {
+    if (score >= 80) return "bg-green-50 text-green-700 border-green-200";
+    if (score >= 50) return "bg-amber-50 text-amber-700 border-amber-200";
+    return "bg-red-50 text-red-700 border-red-200";
+}
+
+export default function CompletenessBadge({ score, title }: { score: number; title?: string }) {
+    return (
+        <span title={title} className={cn("inline-block rounded-full border px-2 py-0.5 text-[10px] font-semibold tabular-nums", completenessTone(score))}>
+            {score}%
+        </span>
+    );
+}
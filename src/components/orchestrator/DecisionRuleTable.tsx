@@ -1,8 +1,136 @@
-import React from "react";
-import { DecisionRule } from "../../types";
-import { Card } from "../ui/shared";
+import React, { useMemo, useState } from "react";
+import { Orchestrator } from "../../types";
+import { Card, cn } from "../ui/shared";
+import Icon from "../Icon";
+import { checkDecisionRules, factVocabulary, Facts, parseFactValue, RuleCheck, simulateRules } from "../../utils/ruleExpr";
+
+type FactRow = { field: string; value: string };
+
+function initialFacts(checks: RuleCheck[]): FactRow[] {
+    const fields = Array.from(new Set(checks.flatMap(c => c.fields)));
+    return fields.map(field => ({ field, value: "" }));
+}
+
+function WhatIfSimulator({ checks }: { checks: RuleCheck[] }) {
+    const [rows, setRows] = useState<FactRow[]>(() => initialFacts(checks));
+
+    const facts = useMemo(() => {
+        // Prototype-less objects, so a field such as `__proto__.x` stays an ordinary key
+        const out: Facts = Object.create(null);
+        for (const row of rows) {
+            const path = row.field.trim().split(".").filter(Boolean);
+            // Blank values are left out so the rule sees the field as missing
+            if (path.length === 0 || row.value.trim() === "") continue;
+            let target = out;
+            for (const key of path.slice(0, -1)) {
+                if (typeof target[key] !== "object" || target[key] === null) target[key] = Object.create(null);
+                target = target[key] as Facts;
+            }
+            target[path[path.length - 1]] = parseFactValue(row.value);
+        }
+        return out;
+    }, [rows]);
+
+    const result = useMemo(() => simulateRules(checks, facts), [checks, facts]);
+
+    const update = (idx: number, patch: Partial<FactRow>) => setRows(rows.map((r, i) => (i === idx ? { ...r, ...patch } : r)));
+
+    return (
+        <div className="mt-6 border-t border-zinc-200 pt-4">
+            <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-semibold text-zinc-800">What-if Simulator</h4>
+                <button onClick={() => setRows(initialFacts(checks))} className="text-xs text-zinc-500 hover:text-zinc-800">Reset</button>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                    <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Facts</div>
+                    <div className="space-y-1.5">
+                        {rows.map((row, idx) => (
+                            <div key={idx} className="flex items-center gap-2">
+                                <input
+                                    value={row.field}
+                                    onChange={e => update(idx, { field: e.target.value })}
+                                    placeholder="field"
+                                    className="w-40 px-2 py-1 text-xs font-mono border border-zinc-300 rounded"
+                                />
+                                <span className="text-zinc-400 text-xs">=</span>
+                                <input
+                                    value={row.value}
+                                    onChange={e => update(idx, { value: e.target.value })}
+                                    placeholder="(missing)"
+                                    className="flex-1 px-2 py-1 text-xs font-mono border border-zinc-300 rounded"
+                                />
+                                <button onClick={() => setRows(rows.filter((_, i) => i !== idx))} className="text-zinc-400 hover:text-red-600">
+                                    <Icon name="cross" size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => setRows([...rows, { field: "", value: "" }])}
+                        className="mt-2 text-xs font-semibold text-blue-600 hover:text-blue-800"
+                    >
+                        + Add fact
+                    </button>
+                    <p className="mt-2 text-[10px] text-zinc-400">
+                        Values are read as JSON literals when they parse (3, true, null, "UP") and as plain text otherwise. Blank values are treated as missing.
+                    </p>
+                </div>
+
+                <div>
+                    <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Evaluation (in order)</div>
+                    <ol className="space-y-1.5">
+                        {result.outcomes.map((o, idx) => {
+                            const deciding = result.decidingRule === o.rule;
+                            const shadowed = o.status === "fired" && !deciding;
+                            return (
+                                <li
+                                    key={o.rule.ruleId}
+                                    className={cn(
+                                        "flex items-center gap-2 text-xs rounded px-2 py-1.5 border",
+                                        deciding ? "border-red-200 bg-red-50" : "border-zinc-100"
+                                    )}
+                                >
+                                    <span className="text-zinc-400 w-4">{idx + 1}</span>
+                                    <span className="font-mono text-zinc-700">{o.rule.ruleId}</span>
+                                    <span className={cn(
+                                        "rounded-full px-2 py-0.5 text-[10px] font-semibold",
+                                        o.status === "fired" ? "bg-red-100 text-red-700" : o.status === "passed" ? "bg-green-100 text-green-700" : "bg-zinc-100 text-zinc-500"
+                                    )}>
+                                        {o.status === "fired" ? "fires" : o.status === "passed" ? "passes" : "not evaluated"}
+                                    </span>
+                                    {shadowed && <span className="text-[10px] text-zinc-400">(also fires, after the deciding rule)</span>}
+                                    {o.rule.errorCode && o.status === "fired" && (
+                                        <span className="ml-auto font-mono text-[10px] text-red-600">{o.rule.errorCode}</span>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                    <div className="mt-3 text-sm">
+                        {result.decidingRule ? (
+                            <div className="flex items-center gap-2 text-red-700">
+                                <Icon name="error" size={14} />
+                                <span>
+                                    {result.decidingRule.then} — <span className="font-mono font-semibold">{result.errorCode ?? "(no error code)"}</span>
+                                </span>
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2 text-green-700">
+                                <Icon name="check" size={14} /> No rule fires — the request passes.
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export default function DecisionRuleTable({ orch }: { orch: Orchestrator }) {
+    const rules = orch.decisionRules;
+    const checks = useMemo(() => checkDecisionRules(rules, factVocabulary(orch)), [orch, rules]);
 
-export default function DecisionRuleTable({ rules }: { rules: DecisionRule[] }) {
     if (!rules || rules.length === 0) return null;
 
     return (
@@ -19,11 +147,23 @@ export default function DecisionRuleTable({ rules }: { rules: DecisionRule[] })
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-zinc-100 text-zinc-700">
-                        {rules.map((rule) => (
+                        {checks.map(({ rule, error, unknownFields }) => (
                             <tr key={rule.ruleId} className="hover:bg-zinc-50/50 transition-colors">
                                 <td className="px-4 py-3 font-mono text-xs">{rule.ruleId}</td>
                                 <td className="px-4 py-3 truncate max-w-[200px]">{rule.description}</td>
-                                <td className="px-4 py-3 font-mono text-xs bg-zinc-50 rounded text-blue-700">{rule.when}</td>
+                                <td className="px-4 py-3 font-mono text-xs bg-zinc-50 rounded text-blue-700">
+                                    {rule.when}
+                                    {error && (
+                                        <div className="mt-1 text-[10px] text-red-600 flex items-center gap-1">
+                                            <Icon name="error" size={10} /> col {error.column}: {error.message}
+                                        </div>
+                                    )}
+                                    {unknownFields.length > 0 && (
+                                        <div className="mt-1 text-[10px] text-amber-700 flex items-center gap-1" title="Not found in the API schemas, examples or node contracts">
+                                            <Icon name="warning" size={10} /> unknown field{unknownFields.length > 1 ? "s" : ""}: {unknownFields.join(", ")}
+                                        </div>
+                                    )}
+                                </td>
                                 <td className="px-4 py-3">{rule.then}</td>
                                 <td className="px-4 py-3">
                                     {rule.errorCode ? (
@@ -37,6 +177,8 @@ export default function DecisionRuleTable({ rules }: { rules: DecisionRule[] })
                     </tbody>
                 </table>
             </div>
+
+            <WhatIfSimulator key={orch.id} checks={checks} />
         </Card>
     );
 }
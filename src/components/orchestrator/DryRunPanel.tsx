@@ -0,0 +1,247 @@
+import React, { useState } from "react";
+import { Orchestrator } from "../../types";
+import { Card, CodeBlock, cn } from "../ui/shared";
+import Icon from "../Icon";
+import { dryRunOrchestrator, DryRunResult, DryRunStepTrace, NodeFixture } from "../../utils/dryRun";
+
+type FixtureMode = "contract" | "output" | "fail";
+type FixtureDraft = { mode: FixtureMode; output: string; code: string; times: string };
+
+const EMPTY_FIXTURE: FixtureDraft = { mode: "contract", output: "{}", code: "", times: "" };
+
+const STATUS_STYLES: Record<DryRunStepTrace["status"], string> = {
+    ok: "bg-green-100 text-green-700",
+    failed: "bg-red-100 text-red-700",
+    skipped: "bg-zinc-100 text-zinc-500",
+};
+
+function StepTrace({ trace }: { trace: DryRunStepTrace }) {
+    const [open, setOpen] = useState(trace.status === "failed");
+    const retried = trace.attempts.length > 1;
+
+    return (
+        <div className={cn("border rounded-lg", trace.status === "failed" ? "border-red-200" : "border-zinc-200")}>
+            <button onClick={() => setOpen(!open)} className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs hover:bg-zinc-50">
+                <span className={cn("rounded-full px-2 py-0.5 text-[10px] font-semibold", STATUS_STYLES[trace.status])}>{trace.status}</span>
+                <span className="font-mono text-zinc-500">{trace.step.stepId}</span>
+                <span className="font-mono font-semibold text-zinc-800">{trace.step.nodeId}</span>
+                {retried && <span className="text-amber-700">{trace.attempts.length} attempts</span>}
+                {trace.rules.some(r => r.fired) && <span className="text-red-600 font-semibold">rule fired</span>}
+                {trace.outputSource && trace.status !== "skipped" && (
+                    <span className="ml-auto text-[10px] text-zinc-400">output: {trace.outputSource}</span>
+                )}
+            </button>
+            {open && trace.status !== "skipped" && (
+                <div className="border-t border-zinc-100 p-3 space-y-3">
+                    {retried && (
+                        <ol className="space-y-0.5 text-xs">
+                            {trace.attempts.map(a => (
+                                <li key={a.attempt} className="flex items-center gap-2">
+                                    <Icon name={a.ok ? "check" : "cross"} size={10} />
+                                    <span className="text-zinc-600">attempt {a.attempt}</span>
+                                    {a.delayMs > 0 && <span className="text-zinc-400">after {a.delayMs} ms backoff</span>}
+                                    {a.error && <span className="font-mono text-red-600">{a.error}</span>}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                    {trace.error && !retried && <div className="text-xs font-mono text-red-600">{trace.error.code}: {trace.error.message}</div>}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                            <div className="text-[10px] font-semibold text-zinc-400 uppercase tracking-wider mb-1">Input</div>
+                            <CodeBlock text={JSON.stringify(trace.input ?? null, null, 2)} />
+                        </div>
+                        <div>
+                            <div className="text-[10px] font-semibold text-zinc-400 uppercase tracking-wider mb-1">Output</div>
+                            <CodeBlock text={trace.output === undefined ? "(none)" : JSON.stringify(trace.output, null, 2)} />
+                        </div>
+                    </div>
+                    {trace.rules.length > 0 && (
+                        <ul className="space-y-0.5 text-xs">
+                            {trace.rules.map(r => (
+                                <li key={r.ruleId} className="flex items-center gap-2">
+                                    <span className="font-mono text-zinc-600">{r.ruleId}</span>
+                                    <span className="font-mono text-blue-700">{r.when}</span>
+                                    <span className={r.fired ? "text-red-600 font-semibold" : "text-green-700"}>{r.fired ? `fires → ${r.errorCode ?? "(no code)"}` : "passes"}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function ResultView({ result }: { result: DryRunResult }) {
+    const tone = result.outcome === "success" ? "green" : result.outcome === "rejected" ? "amber" : "red";
+    return (
+        <div className="space-y-3">
+            <div className={cn(
+                "flex flex-wrap items-center gap-3 rounded-lg border px-3 py-2 text-sm",
+                tone === "green" && "border-green-200 bg-green-50 text-green-800",
+                tone === "amber" && "border-amber-200 bg-amber-50 text-amber-800",
+                tone === "red" && "border-red-200 bg-red-50 text-red-800"
+            )}>
+                <span className="font-semibold uppercase text-xs tracking-wider">{result.outcome}</span>
+                <span className="font-mono">HTTP {result.response.status}</span>
+                {result.error && <span className="font-mono font-semibold">{result.error.code}</span>}
+                {result.error && <span className="text-xs">({result.error.kind})</span>}
+                <span className="ml-auto text-xs opacity-70">{result.elapsedMs} ms simulated</span>
+            </div>
+
+            {result.requestViolations.length > 0 && (
+                <ul className="text-xs space-y-0.5">
+                    {result.requestViolations.map((v, i) => (
+                        <li key={i}><span className="font-mono text-red-700">{v.path}</span> <span className="text-zinc-600">{v.message}</span></li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="space-y-1.5">
+                {result.steps.map(t => <StepTrace key={t.step.stepId} trace={t} />)}
+            </div>
+
+            {result.unresolvedRules.length > 0 && (
+                <div className="text-xs text-amber-700 space-y-0.5">
+                    {result.unresolvedRules.map(r => (
+                        <div key={r.ruleId} className="flex items-center gap-1">
+                            <Icon name="warning" size={10} /> <span className="font-mono">{r.ruleId}</span> not evaluated — missing {r.missing.join(", ")}
+                        </div>
+                    ))}
+                </div>
+            )}
+            {result.notes.map((n, i) => <div key={i} className="text-xs text-zinc-500">{n}</div>)}
+
+            <div>
+                <div className="text-[10px] font-semibold text-zinc-400 uppercase tracking-wider mb-1">Final Response</div>
+                <CodeBlock text={JSON.stringify(result.response.body, null, 2)} />
+            </div>
+        </div>
+    );
+}
+
+export default function DryRunPanel({ orch }: { orch: Orchestrator }) {
+    const nodeIds = Array.from(new Set(orch.flowSteps.map(s => s.nodeId)));
+    const [requestText, setRequestText] = useState(() => JSON.stringify(orch.apiSpec.requestExample ?? {}, null, 2));
+    const [fixtures, setFixtures] = useState<Record<string, FixtureDraft>>({});
+    const [result, setResult] = useState<DryRunResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    if (orch.flowSteps.length === 0) return null;
+
+    const fixtureFor = (nodeId: string) => fixtures[nodeId] ?? EMPTY_FIXTURE;
+    const updateFixture = (nodeId: string, patch: Partial<FixtureDraft>) =>
+        setFixtures({ ...fixtures, [nodeId]: { ...fixtureFor(nodeId), ...patch } });
+
+    const run = () => {
+        setError(null);
+        try {
+            const request = JSON.parse(requestText);
+            const built: Record<string, NodeFixture> = {};
+            for (const [nodeId, f] of Object.entries(fixtures)) {
+                if (f.mode === "output") {
+                    try {
+                        built[nodeId] = { output: JSON.parse(f.output) };
+                    } catch (e: any) {
+                        throw new Error(`${nodeId} fixture: ${e.message}`);
+                    }
+                } else if (f.mode === "fail") {
+                    const times = f.times.trim() ? Number(f.times) : undefined;
+                    built[nodeId] = { fail: { code: f.code.trim() || undefined, times: Number.isFinite(times) ? times : undefined } };
+                }
+            }
+            setResult(dryRunOrchestrator(orch, { request, fixtures: built }));
+        } catch (e: any) {
+            setResult(null);
+            setError(e.message);
+        }
+    };
+
+    return (
+        <Card
+            title="Dry Run"
+            right={
+                <button onClick={run} className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 flex items-center gap-1.5">
+                    <Icon name="restart" size={12} /> Run
+                </button>
+            }
+        >
+            <p className="text-xs text-zinc-500 mb-4">
+                Walks the flow steps against mocked node outputs, applies the decision rules and the error policy. Nothing is called; backoff time is simulated.
+            </p>
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                <div className="space-y-4">
+                    <div>
+                        <div className="text-sm font-semibold text-zinc-800 mb-2">Request</div>
+                        <textarea
+                            value={requestText}
+                            onChange={e => setRequestText(e.target.value)}
+                            spellCheck={false}
+                            rows={6}
+                            className="w-full rounded-xl border border-zinc-200 bg-zinc-950 p-3 font-mono text-xs text-zinc-100 focus:outline-none"
+                        />
+                    </div>
+                    <div>
+                        <div className="text-sm font-semibold text-zinc-800 mb-2">Node Fixtures</div>
+                        <div className="space-y-2">
+                            {nodeIds.map(nodeId => {
+                                const f = fixtureFor(nodeId);
+                                const step = orch.flowSteps.find(s => s.nodeId === nodeId)!;
+                                return (
+                                    <div key={nodeId} className="border border-zinc-200 rounded-lg p-2">
+                                        <div className="flex items-center gap-2">
+                                            <span className="font-mono text-xs font-semibold text-zinc-800 flex-1 truncate">{nodeId}</span>
+                                            <select
+                                                value={f.mode}
+                                                onChange={e => updateFixture(nodeId, { mode: e.target.value as FixtureMode })}
+                                                className="px-2 py-0.5 text-xs border border-zinc-300 rounded bg-white"
+                                            >
+                                                <option value="contract">From contract</option>
+                                                <option value="output">Fixture output</option>
+                                                <option value="fail">Fail</option>
+                                            </select>
+                                        </div>
+                                        {f.mode === "output" && (
+                                            <textarea
+                                                value={f.output}
+                                                onChange={e => updateFixture(nodeId, { output: e.target.value })}
+                                                spellCheck={false}
+                                                rows={3}
+                                                className="mt-2 w-full rounded border border-zinc-300 p-2 font-mono text-xs"
+                                            />
+                                        )}
+                                        {f.mode === "fail" && (
+                                            <div className="mt-2 flex gap-2">
+                                                <input
+                                                    value={f.code}
+                                                    onChange={e => updateFixture(nodeId, { code: e.target.value })}
+                                                    placeholder={step.onError || "error code"}
+                                                    className="flex-1 px-2 py-1 text-xs font-mono border border-zinc-300 rounded"
+                                                />
+                                                <input
+                                                    value={f.times}
+                                                    onChange={e => updateFixture(nodeId, { times: e.target.value })}
+                                                    placeholder="fail every attempt"
+                                                    title="Number of failing attempts before the node recovers"
+                                                    className="w-36 px-2 py-1 text-xs border border-zinc-300 rounded"
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                </div>
+
+                <div>
+                    {error && <div className="text-xs text-red-700 bg-red-50 border border-red-200 rounded px-3 py-2 mb-3">{error}</div>}
+                    {result ? <ResultView result={result} /> : !error && (
+                        <div className="text-sm text-zinc-400 text-center border border-dashed border-zinc-200 rounded-lg py-12">Run the flow to see the trace.</div>
+                    )}
+                </div>
+            </div>
+        </Card>
+    );
+}
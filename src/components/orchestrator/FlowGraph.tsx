@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from "react";
+import Icon from "../Icon";
+import { anchorPoint, FlowGraphModel, GraphEdgeKind, GraphNode } from "../../utils/flowGraph";
+
+const EDGE_STYLES: Record<GraphEdgeKind, { stroke: string; dash?: string }> = {
+    next: { stroke: "#71717a" },
+    call: { stroke: "#2563eb" },
+    run: { stroke: "#a1a1aa", dash: "4 3" },
+    onError: { stroke: "#dc2626", dash: "5 4" },
+    gate: { stroke: "#d97706" },
+};
+
+const NODE_STYLES: Record<GraphNode["kind"], { fill: string; stroke: string; text: string }> = {
+    step: { fill: "#ffffff", stroke: "#3b82f6", text: "#0f172a" },
+    block: { fill: "#eff6ff", stroke: "#2563eb", text: "#1e3a8a" },
+    node: { fill: "#ffffff", stroke: "#a1a1aa", text: "#27272a" },
+    service: { fill: "#f5f3ff", stroke: "#8b5cf6", text: "#4c1d95" },
+    gate: { fill: "#fffbeb", stroke: "#d97706", text: "#78350f" },
+    error: { fill: "#fef2f2", stroke: "#fca5a5", text: "#b91c1c" },
+};
+
+type View = { x: number; y: number; k: number };
+
+function truncate(s: string, max: number) {
+    return s.length > max ? s.slice(0, max - 1) + "…" : s;
+}
+
+/** Pannable / zoomable SVG rendering of a FlowGraphModel. Drag to pan, wheel to zoom. */
+export default function FlowGraph({
+    model,
+    selectedId,
+    onSelect,
+    height = 420,
+}: {
+    model: FlowGraphModel;
+    selectedId?: string | null;
+    onSelect?: (node: GraphNode) => void;
+    height?: number;
+}) {
+    const [view, setView] = useState<View>({ x: 0, y: 0, k: 1 });
+    const drag = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const byId = new Map(model.nodes.map(n => [n.id, n]));
+
+    const zoomAt = (factor: number, cx: number, cy: number) => {
+        setView(v => {
+            const k = Math.min(3, Math.max(0.25, v.k * factor));
+            const f = k / v.k;
+            return { k, x: cx - (cx - v.x) * f, y: cy - (cy - v.y) * f };
+        });
+    };
+
+    const fit = () => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect || model.width === 0) return setView({ x: 0, y: 0, k: 1 });
+        const k = Math.min(1.5, rect.width / model.width, rect.height / model.height);
+        setView({ k, x: (rect.width - model.width * k) / 2, y: (rect.height - model.height * k) / 2 });
+    };
+
+    // React's onWheel is passive, so the page would scroll while zooming
+    const hasNodes = model.nodes.length > 0;
+    useEffect(() => {
+        const el = svgRef.current;
+        if (!el) return;
+        const onWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = el.getBoundingClientRect();
+            zoomAt(e.deltaY < 0 ? 1.1 : 1 / 1.1, e.clientX - rect.left, e.clientY - rect.top);
+        };
+        el.addEventListener("wheel", onWheel, { passive: false });
+        return () => el.removeEventListener("wheel", onWheel);
+    }, [hasNodes]);
+
+    const onMouseDown = (e: React.MouseEvent) => {
+        drag.current = { x: e.clientX, y: e.clientY, moved: false };
+    };
+
+    const onMouseMove = (e: React.MouseEvent) => {
+        const d = drag.current;
+        if (!d) return;
+        const dx = e.clientX - d.x;
+        const dy = e.clientY - d.y;
+        if (Math.abs(dx) + Math.abs(dy) > 2) d.moved = true;
+        d.x = e.clientX;
+        d.y = e.clientY;
+        setView(v => ({ ...v, x: v.x + dx, y: v.y + dy }));
+    };
+
+    const endDrag = () => {
+        // Keep the "moved" flag until the click handler has seen it
+        setTimeout(() => { drag.current = null; }, 0);
+    };
+
+    if (!hasNodes) {
+        return <div className="text-sm text-zinc-400 p-4 text-center border border-dashed border-zinc-200 rounded-lg">Nothing to draw.</div>;
+    }
+
+    return (
+        <div className="relative border border-zinc-200 rounded-lg bg-zinc-50 overflow-hidden" style={{ height }}>
+            <div className="absolute top-2 right-2 z-10 flex gap-1">
+                {[
+                    { label: "+", action: () => zoomAt(1.2, 0, 0) },
+                    { label: "−", action: () => zoomAt(1 / 1.2, 0, 0) },
+                ].map(b => (
+                    <button key={b.label} onClick={b.action} className="w-7 h-7 rounded border border-zinc-200 bg-white text-sm text-zinc-600 shadow-sm hover:bg-zinc-100">
+                        {b.label}
+                    </button>
+                ))}
+                <button onClick={fit} className="h-7 px-2 rounded border border-zinc-200 bg-white text-xs text-zinc-600 shadow-sm hover:bg-zinc-100">
+                    Fit
+                </button>
+            </div>
+            <div className="absolute bottom-2 left-2 z-10 flex flex-wrap gap-2 text-[10px] text-zinc-500 bg-white/80 rounded px-2 py-1">
+                {(Object.keys(EDGE_STYLES) as GraphEdgeKind[])
+                    .filter(k => model.edges.some(e => e.kind === k))
+                    .map(k => (
+                        <span key={k} className="flex items-center gap-1">
+                            <svg width="18" height="6"><line x1="0" y1="3" x2="18" y2="3" stroke={EDGE_STYLES[k].stroke} strokeDasharray={EDGE_STYLES[k].dash} strokeWidth={2} /></svg>
+                            {k}
+                        </span>
+                    ))}
+            </div>
+
+            <svg
+                ref={svgRef}
+                width="100%"
+                height="100%"
+                className="select-none cursor-grab active:cursor-grabbing"
+                onMouseDown={onMouseDown}
+                onMouseMove={onMouseMove}
+                onMouseUp={endDrag}
+                onMouseLeave={endDrag}
+            >
+                <defs>
+                    {(Object.keys(EDGE_STYLES) as GraphEdgeKind[]).map(k => (
+                        <marker key={k} id={`arrow-${k}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" fill={EDGE_STYLES[k].stroke} />
+                        </marker>
+                    ))}
+                </defs>
+                <g transform={`translate(${view.x},${view.y}) scale(${view.k})`}>
+                    {model.edges.map((e, i) => {
+                        const a = byId.get(e.from);
+                        const b = byId.get(e.to);
+                        if (!a || !b) return null;
+                        const p1 = anchorPoint(a, b.x, b.y);
+                        const p2 = anchorPoint(b, a.x, a.y);
+                        const style = EDGE_STYLES[e.kind];
+                        return (
+                            <g key={i}>
+                                <line x1={p1.x} y1={p1.y} x2={p2.x} y2={p2.y} stroke={style.stroke} strokeDasharray={style.dash} strokeWidth={1.5} markerEnd={`url(#arrow-${e.kind})`} />
+                                {e.label && (
+                                    <text x={(p1.x + p2.x) / 2 + 4} y={(p1.y + p2.y) / 2 - 4} fontSize={10} fill={style.stroke} className="font-mono">
+                                        {truncate(e.label, 28)}
+                                    </text>
+                                )}
+                            </g>
+                        );
+                    })}
+
+                    {model.nodes.map(n => {
+                        const style = NODE_STYLES[n.kind];
+                        const selected = selectedId === n.id;
+                        const left = n.x - n.width / 2;
+                        const top = n.y - n.height / 2;
+                        return (
+                            <g
+                                key={n.id}
+                                onClick={() => { if (!drag.current?.moved) onSelect?.(n); }}
+                                className={onSelect ? "cursor-pointer" : undefined}
+                            >
+                                {n.shape === "diamond" ? (
+                                    <polygon
+                                        points={`${n.x},${top} ${n.x + n.width / 2},${n.y} ${n.x},${n.y + n.height / 2} ${left},${n.y}`}
+                                        fill={style.fill}
+                                        stroke={selected ? "#f97316" : style.stroke}
+                                        strokeWidth={selected ? 2.5 : 1.5}
+                                    />
+                                ) : (
+                                    <rect
+                                        x={left}
+                                        y={top}
+                                        width={n.width}
+                                        height={n.height}
+                                        rx={n.shape === "pill" ? n.height / 2 : 8}
+                                        fill={style.fill}
+                                        stroke={selected ? "#f97316" : style.stroke}
+                                        strokeWidth={selected ? 2.5 : 1.5}
+                                        strokeDasharray={n.missing ? "4 3" : undefined}
+                                    />
+                                )}
+                                <text x={n.x} y={n.sublabel && n.shape !== "pill" ? n.y - 3 : n.y + 4} textAnchor="middle" fontSize={n.shape === "pill" ? 10 : 12} fontWeight={600} fill={style.text} className="font-mono">
+                                    {truncate(n.label, n.shape === "diamond" ? 16 : 26)}
+                                </text>
+                                {n.sublabel && n.shape !== "pill" && (
+                                    <text x={n.x} y={n.y + 13} textAnchor="middle" fontSize={9} fill="#71717a">
+                                        {truncate(n.sublabel, n.shape === "diamond" ? 18 : 32)}
+                                    </text>
+                                )}
+                                <title>{[n.label, n.sublabel, n.missing ? "not defined" : ""].filter(Boolean).join("\n")}</title>
+                            </g>
+                        );
+                    })}
+                </g>
+            </svg>
+
+            {model.diagnostics.length > 0 && (
+                <div className="absolute top-2 left-2 z-10 text-[10px] bg-amber-50 border border-amber-200 text-amber-700 rounded px-2 py-1 flex items-center gap-1">
+                    <Icon name="warning" size={12} /> {model.diagnostics.length} DSL diagnostic{model.diagnostics.length > 1 ? "s" : ""}
+                </div>
+            )}
+        </div>
+    );
+}
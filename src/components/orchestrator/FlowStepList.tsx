@@ -1,13 +1,43 @@
-import React from "react";
-import { FlowStep } from "../../types";
-import { Card } from "../ui/shared";
-import { MoveDown } from "lucide-react";
+import React, { useMemo, useState } from "react";
+import { NodeContract, Orchestrator } from "../../types";
+import { Card, cn } from "../ui/shared";
+import { orchestratorGraph, GraphNode } from "../../utils/flowGraph";
+import FlowGraph from "./FlowGraph";
+import { NodeContractSchemas } from "./NodeContractPanel";
+
+export default function FlowStepList({ orch }: { orch: Orchestrator }) {
+    const steps = orch.flowSteps;
+    const [mode, setMode] = useState<"list" | "graph">("list");
+    const [selected, setSelected] = useState<GraphNode | null>(null);
+    const graph = useMemo(() => orchestratorGraph(orch), [orch]);
 
-export default function FlowStepList({ steps }: { steps: FlowStep[] }) {
     if (!steps || steps.length === 0) return null;
 
+    const toggle = (
+        <div className="flex rounded-md border border-zinc-200 overflow-hidden text-xs">
+            {(["list", "graph"] as const).map(m => (
+                <button
+                    key={m}
+                    onClick={() => setMode(m)}
+                    className={cn("px-3 py-1 capitalize", mode === m ? "bg-zinc-800 text-white" : "bg-white text-zinc-600 hover:bg-zinc-50")}
+                >
+                    {m}
+                </button>
+            ))}
+        </div>
+    );
+
+    if (mode === "graph") {
+        return (
+            <Card title="Flow Steps" right={toggle}>
+                <FlowGraph model={graph} selectedId={selected?.id} onSelect={setSelected} />
+                {selected && <SelectedNode node={selected} contracts={orch.nodeContracts} onClose={() => setSelected(null)} />}
+            </Card>
+        );
+    }
+
     return (
-        <Card title="Flow Steps">
+        <Card title="Flow Steps" right={toggle}>
             <div className="space-y-2 relative before:absolute before:inset-0 before:ml-5 before:-translate-x-px md:before:mx-auto md:before:translate-x-0 before:h-full before:w-0.5 before:bg-gradient-to-b before:from-transparent before:via-slate-300 before:to-transparent">
                 {steps.map((step, idx) => (
                     <div key={step.stepId} className="relative flex items-center justify-between md:justify-normal md:odd:flex-row-reverse group is-active">
@@ -45,3 +75,32 @@ export default function FlowStepList({ steps }: { steps: FlowStep[] }) {
         </Card>
     );
 }
+
+export function SelectedNode({ node, contracts, onClose }: { node: GraphNode; contracts: NodeContract[]; onClose: () => void }) {
+    const contract = node.ref ? contracts.find(c => c.nodeId === node.ref) : undefined;
+
+    return (
+        <div className="mt-3 border border-zinc-200 rounded-lg p-4 bg-white">
+            <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                    <span className="font-semibold text-sm text-slate-800 font-mono">{node.label}</span>
+                    <span className="text-[10px] uppercase tracking-wider text-zinc-400">{node.kind}</span>
+                </div>
+                <button onClick={onClose} className="text-xs text-zinc-400 hover:text-zinc-700">Close</button>
+            </div>
+            {contract ? (
+                <>
+                    <div className="text-xs text-zinc-500 mb-3">{contract.description}</div>
+                    <NodeContractSchemas node={contract} />
+                </>
+            ) : (
+                <div className="text-xs text-zinc-500">
+                    {node.sublabel && <div className="mb-1">{node.sublabel}</div>}
+                    {node.kind === "error"
+                        ? node.missing ? "Error code is not declared in errorCodes." : "Declared error code."
+                        : "No NodeContract defined for this node."}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,12 +1,201 @@
-import React from "react";
-import { CodeBlock } from "../ui/shared";
+import React, { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { CodeBlock, cn } from "../ui/shared";
+import {
+    isEmptySchema,
+    isSchemaObject,
+    JsonSchema,
+    resolveRef,
+    SCHEMA_BRANCH_KINDS,
+    schemaConstraints,
+    schemaDefinitions,
+    schemaTypeLabel,
+} from "../../utils/jsonSchema";
 
+type ChildEntry = {
+    key: string;
+    label: string;
+    schema: JsonSchema;
+    required?: boolean;
+    branch?: boolean;
+};
+
+function childEntries(schema: JsonSchema): ChildEntry[] {
+    const out: ChildEntry[] = [];
+    const required = new Set(schema.required ?? []);
+
+    for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+        if (isSchemaObject(prop)) out.push({ key: `p:${name}`, label: name, schema: prop, required: required.has(name) });
+    }
+    if (Array.isArray(schema.items)) {
+        schema.items.forEach((item, i) => out.push({ key: `i:${i}`, label: `[${i}]`, schema: item }));
+    } else if (isSchemaObject(schema.items)) {
+        out.push({ key: "i", label: "[ ]", schema: schema.items });
+    }
+    if (isSchemaObject(schema.additionalProperties)) {
+        out.push({ key: "ap", label: "{ * }", schema: schema.additionalProperties });
+    }
+    for (const kind of SCHEMA_BRANCH_KINDS) {
+        (schema[kind] ?? []).forEach((branch, i) => {
+            if (isSchemaObject(branch)) out.push({ key: `${kind}:${i}`, label: `${kind} #${i + 1}`, schema: branch, branch: true });
+        });
+    }
+    return out;
+}
+
+function Badge({ className, children, title }: { className: string; children: React.ReactNode; title?: string }) {
+    return <span title={title} className={cn("rounded px-1.5 py-0.5 text-[10px] font-mono", className)}>{children}</span>;
+}
+
+function SchemaNode({
+    label,
+    schema,
+    root,
+    required,
+    branch,
+    depth,
+    openDepth,
+    refChain,
+}: {
+    label: string;
+    schema: JsonSchema;
+    root: JsonSchema;
+    required?: boolean;
+    branch?: boolean;
+    depth: number;
+    openDepth: number;
+    refChain: string[];
+}) {
+    const [open, setOpen] = useState(depth < openDepth);
+
+    // A $ref node shows its own annotations but the target's structure
+    const ref = schema.$ref;
+    const recursive = !!ref && refChain.includes(ref);
+    const target = ref ? resolveRef(root, ref) : schema;
+    const effective: JsonSchema = target ? { ...target, ...schema, $ref: undefined } : schema;
+    const children = recursive || !target ? [] : childEntries(effective);
+    const nextChain = ref ? [...refChain, ref] : refChain;
+    const constraints = schemaConstraints(effective);
+
+    return (
+        <div>
+            <div className="flex items-start gap-1.5 py-1 hover:bg-zinc-50 rounded" style={{ paddingLeft: depth * 16 }}>
+                {children.length > 0 ? (
+                    <button onClick={() => setOpen(!open)} className="mt-0.5 text-zinc-400 hover:text-zinc-700">
+                        {open ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                    </button>
+                ) : (
+                    <span className="w-3.5 shrink-0" />
+                )}
+                <div className="min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                        <span className={cn("font-mono text-xs", branch ? "text-violet-700 font-semibold" : "text-zinc-900 font-semibold")}>
+                            {label}
+                        </span>
+                        {required && <span className="text-red-600 text-xs font-bold" title="required">*</span>}
+                        <Badge className="bg-blue-50 text-blue-700">{schemaTypeLabel({ ...effective, $ref: ref })}</Badge>
+                        {ref && (
+                            <Badge className={target ? "bg-violet-50 text-violet-700" : "bg-red-50 text-red-700"} title={target ? "resolved" : "cannot be resolved"}>
+                                → {ref}{!target && " (unresolved)"}
+                            </Badge>
+                        )}
+                        {recursive && <Badge className="bg-zinc-100 text-zinc-500">↻ recursive</Badge>}
+                        {effective.format && <Badge className="bg-emerald-50 text-emerald-700">{effective.format}</Badge>}
+                        {effective.const !== undefined && <Badge className="bg-amber-50 text-amber-800">= {JSON.stringify(effective.const)}</Badge>}
+                        {effective.enum?.map((v, i) => (
+                            <Badge key={i} className="bg-amber-50 text-amber-800">{JSON.stringify(v)}</Badge>
+                        ))}
+                        {effective.default !== undefined && <Badge className="bg-zinc-100 text-zinc-600">default {JSON.stringify(effective.default)}</Badge>}
+                        {constraints.length > 0 && <span className="text-[10px] text-zinc-400 font-mono">{constraints.join(" · ")}</span>}
+                    </div>
+                    {(effective.title && effective.title !== label) && <div className="text-xs text-zinc-600 font-medium">{effective.title}</div>}
+                    {effective.description && <div className="text-xs text-zinc-500">{effective.description}</div>}
+                </div>
+            </div>
+            {open && children.map(c => (
+                <SchemaNode
+                    key={c.key}
+                    label={c.label}
+                    schema={c.schema}
+                    root={root}
+                    required={c.required}
+                    branch={c.branch}
+                    depth={depth + 1}
+                    openDepth={openDepth}
+                    refChain={nextChain}
+                />
+            ))}
+        </div>
+    );
+}
+
+/** Collapsible tree explorer for draft-07 schemas, with a raw JSON fallback. */
 export default function JsonSchemaViewer({ schema }: { schema: any }) {
+    const [mode, setMode] = useState<"tree" | "json">("tree");
+    const [openDepth, setOpenDepth] = useState(2);
+    const [treeKey, setTreeKey] = useState(0);
+
     if (!schema) return null;
+    if (isEmptySchema(schema)) {
+        return <div className="text-xs text-zinc-400 italic border border-dashed border-zinc-200 rounded-md p-3">No schema defined.</div>;
+    }
+
+    const definitions = schemaDefinitions(schema);
+    const expand = (depth: number) => {
+        setOpenDepth(depth);
+        setTreeKey(k => k + 1);
+    };
 
     return (
-        <div className="bg-slate-900 rounded-md overflow-hidden">
-            <CodeBlock text={JSON.stringify(schema, null, 2)} />
+        <div className="border border-zinc-200 rounded-md overflow-hidden">
+            <div className="flex items-center justify-between gap-2 bg-zinc-50 border-b border-zinc-200 px-2 py-1">
+                <div className="flex gap-1">
+                    {(["tree", "json"] as const).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => setMode(m)}
+                            className={cn(
+                                "px-2 py-0.5 text-[10px] font-semibold uppercase rounded",
+                                mode === m ? "bg-white border border-zinc-300 text-zinc-800" : "text-zinc-500 hover:text-zinc-800"
+                            )}
+                        >
+                            {m}
+                        </button>
+                    ))}
+                </div>
+                {mode === "tree" && (
+                    <div className="flex gap-2 text-[10px] text-zinc-500">
+                        <button onClick={() => expand(Infinity)} className="hover:text-zinc-800">Expand all</button>
+                        <button onClick={() => expand(1)} className="hover:text-zinc-800">Collapse</button>
+                    </div>
+                )}
+            </div>
+
+            {mode === "json" ? (
+                <div className="bg-slate-900">
+                    <CodeBlock text={JSON.stringify(schema, null, 2)} />
+                </div>
+            ) : (
+                <div key={treeKey} className="p-2 bg-white">
+                    <SchemaNode label={schema.title ?? "(root)"} schema={schema} root={schema} depth={0} openDepth={openDepth} refChain={[]} />
+                    {definitions.length > 0 && (
+                        <div className="mt-2 pt-2 border-t border-zinc-100">
+                            <div className="text-[10px] font-semibold text-zinc-400 uppercase tracking-wider mb-1">Definitions</div>
+                            {definitions.map(d => (
+                                <SchemaNode
+                                    key={d.ref}
+                                    label={d.name}
+                                    schema={d.schema}
+                                    root={schema}
+                                    depth={0}
+                                    openDepth={openDepth === Infinity ? Infinity : 0}
+                                    refChain={[d.ref]}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
     );
 }
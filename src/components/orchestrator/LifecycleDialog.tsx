@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import Icon from "../Icon";
+import { cn, nowIso } from "../../utils";
+import { Orchestrator, Run } from "../../types";
+import { useOrchestrators } from "../../orchestrators";
+import { applyTransition, checkTransition, findTransition, LifecycleStatus } from "../../utils/orchestratorLifecycle";
+
+const ACTOR_KEY = "ai-factory-actor";
+const inputCls = "w-full mt-1 px-3 py-2 border border-stone-300 rounded-lg text-sm";
+const labelCls = "text-xs font-semibold text-stone-500";
+
+export default function LifecycleDialog({ orch, to, runs, onClose }: { orch: Orchestrator; to: LifecycleStatus; runs: Run[]; onClose: () => void }) {
+    const { orchestrators, revisions, save } = useOrchestrators();
+    const [actor, setActor] = useState(() => localStorage.getItem(ACTOR_KEY) ?? "");
+    const [reason, setReason] = useState("");
+    const [approvedBy, setApprovedBy] = useState("");
+    const [replacementId, setReplacementId] = useState("");
+    const [sunsetDate, setSunsetDate] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const def = findTransition(orch.status, to);
+    const request = { actor, reason, approvedBy, replacementId: replacementId || undefined, sunsetDate: sunsetDate || undefined };
+    const ctx = { orchestrators, runs, revisions: revisions(orch.id), today: nowIso().slice(0, 10) };
+    const checks = checkTransition(orch, to, request, ctx);
+    const ready = checks.every(c => c.ok);
+
+    const handleConfirm = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            try { localStorage.setItem(ACTOR_KEY, actor.trim()); } catch {}
+            await save(applyTransition(orch, to, request, ctx, nowIso()));
+            onClose();
+        } catch (e: any) {
+            setError(e.message);
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 overflow-y-auto py-8">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl mx-4 my-auto">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-stone-200">
+                    <h2 className="text-xl font-bold text-stone-800">
+                        {def?.label ?? "Change status"} · <span className="font-mono text-base">{orch.id}</span>
+                    </h2>
+                    <button onClick={onClose} className="text-stone-400 hover:text-stone-600 text-2xl leading-none">&times;</button>
+                </div>
+
+                <div className="px-6 py-4 space-y-4 max-h-[70vh] overflow-y-auto">
+                    <div className="text-sm text-stone-600">
+                        <span className="font-mono">{orch.status}</span> → <span className="font-mono font-semibold text-stone-800">{to}</span>
+                        {def && <span> — {def.description}</span>}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <label className="block">
+                            <span className={labelCls}>Actor *</span>
+                            <input value={actor} onChange={e => setActor(e.target.value)} placeholder="Your name" className={inputCls} />
+                        </label>
+                        {to === "active" && (
+                            <label className="block">
+                                <span className={labelCls}>Approved by ({orch.owner}) *</span>
+                                <input value={approvedBy} onChange={e => setApprovedBy(e.target.value)} placeholder="Owner who signed off" className={inputCls} />
+                            </label>
+                        )}
+                        {to === "deprecated" && (
+                            <>
+                                <label className="block">
+                                    <span className={labelCls}>Replacement</span>
+                                    <select value={replacementId} onChange={e => setReplacementId(e.target.value)} className={inputCls}>
+                                        <option value="">(none)</option>
+                                        {orchestrators.filter(o => o.id !== orch.id && o.status !== "deprecated").map(o => (
+                                            <option key={o.id} value={o.id}>{o.domain}/{o.id} · v{o.version}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="block">
+                                    <span className={labelCls}>Sunset date</span>
+                                    <input type="date" value={sunsetDate} onChange={e => setSunsetDate(e.target.value)} className={inputCls} />
+                                </label>
+                            </>
+                        )}
+                    </div>
+                    <label className="block">
+                        <span className={labelCls}>Reason *</span>
+                        <textarea value={reason} onChange={e => setReason(e.target.value)} rows={2} className={inputCls} />
+                    </label>
+
+                    <div>
+                        <div className={labelCls}>Preconditions</div>
+                        <ul className="mt-1 space-y-1">
+                            {checks.map(c => (
+                                <li key={c.id} className="flex items-start gap-2 text-sm">
+                                    <span className={cn("mt-0.5", c.ok ? "text-green-600" : "text-red-600")}><Icon name={c.ok ? "check" : "error"} size={14} /></span>
+                                    <span className="font-semibold text-stone-700 w-48 shrink-0">{c.label}</span>
+                                    <span className={c.ok ? "text-stone-500" : "text-red-700"}>{c.detail}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 text-red-700 text-sm px-4 py-2 rounded-lg whitespace-pre-wrap">{error}</div>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-stone-200 bg-stone-50/50 rounded-b-2xl">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-bold bg-stone-100 text-stone-600 border border-stone-300 hover:bg-stone-200 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={saving || !ready}
+                        className="px-6 py-2 rounded-lg text-sm font-bold bg-orange-500 text-white border border-orange-600 hover:bg-orange-600 transition-colors disabled:opacity-50"
+                    >
+                        {saving ? "Saving…" : def?.label ?? "Change status"}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from "react";
+import Icon from "../Icon";
+import { cn } from "../../utils";
+import { MetricDef } from "../../types";
+import { matchSnapshot, MetricSeries, MetricsSnapshot, parseMetricsSnapshot, seriesLabel } from "../../utils/metricsSnapshot";
+
+const COLORS = ["#2563eb", "#dc2626", "#16a34a", "#d97706", "#7c3aed", "#0891b2"];
+const W = 320;
+const H = 110;
+const PAD = { left: 40, right: 8, top: 8, bottom: 18 };
+
+function fmtValue(v: number) {
+    if (!Number.isFinite(v)) return String(v);
+    return Math.abs(v) >= 1000 || Number.isInteger(v) ? v.toLocaleString() : v.toPrecision(3);
+}
+
+function fmtClock(t: number) {
+    return new Date(t).toLocaleTimeString();
+}
+
+/** Line chart of a few series over the snapshot's time range. */
+export function MetricChart({ series, from, to }: { series: MetricSeries[]; from: number; to: number }) {
+    const values = series.flatMap(s => s.samples.map(p => p.v)).filter(Number.isFinite);
+    let lo = values.length ? values.reduce((a, b) => Math.min(a, b)) : 0;
+    let hi = values.length ? values.reduce((a, b) => Math.max(a, b)) : 1;
+    if (lo === hi) {
+        lo -= 1;
+        hi += 1;
+    }
+    const span = to - from || 1;
+    const x = (t: number) => PAD.left + (to === from ? 0.5 : (t - from) / span) * (W - PAD.left - PAD.right);
+    const y = (v: number) => PAD.top + (1 - (v - lo) / (hi - lo)) * (H - PAD.top - PAD.bottom);
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-auto">
+                <line x1={PAD.left} y1={H - PAD.bottom} x2={W - PAD.right} y2={H - PAD.bottom} stroke="#e4e4e7" />
+                <line x1={PAD.left} y1={PAD.top} x2={PAD.left} y2={H - PAD.bottom} stroke="#e4e4e7" />
+                <text x={PAD.left - 4} y={PAD.top + 4} textAnchor="end" fontSize="8" fill="#71717a">{fmtValue(hi)}</text>
+                <text x={PAD.left - 4} y={H - PAD.bottom} textAnchor="end" fontSize="8" fill="#71717a">{fmtValue(lo)}</text>
+                <text x={PAD.left} y={H - 4} fontSize="8" fill="#71717a">{fmtClock(from)}</text>
+                <text x={W - PAD.right} y={H - 4} textAnchor="end" fontSize="8" fill="#71717a">{fmtClock(to)}</text>
+                {series.map((s, i) => {
+                    const points = s.samples.filter(p => Number.isFinite(p.v));
+                    const color = COLORS[i % COLORS.length];
+                    return points.length === 1
+                        ? <circle key={i} cx={x(points[0].t)} cy={y(points[0].v)} r={2.5} fill={color} />
+                        : <polyline key={i} points={points.map(p => `${x(p.t)},${y(p.v)}`).join(" ")} fill="none" stroke={color} strokeWidth={1.5} />;
+                })}
+            </svg>
+            <ul className="mt-1 space-y-0.5 text-[10px]">
+                {series.map((s, i) => (
+                    <li key={i} className="flex items-center gap-1.5">
+                        <span className="w-2 h-2 rounded-full shrink-0" style={{ background: COLORS[i % COLORS.length] }} />
+                        <span className="font-mono text-zinc-600 truncate flex-1">{seriesLabel(s)}</span>
+                        <span className="font-mono text-zinc-800">{fmtValue(s.samples[s.samples.length - 1].v)}</span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+/** File picker or paste box for a Prometheus text / JSON range dump. */
+export function SnapshotImport({ onImport }: { onImport: (snapshot: MetricsSnapshot) => void }) {
+    const [text, setText] = useState("");
+    const [error, setError] = useState<string | null>(null);
+
+    const read = (content: string, source: string) => {
+        setError(null);
+        try {
+            onImport(parseMetricsSnapshot(content, source));
+            setText("");
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    return (
+        <div className="space-y-2 text-xs">
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    type="file"
+                    accept=".txt,.prom,.json,text/plain,application/json"
+                    onChange={async e => {
+                        const file = e.target.files?.[0];
+                        if (file) read(await file.text(), file.name);
+                        e.target.value = "";
+                    }}
+                    className="text-xs text-zinc-600"
+                />
+                <span className="text-zinc-400">or paste below</span>
+            </div>
+            <textarea
+                value={text}
+                onChange={e => setText(e.target.value)}
+                rows={4}
+                placeholder={'material_check_success_total{orchestrator="lot-tool-material-check"} 42 1760000000000'}
+                className="w-full px-2 py-1.5 border border-zinc-300 rounded-md font-mono text-[11px]"
+            />
+            <div className="flex items-center gap-2">
+                <button
+                    onClick={() => read(text, "pasted")}
+                    disabled={!text.trim()}
+                    className="px-3 py-1 font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50 disabled:opacity-40"
+                >
+                    Import
+                </button>
+                <span className="text-zinc-400">Prometheus text exposition, or a JSON range dump (query_range result / OpenMetrics-style series).</span>
+            </div>
+            {error && <div className="text-red-700">{error}</div>}
+        </div>
+    );
+}
+
+export function SnapshotSummary({ snapshot, onClear }: { snapshot: MetricsSnapshot; onClear: () => void }) {
+    const samples = snapshot.series.reduce((n, s) => n + s.samples.length, 0);
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-600">
+            <Icon name="inbox" size={12} />
+            <span className="font-mono text-zinc-800">{snapshot.source}</span>
+            <span>
+                {snapshot.format === "json" ? "JSON range dump" : "Prometheus text"} · {snapshot.series.length} series · {samples} samples ·{" "}
+                {snapshot.from === snapshot.to ? fmtClock(snapshot.from) : `${fmtClock(snapshot.from)} – ${fmtClock(snapshot.to)}`}
+            </span>
+            <button onClick={onClear} className="ml-auto font-semibold text-zinc-500 hover:text-zinc-800">Clear</button>
+        </div>
+    );
+}
+
+/** Charts the snapshot's series for each declared metric; declared metrics without data are called out. */
+export default function MetricsSnapshotView({ metrics, orchestratorId, snapshot }: { metrics: MetricDef[]; orchestratorId: string; snapshot: MetricsSnapshot }) {
+    const { matched, missing } = useMemo(() => matchSnapshot(metrics, snapshot, orchestratorId), [metrics, snapshot, orchestratorId]);
+
+    return (
+        <div className="space-y-3">
+            {missing.length > 0 && (
+                <div className="flex items-start gap-2 px-3 py-2 rounded-lg border border-amber-200 bg-amber-50 text-xs text-amber-800">
+                    <Icon name="warning" size={12} />
+                    <span>
+                        No data in the snapshot for {missing.length} declared metric{missing.length === 1 ? "" : "s"}:{" "}
+                        {missing.map((m, i) => (
+                            <span key={m.name}>
+                                {i > 0 && ", "}
+                                <span className="font-mono">{m.name}</span>
+                            </span>
+                        ))}
+                        . Check that the service registers them and that the scrape covers this orchestrator.
+                    </span>
+                </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {metrics.map(m => {
+                    const match = matched.find(x => x.metric === m);
+                    return (
+                        <div key={m.name} className={cn("border rounded-lg p-3", match ? "border-zinc-200" : "border-amber-300 bg-amber-50/40")}>
+                            <div className="flex items-center gap-2 mb-2">
+                                <span className="font-mono text-xs text-blue-700 bg-blue-50 px-1 rounded">{m.name}</span>
+                                <span className="text-[10px] text-zinc-500 uppercase tracking-wider">{m.type}</span>
+                            </div>
+                            {!match ? (
+                                <div className="text-xs text-amber-800">No series in the snapshot.</div>
+                            ) : (
+                                <div className="space-y-3">
+                                    {match.panels.map(p => (
+                                        <div key={p.name}>
+                                            {match.panels.length > 1 && <div className="text-[10px] font-mono text-zinc-500 mb-1">{p.name}</div>}
+                                            <MetricChart series={p.series} from={snapshot.from} to={snapshot.to} />
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Orchestrator, Run } from "../../types";
+import { Card, CodeBlock, cn } from "../ui/shared";
+import Icon from "../Icon";
+import { checkDecisionRules, factVocabulary } from "../../utils/ruleExpr";
+import { isSchemaObject } from "../../utils/jsonSchema";
+import { MOCK_BASE, MOCK_RUN_TITLE, MockFixtureState, mockRoutes } from "../../utils/mockServer";
+
+const RECENT_CALLS = 12;
+
+export default function MockServerPanel({ orch, runs }: { orch: Orchestrator; runs: Run[] }) {
+    const route = mockRoutes([orch])[0];
+    const fixtureUrl = `${MOCK_BASE}/__fixtures/${encodeURIComponent(orch.id)}`;
+    const [factsText, setFactsText] = useState("{}");
+    const [failWith, setFailWith] = useState("");
+    const [online, setOnline] = useState<boolean | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+
+    // Facts rules read that the request does not carry — what a fixture is for
+    const fixtureFields = useMemo(() => {
+        const requestProps = isSchemaObject(orch.apiSpec.requestSchema?.properties) ? Object.keys(orch.apiSpec.requestSchema.properties) : [];
+        const fields = checkDecisionRules(orch.decisionRules, factVocabulary(orch)).flatMap(c => c.fields);
+        return Array.from(new Set(fields)).filter(f => !requestProps.includes(f.split(".")[0]));
+    }, [orch]);
+    const codes = Array.from(new Set([...orch.errorCodes.map(e => e.code), ...orch.flowSteps.map(s => s.onError.trim()).filter(Boolean)]));
+
+    const apply = (state: MockFixtureState) => {
+        setFactsText(JSON.stringify(state.facts, null, 2));
+        setFailWith(state.failWith ?? "");
+    };
+
+    useEffect(() => {
+        let cancelled = false;
+        (async () => {
+            try {
+                const resp = await fetch(fixtureUrl);
+                const state: MockFixtureState = await resp.json();
+                if (cancelled) return;
+                apply(state);
+                setOnline(true);
+            } catch {
+                if (!cancelled) setOnline(false);
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [fixtureUrl]);
+
+    const save = async (method: "PUT" | "DELETE") => {
+        setError(null);
+        try {
+            let body: string | undefined;
+            if (method === "PUT") {
+                const facts = JSON.parse(factsText);
+                if (!isSchemaObject(facts)) throw new Error("Facts must be a JSON object");
+                body = JSON.stringify({ facts, failWith: failWith || undefined });
+            }
+            const resp = await fetch(fixtureUrl, { method, headers: { "Content-Type": "application/json" }, body });
+            const state = await resp.json();
+            if (!resp.ok) throw new Error(state.message || `Save failed (${resp.status})`);
+            apply(state);
+            setSaved(true);
+            setTimeout(() => setSaved(false), 1500);
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    if (!route) return null;
+
+    const url = `${window.location.origin}${MOCK_BASE}${route.path}`;
+    const curl = `curl -X ${route.method} ${url} \\\n  -H "Content-Type: application/json" \\\n  -d '${JSON.stringify(orch.apiSpec.requestExample ?? {})}'`;
+    const traffic = (runs.find(r => r.title === MOCK_RUN_TITLE)?.logs ?? [])
+        .filter(l => l.includes(` ${route.path} `))
+        .slice(-RECENT_CALLS)
+        .reverse();
+
+    return (
+        <Card
+            title="Mock Server"
+            right={
+                online !== null && (
+                    <span className={cn("rounded-full px-2 py-0.5 text-[10px] font-semibold", online ? "bg-green-100 text-green-700" : "bg-zinc-100 text-zinc-500")}>
+                        {online ? "running" : "offline"}
+                    </span>
+                )
+            }
+        >
+            <p className="text-xs text-zinc-500 mb-4">
+                The dev server mocks this API from the spec: the body is validated against requestSchema, decision rules run against the request plus the fixture facts below, and the reply is responseExample or the rule's rejection.
+            </p>
+            {online === false && (
+                <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-1.5 mb-4 flex items-center gap-1.5">
+                    <Icon name="warning" size={12} /> Mock server not reachable — it only runs on the Vite dev server.
+                </div>
+            )}
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                <div className="space-y-3">
+                    <div>
+                        <div className="text-sm font-semibold text-zinc-800 mb-2">Endpoint</div>
+                        <CodeBlock text={curl} />
+                    </div>
+                    <div>
+                        <div className="text-sm font-semibold text-zinc-800 mb-2">Recent traffic</div>
+                        {traffic.length === 0 ? (
+                            <div className="text-xs text-zinc-400">No calls yet.</div>
+                        ) : (
+                            <ul className="space-y-0.5 font-mono text-xs text-zinc-700">
+                                {traffic.map((l, i) => <li key={i}>{l}</li>)}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                <div className="space-y-3">
+                    <div>
+                        <div className="text-sm font-semibold text-zinc-800 mb-1">Fixture facts</div>
+                        {fixtureFields.length > 0 && (
+                            <div className="text-xs text-zinc-500 mb-2">
+                                Rules read <span className="font-mono">{fixtureFields.join(", ")}</span>, which the request does not carry.
+                            </div>
+                        )}
+                        <textarea
+                            value={factsText}
+                            onChange={e => setFactsText(e.target.value)}
+                            spellCheck={false}
+                            rows={5}
+                            disabled={!online}
+                            className="w-full rounded-xl border border-zinc-200 bg-zinc-950 p-3 font-mono text-xs text-zinc-100 focus:outline-none disabled:opacity-50"
+                        />
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="text-zinc-500">Fail every call with</span>
+                        <select value={failWith} onChange={e => setFailWith(e.target.value)} disabled={!online} className="px-2 py-1 border border-zinc-300 rounded bg-white font-mono">
+                            <option value="">(no failure)</option>
+                            {codes.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                    </div>
+                    {error && <div className="text-xs text-red-700 bg-red-50 border border-red-200 rounded px-3 py-2">{error}</div>}
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => save("PUT")}
+                            disabled={!online}
+                            className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1.5"
+                        >
+                            <Icon name="save" size={12} /> Apply
+                        </button>
+                        <button
+                            onClick={() => save("DELETE")}
+                            disabled={!online}
+                            className="px-3 py-1.5 text-xs font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50 disabled:opacity-50 flex items-center gap-1.5"
+                        >
+                            <Icon name="restart" size={12} /> Reset
+                        </button>
+                        {saved && <span className="text-xs text-green-700">Applied.</span>}
+                    </div>
+                </div>
+            </div>
+        </Card>
+    );
+}
@@ -18,24 +18,32 @@ function NodeItem({ node }: { node: NodeContract }) {
                     <span className="font-semibold text-slate-800">{node.nodeId}</span>
                     <span className="text-zinc-500 hidden md:inline ml-2 text-xs truncate max-w-[300px]">({node.description})</span>
                 </div>
-                <div className="text-zinc-400 text-xs">Contract I/O</div>
+                <div className="text-zinc-400 text-xs">{node.version ? <span className="font-mono">Node Registry @{node.version}</span> : "Contract I/O"}</div>
             </button>
             {expanded && (
-                <div className="border-t border-zinc-200 p-4 bg-white grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                        <h5 className="font-semibold text-sm mb-2 text-zinc-700">Input Schema</h5>
-                        <JsonSchemaViewer schema={node.inputSchema} />
-                    </div>
-                    <div>
-                        <h5 className="font-semibold text-sm mb-2 text-zinc-700">Output Schema</h5>
-                        <JsonSchemaViewer schema={node.outputSchema} />
-                    </div>
+                <div className="border-t border-zinc-200 p-4 bg-white">
+                    <NodeContractSchemas node={node} />
                 </div>
             )}
         </div>
     );
 }
 
+export function NodeContractSchemas({ node }: { node: NodeContract }) {
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+                <h5 className="font-semibold text-sm mb-2 text-zinc-700">Input Schema</h5>
+                <JsonSchemaViewer schema={node.inputSchema} />
+            </div>
+            <div>
+                <h5 className="font-semibold text-sm mb-2 text-zinc-700">Output Schema</h5>
+                <JsonSchemaViewer schema={node.outputSchema} />
+            </div>
+        </div>
+    );
+}
+
 export default function NodeContractPanel({ contracts }: { contracts: NodeContract[] }) {
     if (!contracts || contracts.length === 0) return null;
 
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from "react";
+import Icon from "../Icon";
+import { cn } from "../../utils";
+import { useOrchestrators } from "../../orchestrators";
+import { useNodes } from "../../nodes";
+import { ConflictAspect, NodeDependency, nodeDependencyIndex } from "../../utils/nodeDependencies";
+
+type Filter = "all" | "shared" | "single" | "conflicts";
+
+const ASPECT_LABELS: Record<ConflictAspect, string> = {
+    version: "Registry version",
+    inputSchema: "Input schema",
+    outputSchema: "Output schema",
+};
+
+function NodeDetail({ dep, openApp }: { dep: NodeDependency; openApp: (id: string) => void }) {
+    const domains = Array.from(new Set(dep.users.map(u => u.orchestrator.domain)));
+
+    return (
+        <div className="px-6 py-3 bg-zinc-50/60 space-y-3 text-xs">
+            <div className="text-zinc-600">
+                A change to <span className="font-mono">{dep.nodeId}</span> affects {dep.users.length} orchestrator{dep.users.length === 1 ? "" : "s"} in{" "}
+                {domains.length} domain{domains.length === 1 ? "" : "s"} ({domains.join(", ")}).
+            </div>
+            <table className="w-full">
+                <thead>
+                    <tr className="text-left text-zinc-400">
+                        <th className="py-1 pr-3 font-medium">Orchestrator</th>
+                        <th className="py-1 pr-3 font-medium">Status</th>
+                        <th className="py-1 pr-3 font-medium">Flow steps</th>
+                        <th className="py-1 font-medium">Contract</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-100">
+                    {dep.users.map(u => (
+                        <tr key={u.orchestrator.id}>
+                            <td className="py-1 pr-3">
+                                <button onClick={() => openApp(`orch.${u.orchestrator.domain}.${u.orchestrator.id}`)} className="font-mono text-blue-600 hover:underline">
+                                    {u.orchestrator.domain}/{u.orchestrator.id}
+                                </button>
+                            </td>
+                            <td className="py-1 pr-3 text-zinc-600">{u.orchestrator.status}</td>
+                            <td className="py-1 pr-3 font-mono text-zinc-600">{u.steps.join(", ") || "—"}</td>
+                            <td className="py-1 text-zinc-600">
+                                {!u.contract ? <span className="text-amber-700">none declared</span>
+                                    : u.contract.version ? <span className="font-mono">Node Registry @{u.contract.version}</span>
+                                    : "local copy"}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {dep.conflicts.map(c => (
+                <div key={c.aspect} className="border border-red-200 bg-white rounded-lg px-3 py-2">
+                    <div className="font-semibold text-red-700 mb-1">{ASPECT_LABELS[c.aspect]} differs</div>
+                    {c.variants.map((v, i) => (
+                        <div key={v.label} className="mb-1">
+                            <span className="font-mono text-zinc-800">{v.label}</span>
+                            <span className="text-zinc-500"> — {v.orchestratorIds.join(", ")}</span>
+                            {i > 0 && c.changes[i - 1]?.map((ch, j) => (
+                                <div key={j} className="pl-4 text-zinc-600">
+                                    <span className="font-mono text-zinc-400">{ch.path}</span> {ch.message}
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+/** Every node used across the registry, who uses it, and where their contracts for it disagree. */
+export default function NodeDependencyMap({ search, openApp }: { search: string; openApp: (id: string) => void }) {
+    const { orchestrators } = useOrchestrators();
+    const { nodes } = useNodes();
+    const index = useMemo(() => nodeDependencyIndex(orchestrators, nodes), [orchestrators, nodes]);
+    const [filter, setFilter] = useState<Filter>("all");
+    const [openId, setOpenId] = useState<string | null>(null);
+
+    const q = search.trim().toLowerCase();
+    const rows = index.nodes.filter(n => {
+        if (filter === "shared" && n.users.length < 2) return false;
+        if (filter === "single" && n.users.length !== 1) return false;
+        if (filter === "conflicts" && n.conflicts.length === 0) return false;
+        return !q || n.nodeId.toLowerCase().includes(q) || n.users.some(u => u.orchestrator.id.includes(q));
+    });
+
+    const chips: Array<{ id: Filter; label: string }> = [
+        { id: "all", label: `All ${index.nodes.length}` },
+        { id: "shared", label: `Shared ${index.shared}` },
+        { id: "single", label: `Single use ${index.singleUse}` },
+        { id: "conflicts", label: `Disagreeing contracts ${index.conflicted}` },
+    ];
+
+    return (
+        <div className="bg-white rounded-xl shadow-sm border border-zinc-200 overflow-hidden">
+            <div className="bg-zinc-50 border-b border-zinc-200 px-4 py-3 flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-zinc-800 uppercase tracking-wider text-sm mr-2">Node Dependencies</span>
+                {chips.map(c => (
+                    <button
+                        key={c.id}
+                        onClick={() => setFilter(c.id)}
+                        className={cn("rounded-full border px-3 py-0.5 text-xs", filter === c.id ? "border-zinc-800 bg-zinc-800 text-white" : "border-zinc-200 bg-white text-zinc-600")}
+                    >
+                        {c.label}
+                    </button>
+                ))}
+            </div>
+            <table className="min-w-full text-left text-sm">
+                <thead className="bg-white text-zinc-500 border-b border-zinc-100 uppercase tracking-wider text-[10px]">
+                    <tr>
+                        <th className="px-4 py-3 font-semibold">Node ID</th>
+                        <th className="px-4 py-3 font-semibold">Used by</th>
+                        <th className="px-4 py-3 font-semibold">Orchestrators</th>
+                        <th className="px-4 py-3 font-semibold">Node Registry</th>
+                        <th className="px-4 py-3 font-semibold">Findings</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-100 text-zinc-700">
+                    {rows.map(n => (
+                        <React.Fragment key={n.nodeId}>
+                            <tr onClick={() => setOpenId(openId === n.nodeId ? null : n.nodeId)} className={cn("cursor-pointer hover:bg-blue-50/50", openId === n.nodeId && "bg-blue-50")}>
+                                <td className="px-4 py-2 font-mono text-xs text-zinc-800">{n.nodeId}</td>
+                                <td className="px-4 py-2 text-xs">{n.users.length}</td>
+                                <td className="px-4 py-2 text-xs font-mono text-zinc-500">{n.users.map(u => u.orchestrator.id).join(", ")}</td>
+                                <td className="px-4 py-2 text-xs font-mono">{n.registryVersion ? `@${n.registryVersion}` : <span className="text-zinc-400 font-sans">not registered</span>}</td>
+                                <td className="px-4 py-2 text-xs space-x-2 whitespace-nowrap">
+                                    {n.users.length === 1 && <span className="text-zinc-500">single use</span>}
+                                    {n.conflicts.length > 0 && (
+                                        <span className="text-red-700"><Icon name="warning" size={12} /> {n.conflicts.map(c => ASPECT_LABELS[c.aspect].toLowerCase()).join(", ")} differ</span>
+                                    )}
+                                    {n.undeclared.length > 0 && <span className="text-amber-700">{n.undeclared.length} without contract</span>}
+                                </td>
+                            </tr>
+                            {openId === n.nodeId && (
+                                <tr><td colSpan={5} className="p-0"><NodeDetail dep={n} openApp={openApp} /></td></tr>
+                            )}
+                        </React.Fragment>
+                    ))}
+                    {rows.length === 0 && (
+                        <tr><td colSpan={5} className="px-4 py-8 text-center text-sm text-zinc-400">No nodes match.</td></tr>
+                    )}
+                </tbody>
+            </table>
+        </div>
+    );
+}
@@ -1,16 +1,26 @@
-import React from "react";
-import { Orchestrator } from "../../types";
-import { Card } from "../ui/shared";
-
-export default function ObservabilityPanel({
-    errorPolicy,
-    errorCodes,
-    observability
-}: {
-    errorPolicy: Orchestrator["errorPolicy"];
-    errorCodes: Orchestrator["errorCodes"];
-    observability: Orchestrator["observability"];
-}) {
+import React, { useMemo, useState } from "react";
+import Icon from "../Icon";
+import { EventDef, Orchestrator } from "../../types";
+import { Card, CodeBlock, cn } from "../ui/shared";
+import { downloadText } from "../../utils";
+import { ErrorCodeFinding, ErrorCodeViolation, lintErrorCode, lintOrchestratorErrorCodes } from "../../utils/errorCodeLint";
+import { useOrchestrators } from "../../orchestrators";
+import { isEmptySchema } from "../../utils/jsonSchema";
+import { MetricsSnapshot } from "../../utils/metricsSnapshot";
+import JsonSchemaViewer from "./JsonSchemaViewer";
+import MetricsSnapshotView, { SnapshotImport, SnapshotSummary } from "./MetricsSnapshotView";
+import { CODEGEN_PARTS, CodegenLanguage, CodegenPart, generateObservabilityCode, MetricFinding, metricFindings, suggestedLanguage } from "../../utils/observabilityCodegen";
+
+const LANGUAGES: Array<{ id: CodegenLanguage; label: string }> = [
+    { id: "java", label: "Java · Micrometer" },
+    { id: "typescript", label: "TS · prom-client" },
+];
+
+export default function ObservabilityPanel({ orch }: { orch: Orchestrator }) {
+    const { orchestrators } = useOrchestrators();
+    const findings = useMemo(() => metricFindings(orch, orchestrators), [orch, orchestrators]);
+    const references = useMemo(() => lintOrchestratorErrorCodes(orch).filter(f => f.source !== "errorCodes"), [orch]);
+    const { errorPolicy, errorCodes, observability } = orch;
     if (!observability) return null;
 
     return (
@@ -37,10 +47,12 @@ export default function ObservabilityPanel({
                         {errorCodes.map(code => (
                             <li key={code.code} className="flex items-start gap-2">
                                 <span className="font-mono text-[10px] bg-red-50 text-red-700 border border-red-200 px-1 py-0.5 rounded shrink-0">{code.code}</span>
+                                <ErrorCodeLintBadge violations={lintErrorCode(code.code, code.category)} />
                                 <span>{code.description}</span>
                             </li>
                         ))}
                     </ul>
+                    {references.length > 0 && <ErrorCodeReferences findings={references} />}
                 </div>
 
                 {/* Metrics */}
@@ -53,6 +65,7 @@ export default function ObservabilityPanel({
                                      <div className="flex items-center gap-2">
                                         <span className="font-mono text-xs text-blue-700 bg-blue-50 px-1 rounded">{m.name}</span>
                                         <span className="text-[10px] text-zinc-500 uppercase tracking-wider">{m.type}</span>
+                                        <MetricLintBadge findings={findings.filter(f => f.metric === m.name)} />
                                      </div>
                                      <span className="text-xs text-zinc-600 mt-1">{m.description}</span>
                                  </li>
@@ -74,18 +87,188 @@ export default function ObservabilityPanel({
                         <div>
                             <h4 className="text-sm font-semibold text-zinc-800 mb-2 border-b border-zinc-200 pb-1">Events Published</h4>
                             <ul className="text-sm space-y-2">
-                                 {observability.events.map(e => (
-                                     <li key={e.name} className="flex flex-col">
-                                         <span className="font-mono text-xs text-green-700 bg-green-50 px-1 rounded inline-block w-fit">{e.name}</span>
-                                         <span className="text-xs text-zinc-600 mt-1">{e.trigger}</span>
-                                     </li>
-                                 ))}
+                                 {observability.events.map(e => <EventItem key={e.name} event={e} />)}
                             </ul>
                         </div>
                     </div>
                 </div>
 
+                {observability.metrics.length > 0 && <SnapshotSection key={`snapshot:${orch.id}`} orch={orch} />}
+
+                <CodeGenerator key={orch.id} orch={orch} findings={findings} />
             </div>
         </Card>
     );
 }
+
+function EventItem({ event }: { event: EventDef }) {
+    const [open, setOpen] = useState(false);
+    const schemas = [
+        { label: "Payload", schema: event.payload },
+        { label: "Headers", schema: event.headers },
+    ].filter(s => !isEmptySchema(s.schema));
+
+    return (
+        <li className="flex flex-col">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="font-mono text-xs text-green-700 bg-green-50 px-1 rounded inline-block w-fit">{event.name}</span>
+                {event.channel
+                    ? <span className="font-mono text-[10px] text-zinc-600 bg-zinc-100 border border-zinc-200 px-1 rounded" title="Channel">{event.channel}</span>
+                    : <span className="text-[10px] text-amber-700">no channel</span>}
+            </div>
+            <span className="text-xs text-zinc-600 mt-1">{event.trigger}</span>
+            {event.consumers && event.consumers.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 mt-1 text-[10px]">
+                    <span className="text-zinc-500">Consumers</span>
+                    {event.consumers.map(c => <span key={c} className="bg-blue-50 text-blue-700 border border-blue-200 px-1 rounded">{c}</span>)}
+                </div>
+            )}
+            {schemas.length > 0 && (
+                <button onClick={() => setOpen(!open)} className="text-[10px] font-semibold text-blue-600 hover:text-blue-800 w-fit mt-1">
+                    {open ? "Hide" : "Show"} {schemas.map(s => s.label.toLowerCase()).join(" & ")} schema{schemas.length > 1 ? "s" : ""}
+                </button>
+            )}
+            {open && schemas.map(s => (
+                <div key={s.label} className="mt-2">
+                    <h5 className="font-semibold text-xs mb-1 text-zinc-700">{s.label}</h5>
+                    <JsonSchemaViewer schema={s.schema} />
+                </div>
+            ))}
+        </li>
+    );
+}
+
+function MetricLintBadge({ findings }: { findings: MetricFinding[] }) {
+    if (findings.length === 0) return null;
+    const errors = findings.some(f => f.level === "error");
+    return (
+        <span
+            title={findings.map(f => f.message).join("\n")}
+            className={cn("text-[10px] border px-1 py-0.5 rounded shrink-0 cursor-help", errors ? "bg-red-50 text-red-700 border-red-200" : "bg-amber-50 text-amber-800 border-amber-200")}
+        >
+            {findings.length} naming finding{findings.length > 1 ? "s" : ""}
+        </span>
+    );
+}
+
+function SnapshotSection({ orch }: { orch: Orchestrator }) {
+    const [snapshot, setSnapshot] = useState<MetricsSnapshot | null>(null);
+
+    return (
+        <div className="border-t border-zinc-200 pt-4 space-y-3">
+            <div className="text-sm font-semibold text-zinc-800">Metrics Snapshot</div>
+            {snapshot ? (
+                <>
+                    <SnapshotSummary snapshot={snapshot} onClear={() => setSnapshot(null)} />
+                    <MetricsSnapshotView metrics={orch.observability.metrics} orchestratorId={orch.id} snapshot={snapshot} />
+                </>
+            ) : (
+                <SnapshotImport onImport={setSnapshot} />
+            )}
+        </div>
+    );
+}
+
+function CodeGenerator({ orch, findings }: { orch: Orchestrator; findings: MetricFinding[] }) {
+    const [language, setLanguage] = useState<CodegenLanguage>(() => suggestedLanguage(orch));
+    const [part, setPart] = useState<CodegenPart>("metrics");
+    const [copied, setCopied] = useState(false);
+
+    const files = useMemo(() => generateObservabilityCode(orch, language, findings), [orch, language, findings]);
+    if (files.length === 0) return null;
+    const file = files.find(f => f.part === part) ?? files[0];
+
+    const copy = async () => {
+        await navigator.clipboard.writeText(file.content);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    return (
+        <div className="border-t border-zinc-200 pt-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <div className="text-sm font-semibold text-zinc-800 mr-auto">Generated Code</div>
+                <div className="flex rounded-md border border-zinc-300 overflow-hidden">
+                    {LANGUAGES.map(l => (
+                        <button
+                            key={l.id}
+                            onClick={() => setLanguage(l.id)}
+                            className={cn("px-2.5 py-1 text-xs", language === l.id ? "bg-zinc-800 text-white" : "bg-white text-zinc-600 hover:bg-zinc-50")}
+                        >
+                            {l.label}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={copy} className="px-3 py-1.5 text-xs font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50 flex items-center gap-1.5">
+                    <Icon name="clipboard" size={12} /> {copied ? "Copied" : "Copy"}
+                </button>
+                <button
+                    onClick={() => downloadText(file.fileName, file.mediaType, file.content)}
+                    className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 flex items-center gap-1.5"
+                >
+                    <Icon name="save" size={12} /> Download {file.fileName}
+                </button>
+            </div>
+
+            <div className="flex gap-1 border-b border-zinc-200">
+                {CODEGEN_PARTS.filter(p => files.some(f => f.part === p.part)).map(p => (
+                    <button
+                        key={p.part}
+                        onClick={() => setPart(p.part)}
+                        className={cn("px-3 py-1 text-xs -mb-px border-b-2", file.part === p.part ? "border-blue-600 text-blue-700 font-semibold" : "border-transparent text-zinc-500 hover:text-zinc-700")}
+                    >
+                        {p.label}
+                    </button>
+                ))}
+            </div>
+
+            {file.part === "metrics" && findings.length > 0 && (
+                <ul className="space-y-1 text-xs">
+                    {findings.map((f, i) => (
+                        <li key={i} className={cn("flex items-start gap-2", f.level === "error" ? "text-red-700" : "text-amber-700")}>
+                            <Icon name={f.level === "error" ? "error" : "warning"} size={12} />
+                            <span><span className="font-mono">{f.metric}</span>: {f.message}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <CodeBlock text={file.content} />
+        </div>
+    );
+}
+
+/** Codes raised by flow steps (onError) and decision rules (errorCode), linted like the defined ones. */
+function ErrorCodeReferences({ findings }: { findings: ErrorCodeFinding[] }) {
+    return (
+        <div className="mt-3">
+            <div className="text-xs font-semibold text-zinc-500 mb-1">Referenced by flow steps &amp; decision rules</div>
+            <ul className="text-sm text-zinc-700 space-y-1.5">
+                {findings.map(f => (
+                    <li key={`${f.source}:${f.ref}`} className="flex flex-wrap items-center gap-2">
+                        <span className="font-mono text-[10px] bg-red-50 text-red-700 border border-red-200 px-1 py-0.5 rounded shrink-0">{f.code}</span>
+                        <ErrorCodeLintBadge violations={f.violations} />
+                        <span className="text-xs text-zinc-500">
+                            {f.source === "flowSteps.onError" ? "onError of step" : "errorCode of rule"} <span className="font-mono">{f.ref}</span>
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
+function ErrorCodeLintBadge({ violations }: { violations: ErrorCodeViolation[] }) {
+    if (violations.length === 0) {
+        return <span className="text-[10px] bg-green-50 text-green-700 border border-green-200 px-1 py-0.5 rounded shrink-0">Rules v1</span>;
+    }
+
+    return (
+        <span
+            title={violations.map(v => `${v.sectionTitle}: ${v.message}`).join("\n")}
+            className="text-[10px] bg-amber-50 text-amber-800 border border-amber-200 px-1 py-0.5 rounded shrink-0 cursor-help"
+        >
+            {violations.length} rule violation{violations.length > 1 ? "s" : ""}
+        </span>
+    );
+}
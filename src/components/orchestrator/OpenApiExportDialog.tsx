@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from "react";
+import Icon from "../Icon";
+import { CodeBlock, cn } from "../ui/shared";
+import { useOrchestrators } from "../../orchestrators";
+import { downloadText } from "../../utils";
+import { exportOpenApi, OpenApiFormat, OpenApiScope } from "../../utils/openApi";
+
+function scopeKey(scope: OpenApiScope): string {
+    return scope.kind === "orchestrator" ? `orch:${scope.id}` : scope.kind === "domain" ? `domain:${scope.domain}` : "registry";
+}
+
+function parseScopeKey(key: string): OpenApiScope {
+    if (key.startsWith("orch:")) return { kind: "orchestrator", id: key.slice(5) };
+    if (key.startsWith("domain:")) return { kind: "domain", domain: key.slice(7) };
+    return { kind: "registry" };
+}
+
+export default function OpenApiExportDialog({ initialScope, onClose }: { initialScope: OpenApiScope; onClose: () => void }) {
+    const { orchestrators } = useOrchestrators();
+    const [scope, setScope] = useState<OpenApiScope>(initialScope);
+    const [format, setFormat] = useState<OpenApiFormat>("yaml");
+    const [copied, setCopied] = useState(false);
+
+    const domains = useMemo(() => Array.from(new Set(orchestrators.map(o => o.domain))), [orchestrators]);
+    const result = useMemo(() => exportOpenApi(orchestrators, scope, format), [orchestrators, scope, format]);
+
+    const copy = async () => {
+        await navigator.clipboard.writeText(result.text);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 overflow-y-auto py-8">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl mx-4 my-auto">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-stone-200">
+                    <h2 className="text-xl font-bold text-stone-800">OpenAPI 3.1 Export</h2>
+                    <button onClick={onClose} className="text-stone-400 hover:text-stone-600 text-2xl leading-none">&times;</button>
+                </div>
+
+                <div className="px-6 py-4 space-y-4 max-h-[70vh] overflow-y-auto">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <select
+                            value={scopeKey(scope)}
+                            onChange={e => setScope(parseScopeKey(e.target.value))}
+                            className="px-3 py-1.5 text-sm border border-stone-300 rounded-lg bg-white"
+                        >
+                            <option value="registry">Full registry ({orchestrators.length})</option>
+                            <optgroup label="Domain">
+                                {domains.map(d => <option key={d} value={`domain:${d}`}>{d}</option>)}
+                            </optgroup>
+                            <optgroup label="Orchestrator">
+                                {orchestrators.map(o => <option key={o.id} value={`orch:${o.id}`}>{o.name}</option>)}
+                            </optgroup>
+                        </select>
+                        <div className="flex rounded-lg border border-stone-300 overflow-hidden">
+                            {(["yaml", "json"] as const).map(f => (
+                                <button
+                                    key={f}
+                                    onClick={() => setFormat(f)}
+                                    className={cn("px-3 py-1.5 text-xs font-semibold uppercase", format === f ? "bg-orange-500 text-white" : "bg-white text-stone-600 hover:bg-stone-50")}
+                                >
+                                    {f}
+                                </button>
+                            ))}
+                        </div>
+                        <span className="text-xs text-stone-500 ml-auto">{result.operations} operation{result.operations === 1 ? "" : "s"}</span>
+                    </div>
+
+                    {result.warnings.length > 0 && (
+                        <div className="bg-amber-50 border border-amber-200 text-amber-800 text-xs px-4 py-2 rounded-lg space-y-0.5">
+                            {result.warnings.map((w, i) => (
+                                <div key={i} className="flex items-start gap-1.5"><Icon name="warning" size={12} /> <span>{w}</span></div>
+                            ))}
+                        </div>
+                    )}
+
+                    <CodeBlock text={result.text} />
+                </div>
+
+                <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-stone-200 bg-stone-50/50 rounded-b-2xl">
+                    <button onClick={copy} className="px-4 py-2 rounded-lg text-sm font-bold bg-stone-100 text-stone-600 border border-stone-300 hover:bg-stone-200 transition-colors">
+                        <Icon name="clipboard" size={14} /> {copied ? "Copied" : "Copy"}
+                    </button>
+                    <button
+                        onClick={() => downloadText(result.fileName, format === "yaml" ? "application/yaml" : "application/json", result.text)}
+                        className="px-6 py-2 rounded-lg text-sm font-bold bg-orange-500 text-white border border-orange-600 hover:bg-orange-600 transition-colors"
+                    >
+                        <Icon name="save" size={14} /> Download {result.fileName}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from "react";
+import Icon from "../Icon";
+import { cn } from "../../utils";
+import { Orchestrator } from "../../types";
+import { useOrchestrators } from "../../orchestrators";
+import { importOpenApi, parseOpenApiText } from "../../utils/openApiImport";
+
+const inputCls = "w-full mt-1 px-3 py-2 border border-stone-300 rounded-lg text-sm";
+const labelCls = "text-xs font-semibold text-stone-500";
+
+export default function OpenApiImportDialog({ onImported, onClose }: { onImported: (saved: Orchestrator[]) => void; onClose: () => void }) {
+    const { orchestrators, save } = useOrchestrators();
+    const [fileName, setFileName] = useState("");
+    const [doc, setDoc] = useState<Record<string, unknown> | null>(null);
+    const [domain, setDomain] = useState("");
+    const [owner, setOwner] = useState("");
+    const [skipped, setSkipped] = useState<Set<string>>(new Set());
+    const [error, setError] = useState<string | null>(null);
+    const [importing, setImporting] = useState(false);
+
+    const result = useMemo(
+        () => (doc ? importOpenApi(doc, { domain: domain || undefined, owner: owner || undefined, existingIds: orchestrators.map(o => o.id) }) : null),
+        [doc, domain, owner, orchestrators]
+    );
+    const selected = result ? result.drafts.filter(d => !skipped.has(d.orchestrator.id)) : [];
+
+    const load = async (file: File) => {
+        setFileName(file.name);
+        setSkipped(new Set());
+        setError(null);
+        try {
+            setDoc(parseOpenApiText(await file.text()));
+        } catch (e: any) {
+            setDoc(null);
+            setError(e.message);
+        }
+    };
+
+    const toggle = (id: string) => {
+        const next = new Set(skipped);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setSkipped(next);
+    };
+
+    const handleImport = async () => {
+        setImporting(true);
+        setError(null);
+        const saved: Orchestrator[] = [];
+        const failed: string[] = [];
+        for (const draft of selected) {
+            try {
+                saved.push(await save(draft.orchestrator, { isNew: true }));
+            } catch (e: any) {
+                failed.push(`${draft.orchestrator.id}: ${e.message}`);
+            }
+        }
+        setImporting(false);
+        if (failed.length) {
+            setError(`Imported ${saved.length} of ${selected.length}.\n${failed.join("\n")}`);
+            setSkipped(new Set([...Array.from(skipped), ...saved.map(o => o.id)]));
+            return;
+        }
+        onImported(saved);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 overflow-y-auto py-8">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl mx-4 my-auto">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-stone-200">
+                    <h2 className="text-xl font-bold text-stone-800">Import OpenAPI</h2>
+                    <button onClick={onClose} className="text-stone-400 hover:text-stone-600 text-2xl leading-none">&times;</button>
+                </div>
+
+                <div className="px-6 py-4 space-y-4 max-h-[70vh] overflow-y-auto">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <label className="block">
+                            <span className={labelCls}>OpenAPI 3.x file (YAML or JSON)</span>
+                            <input
+                                type="file"
+                                accept=".yaml,.yml,.json"
+                                onChange={e => e.target.files?.[0] && load(e.target.files[0])}
+                                className="w-full mt-1 text-sm text-stone-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border file:border-stone-300 file:bg-stone-100 file:text-stone-600"
+                            />
+                        </label>
+                        <label className="block">
+                            <span className={labelCls}>Domain</span>
+                            <input value={domain} onChange={e => setDomain(e.target.value)} placeholder="First tag of each operation" className={inputCls} list="openapi-import-domains" />
+                            <datalist id="openapi-import-domains">
+                                {Array.from(new Set(orchestrators.map(o => o.domain))).map(d => <option key={d} value={d} />)}
+                            </datalist>
+                        </label>
+                        <label className="block">
+                            <span className={labelCls}>Owner</span>
+                            <input value={owner} onChange={e => setOwner(e.target.value)} placeholder="info.contact of the document" className={inputCls} />
+                        </label>
+                    </div>
+
+                    {error && (
+                        <div className="bg-red-50 border border-red-200 text-red-700 text-sm px-4 py-2 rounded-lg whitespace-pre-wrap">{error}</div>
+                    )}
+
+                    {result && (
+                        <>
+                            <div className="text-sm text-stone-600">
+                                <span className="font-semibold text-stone-800">{result.title}</span> {result.version} · {fileName} ·{" "}
+                                {result.drafts.length} operation{result.drafts.length === 1 ? "" : "s"}
+                            </div>
+                            {result.warnings.map((w, i) => (
+                                <div key={i} className="text-xs text-amber-700 flex items-center gap-1.5"><Icon name="warning" size={12} /> {w}</div>
+                            ))}
+                            <ul className="space-y-2">
+                                {result.drafts.map(d => {
+                                    const o = d.orchestrator;
+                                    const on = !skipped.has(o.id);
+                                    return (
+                                        <li key={o.id} className={cn("border rounded-lg px-3 py-2 text-xs", on ? "border-orange-200 bg-orange-50/40" : "border-stone-200 opacity-60")}>
+                                            <label className="flex items-center gap-2 cursor-pointer">
+                                                <input type="checkbox" checked={on} onChange={() => toggle(o.id)} />
+                                                <span className="font-mono font-semibold text-stone-700 w-14">{d.method.toUpperCase()}</span>
+                                                <span className="font-mono text-stone-800 flex-1 truncate">{d.path}</span>
+                                                <span className="font-mono text-stone-500">{o.domain}/{o.id}</span>
+                                            </label>
+                                            <div className="mt-1 ml-6 text-stone-600">
+                                                {o.name} · {o.errorCodes.length} error code{o.errorCodes.length === 1 ? "" : "s"} · missing{" "}
+                                                <span title={(o.missingSections ?? []).join("\n")} className="underline decoration-dotted">
+                                                    {(o.missingSections ?? []).length} sections
+                                                </span>
+                                            </div>
+                                            {d.warnings.map((w, i) => (
+                                                <div key={i} className="mt-0.5 ml-6 text-amber-700 flex items-center gap-1.5"><Icon name="warning" size={12} /> {w}</div>
+                                            ))}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-stone-200 bg-stone-50/50 rounded-b-2xl">
+                    <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-bold bg-stone-100 text-stone-600 border border-stone-300 hover:bg-stone-200 transition-colors">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleImport}
+                        disabled={importing || selected.length === 0}
+                        className="px-6 py-2 rounded-lg text-sm font-bold bg-orange-500 text-white border border-orange-600 hover:bg-orange-600 transition-colors disabled:opacity-50"
+                    >
+                        <Icon name="plus" size={14} /> {importing ? "Importing…" : `Import ${selected.length} draft${selected.length === 1 ? "" : "s"}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,633 @@
+import React, { useMemo, useState } from "react";
+import { DecisionRule, ErrorCodeDef, ErrorPolicy, FlowStep, MetricDef, Orchestrator, TestTargets } from "../../types";
+import { cn, safeJsonParse } from "../../utils";
+import { useOrchestrators } from "../../orchestrators";
+import { useNodes } from "../../nodes";
+import { findNode, resolveNodeContract } from "../../utils/nodeRegistry";
+import { contractImpact, SchemaPair } from "../../utils/changeImpact";
+import { stableStringify } from "../../utils/jsonSchema";
+import { validateOrchestrator } from "../../utils/orchestratorValidation";
+import { compatibilityBaseline, compatibilityReport } from "../../utils/schemaCompat";
+import Icon from "../Icon";
+import CompatibilityReportView from "./CompatibilityReportView";
+import ChangeImpactView from "./ChangeImpactView";
+
+export type EditorMode = "create" | "edit" | "clone";
+
+interface OrchestratorEditorProps {
+    mode: EditorMode;
+    orch?: Orchestrator | null;     // source record for edit / clone
+    onSave: (orch: Orchestrator) => Promise<void>;
+    onDelete?: (id: string) => Promise<void>;
+    onCancel: () => void;
+}
+
+export const EMPTY_ORCHESTRATOR: Orchestrator = {
+    id: "",
+    name: "",
+    domain: "",
+    apiPath: "/api/v1/",
+    apiId: "",
+    version: "0.1.0",
+    status: "draft",
+    owner: "",
+    lastUpdated: "",
+    tags: [],
+    summary: "",
+    userStoryMarkdown: "",
+    apiSpec: { endpoint: "", purpose: "", requestSchema: {}, responseSchema: {}, requestExample: {}, responseExample: {} },
+    orchestratorSpecMarkdown: "",
+    flowSteps: [],
+    decisionRules: [],
+    errorPolicy: [],
+    errorCodes: [],
+    observability: { metrics: [], logFields: [], events: [] },
+    nodeContracts: [],
+    runbookMarkdown: "",
+    testTargets: { happyPath: [], rejectCases: [], errorCases: [], contractValidation: [] },
+};
+
+type ApiJsonKey = "requestSchema" | "responseSchema" | "requestExample" | "responseExample";
+const API_JSON_KEYS: ApiJsonKey[] = ["requestSchema", "responseSchema", "requestExample", "responseExample"];
+
+type NodeContractDraft = { nodeId: string; version: string; description: string; inputSchema: string; outputSchema: string };
+type EventDraft = { name: string; trigger: string; channel: string; consumers: string; payload: string; headers: string };
+
+const TABS = [
+    { id: "general", label: "General" },
+    { id: "docs", label: "Docs" },
+    { id: "api", label: "API Spec" },
+    { id: "flow", label: "Flow Steps" },
+    { id: "rules", label: "Decision Rules" },
+    { id: "errors", label: "Errors" },
+    { id: "obs", label: "Observability" },
+    { id: "nodes", label: "Node Contracts" },
+    { id: "tests", label: "Test Targets" },
+] as const;
+type TabId = typeof TABS[number]["id"];
+
+const TEST_TARGET_KEYS: Array<{ key: keyof TestTargets; label: string }> = [
+    { key: "happyPath", label: "Happy Path" },
+    { key: "rejectCases", label: "Reject Cases" },
+    { key: "errorCases", label: "Error Cases" },
+    { key: "contractValidation", label: "Contract Validation" },
+];
+
+const inputCls = "w-full mt-1 px-3 py-2 border border-stone-300 rounded-lg text-sm disabled:bg-stone-100 disabled:text-stone-400";
+const labelCls = "text-xs font-semibold text-stone-500";
+
+function pretty(v: unknown) {
+    return JSON.stringify(v ?? {}, null, 2);
+}
+
+function initialDraft(mode: EditorMode, orch?: Orchestrator | null): Orchestrator {
+    if (!orch) return structuredClone(EMPTY_ORCHESTRATOR);
+    const copy = structuredClone(orch);
+    if (mode === "clone") {
+        return { ...copy, id: `${orch.id}-copy`, apiId: `${orch.apiId}-copy`, name: `${orch.name} (copy)`, status: "draft", lifecycle: undefined };
+    }
+    return copy;
+}
+
+export default function OrchestratorEditor({ mode, orch, onSave, onDelete, onCancel }: OrchestratorEditorProps) {
+    const [tab, setTab] = useState<TabId>("general");
+    const [saving, setSaving] = useState(false);
+    const [errors, setErrors] = useState<string[]>([]);
+
+    const [draft, setDraft] = useState<Orchestrator>(() => initialDraft(mode, orch));
+    const [tagsText, setTagsText] = useState(draft.tags.join(", "));
+    const [logFieldsText, setLogFieldsText] = useState(draft.observability.logFields.join(", "));
+    const [apiJson, setApiJson] = useState<Record<ApiJsonKey, string>>(() => ({
+        requestSchema: pretty(draft.apiSpec.requestSchema),
+        responseSchema: pretty(draft.apiSpec.responseSchema),
+        requestExample: pretty(draft.apiSpec.requestExample),
+        responseExample: pretty(draft.apiSpec.responseExample),
+    }));
+    const [contracts, setContracts] = useState<NodeContractDraft[]>(() => draft.nodeContracts.map(c => ({
+        nodeId: c.nodeId,
+        version: c.version ?? "",
+        description: c.description,
+        inputSchema: pretty(c.inputSchema),
+        outputSchema: pretty(c.outputSchema),
+    })));
+    const [events, setEvents] = useState<EventDraft[]>(() => draft.observability.events.map(e => ({
+        name: e.name,
+        trigger: e.trigger,
+        channel: e.channel ?? "",
+        consumers: (e.consumers ?? []).join(", "),
+        payload: e.payload === undefined ? "" : pretty(e.payload),
+        headers: e.headers === undefined ? "" : pretty(e.headers),
+    })));
+    const [testText, setTestText] = useState<Record<keyof TestTargets, string>>(() => ({
+        happyPath: draft.testTargets.happyPath.join("\n"),
+        rejectCases: draft.testTargets.rejectCases.join("\n"),
+        errorCases: draft.testTargets.errorCases.join("\n"),
+        contractValidation: draft.testTargets.contractValidation.join("\n"),
+    }));
+
+    const { revisions } = useOrchestrators();
+    const { nodes } = useNodes();
+
+    // Live version of the check the registry runs on save
+    const compat = useMemo(() => {
+        if (mode !== "edit" || !orch) return null;
+        const requestSchema = safeJsonParse<unknown>(apiJson.requestSchema);
+        const responseSchema = safeJsonParse<unknown>(apiJson.responseSchema);
+        if (requestSchema === null || responseSchema === null) return null;
+        const next = { ...draft, apiSpec: { ...draft.apiSpec, requestSchema, responseSchema } };
+        const baseline = compatibilityBaseline(orch, next, revisions(orch.id));
+        return baseline ? compatibilityReport(baseline, next) : null;
+    }, [mode, orch, draft, apiJson.requestSchema, apiJson.responseSchema, revisions]);
+
+    const isEdit = mode === "edit";
+    const set = <K extends keyof Orchestrator>(key: K, value: Orchestrator[K]) => setDraft(d => ({ ...d, [key]: value }));
+    const splitList = (s: string, sep: RegExp) => s.split(sep).map(x => x.trim()).filter(Boolean);
+
+    // Impact of each edited node contract on this orchestrator, against the contract as saved
+    const impacts = useMemo(() => {
+        if (mode !== "edit" || !orch) return [];
+        const consumer: Orchestrator = {
+            ...draft,
+            testTargets: {
+                happyPath: splitList(testText.happyPath, /\n/),
+                rejectCases: splitList(testText.rejectCases, /\n/),
+                errorCases: splitList(testText.errorCases, /\n/),
+                contractValidation: splitList(testText.contractValidation, /\n/),
+            },
+        };
+        return contracts.flatMap(c => {
+            const nodeId = c.nodeId.trim();
+            const saved = orch.nodeContracts.find(x => x.nodeId === nodeId);
+            if (!saved) return [];
+            const version = c.version.trim();
+            const next: SchemaPair | undefined = version
+                ? findNode(nodes, nodeId, version)
+                : { inputSchema: safeJsonParse<unknown>(c.inputSchema), outputSchema: safeJsonParse<unknown>(c.outputSchema) };
+            if (!next || next.inputSchema === null || next.outputSchema === null) return [];
+            if (stableStringify([saved.inputSchema, saved.outputSchema]) === stableStringify([next.inputSchema, next.outputSchema])) return [];
+            return [contractImpact(nodeId, saved, next, [consumer])];
+        });
+    }, [mode, orch, draft, contracts, testText, nodes]);
+
+    /** Assembles the record from the form; JSON text areas that don't parse are reported, not saved. */
+    const build = (): { record: Orchestrator; problems: string[] } => {
+        const problems: string[] = [];
+        const parse = (text: string, path: string) => {
+            try {
+                return JSON.parse(text);
+            } catch (e: any) {
+                problems.push(`${path}: invalid JSON (${e.message})`);
+                return {};
+            }
+        };
+
+        const apiSpec = { ...draft.apiSpec };
+        for (const key of API_JSON_KEYS) apiSpec[key] = parse(apiJson[key], `apiSpec.${key}`);
+
+        const record: Orchestrator = {
+            ...draft,
+            tags: splitList(tagsText, /,/),
+            apiSpec,
+            observability: {
+                ...draft.observability,
+                logFields: splitList(logFieldsText, /,/),
+                // Blank channel, schemas and consumers are left out rather than saved empty
+                events: events.map((e, i) => {
+                    const consumers = splitList(e.consumers, /,/);
+                    return {
+                        name: e.name,
+                        trigger: e.trigger,
+                        ...(e.channel.trim() ? { channel: e.channel.trim() } : {}),
+                        ...(e.payload.trim() ? { payload: parse(e.payload, `observability.events[${i}].payload`) } : {}),
+                        ...(e.headers.trim() ? { headers: parse(e.headers, `observability.events[${i}].headers`) } : {}),
+                        ...(consumers.length ? { consumers } : {}),
+                    };
+                }),
+            },
+            nodeContracts: contracts.map((c, i) => {
+                const nodeId = c.nodeId.trim();
+                const version = c.version.trim();
+                if (version) {
+                    // Registry reference: the schemas come from the Node Registry, the text areas are ignored
+                    if (!findNode(nodes, nodeId, version)) problems.push(`nodeContracts[${i}]: no Node Registry entry ${nodeId}@${version}`);
+                    return resolveNodeContract({ nodeId, description: c.description, version }, nodes);
+                }
+                return {
+                    nodeId,
+                    description: c.description,
+                    inputSchema: parse(c.inputSchema, `nodeContracts[${i}].inputSchema`),
+                    outputSchema: parse(c.outputSchema, `nodeContracts[${i}].outputSchema`),
+                };
+            }),
+            testTargets: {
+                happyPath: splitList(testText.happyPath, /\n/),
+                rejectCases: splitList(testText.rejectCases, /\n/),
+                errorCases: splitList(testText.errorCases, /\n/),
+                contractValidation: splitList(testText.contractValidation, /\n/),
+            },
+            decisionRules: draft.decisionRules.map(r => ({ ...r, errorCode: r.errorCode?.trim() || undefined })),
+        };
+        return { record, problems: [...problems, ...validateOrchestrator(record)] };
+    };
+
+    const handleSave = async () => {
+        const { record, problems } = build();
+        setErrors(problems);
+        if (problems.length) return;
+
+        setSaving(true);
+        try {
+            await onSave(record);
+        } catch (err: any) {
+            setErrors(String(err.message || "Save failed").split("\n"));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!orch || !onDelete) return;
+        if (!confirm(`確定要刪除 ${orch.name} (${orch.id})？這個操作無法復原。`)) return;
+        setSaving(true);
+        try {
+            await onDelete(orch.id);
+        } catch (err: any) {
+            setErrors([err.message || "Delete failed"]);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const title = mode === "edit" ? "Edit Orchestrator" : mode === "clone" ? "Clone Orchestrator" : "New Orchestrator";
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 overflow-y-auto py-8">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl mx-4 my-auto">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-stone-200">
+                    <h2 className="text-xl font-bold text-stone-800 flex items-center gap-2">
+                        <Icon name={mode === "edit" ? "edit" : "plus"} size={16} /> {title}
+                        {draft.id && <span className="font-mono text-sm text-stone-400">{draft.id}</span>}
+                    </h2>
+                    <button onClick={onCancel} className="text-stone-400 hover:text-stone-600 text-2xl leading-none">&times;</button>
+                </div>
+
+                {/* Section tabs */}
+                <div className="flex gap-1 px-6 pt-3 border-b border-stone-200 overflow-x-auto">
+                    {TABS.map(t => (
+                        <button
+                            key={t.id}
+                            onClick={() => setTab(t.id)}
+                            className={cn(
+                                "px-3 py-1.5 text-xs font-semibold whitespace-nowrap border-b-2 -mb-px",
+                                tab === t.id ? "border-orange-500 text-orange-700" : "border-transparent text-stone-500 hover:text-stone-700"
+                            )}
+                        >
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="px-6 py-4 space-y-4 max-h-[65vh] overflow-y-auto">
+                    {errors.length > 0 && (
+                        <div className="bg-red-50 border border-red-200 text-red-700 text-xs px-4 py-2 rounded-lg space-y-0.5">
+                            {errors.map((e, i) => <div key={i} className="font-mono">{e}</div>)}
+                        </div>
+                    )}
+
+                    {tab === "general" && (
+                        <div className="space-y-3">
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className={labelCls}>ID *</label>
+                                    <input value={draft.id} onChange={e => set("id", e.target.value)} disabled={isEdit} className={cn(inputCls, "font-mono")} placeholder="lot-tool-material-check" />
+                                </div>
+                                <div>
+                                    <label className={labelCls}>Name *</label>
+                                    <input value={draft.name} onChange={e => set("name", e.target.value)} className={inputCls} />
+                                </div>
+                                <div>
+                                    <label className={labelCls}>Domain *</label>
+                                    <input value={draft.domain} onChange={e => set("domain", e.target.value)} className={cn(inputCls, "font-mono")} placeholder="material" />
+                                </div>
+                                <div>
+                                    <label className={labelCls}>Owner *</label>
+                                    <input value={draft.owner} onChange={e => set("owner", e.target.value)} className={inputCls} placeholder="Team Material" />
+                                </div>
+                                <div>
+                                    <label className={labelCls}>API Path *</label>
+                                    <input value={draft.apiPath} onChange={e => set("apiPath", e.target.value)} className={cn(inputCls, "font-mono")} />
+                                </div>
+                                <div>
+                                    <label className={labelCls}>API ID *</label>
+                                    <input value={draft.apiId} onChange={e => set("apiId", e.target.value)} className={cn(inputCls, "font-mono")} />
+                                </div>
+                                <div>
+                                    <label className={labelCls}>Version *</label>
+                                    <input value={draft.version} onChange={e => set("version", e.target.value)} className={cn(inputCls, "font-mono")} />
+                                </div>
+                                <div>
+                                    <label className={labelCls}>Status</label>
+                                    {/* Status changes go through the lifecycle workflow on the Overview */}
+                                    <select value={draft.status} disabled className={inputCls} title="Change the status from Overview › Lifecycle">
+                                        <option value="draft">draft</option>
+                                        <option value="active">active</option>
+                                        <option value="deprecated">deprecated</option>
+                                    </select>
+                                </div>
+                            </div>
+                            {compat?.required && <CompatibilityReportView report={compat} onApplyBump={v => set("version", v)} />}
+                            <div>
+                                <label className={labelCls}>Tags (comma separated)</label>
+                                <input value={tagsText} onChange={e => setTagsText(e.target.value)} className={inputCls} />
+                            </div>
+                            <div>
+                                <label className={labelCls}>Summary</label>
+                                <textarea value={draft.summary} onChange={e => set("summary", e.target.value)} rows={2} className={inputCls} />
+                            </div>
+                        </div>
+                    )}
+
+                    {tab === "docs" && (
+                        <div className="space-y-3">
+                            {([
+                                ["userStoryMarkdown", "User Story (markdown)"],
+                                ["orchestratorSpecMarkdown", "Orchestrator Spec (markdown)"],
+                                ["runbookMarkdown", "Runbook (markdown, one ## ERROR_CODE section per code)"],
+                            ] as const).map(([key, label]) => (
+                                <div key={key}>
+                                    <label className={labelCls}>{label}</label>
+                                    <textarea value={draft[key]} onChange={e => set(key, e.target.value)} rows={7} className={cn(inputCls, "font-mono text-xs")} />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {tab === "api" && (
+                        <div className="space-y-3">
+                            {compat?.required && <CompatibilityReportView report={compat} onApplyBump={v => set("version", v)} />}
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className={labelCls}>Endpoint</label>
+                                    <input value={draft.apiSpec.endpoint} onChange={e => set("apiSpec", { ...draft.apiSpec, endpoint: e.target.value })} className={cn(inputCls, "font-mono")} placeholder="POST /api/v1/..." />
+                                </div>
+                                <div>
+                                    <label className={labelCls}>Purpose</label>
+                                    <input value={draft.apiSpec.purpose} onChange={e => set("apiSpec", { ...draft.apiSpec, purpose: e.target.value })} className={inputCls} />
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                {API_JSON_KEYS.map(key => (
+                                    <div key={key}>
+                                        <label className={labelCls}>{key} (JSON)</label>
+                                        <textarea value={apiJson[key]} onChange={e => setApiJson({ ...apiJson, [key]: e.target.value })} rows={10} className={cn(inputCls, "font-mono text-xs")} />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {tab === "flow" && (
+                        <RowsEditor<FlowStep>
+                            rows={draft.flowSteps}
+                            onChange={rows => set("flowSteps", rows)}
+                            empty={() => ({ stepId: `step-${draft.flowSteps.length + 1}`, nodeId: "", purpose: "", input: "", output: "", onError: "" })}
+                            fields={[
+                                { key: "stepId", label: "Step ID", mono: true },
+                                { key: "nodeId", label: "Node ID", mono: true },
+                                { key: "purpose", label: "Purpose" },
+                                { key: "input", label: "Input" },
+                                { key: "output", label: "Output" },
+                                { key: "onError", label: "On Error", mono: true },
+                            ]}
+                        />
+                    )}
+
+                    {tab === "rules" && (
+                        <RowsEditor<DecisionRule>
+                            rows={draft.decisionRules}
+                            onChange={rows => set("decisionRules", rows)}
+                            empty={() => ({ ruleId: "", description: "", when: "", then: "", errorCode: "" })}
+                            fields={[
+                                { key: "ruleId", label: "Rule ID", mono: true },
+                                { key: "description", label: "Description" },
+                                { key: "when", label: "When", mono: true },
+                                { key: "then", label: "Then" },
+                                { key: "errorCode", label: "Error Code", mono: true },
+                            ]}
+                        />
+                    )}
+
+                    {tab === "errors" && (
+                        <div className="space-y-5">
+                            <SubTitle>Error Policy</SubTitle>
+                            <RowsEditor<ErrorPolicy>
+                                rows={draft.errorPolicy}
+                                onChange={rows => set("errorPolicy", rows)}
+                                empty={() => ({ kind: "", policy: "" })}
+                                fields={[
+                                    { key: "kind", label: "Kind", options: ["BIZ", "EXT", "SYS"] },
+                                    { key: "policy", label: "Policy", wide: true },
+                                ]}
+                            />
+                            <SubTitle>Error Codes</SubTitle>
+                            <RowsEditor<ErrorCodeDef>
+                                rows={draft.errorCodes}
+                                onChange={rows => set("errorCodes", rows)}
+                                empty={() => ({ code: "", category: "BIZ", description: "" })}
+                                fields={[
+                                    { key: "code", label: "Code", mono: true },
+                                    { key: "category", label: "Category", options: ["BIZ", "EXT", "SYS"] },
+                                    { key: "description", label: "Description", wide: true },
+                                ]}
+                            />
+                        </div>
+                    )}
+
+                    {tab === "obs" && (
+                        <div className="space-y-5">
+                            <SubTitle>Metrics</SubTitle>
+                            <RowsEditor<MetricDef>
+                                rows={draft.observability.metrics}
+                                onChange={rows => set("observability", { ...draft.observability, metrics: rows })}
+                                empty={() => ({ name: "", description: "", type: "Counter" })}
+                                fields={[
+                                    { key: "name", label: "Name", mono: true },
+                                    { key: "type", label: "Type", options: ["Counter", "Timer", "Gauge", "Histogram"] },
+                                    { key: "description", label: "Description", wide: true },
+                                ]}
+                            />
+                            <div>
+                                <label className={labelCls}>Log Fields (comma separated)</label>
+                                <input value={logFieldsText} onChange={e => setLogFieldsText(e.target.value)} className={cn(inputCls, "font-mono")} />
+                            </div>
+                            <SubTitle>Events</SubTitle>
+                            <RowsEditor<EventDraft>
+                                rows={events}
+                                onChange={setEvents}
+                                empty={() => ({ name: "", trigger: "", channel: "", consumers: "", payload: pretty({ type: "object", properties: {} }), headers: "" })}
+                                fields={[
+                                    { key: "name", label: "Name", mono: true },
+                                    { key: "trigger", label: "Trigger", wide: true },
+                                    { key: "channel", label: "Channel / Topic", mono: true },
+                                    { key: "consumers", label: "Consumers (comma separated)", wide: true },
+                                    { key: "payload", label: "Payload Schema (JSON, blank = none)", json: true },
+                                    { key: "headers", label: "Headers Schema (JSON, blank = none)", json: true },
+                                ]}
+                            />
+                        </div>
+                    )}
+
+                    {tab === "nodes" && (
+                        <div className="space-y-4">
+                            {impacts.length > 0 && (
+                                <div className="space-y-3">
+                                    <SubTitle>Change Impact</SubTitle>
+                                    {impacts.map(i => <ChangeImpactView key={i.nodeId} impact={i} />)}
+                                </div>
+                            )}
+                            <RowsEditor<NodeContractDraft>
+                                rows={contracts}
+                                onChange={setContracts}
+                                empty={() => ({ nodeId: "", version: "", description: "", inputSchema: pretty({ type: "object", properties: {} }), outputSchema: pretty({ type: "object", properties: {} }) })}
+                                fields={[
+                                    { key: "nodeId", label: "Node ID", mono: true },
+                                    { key: "version", label: "Registry Version (blank = local schemas)", mono: true },
+                                    { key: "description", label: "Description" },
+                                    { key: "inputSchema", label: "Input Schema (JSON)", json: true, disabled: row => !!row.version.trim() },
+                                    { key: "outputSchema", label: "Output Schema (JSON)", json: true, disabled: row => !!row.version.trim() },
+                                ]}
+                            />
+                        </div>
+                    )}
+
+                    {tab === "tests" && (
+                        <div className="grid grid-cols-2 gap-3">
+                            {TEST_TARGET_KEYS.map(({ key, label }) => (
+                                <div key={key}>
+                                    <label className={labelCls}>{label} (one case per line)</label>
+                                    <textarea value={testText[key]} onChange={e => setTestText({ ...testText, [key]: e.target.value })} rows={6} className={cn(inputCls, "text-xs")} />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-between px-6 py-4 border-t border-stone-200 bg-stone-50/50 rounded-b-2xl">
+                    <div>
+                        {isEdit && onDelete && (
+                            <button type="button" onClick={handleDelete} disabled={saving}
+                                className="px-4 py-2 rounded-lg text-sm font-bold bg-red-100 text-red-700 border border-red-300 hover:bg-red-200 transition-colors disabled:opacity-50">
+                                <Icon name="trash" size={14} /> Delete
+                            </button>
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        <button type="button" onClick={onCancel} disabled={saving}
+                            className="px-4 py-2 rounded-lg text-sm font-bold bg-stone-100 text-stone-600 border border-stone-300 hover:bg-stone-200 transition-colors">
+                            Cancel
+                        </button>
+                        <button type="button" onClick={handleSave} disabled={saving}
+                            className="px-6 py-2 rounded-lg text-sm font-bold bg-orange-500 text-white border border-orange-600 hover:bg-orange-600 transition-colors disabled:opacity-50">
+                            {saving ? "Saving..." : isEdit ? <><Icon name="save" size={14} /> Save Changes</> : <><Icon name="plus" size={14} /> Create Orchestrator</>}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function SubTitle({ children }: { children: React.ReactNode }) {
+    return <div className="text-sm font-bold text-stone-600 border-b border-stone-200 pb-1">{children}</div>;
+}
+
+type FieldDef<T> = {
+    key: keyof T & string;
+    label: string;
+    mono?: boolean;
+    wide?: boolean;         // spans the remaining columns
+    json?: boolean;         // multi-line JSON text area on its own row
+    options?: string[];
+    disabled?: (row: T) => boolean;
+};
+
+/** Editable list of flat records: one card per row, one input per field. */
+function RowsEditor<T extends Record<string, any>>({ rows, fields, empty, onChange }: {
+    rows: T[];
+    fields: FieldDef<T>[];
+    empty: () => T;
+    onChange: (rows: T[]) => void;
+}) {
+    const update = (idx: number, key: keyof T, value: string) => {
+        const next = [...rows];
+        next[idx] = { ...next[idx], [key]: value };
+        onChange(next);
+    };
+    const move = (idx: number, delta: number) => {
+        const target = idx + delta;
+        if (target < 0 || target >= rows.length) return;
+        const next = [...rows];
+        [next[idx], next[target]] = [next[target], next[idx]];
+        onChange(next);
+    };
+    const inline = fields.filter(f => !f.json);
+    const block = fields.filter(f => f.json);
+
+    return (
+        <div className="space-y-2">
+            {rows.map((row, idx) => (
+                <div key={idx} className="border border-stone-200 rounded-xl p-3 bg-stone-50/50 space-y-2">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-stone-400">#{idx + 1}</span>
+                        <div className="flex items-center gap-2 text-[10px] font-bold">
+                            <button type="button" onClick={() => move(idx, -1)} disabled={idx === 0} className="text-stone-400 hover:text-stone-700 disabled:opacity-30">↑</button>
+                            <button type="button" onClick={() => move(idx, 1)} disabled={idx === rows.length - 1} className="text-stone-400 hover:text-stone-700 disabled:opacity-30">↓</button>
+                            <button type="button" onClick={() => onChange(rows.filter((_, i) => i !== idx))} className="text-red-400 hover:text-red-600 flex items-center gap-0.5">
+                                <Icon name="cross" size={10} /> Remove
+                            </button>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        {inline.map(f => (
+                            <div key={f.key} className={f.wide ? "col-span-2" : undefined}>
+                                <label className="text-[10px] text-stone-500">{f.label}</label>
+                                {f.options ? (
+                                    <select value={row[f.key] ?? ""} onChange={e => update(idx, f.key, e.target.value)}
+                                        className="w-full mt-0.5 px-2 py-1 border border-stone-300 rounded text-xs bg-white">
+                                        {!f.options.includes(row[f.key]) && <option value={row[f.key] ?? ""}>{row[f.key] || "—"}</option>}
+                                        {f.options.map(o => <option key={o} value={o}>{o}</option>)}
+                                    </select>
+                                ) : (
+                                    <input value={row[f.key] ?? ""} onChange={e => update(idx, f.key, e.target.value)}
+                                        className={cn("w-full mt-0.5 px-2 py-1 border border-stone-300 rounded text-xs", f.mono && "font-mono")} />
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    {block.length > 0 && (
+                        <div className="grid grid-cols-2 gap-2">
+                            {block.map(f => {
+                                const off = f.disabled?.(row) ?? false;
+                                return (
+                                    <div key={f.key}>
+                                        <label className="text-[10px] text-stone-500">{f.label}</label>
+                                        <textarea value={off ? "" : row[f.key] ?? ""} onChange={e => update(idx, f.key, e.target.value)} rows={8} disabled={off}
+                                            placeholder={off ? "Taken from the Node Registry" : undefined}
+                                            className="w-full mt-0.5 px-2 py-1 border border-stone-300 rounded text-xs font-mono disabled:bg-stone-100" />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            ))}
+            {rows.length === 0 && <div className="text-center text-sm text-stone-400 py-3">No entries yet.</div>}
+            <button type="button" onClick={() => onChange([...rows, empty()])}
+                className="px-3 py-1 rounded-lg text-xs font-bold bg-blue-100 text-blue-700 border border-blue-300 hover:bg-blue-200 transition-colors">
+                + Add
+            </button>
+        </div>
+    );
+}
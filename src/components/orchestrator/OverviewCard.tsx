@@ -1,9 +1,130 @@
-import React from "react";
-import { Orchestrator } from "../../types";
-import { Card, RiskBadge, CodeBlock } from "../ui/shared";
-import { badgeClasses } from "../../utils";
+import React, { useMemo, useState } from "react";
+import { Orchestrator, Run } from "../../types";
+import { Card, RiskBadge, CodeBlock, cn } from "../ui/shared";
+import { badgeClasses, fmtTime } from "../../utils";
+import Icon from "../Icon";
+import { analyzeOrchestrator, ConsistencyReport, GapSeverity, missingSections } from "../../utils/orchestratorConsistency";
+import { deprecationOf, LifecycleStatus, transitionsFrom } from "../../utils/orchestratorLifecycle";
+import CompletenessBadge from "./CompletenessBadge";
+import LifecycleDialog from "./LifecycleDialog";
+
+const SEVERITY_ICONS: Record<GapSeverity, { icon: string; className: string }> = {
+    error: { icon: "error", className: "text-red-600" },
+    warning: { icon: "warning", className: "text-amber-600" },
+    info: { icon: "info", className: "text-zinc-400" },
+};
+
+function Completeness({ report }: { report: ConsistencyReport }) {
+    const [showAll, setShowAll] = useState(false);
+    const findings = showAll ? report.findings : report.findings.slice(0, 6);
+
+    return (
+        <div className="mt-4 border-t border-zinc-100 pt-3">
+            <div className="flex items-center gap-2 mb-3">
+                <span className="font-semibold text-sm text-zinc-800">Completeness</span>
+                <CompletenessBadge score={report.score} />
+                <span className="text-xs text-zinc-400">{report.findings.length} gap{report.findings.length === 1 ? "" : "s"}</span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="space-y-1.5">
+                    {report.checks.map(c => (
+                        <div key={c.id} className={cn("text-xs", !c.applicable && "opacity-40")} title={c.applicable ? undefined : "Nothing to check — not scored"}>
+                            <div className="flex justify-between text-zinc-600">
+                                <span>{c.label}</span>
+                                <span className="tabular-nums">{c.applicable ? `${c.passed}/${c.total}` : "n/a"}</span>
+                            </div>
+                            <div className="h-1 bg-zinc-100 rounded-full overflow-hidden mt-0.5">
+                                <div
+                                    className={cn("h-full", c.passed === c.total ? "bg-green-500" : "bg-amber-500")}
+                                    style={{ width: `${c.total ? (100 * c.passed) / c.total : 0}%` }}
+                                />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+                <div className="md:col-span-2">
+                    {report.findings.length === 0 ? (
+                        <div className="text-xs text-green-700 flex items-center gap-1"><Icon name="check" size={12} /> All sections are consistent.</div>
+                    ) : (
+                        <ul className="space-y-1">
+                            {findings.map((f, i) => (
+                                <li key={i} className="flex items-start gap-1.5 text-xs text-zinc-700">
+                                    <span className={SEVERITY_ICONS[f.severity].className}><Icon name={SEVERITY_ICONS[f.severity].icon} size={12} /></span>
+                                    <span>{f.message}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {report.findings.length > 6 && (
+                        <button onClick={() => setShowAll(!showAll)} className="mt-1 text-xs text-blue-600 hover:text-blue-800">
+                            {showAll ? "Show fewer" : `Show all ${report.findings.length}`}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function Lifecycle({ orch, runs }: { orch: Orchestrator; runs: Run[] }) {
+    const [target, setTarget] = useState<LifecycleStatus | null>(null);
+    const timeline = (orch.lifecycle ?? []).slice().reverse();
+
+    return (
+        <div className="mt-4 text-sm border-t border-zinc-100 pt-3">
+            <div className="flex items-center gap-2 mb-2">
+                <span className="font-semibold text-zinc-800">Lifecycle</span>
+                <div className="ml-auto flex items-center gap-2">
+                    {transitionsFrom(orch.status).map(t => (
+                        <button
+                            key={t.to}
+                            onClick={() => setTarget(t.to)}
+                            title={t.description}
+                            className="px-2.5 py-1 text-xs font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50"
+                        >
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {timeline.length === 0 ? (
+                <div className="text-xs text-zinc-500">No status changes recorded — {orch.status} since before the lifecycle workflow.</div>
+            ) : (
+                <ol className="relative border-l-2 border-zinc-200 ml-1.5 space-y-3">
+                    {timeline.map((t, i) => (
+                        <li key={i} className="pl-4 relative text-xs">
+                            <span className={cn("absolute -left-[7px] top-1 w-3 h-3 rounded-full border-2 border-white", t.to === "active" ? "bg-green-500" : t.to === "draft" ? "bg-amber-500" : "bg-red-500")} />
+                            <div className="text-zinc-800">
+                                <span className="font-mono">{t.from}</span> → <span className="font-mono font-semibold">{t.to}</span>
+                                <span className="text-zinc-500"> · {t.actor} · {fmtTime(t.at)}</span>
+                            </div>
+                            <div className="text-zinc-600">{t.reason}</div>
+                            {(t.approvedBy || t.replacementId || t.sunsetDate) && (
+                                <div className="text-zinc-500">
+                                    {[t.approvedBy && `approved by ${t.approvedBy}`, t.replacementId && `replaced by ${t.replacementId}`, t.sunsetDate && `sunset ${t.sunsetDate}`].filter(Boolean).join(" · ")}
+                                </div>
+                            )}
+                            {t.checks && t.checks.length > 0 && (
+                                <div className="text-zinc-400" title={t.checks.join("\n")}>{t.checks.length} precondition{t.checks.length === 1 ? "" : "s"} checked</div>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+            {target && <LifecycleDialog orch={orch} to={target} runs={runs} onClose={() => setTarget(null)} />}
+        </div>
+    );
+}
+
+export default function OverviewCard({ orch, runs }: { orch: Orchestrator; runs: Run[] }) {
+    const report = useMemo(() => analyzeOrchestrator(orch), [orch]);
+    // Of the sections the draft was generated without, those nobody has filled in since
+    const stillMissing = useMemo(() => {
+        const now = new Set(missingSections(orch));
+        return (orch.missingSections ?? []).filter(s => now.has(s));
+    }, [orch]);
+    const deprecation = deprecationOf(orch);
 
-export default function OverviewCard({ orch }: { orch: Orchestrator }) {
     return (
         <Card title="Overview">
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
@@ -24,6 +145,11 @@ export default function OverviewCard({ orch }: { orch: Orchestrator }) {
                     <span className={`rounded-full border px-2 py-0.5 text-[10px] ${badgeClasses(orch.status === 'active' ? 'safe' : orch.status === 'draft' ? 'guarded' : 'external')}`}>
                         {orch.status}
                     </span>
+                    {deprecation && (
+                        <span className="block mt-1 text-xs text-zinc-500">
+                            {[deprecation.replacementId && `→ ${deprecation.replacementId}`, deprecation.sunsetDate && `sunset ${deprecation.sunsetDate}`].filter(Boolean).join(" · ")}
+                        </span>
+                    )}
                 </div>
                 <div>
                     <span className="text-zinc-500 block mb-1">API ID</span>
@@ -46,6 +172,23 @@ export default function OverviewCard({ orch }: { orch: Orchestrator }) {
                 <span className="block font-semibold mb-1 text-zinc-800">Summary</span>
                 {orch.summary}
             </div>
+            {orch.missingSections && (
+                <div className="mt-4 text-sm border-t border-zinc-100 pt-3">
+                    <span className="block font-semibold mb-1 text-zinc-800">Draft Sections</span>
+                    {stillMissing.length === 0 ? (
+                        <div className="text-xs text-green-700 flex items-center gap-1"><Icon name="check" size={12} /> Every section the draft was created without has been filled in.</div>
+                    ) : (
+                        <div className="flex flex-wrap items-center gap-1.5">
+                            <span className="text-xs text-zinc-500 mr-1">Still missing {stillMissing.length} of {orch.missingSections.length}:</span>
+                            {stillMissing.map(s => (
+                                <span key={s} className="font-mono text-[11px] bg-amber-50 border border-amber-200 text-amber-800 rounded px-1.5 py-0.5">{s}</span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+            <Lifecycle orch={orch} runs={runs} />
+            <Completeness report={report} />
         </Card>
     );
 }
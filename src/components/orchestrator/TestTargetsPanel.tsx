@@ -1,9 +1,25 @@
 import Icon from "../../components/Icon";
-import React from "react";
-import { TestTargets } from "../../types";
-import { Card } from "../ui/shared";
+import React, { useMemo, useState } from "react";
+import { Orchestrator, Run, RunArtifact } from "../../types";
+import { Card, CodeBlock, cn } from "../ui/shared";
+import { downloadText, nowIso } from "../../utils";
+import { buildTestCases, GeneratedTestCase, generateTestSuite, suggestedFormat, suiteFileName, TestSuiteFormat } from "../../utils/testSuiteGen";
 
-export default function TestTargetsPanel({ targets }: { targets: TestTargets }) {
+const FORMATS: Array<{ id: TestSuiteFormat; label: string; mediaType: string }> = [
+    { id: "vitest", label: "Jest / Vitest", mediaType: "text/typescript" },
+    { id: "junit5", label: "JUnit 5", mediaType: "text/x-java-source" },
+];
+
+export default function TestTargetsPanel({
+    orch,
+    runs,
+    attachToRun,
+}: {
+    orch: Orchestrator;
+    runs: Run[];
+    attachToRun: (runId: string | null, title: string, artifact: RunArtifact) => void;
+}) {
+    const targets = orch.testTargets;
     if (!targets) return null;
 
     return (
@@ -14,13 +30,120 @@ export default function TestTargetsPanel({ targets }: { targets: TestTargets })
                 <TargetSection title="Error Cases" items={targets.errorCases} color="text-red-700" bg="bg-red-50" border="border-red-200" icon="cross" />
                 <TargetSection title="Contract Validation" items={targets.contractValidation} color="text-blue-700" bg="bg-blue-50" border="border-blue-200" icon="shield" />
             </div>
+            <SuiteGenerator key={orch.id} orch={orch} runs={runs} attachToRun={attachToRun} />
         </Card>
     );
 }
 
+function SuiteGenerator({
+    orch,
+    runs,
+    attachToRun,
+}: {
+    orch: Orchestrator;
+    runs: Run[];
+    attachToRun: (runId: string | null, title: string, artifact: RunArtifact) => void;
+}) {
+    const [format, setFormat] = useState<TestSuiteFormat>(() => suggestedFormat(orch));
+    const [preview, setPreview] = useState(false);
+    const [runId, setRunId] = useState("");
+    const [attached, setAttached] = useState<string | null>(null);
+
+    const cases = useMemo(() => buildTestCases(orch), [orch]);
+    const source = useMemo(() => generateTestSuite(orch, format, cases), [orch, format, cases]);
+
+    if (cases.length === 0) return null;
+
+    const fmt = FORMATS.find(f => f.id === format)!;
+    const fileName = suiteFileName(orch, format);
+
+    const attach = () => {
+        attachToRun(runId || null, `Test suite: ${orch.name}`, { name: fileName, mediaType: fmt.mediaType, content: source, createdAt: nowIso() });
+        const run = runs.find(r => r.id === runId);
+        setAttached(run ? `Attached to "${run.title}".` : "Attached to a new run.");
+        setTimeout(() => setAttached(null), 2000);
+    };
+
+    return (
+        <div className="mt-6 border-t border-zinc-200 pt-4 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <div className="text-sm font-semibold text-zinc-800 mr-auto">Generated Suite</div>
+                <div className="flex rounded-md border border-zinc-300 overflow-hidden">
+                    {FORMATS.map(f => (
+                        <button
+                            key={f.id}
+                            onClick={() => setFormat(f.id)}
+                            className={cn("px-2.5 py-1 text-xs", format === f.id ? "bg-zinc-800 text-white" : "bg-white text-zinc-600 hover:bg-zinc-50")}
+                        >
+                            {f.label}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={() => setPreview(!preview)} className="px-3 py-1.5 text-xs font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50">
+                    {preview ? "Hide source" : "Show source"}
+                </button>
+                <button
+                    onClick={() => downloadText(fileName, fmt.mediaType, source)}
+                    className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 flex items-center gap-1.5"
+                >
+                    <Icon name="save" size={12} /> Download {fileName}
+                </button>
+            </div>
+
+            <ul className="space-y-1">
+                {cases.map(c => <CaseRow key={`${c.kind}:${c.name}`} c={c} />)}
+            </ul>
+
+            {preview && <CodeBlock text={source} />}
+
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-zinc-500">Attach to run</span>
+                <select value={runId} onChange={e => setRunId(e.target.value)} className="px-2 py-1 border border-zinc-300 rounded bg-white max-w-xs">
+                    <option value="">New run</option>
+                    {runs.map(r => <option key={r.id} value={r.id}>{r.title} · {r.status}</option>)}
+                </select>
+                <button onClick={attach} className="px-3 py-1 font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50 flex items-center gap-1.5">
+                    <Icon name="clipboard" size={12} /> Attach
+                </button>
+                {attached && <span className="text-green-700">{attached}</span>}
+            </div>
+        </div>
+    );
+}
+
+function CaseRow({ c }: { c: GeneratedTestCase }) {
+    const [open, setOpen] = useState(false);
+    return (
+        <li className="border border-zinc-200 rounded-lg text-xs">
+            <button onClick={() => setOpen(!open)} className="w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-zinc-50">
+                <span title={c.dryRun.agrees ? "Dry run agrees" : `Dry run returned ${c.dryRun.status} ${c.dryRun.errorCode ?? ""}`}>
+                    <Icon name={c.dryRun.agrees ? "check" : "warning"} size={12} />
+                </span>
+                <span className="text-zinc-800 flex-1 truncate">{c.target}</span>
+                <span className="font-mono text-zinc-500">HTTP {c.expect.status}</span>
+                {c.expect.errorCode && <span className="font-mono text-zinc-700">{c.expect.errorCode}</span>}
+                {c.notes.length > 0 && <span className="text-amber-700">{c.notes.length} note{c.notes.length > 1 ? "s" : ""}</span>}
+            </button>
+            {open && (
+                <div className="border-t border-zinc-100 px-3 py-2 space-y-1">
+                    {c.mutations.length === 0 && <div className="text-zinc-500">Request example unchanged.</div>}
+                    {c.mutations.map((m, i) => <div key={i} className="font-mono text-zinc-700">{m}</div>)}
+                    {c.expect.attempts && c.expect.attempts > 1 && (
+                        <div className="text-zinc-500">Policy allows {c.expect.attempts} calls to the failing node before giving up.</div>
+                    )}
+                    {!c.dryRun.agrees && (
+                        <div className="text-red-700">Dry run returned HTTP {c.dryRun.status} {c.dryRun.errorCode ?? ""} — check the target against the spec.</div>
+                    )}
+                    {c.notes.map((n, i) => <div key={i} className="text-amber-700">{n}</div>)}
+                </div>
+            )}
+        </li>
+    );
+}
+
 function TargetSection({ title, items, color, bg, border, icon }: { title: string, items: string[], color: string, bg: string, border: string, icon: string }) {
     if (!items || items.length === 0) return null;
-    
+
     return (
         <div className={`p-3 rounded-lg border ${border} ${bg}`}>
             <h5 className={`font-semibold text-sm mb-2 ${color} flex items-center gap-2`}>
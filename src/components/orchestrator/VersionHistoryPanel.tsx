@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from "react";
+import Icon from "../Icon";
+import { Card, cn } from "../ui/shared";
+import { fmtTime } from "../../utils";
+import { Orchestrator } from "../../types";
+import { useOrchestrators } from "../../orchestrators";
+import { CollectionDiff, diffOrchestrators, LineDiff, OrchestratorDiff, SchemaChange } from "../../utils/orchestratorDiff";
+import { compatibilityReport } from "../../utils/schemaCompat";
+import CompatibilityReportView from "./CompatibilityReportView";
+
+const KIND_CLASSES: Record<SchemaChange["kind"], string> = {
+    added: "text-green-700",
+    removed: "text-red-700",
+    changed: "text-amber-700",
+};
+
+function show(value: unknown): string {
+    if (value === undefined) return "(none)";
+    return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+export default function VersionHistoryPanel({ orch }: { orch: Orchestrator }) {
+    const { orchestrators, revisions } = useOrchestrators();
+    const revs = revisions(orch.id);
+    const latest = revs[revs.length - 1];
+
+    // Choices: "current", "rev:<n>", or another registry entry ("orch:<id>") for drafts kept as separate records
+    const options = useMemo(() => {
+        const out: Array<{ key: string; label: string; group: string; record: Orchestrator }> = [
+            { key: "current", label: `Current · v${orch.version}`, group: "This orchestrator", record: orch },
+        ];
+        for (const r of revs.slice().reverse()) {
+            out.push({ key: `rev:${r.rev}`, label: `Revision ${r.rev} · v${r.snapshot.version} · ${fmtTime(r.savedAt)}`, group: "Revisions", record: r.snapshot });
+        }
+        for (const o of orchestrators) {
+            if (o.id !== orch.id) out.push({ key: `orch:${o.id}`, label: `${o.name} · v${o.version}`, group: "Other registry entries", record: o });
+        }
+        return out;
+    }, [orch, revs, orchestrators]);
+
+    const defaultFrom = revs.length >= 2 ? `rev:${revs[revs.length - 2].rev}` : revs.length === 1 ? `rev:${revs[0].rev}` : "current";
+    const [fromKey, setFromKey] = useState(defaultFrom);
+    const [toKey, setToKey] = useState("current");
+
+    const from = options.find(o => o.key === fromKey) ?? options[0];
+    const to = options.find(o => o.key === toKey) ?? options[0];
+    const diff = useMemo(() => diffOrchestrators(from.record, to.record), [from, to]);
+    const compat = useMemo(() => compatibilityReport(from.record, to.record), [from, to]);
+
+    const select = (value: string, onChange: (v: string) => void) => (
+        <select value={value} onChange={e => onChange(e.target.value)} className="px-2 py-1 text-xs border border-zinc-300 rounded bg-white max-w-xs">
+            {["This orchestrator", "Revisions", "Other registry entries"].map(group => {
+                const items = options.filter(o => o.group === group);
+                return items.length ? (
+                    <optgroup key={group} label={group}>
+                        {items.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+                    </optgroup>
+                ) : null;
+            })}
+        </select>
+    );
+
+    return (
+        <Card title="Version History">
+            {revs.length === 0 ? (
+                <div className="text-xs text-zinc-500 mb-4">
+                    No saved revisions yet — every save from the editor is recorded here. Pick another registry entry below to compare against it.
+                </div>
+            ) : (
+                <ul className="mb-4 divide-y divide-zinc-100 border border-zinc-200 rounded-lg text-xs">
+                    {revs.slice().reverse().map((r, i, list) => {
+                        const prev = list[i + 1];
+                        const count = prev ? diffOrchestrators(prev.snapshot, r.snapshot).total : null;
+                        return (
+                            <li key={r.rev} className="flex items-center gap-3 px-3 py-1.5">
+                                <span className="font-mono text-zinc-500 w-10">#{r.rev}</span>
+                                <span className="font-mono text-zinc-800 w-20">v{r.snapshot.version}</span>
+                                <span className="text-zinc-500 flex-1">{fmtTime(r.savedAt)}</span>
+                                <span className="text-zinc-600">{count === null ? "baseline" : `${count} change${count === 1 ? "" : "s"}`}</span>
+                                {r === latest && <span className="text-green-700">latest</span>}
+                                {prev && (
+                                    <button
+                                        onClick={() => { setFromKey(`rev:${prev.rev}`); setToKey(`rev:${r.rev}`); }}
+                                        className="text-blue-600 hover:text-blue-800"
+                                    >
+                                        diff
+                                    </button>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2 text-xs mb-3">
+                <span className="text-zinc-500">Compare</span>
+                {select(fromKey, setFromKey)}
+                <span className="text-zinc-400">→</span>
+                {select(toKey, setToKey)}
+                <span className="ml-auto text-zinc-600">{diff.total} change{diff.total === 1 ? "" : "s"}</span>
+            </div>
+
+            <div className="mb-4">
+                <div className="text-xs font-semibold text-zinc-800 mb-1">API Compatibility</div>
+                <CompatibilityReportView report={compat} />
+            </div>
+
+            <DiffView diff={diff} />
+        </Card>
+    );
+}
+
+function DiffView({ diff }: { diff: OrchestratorDiff }) {
+    if (diff.total === 0) {
+        return <div className="text-xs text-green-700 flex items-center gap-1"><Icon name="check" size={12} /> No differences.</div>;
+    }
+    return (
+        <div className="space-y-4 text-xs">
+            {diff.fields.length > 0 && (
+                <DiffGroup title="Fields">
+                    {diff.fields.map(f => (
+                        <div key={f.field} className="flex gap-2">
+                            <span className="font-mono text-zinc-500 w-40 shrink-0">{f.field}</span>
+                            <span className="text-red-700 line-through break-all">{show(f.before)}</span>
+                            <span className="text-green-700 break-all">{show(f.after)}</span>
+                        </div>
+                    ))}
+                </DiffGroup>
+            )}
+            {diff.schemas.map(s => (
+                <DiffGroup key={s.section} title={s.section}>
+                    {s.changes.map((c, i) => (
+                        <div key={i} className="flex gap-2">
+                            <span className={cn("w-16 shrink-0 font-semibold", KIND_CLASSES[c.kind])}>{c.kind}</span>
+                            <span className="font-mono text-zinc-500 w-40 shrink-0 truncate" title={c.path}>{c.path}</span>
+                            <span className="text-zinc-800">{c.message}</span>
+                        </div>
+                    ))}
+                </DiffGroup>
+            ))}
+            {diff.collections.map(c => <CollectionChanges key={c.section} c={c} />)}
+            {diff.text.map(t => (
+                <TextDiff key={t.section} section={t.section} lines={t.lines} added={t.added} removed={t.removed} />
+            ))}
+        </div>
+    );
+}
+
+function DiffGroup({ title, children }: { title: string; children: React.ReactNode }) {
+    return (
+        <div>
+            <div className="font-semibold text-zinc-800 mb-1 font-mono">{title}</div>
+            <div className="space-y-0.5 pl-2 border-l-2 border-zinc-200">{children}</div>
+        </div>
+    );
+}
+
+function CollectionChanges({ c }: { c: CollectionDiff }) {
+    return (
+        <DiffGroup title={c.section}>
+            {c.added.map(k => <div key={`+${k}`} className="text-green-700">+ {k}</div>)}
+            {c.removed.map(k => <div key={`-${k}`} className="text-red-700">− {k}</div>)}
+            {c.changed.map(ch => (
+                <div key={`~${ch.key}`}>
+                    <span className="text-amber-700">~ {ch.key}</span>
+                    {ch.fields.map(f => (
+                        <div key={f.field} className="pl-4 flex gap-2">
+                            <span className="font-mono text-zinc-500 w-24 shrink-0">{f.field}</span>
+                            <span className="text-red-700 line-through break-all">{show(f.before)}</span>
+                            <span className="text-green-700 break-all">{show(f.after)}</span>
+                        </div>
+                    ))}
+                </div>
+            ))}
+            {c.reordered && <div className="text-zinc-500">order changed</div>}
+        </DiffGroup>
+    );
+}
+
+const CONTEXT = 2;
+
+function TextDiff({ section, lines, added, removed }: { section: string; lines: LineDiff[]; added: number; removed: number }) {
+    const [open, setOpen] = useState(false);
+    // Changed lines plus CONTEXT lines around them; the rest collapses to "…"
+    const keep = lines.map((_, i) => lines.slice(Math.max(0, i - CONTEXT), i + CONTEXT + 1).some(l => l.op !== "same"));
+
+    return (
+        <div>
+            <button onClick={() => setOpen(!open)} className="font-semibold text-zinc-800 font-mono flex items-center gap-2 hover:text-blue-700">
+                {section}
+                <span className="text-green-700 font-normal">+{added}</span>
+                <span className="text-red-700 font-normal">−{removed}</span>
+                <span className="text-zinc-400 font-normal">{open ? "hide" : "show"}</span>
+            </button>
+            {open && (
+                <pre className="mt-1 bg-zinc-50 border border-zinc-200 rounded p-2 overflow-x-auto leading-5">
+                    {lines.map((l, i) => {
+                        if (!keep[i]) return keep[i - 1] ? <div key={i} className="text-zinc-400">…</div> : null;
+                        return (
+                            <div
+                                key={i}
+                                className={cn(l.op === "added" && "bg-green-50 text-green-800", l.op === "removed" && "bg-red-50 text-red-800", l.op === "same" && "text-zinc-600")}
+                            >
+                                {l.op === "added" ? "+ " : l.op === "removed" ? "- " : "  "}{l.text}
+                            </div>
+                        );
+                    })}
+                </pre>
+            )}
+        </div>
+    );
+}
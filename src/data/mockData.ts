@@ -2,6 +2,30 @@ import { PortalApp, Skill, FlowSpec, Runbook, IncidentBundle, DataContract } fro
 import { nowIso } from "../utils";
 
 export const APPS: PortalApp[] = [
+    {
+        id: "assets.orchestrator",
+        title: "Orchestrators",
+        category: "Assets",
+        description: "Browse domain orchestrators: API spec, flow steps, rules, node contracts.",
+        tags: ["orchestrator", "registry"],
+        risk: "safe",
+    },
+    {
+        id: "assets.nodes",
+        title: "Node Registry",
+        category: "Assets",
+        description: "Reusable flow nodes: versions, owners, input/output schemas and the orchestrators that use them.",
+        tags: ["node", "registry", "schema"],
+        risk: "safe",
+    },
+    {
+        id: "assets.flows",
+        title: "Flow Specs",
+        category: "Assets",
+        description: "Flow DSL viewer: blocks, calls, nodes and gates as a graph.",
+        tags: ["flow", "dsl", "graph"],
+        risk: "safe",
+    },
     {
         id: "exec.skills",
         title: "AI Crew",
@@ -26,6 +50,14 @@ export const APPS: PortalApp[] = [
         tags: ["AI report", "observability"],
         risk: "guarded",
     },
+    {
+        id: "mon.runbooks",
+        title: "Runbook Coverage",
+        category: "Monitoring",
+        description: "Error codes across orchestrators and incidents, resolved to runbook sections or prefix runbooks.",
+        tags: ["runbook", "error codes", "on-call"],
+        risk: "safe",
+    },
     {
         id: "inv.rca",
         title: "Incident Investigator",
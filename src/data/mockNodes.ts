@@ -0,0 +1,66 @@
+import { NodeConfig } from "../types";
+
+export const NODES: NodeConfig[] = [
+    {
+        id: "node-query-lot",
+        nodeType: "service-call",
+        owner: "Team Core",
+        version: "1.0.0",
+        description: "Calls Lot Service API to get lot status and recipe",
+        inputSchema: {
+            type: "object",
+            required: ["lotId"],
+            properties: { lotId: { type: "string" } }
+        },
+        outputSchema: {
+            type: "object",
+            properties: { lotStatus: { type: "string" }, recipe: { type: "string" } }
+        }
+    },
+    {
+        id: "node-query-lot",
+        nodeType: "service-call",
+        owner: "Team Core",
+        version: "1.1.0",
+        description: "Calls Lot Service API to get lot status, recipe and route step",
+        inputSchema: {
+            type: "object",
+            required: ["lotId"],
+            properties: { lotId: { type: "string" } }
+        },
+        outputSchema: {
+            type: "object",
+            properties: { lotStatus: { type: "string" }, recipe: { type: "string" }, routeStep: { type: "string" } }
+        }
+    },
+    {
+        id: "node-query-tool",
+        nodeType: "service-call",
+        owner: "Team Core",
+        version: "1.0.0",
+        description: "Calls Tool Service API to get tool state",
+        inputSchema: {
+            type: "object",
+            properties: { toolId: { type: "string" } }
+        },
+        outputSchema: {
+            type: "object",
+            properties: { toolState: { type: "string" }, alarms: { type: "array" } }
+        }
+    },
+    {
+        id: "node-check-material",
+        nodeType: "rule",
+        owner: "Team Material",
+        version: "1.0.0",
+        description: "Applies BIZ rules for material compatibility",
+        inputSchema: {
+            type: "object",
+            properties: { materialId: { type: "string" }, requiredRecipe: { type: "string" } }
+        },
+        outputSchema: {
+            type: "object",
+            properties: { match: { type: "boolean" }, conflictReason: { type: "string" } }
+        }
+    }
+];
@@ -141,10 +141,10 @@ See the Decision Rules section for specific business error conditions.
         ],
 
         errorCodes: [
-            { code: "BIZ_TOOL_NOT_UP", category: "BIZ", description: "The specified tool is not in UP state." },
-            { code: "BIZ_MATERIAL_ON_HOLD", category: "BIZ", description: "The material has been placed on hold." },
-            { code: "SYS_INVALID_INPUT", category: "SYS", description: "Request payload did not match schema." },
-            { code: "EXT_LOT_SERVICE_ERROR", category: "EXT", description: "Upstream lot service timeout." }
+            { code: "BIZ_TOOL_NOT_UP", category: "BIZ", description: "The specified tool is not in UP state.", errorType: "BIZ" },
+            { code: "BIZ_MATERIAL_ON_HOLD", category: "BIZ", description: "The material has been placed on hold.", errorType: "BIZ" },
+            { code: "SYS_INVALID_INPUT", category: "SYS", description: "Request payload did not match schema.", errorType: "VALIDATION", httpStatus: 400 },
+            { code: "EXT_LOT_SERVICE_ERROR", category: "EXT", description: "Upstream lot service timeout.", errorType: "DEPENDENCY" }
         ],
 
         observability: {
@@ -155,7 +155,31 @@ See the Decision Rules section for specific business error conditions.
             ],
             logFields: ["lotId", "toolId", "materialId", "is_valid", "error_code"],
             events: [
-                { name: "MaterialCheckFailedEvent", trigger: "When isValid=false, publish to Kafka topic." }
+                {
+                    name: "MaterialCheckFailedEvent",
+                    trigger: "When isValid=false, publish to Kafka topic.",
+                    channel: "mfg.material.check-failed",
+                    payload: {
+                        type: "object",
+                        properties: {
+                            lotId: { type: "string" },
+                            toolId: { type: "string" },
+                            materialId: { type: "string" },
+                            errorCode: { type: "string" },
+                            reason: { type: "string" }
+                        },
+                        required: ["lotId", "toolId", "materialId", "errorCode"]
+                    },
+                    headers: {
+                        type: "object",
+                        properties: {
+                            correlationId: { type: "string" },
+                            eventVersion: { type: "string" }
+                        },
+                        required: ["correlationId"]
+                    },
+                    consumers: ["analytics-yield-dashboard", "material-planning"]
+                }
             ]
         },
 
@@ -163,14 +187,7 @@ See the Decision Rules section for specific business error conditions.
             {
                 nodeId: "node-query-tool",
                 description: "Calls Tool Service API to get tool state",
-                inputSchema: {
-                    type: "object",
-                    properties: { toolId: { type: "string" } }
-                },
-                outputSchema: {
-                    type: "object",
-                    properties: { toolState: { type: "string" }, alarms: { type: "array" } }
-                }
+                version: "1.0.0"
             },
             {
                 nodeId: "node-check-material",
@@ -0,0 +1,121 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { NodeConfig } from "./types";
+import { NODES } from "./data/mockNodes";
+import { validateNodeConfig } from "./utils/orchestratorValidation";
+import { findNode } from "./utils/nodeRegistry";
+
+/**
+ * Node Registry store — the single source of truth for reusable flow nodes.
+ *
+ * Same setup as the orchestrator registry: records live behind the local
+ * backend's REST API (/api/nodes), NODES in mockNodes.ts is the seed, and
+ * the registry is edited in memory when the backend is not running.
+ * A published version is immutable: changes are published as a new version.
+ */
+
+const API = "http://127.0.0.1:4097/api/nodes";
+
+export type RegistrySource = "api" | "memory";
+
+interface NodeContextType {
+    nodes: NodeConfig[];
+    source: RegistrySource;
+    loading: boolean;
+    reload: () => Promise<void>;
+    publish: (node: NodeConfig) => Promise<NodeConfig>;
+    remove: (id: string, version: string) => Promise<void>;
+}
+
+const NodeContext = createContext<NodeContextType>({
+    nodes: NODES,
+    source: "memory",
+    loading: false,
+    reload: async () => {},
+    publish: async (node) => node,
+    remove: async () => {},
+});
+
+async function errorFrom(resp: Response, fallback: string): Promise<Error> {
+    try {
+        const err = await resp.json();
+        return new Error(err.error || `${fallback} (${resp.status})`);
+    } catch {
+        return new Error(`${fallback} (${resp.status})`);
+    }
+}
+
+/** Persists the seed into an empty backend. A 409 means an overlapping run already wrote that record. */
+async function seedBackend(): Promise<void> {
+    for (const seed of NODES) {
+        const resp = await fetch(API, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(seed) });
+        if (!resp.ok && resp.status !== 409) throw await errorFrom(resp, `Seeding ${seed.id}@${seed.version} failed`);
+    }
+}
+
+export function NodeProvider({ children }: { children: React.ReactNode }) {
+    const [nodes, setNodes] = useState<NodeConfig[]>(NODES);
+    const [source, setSource] = useState<RegistrySource>("memory");
+    const [loading, setLoading] = useState(true);
+    const seeding = useRef<Promise<void> | null>(null);
+
+    const reload = useCallback(async () => {
+        try {
+            const resp = await fetch(API);
+            if (!resp.ok) throw new Error(`Load failed (${resp.status})`);
+            const data: unknown[] = await resp.json();
+            if (data.length === 0) {
+                // First run against an empty backend: persist the seed. Overlapping
+                // reloads (StrictMode runs the mount effect twice) share one write.
+                seeding.current ??= seedBackend().finally(() => { seeding.current = null; });
+                await seeding.current;
+                setNodes(NODES);
+            } else {
+                setNodes(data.filter(d => validateNodeConfig(d).length === 0) as NodeConfig[]);
+            }
+            setSource("api");
+        } catch {
+            setSource("memory");
+        }
+        setLoading(false);
+    }, []);
+
+    useEffect(() => { reload(); }, [reload]);
+
+    const publish = async (node: NodeConfig) => {
+        const problems = validateNodeConfig(node);
+        if (problems.length) throw new Error(problems.join("\n"));
+        if (findNode(nodes, node.id, node.version)) {
+            throw new Error(`${node.id}@${node.version} is already published — publish a new version instead`);
+        }
+
+        if (source === "api") {
+            const resp = await fetch(API, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(node) });
+            if (!resp.ok) throw await errorFrom(resp, "Publish failed");
+            await reload();
+            return node;
+        }
+
+        setNodes(prev => [...prev, node]);
+        return node;
+    };
+
+    const remove = async (id: string, version: string) => {
+        if (source === "api") {
+            const resp = await fetch(`${API}/${id}/${version}`, { method: "DELETE" });
+            if (!resp.ok) throw await errorFrom(resp, "Delete failed");
+            await reload();
+            return;
+        }
+        setNodes(prev => prev.filter(n => !(n.id === id && n.version === version)));
+    };
+
+    return (
+        <NodeContext.Provider value={{ nodes, source, loading, reload, publish, remove }}>
+            {children}
+        </NodeContext.Provider>
+    );
+}
+
+export function useNodes() {
+    return useContext(NodeContext);
+}
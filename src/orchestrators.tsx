@@ -0,0 +1,214 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { Orchestrator, OrchestratorRevision } from "./types";
+import { ORCHESTRATORS } from "./data/mockOrchestrators";
+import { nowIso } from "./utils";
+import { validateOrchestrator } from "./utils/orchestratorValidation";
+import { compatibilityBaseline, compatibilityReport } from "./utils/schemaCompat";
+import { transitionProblems } from "./utils/orchestratorLifecycle";
+import { nodeRefProblems, resolveNodeContracts, stripNodeRefs } from "./utils/nodeRegistry";
+import { useNodes } from "./nodes";
+
+/**
+ * Orchestrator registry store.
+ *
+ * Records live behind the local backend's REST API (/api/orchestrators).
+ * ORCHESTRATORS in mockOrchestrators.ts is only the seed: it is shown while
+ * the backend has no records yet, and edited in memory when the backend is
+ * not running.
+ *
+ * Every save is also recorded as a revision (the record as it was before
+ * the first recorded save becomes revision 1) so the workspace can diff any
+ * two of them. Revisions live next to the record, under
+ * /api/orchestrators/:id/revisions, and go when the record is deleted; in
+ * memory mode they are kept in memory with the records. Saves whose API schema
+ * changes are not matched by a semver bump are rejected (see schemaCompat),
+ * and so are status changes that bypass the lifecycle workflow (see
+ * orchestratorLifecycle).
+ *
+ * Node contracts that reference a Node Registry version are stored as the
+ * bare reference; `orchestrators` (and revisions) carry them resolved.
+ */
+
+const API = "http://127.0.0.1:4097/api/orchestrators";
+
+type History = Record<string, OrchestratorRevision[]>;
+
+/** Same content, ignoring the save timestamp. */
+function sameContent(a: Orchestrator, b: Orchestrator): boolean {
+    return JSON.stringify({ ...a, lastUpdated: "" }) === JSON.stringify({ ...b, lastUpdated: "" });
+}
+
+/** Revisions a save appends to `list`: the record as it was before the first recorded save becomes revision 1. */
+function newRevisions(list: OrchestratorRevision[], previous: Orchestrator | undefined, record: Orchestrator): OrchestratorRevision[] {
+    const added: OrchestratorRevision[] = [];
+    if (list.length === 0 && previous) added.push({ rev: 1, savedAt: previous.lastUpdated || nowIso(), snapshot: previous });
+    const last = added[added.length - 1] ?? list[list.length - 1];
+    if (last && sameContent(last.snapshot, record)) return added;
+    added.push({ rev: (last?.rev ?? 0) + 1, savedAt: record.lastUpdated, snapshot: record });
+    return added;
+}
+
+export type RegistrySource = "api" | "memory";
+
+interface OrchestratorContextType {
+    orchestrators: Orchestrator[];
+    source: RegistrySource;
+    loading: boolean;
+    reload: () => Promise<void>;
+    save: (orch: Orchestrator, opts?: { isNew?: boolean }) => Promise<Orchestrator>;
+    remove: (id: string) => Promise<void>;
+    /** Saved revisions of an orchestrator, oldest first. */
+    revisions: (id: string) => OrchestratorRevision[];
+}
+
+const OrchestratorContext = createContext<OrchestratorContextType>({
+    orchestrators: ORCHESTRATORS,
+    source: "memory",
+    loading: false,
+    reload: async () => {},
+    save: async (orch) => orch,
+    remove: async () => {},
+    revisions: () => [],
+});
+
+async function errorFrom(resp: Response, fallback: string): Promise<Error> {
+    try {
+        const err = await resp.json();
+        return new Error(err.error || `${fallback} (${resp.status})`);
+    } catch {
+        return new Error(`${fallback} (${resp.status})`);
+    }
+}
+
+async function fetchRevisions(id: string): Promise<OrchestratorRevision[]> {
+    const resp = await fetch(`${API}/${id}/revisions`);
+    if (!resp.ok) throw await errorFrom(resp, `Loading revisions of ${id} failed`);
+    return resp.json();
+}
+
+async function postRevision(id: string, revision: OrchestratorRevision): Promise<void> {
+    const resp = await fetch(`${API}/${id}/revisions`, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(revision) });
+    if (!resp.ok) throw await errorFrom(resp, `Recording revision ${revision.rev} of ${id} failed`);
+}
+
+/** Drops every revision of `id`; a 404 means there were none. */
+async function deleteRevisions(id: string): Promise<void> {
+    const resp = await fetch(`${API}/${id}/revisions`, { method: "DELETE" });
+    if (!resp.ok && resp.status !== 404) throw await errorFrom(resp, `Deleting revisions of ${id} failed`);
+}
+
+/** Persists the seed into an empty backend. A 409 means an overlapping run already wrote that record. */
+async function seedBackend(): Promise<void> {
+    for (const seed of ORCHESTRATORS) {
+        const resp = await fetch(API, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(seed) });
+        if (!resp.ok && resp.status !== 409) throw await errorFrom(resp, `Seeding ${seed.id} failed`);
+    }
+}
+
+export function OrchestratorProvider({ children }: { children: React.ReactNode }) {
+    const { nodes } = useNodes();
+    const [stored, setStored] = useState<Orchestrator[]>(ORCHESTRATORS);
+    const orchestrators = useMemo(() => stored.map(o => resolveNodeContracts(o, nodes)), [stored, nodes]);
+    const [source, setSource] = useState<RegistrySource>("memory");
+    const [loading, setLoading] = useState(true);
+    const seeding = useRef<Promise<void> | null>(null);
+    const [history, setHistory] = useState<History>({});
+
+    const reload = useCallback(async () => {
+        try {
+            const resp = await fetch(API);
+            if (!resp.ok) throw new Error(`Load failed (${resp.status})`);
+            const data: unknown[] = await resp.json();
+            if (data.length === 0) {
+                // First run against an empty backend: persist the seed. Overlapping
+                // reloads (StrictMode runs the mount effect twice) share one write.
+                seeding.current ??= seedBackend().finally(() => { seeding.current = null; });
+                await seeding.current;
+                setStored(ORCHESTRATORS);
+                setHistory({});
+            } else {
+                // Drop records the backend holds that no longer match the type
+                const records = data.filter(d => validateOrchestrator(d).length === 0) as Orchestrator[];
+                setStored(records);
+                // A record whose revisions can't be read shows no history rather than failing the load
+                const loaded = await Promise.all(records.map(o => fetchRevisions(o.id).then(list => [o.id, list] as const, () => null)));
+                setHistory(Object.fromEntries(loaded.filter(x => x !== null)));
+            }
+            setSource("api");
+        } catch {
+            // fallback: edit the bundled seed in memory
+            setSource("memory");
+        }
+        setLoading(false);
+    }, []);
+
+    useEffect(() => { reload(); }, [reload]);
+
+    const save = async (orch: Orchestrator, { isNew = false }: { isNew?: boolean } = {}) => {
+        const record: Orchestrator = { ...orch, lastUpdated: nowIso() };
+        const problems = [...validateOrchestrator(record), ...nodeRefProblems(record, nodes)];
+        if (problems.length) throw new Error(problems.join("\n"));
+        if (isNew && orchestrators.some(o => o.id === record.id)) {
+            throw new Error(`Orchestrator "${record.id}" already exists`);
+        }
+        const previous = isNew ? undefined : orchestrators.find(o => o.id === record.id);
+        const lifecycle = transitionProblems(previous, record, orchestrators);
+        if (lifecycle.length) throw new Error(lifecycle.join("\n"));
+        // Checked against the revisions the registry holds, not this tab's copy of them
+        const revs = !previous ? [] : source === "api" ? await fetchRevisions(record.id) : history[record.id] ?? [];
+        const baseline = compatibilityBaseline(previous, record, revs);
+        if (baseline) {
+            const report = compatibilityReport(baseline, record);
+            if (!report.ok) throw new Error(report.problems.join("\n"));
+        }
+
+        if (source === "api") {
+            const resp = await fetch(isNew ? API : `${API}/${record.id}`, {
+                method: isNew ? "POST" : "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(stripNodeRefs(record)),
+            });
+            if (!resp.ok) throw await errorFrom(resp, "Save failed");
+            try {
+                // A new record starts a fresh history, whatever an earlier record with its id left behind
+                if (isNew) await deleteRevisions(record.id);
+                for (const revision of newRevisions(revs, previous, record)) await postRevision(record.id, revision);
+            } finally {
+                await reload();
+            }
+            return record;
+        }
+
+        const row = stripNodeRefs(record);
+        setStored(prev => isNew ? [...prev, row] : prev.map(o => (o.id === record.id ? row : o)));
+        setHistory(prev => ({ ...prev, [record.id]: [...revs, ...newRevisions(revs, previous, record)] }));
+        return record;
+    };
+
+    const remove = async (id: string) => {
+        if (source === "api") {
+            const resp = await fetch(`${API}/${id}`, { method: "DELETE" });
+            if (!resp.ok) throw await errorFrom(resp, "Delete failed");
+            try {
+                await deleteRevisions(id);
+            } finally {
+                await reload();
+            }
+            return;
+        }
+        setStored(prev => prev.filter(o => o.id !== id));
+        setHistory(({ [id]: _, ...rest }) => rest);
+    };
+
+    const revisions = (id: string) => history[id] ?? [];
+
+    return (
+        <OrchestratorContext.Provider value={{ orchestrators, source, loading, reload, save, remove, revisions }}>
+            {children}
+        </OrchestratorContext.Provider>
+    );
+}
+
+export function useOrchestrators() {
+    return useContext(OrchestratorContext);
+}
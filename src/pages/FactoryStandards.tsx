@@ -1,7 +1,11 @@
 import Icon from "../components/Icon";
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import errorCodeRules from "../data/factory-standards/error-code-rules-v1.json";
 import factoryManifesto from "../data/factory-standards/factory-manifesto.json";
+import { useOrchestrators } from "../orchestrators";
+import { lintRegistryErrorCodes } from "../utils/errorCodeLint";
+import ErrorCodeBuilder from "../components/ErrorCodeBuilder";
+import { ErrorCodeDef, Orchestrator } from "../types";
 
 /* ── Types ── */
 interface StandardSection {
@@ -311,12 +315,85 @@ function ManifestoDetail({ section }: { section: StandardSection }) {
   return null;
 }
 
+function ErrorCodeFindings({ orchestrators }: { orchestrators: Orchestrator[] }) {
+  const [showPassing, setShowPassing] = useState(false);
+  const findings = useMemo(() => lintRegistryErrorCodes(orchestrators), [orchestrators]);
+  const failing = findings.filter(f => f.violations.length > 0);
+  const visible = showPassing ? findings : failing;
+
+  return (
+    <div className="p-5 border-t border-zinc-100">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h3 className="font-semibold text-sm text-zinc-800">Registry Findings</h3>
+          <p className="text-xs text-zinc-500 mt-0.5">
+            {failing.length} / {findings.length} error code references across {orchestrators.length} orchestrators break this standard
+          </p>
+        </div>
+        <label className="flex items-center gap-1.5 text-xs text-zinc-500">
+          <input type="checkbox" checked={showPassing} onChange={e => setShowPassing(e.target.checked)} />
+          Show passing
+        </label>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="px-3 py-2 bg-green-50 border border-green-200 rounded text-xs text-green-700">
+          <Icon name="success" size={14} className="inline" /> All referenced error codes follow Error Code Rules v1.
+        </div>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-zinc-500">
+              <th className="pb-2 font-medium">Orchestrator</th>
+              <th className="pb-2 font-medium">Code</th>
+              <th className="pb-2 font-medium">Referenced by</th>
+              <th className="pb-2 font-medium">Violations</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((f, i) => (
+              <tr key={`${f.orchestratorId}.${f.source}.${f.ref}.${i}`} className="border-t border-zinc-100 align-top">
+                <td className="py-1.5 pr-2 font-mono text-zinc-600">{f.orchestratorId}</td>
+                <td className="py-1.5 pr-2 font-mono text-red-600">{f.code}</td>
+                <td className="py-1.5 pr-2 text-zinc-500">
+                  <span className="font-mono">{f.source}</span> · {f.ref}
+                </td>
+                <td className="py-1.5">
+                  {f.violations.length === 0 ? (
+                    <span className="text-green-600"><Icon name="check" size={12} /> ok</span>
+                  ) : (
+                    <ul className="space-y-0.5">
+                      {f.violations.map((v, j) => (
+                        <li key={j} className="text-zinc-700">
+                          <span className="bg-amber-50 text-amber-700 px-1 rounded mr-1">{v.sectionTitle}</span>
+                          {v.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
 /* ── Main Page ── */
 export default function FactoryStandards({ initialTab }: { initialTab?: string }) {
   const [selectedId, setSelectedId] = useState<string>(
     initialTab === "manifesto" && ALL_STANDARDS.length > 1 ? ALL_STANDARDS[1].id : ALL_STANDARDS[0].id
   );
   const selected = ALL_STANDARDS.find(s => s.id === selectedId) ?? ALL_STANDARDS[0];
+  const { orchestrators, save } = useOrchestrators();
+
+  const addErrorCode = async (orchestratorId: string, def: ErrorCodeDef) => {
+    const orch = orchestrators.find(o => o.id === orchestratorId);
+    if (!orch) throw new Error(`Orchestrator "${orchestratorId}" not found`);
+    await save({ ...orch, errorCodes: [...orch.errorCodes, def] });
+  };
 
   return (
     <div className="h-full overflow-y-auto px-6">
@@ -401,6 +478,15 @@ export default function FactoryStandards({ initialTab }: { initialTab?: string }
                   <SectionCard key={section.id} section={section} standardId={selected.id} />
                 ))}
               </div>
+
+              {selected.id === "error-code-rules-v1" && (
+                <>
+                  <div className="px-5 pb-5">
+                    <ErrorCodeBuilder orchestrators={orchestrators} onAdd={addErrorCode} />
+                  </div>
+                  <ErrorCodeFindings orchestrators={orchestrators} />
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,76 @@
+import React, { useMemo, useState } from "react";
+import { Card, CodeBlock, cn } from "../components/ui/shared";
+import FlowGraph from "../components/orchestrator/FlowGraph";
+import { SelectedNode } from "../components/orchestrator/FlowStepList";
+import { FLOWS } from "../data/mockData";
+import { useOrchestrators } from "../orchestrators";
+import { flowSpecGraph, GraphNode } from "../utils/flowGraph";
+
+export default function FlowSpecs() {
+    const [flowId, setFlowId] = useState(FLOWS[0]?.id ?? "");
+    const [selected, setSelected] = useState<GraphNode | null>(null);
+    const flow = FLOWS.find(f => f.id === flowId);
+    const graph = useMemo(() => (flow ? flowSpecGraph(flow) : null), [flow]);
+    const { orchestrators } = useOrchestrators();
+    const contracts = useMemo(() => orchestrators.flatMap(o => o.nodeContracts), [orchestrators]);
+
+    return (
+        <div className="h-full overflow-y-auto px-6">
+            <div className="grid grid-cols-1 gap-4 lg:grid-cols-4">
+                <Card title="Flow Specs">
+                    <div className="space-y-2">
+                        {FLOWS.map(f => (
+                            <button
+                                key={f.id}
+                                onClick={() => { setFlowId(f.id); setSelected(null); }}
+                                className={cn(
+                                    "w-full rounded-xl border px-3 py-2 text-left",
+                                    flowId === f.id ? "border-zinc-900 bg-zinc-900 text-white" : "border-zinc-200 bg-white text-zinc-800 hover:bg-zinc-50"
+                                )}
+                            >
+                                <div className="truncate text-sm font-semibold">{f.name}</div>
+                                <div className={cn("mt-1 text-xs font-mono", flowId === f.id ? "text-zinc-300" : "text-zinc-500")}>{f.id}</div>
+                            </button>
+                        ))}
+                    </div>
+                </Card>
+
+                <div className="space-y-4 lg:col-span-3">
+                    {flow && graph ? (
+                        <>
+                            <Card title={flow.name}>
+                                <div className="text-xs text-zinc-600 mb-3">{flow.description}</div>
+                                <FlowGraph model={graph} selectedId={selected?.id} onSelect={setSelected} height={460} />
+                                {selected && <SelectedNode node={selected} contracts={contracts} onClose={() => setSelected(null)} />}
+                            </Card>
+
+                            <Card title="DSL">
+                                <CodeBlock text={flow.dsl} />
+                                {graph.diagnostics.length > 0 && (
+                                    <ul className="mt-3 space-y-1">
+                                        {graph.diagnostics.map((d, i) => (
+                                            <li key={i} className="flex items-start gap-2 text-xs">
+                                                <span className={cn(
+                                                    "font-mono px-1 rounded shrink-0",
+                                                    d.severity === "error" ? "bg-red-50 text-red-700" : "bg-amber-50 text-amber-700"
+                                                )}>
+                                                    {d.pos.line}:{d.pos.column}
+                                                </span>
+                                                <span className="font-mono text-zinc-400 shrink-0">{d.code}</span>
+                                                <span className="text-zinc-700">{d.message}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </Card>
+                        </>
+                    ) : (
+                        <Card>
+                            <div className="text-sm text-zinc-500">Select a flow spec to inspect.</div>
+                        </Card>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,15 +1,116 @@
-import React from "react";
+import React, { useMemo, useState } from "react";
 import { Card, RiskBadge } from "../components/ui/shared";
 import { SKILLS } from "../data/mockData";
-import { Skill } from "../types";
+import { Orchestrator, Run, Skill } from "../types";
+import { useOrchestrators } from "../orchestrators";
+import { cn, fmtTime, statusClasses } from "../utils";
+import { MOCK_BASE } from "../utils/mockServer";
 
 interface GatesProps {
     runSkill: (skill: Skill) => Promise<void>;
+    runs: Run[];
+    runContractTests: (orch: Orchestrator, baseUrl: string) => Promise<void>;
 }
 
-export default function Gates({ runSkill }: GatesProps) {
+const LOG_TONE: Record<string, string> = {
+    pass: "text-green-700",
+    fail: "text-red-700",
+    error: "text-red-700",
+    warn: "text-amber-700",
+};
+
+function ContractGate({ runs, runContractTests }: Pick<GatesProps, "runs" | "runContractTests">) {
+    const { orchestrators } = useOrchestrators();
+    const [orchId, setOrchId] = useState(orchestrators[0]?.id ?? "");
+    const [baseUrl, setBaseUrl] = useState(() => `${window.location.origin}${MOCK_BASE}`);
+    const [openRunId, setOpenRunId] = useState<string | null>(null);
+
+    // Latest Q1 run per orchestrator; runs are newest first
+    const latest = useMemo(() => {
+        const map = new Map<string, Run>();
+        for (const r of runs) if (r.contract && !map.has(r.contract.orchestratorId)) map.set(r.contract.orchestratorId, r);
+        return map;
+    }, [runs]);
+
+    const orch = orchestrators.find(o => o.id === orchId);
+    const busy = Array.from(latest.values()).some(r => r.status === "running" || r.status === "queued");
+    const openRun = runs.find(r => r.id === openRunId) ?? (orch ? latest.get(orch.id) : undefined);
+
+    const start = () => {
+        if (!orch || !baseUrl.trim()) return;
+        setOpenRunId(null);
+        void runContractTests(orch, baseUrl.trim());
+    };
+
+    return (
+        <Card title="Q1 · Contract Tests">
+            <div className="text-xs text-zinc-600 mb-3">
+                Replays every test target as a real HTTP request and checks the status code, responseSchema conformance and the expected error code.
+                Against the portal's mock server each case's node stubs are applied as fixture state.
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+                <select value={orchId} onChange={e => setOrchId(e.target.value)} className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-xs">
+                    {orchestrators.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                </select>
+                <input
+                    value={baseUrl}
+                    onChange={e => setBaseUrl(e.target.value)}
+                    placeholder="Base URL"
+                    className="flex-1 min-w-[16rem] rounded-xl border border-zinc-200 bg-white px-3 py-2 font-mono text-xs"
+                />
+                <button
+                    onClick={start}
+                    disabled={!orch || busy}
+                    className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-xs shadow-sm hover:bg-zinc-50 disabled:opacity-50"
+                >
+                    Run
+                </button>
+            </div>
+
+            {latest.size > 0 && (
+                <div className="mt-4 overflow-hidden rounded-xl border border-zinc-200">
+                    <table className="min-w-full text-left text-xs">
+                        <thead className="bg-zinc-50 text-zinc-500 uppercase tracking-wider text-[10px]">
+                            <tr>
+                                <th className="px-3 py-2 font-semibold">Orchestrator</th>
+                                <th className="px-3 py-2 font-semibold">Result</th>
+                                <th className="px-3 py-2 font-semibold">Passed</th>
+                                <th className="px-3 py-2 font-semibold">Target</th>
+                                <th className="px-3 py-2 font-semibold">When</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-zinc-100">
+                            {Array.from(latest.values()).map(r => (
+                                <tr key={r.id} onClick={() => setOpenRunId(r.id)} className={cn("cursor-pointer hover:bg-zinc-50", openRun?.id === r.id && "bg-zinc-50")}>
+                                    <td className="px-3 py-2 font-mono">{r.contract!.orchestratorId}</td>
+                                    <td className="px-3 py-2"><span className={cn("rounded-full px-2 py-0.5 text-[10px] font-semibold", statusClasses(r.status))}>{r.status}</span></td>
+                                    <td className="px-3 py-2">{r.contract!.passed}/{r.contract!.total}</td>
+                                    <td className="px-3 py-2 font-mono text-zinc-500 truncate max-w-[16rem]">{r.contract!.baseUrl}</td>
+                                    <td className="px-3 py-2 text-zinc-500">{fmtTime(r.createdAt)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {openRun && (
+                <div className="mt-3 rounded-xl border border-zinc-200 bg-zinc-50 p-3 font-mono text-xs space-y-0.5 max-h-72 overflow-y-auto">
+                    {openRun.logs.map((line, i) => {
+                        const tag = /^\[(\w+)\]/.exec(line)?.[1] ?? "";
+                        return <div key={i} className={LOG_TONE[tag] ?? "text-zinc-600"}>{line}</div>;
+                    })}
+                </div>
+            )}
+        </Card>
+    );
+}
+
+export default function Gates({ runSkill, runs, runContractTests }: GatesProps) {
     return (
         <div className="h-full overflow-y-auto space-y-4 px-6">
+            <ContractGate runs={runs} runContractTests={runContractTests} />
+
             <Card title="Gates & Lints">
                 <div className="grid grid-cols-1 gap-3 lg:grid-cols-2">
                     {SKILLS.filter((s) => ["ai.contract", "ai.unit", "ai.coverage", "ai.e2e", "ai.runbook"].includes(s.id)).map((s) => (
@@ -1,20 +1,66 @@
-import React from "react";
+import React, { useMemo, useState } from "react";
 import { Card, RiskBadge } from "../components/ui/shared";
-import { SKILLS } from "../data/mockData";
+import { INCIDENTS, RUNBOOKS, SKILLS } from "../data/mockData";
+import { useOrchestrators } from "../orchestrators";
 import { Skill } from "../types";
+import { coverageMarkdown, CoverageReport, runbookCoverage } from "../utils/runbookCoverage";
+import { COVERAGE_STYLES } from "./RunbookCoverage";
 
 interface MonitoringProps {
     runSkill: (skill: Skill) => Promise<void>;
+    openApp: (id: string) => void;
 }
 
-export default function Monitoring({ runSkill }: MonitoringProps) {
+const COVERAGE_REPORT = "Top Error Codes + Runbook Coverage";
+
+function CoverageSummary({ report, openApp }: { report: CoverageReport; openApp: (id: string) => void }) {
+    const [copied, setCopied] = useState(false);
+    const gaps = report.entries.filter(e => e.status !== "covered").slice(0, 5);
+
+    const copy = async () => {
+        await navigator.clipboard.writeText(coverageMarkdown(report));
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    return (
+        <div className="mt-3 rounded-xl border border-zinc-200 bg-zinc-50 p-3 text-xs text-zinc-600 space-y-2">
+            <div className="flex flex-wrap gap-2">
+                {(["covered", "prefix", "missing"] as const).map(s => (
+                    <span key={s} className={`rounded-full border px-2 py-0.5 text-[10px] font-semibold ${COVERAGE_STYLES[s].className}`}>
+                        {COVERAGE_STYLES[s].label} {report.totals[s]}
+                    </span>
+                ))}
+            </div>
+            {gaps.length > 0 && (
+                <ul className="space-y-0.5">
+                    {gaps.map(e => (
+                        <li key={e.code} className="flex justify-between gap-2">
+                            <span className="font-mono text-zinc-800">{e.code}</span>
+                            <span>{COVERAGE_STYLES[e.status].label}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="flex gap-3">
+                <button onClick={() => openApp("mon.runbooks")} className="text-blue-600 hover:text-blue-800 font-semibold">Open matrix</button>
+                <button onClick={copy} className="text-blue-600 hover:text-blue-800 font-semibold">{copied ? "Copied" : "Copy as markdown"}</button>
+            </div>
+        </div>
+    );
+}
+
+export default function Monitoring({ runSkill, openApp }: MonitoringProps) {
+    const { orchestrators } = useOrchestrators();
+    const coverage = useMemo(() => runbookCoverage(orchestrators, RUNBOOKS, INCIDENTS), [orchestrators]);
+
     return (
         <div className="h-full overflow-y-auto space-y-4 px-6">
             <Card title="Monitoring Report Generator">
                 <div className="h-full overflow-y-auto space-y-3">
                     <div className="text-sm text-zinc-700">Generate reports from sandbox snapshots (not direct production write-access).</div>
                     <div className="grid grid-cols-1 gap-3 lg:grid-cols-2">
-                        {["Daily On-call Digest", "Weekly Stability Report", "Top Error Codes + Runbook Coverage"].map((t) => (
+                        {["Daily On-call Digest", "Weekly Stability Report", COVERAGE_REPORT].map((t) => (
                             <div key={t} className="rounded-2xl border border-zinc-200 bg-white p-4">
                                 <div className="flex items-start justify-between gap-3">
                                     <div>
@@ -33,9 +79,13 @@ export default function Monitoring({ runSkill }: MonitoringProps) {
                                     </button>
                                 </div>
 
-                                <div className="mt-3 rounded-xl border border-zinc-200 bg-zinc-50 p-3 text-xs text-zinc-600">
-                                    Output: markdown/pdf · charts · action items · runbook gaps
-                                </div>
+                                {t === COVERAGE_REPORT ? (
+                                    <CoverageSummary report={coverage} openApp={openApp} />
+                                ) : (
+                                    <div className="mt-3 rounded-xl border border-zinc-200 bg-zinc-50 p-3 text-xs text-zinc-600">
+                                        Output: markdown/pdf · charts · action items · runbook gaps
+                                    </div>
+                                )}
                             </div>
                         ))}
                     </div>
@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from "react";
+import { Card, cn } from "../components/ui/shared";
+import Icon from "../components/Icon";
+import { NodeConfig } from "../types";
+import { useNodes } from "../nodes";
+import { useOrchestrators } from "../orchestrators";
+import { groupNodes, NodeEntry, nodeUsages, NodeUsage } from "../utils/nodeRegistry";
+import { NodeContractSchemas } from "../components/orchestrator/NodeContractPanel";
+import PublishNodeDialog from "../components/nodes/PublishNodeDialog";
+
+function UsageRef({ usage, latest }: { usage: NodeUsage; latest: string }) {
+    if (usage.version === undefined) return <span className="text-zinc-400">flow only — no contract</span>;
+    if (usage.version === null) {
+        return (
+            <span className="rounded border px-1.5 py-0.5 text-[10px] bg-amber-50 text-amber-800 border-amber-200" title="The orchestrator keeps its own copy of the schemas">
+                local copy
+            </span>
+        );
+    }
+    return (
+        <span className={cn("rounded border px-1.5 py-0.5 text-[10px] font-mono", usage.version === latest ? "bg-green-50 text-green-700 border-green-200" : "bg-zinc-50 text-zinc-600 border-zinc-200")}>
+            @{usage.version}
+        </span>
+    );
+}
+
+function NodeDetail({ entry, openApp, onNewVersion }: { entry: NodeEntry; openApp: (id: string) => void; onNewVersion: (base: NodeConfig) => void }) {
+    const { orchestrators } = useOrchestrators();
+    const { remove } = useNodes();
+    const [version, setVersion] = useState(entry.versions[0].version);
+    const [error, setError] = useState<string | null>(null);
+    const node = entry.versions.find(v => v.version === version) ?? entry.versions[0];
+    const latest = entry.versions[0].version;
+    const usages = useMemo(() => nodeUsages(entry.id, orchestrators), [entry.id, orchestrators]);
+    const inUse = usages.some(u => u.version === node.version);
+
+    const handleRemove = async () => {
+        setError(null);
+        try {
+            await remove(node.id, node.version);
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    return (
+        <Card
+            title={<span className="font-mono">{entry.id}</span>}
+            right={
+                <button onClick={() => onNewVersion(entry.versions[0])} className="text-xs font-semibold text-blue-600 hover:text-blue-800 flex items-center gap-1">
+                    <Icon name="plus" size={12} /> New version
+                </button>
+            }
+        >
+            <div className="space-y-4 text-sm">
+                <div className="flex flex-wrap gap-1.5">
+                    {entry.versions.map(v => (
+                        <button
+                            key={v.version}
+                            onClick={() => setVersion(v.version)}
+                            className={cn("rounded-full border px-2.5 py-0.5 text-xs font-mono", v.version === node.version ? "border-zinc-800 bg-zinc-800 text-white" : "border-zinc-200 bg-white text-zinc-600 hover:bg-zinc-50")}
+                        >
+                            {v.version}{v.version === latest ? " · latest" : ""}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 text-xs">
+                    <div>
+                        <span className="text-zinc-500 block">Type</span>
+                        <span className="text-zinc-800">{node.nodeType}</span>
+                    </div>
+                    <div>
+                        <span className="text-zinc-500 block">Owner</span>
+                        <span className="text-zinc-800">{node.owner}</span>
+                    </div>
+                    <div className="col-span-2">
+                        <span className="text-zinc-500 block">Description</span>
+                        <span className="text-zinc-800">{node.description || "—"}</span>
+                    </div>
+                </div>
+
+                <NodeContractSchemas node={{ nodeId: node.id, description: node.description, inputSchema: node.inputSchema, outputSchema: node.outputSchema }} />
+
+                <div>
+                    <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-1">Used by</div>
+                    {usages.length === 0 ? (
+                        <div className="text-xs text-zinc-400">No orchestrator uses this node yet.</div>
+                    ) : (
+                        <ul className="space-y-1 text-xs">
+                            {usages.map(u => (
+                                <li key={u.orchestrator.id} className="flex items-center gap-2">
+                                    <button onClick={() => openApp(`orch.${u.orchestrator.domain}.${u.orchestrator.id}`)} className="font-mono text-blue-600 hover:underline">
+                                        {u.orchestrator.id}
+                                    </button>
+                                    <UsageRef usage={u} latest={latest} />
+                                    {u.steps.length > 0 && <span className="text-zinc-400 font-mono">{u.steps.join(", ")}</span>}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-3 border-t border-zinc-100 pt-3">
+                    <button
+                        onClick={handleRemove}
+                        disabled={inUse}
+                        title={inUse ? "Referenced by an orchestrator" : undefined}
+                        className="text-xs font-semibold text-red-500 hover:text-red-700 disabled:opacity-40 disabled:hover:text-red-500"
+                    >
+                        Delete {node.version}
+                    </button>
+                    {inUse && <span className="text-xs text-zinc-400">referenced — move its orchestrators to another version first</span>}
+                    {error && <span className="text-xs text-red-600">{error}</span>}
+                </div>
+            </div>
+        </Card>
+    );
+}
+
+export default function NodeRegistry({ openApp }: { openApp: (id: string) => void }) {
+    const { nodes, source } = useNodes();
+    const { orchestrators } = useOrchestrators();
+    const [search, setSearch] = useState("");
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [publishing, setPublishing] = useState<{ base?: NodeConfig } | null>(null);
+
+    const entries = useMemo(() => groupNodes(nodes), [nodes]);
+    const rows = useMemo(() => {
+        const q = search.trim().toLowerCase();
+        if (!q) return entries;
+        return entries.filter(e => [e.id, e.versions[0].nodeType, e.versions[0].owner, e.versions[0].description].join(" ").toLowerCase().includes(q));
+    }, [entries, search]);
+    const selected = entries.find(e => e.id === selectedId) ?? null;
+
+    return (
+        <div className="h-full overflow-y-auto px-6 space-y-4">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-zinc-900 tracking-tight">Node Registry</h1>
+                    <p className="text-sm text-zinc-500">Reusable flow nodes — one published schema per version, referenced by orchestrator node contracts.</p>
+                    {source === "memory" && (
+                        <p className="text-xs text-amber-700 mt-1 flex items-center gap-1">
+                            <Icon name="warning" size={12} /> Backend offline — showing the bundled seed; changes are kept in memory.
+                        </p>
+                    )}
+                </div>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        placeholder="Search nodes..."
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        className="px-3 py-1.5 text-sm border border-zinc-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 w-64"
+                    />
+                    <button
+                        onClick={() => setPublishing({})}
+                        className="px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 flex items-center gap-1.5"
+                    >
+                        <Icon name="plus" size={14} /> Publish
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+                <div className="xl:col-span-2 bg-white border border-zinc-200 rounded-xl overflow-x-auto self-start">
+                    <table className="min-w-full text-left text-sm whitespace-nowrap">
+                        <thead className="bg-zinc-50 text-zinc-500 border-b border-zinc-200 uppercase tracking-wider text-[10px]">
+                            <tr>
+                                <th className="px-4 py-3 font-semibold">Node ID</th>
+                                <th className="px-4 py-3 font-semibold">Type</th>
+                                <th className="px-4 py-3 font-semibold">Owner</th>
+                                <th className="px-4 py-3 font-semibold">Latest</th>
+                                <th className="px-4 py-3 font-semibold">Versions</th>
+                                <th className="px-4 py-3 font-semibold">Used by</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-zinc-100">
+                            {rows.map(e => {
+                                const latest = e.versions[0];
+                                const used = nodeUsages(e.id, orchestrators);
+                                const copies = used.filter(u => u.version === null).length;
+                                return (
+                                    <tr
+                                        key={e.id}
+                                        onClick={() => setSelectedId(e.id)}
+                                        className={cn("cursor-pointer hover:bg-blue-50/50", selectedId === e.id && "bg-blue-50")}
+                                    >
+                                        <td className="px-4 py-2 font-mono text-xs text-zinc-800">{e.id}</td>
+                                        <td className="px-4 py-2 text-xs text-zinc-600">{latest.nodeType}</td>
+                                        <td className="px-4 py-2 text-xs text-zinc-600">{latest.owner}</td>
+                                        <td className="px-4 py-2 font-mono text-xs">{latest.version}</td>
+                                        <td className="px-4 py-2 text-xs text-zinc-600">{e.versions.length}</td>
+                                        <td className="px-4 py-2 text-xs text-zinc-600">
+                                            {used.length}
+                                            {copies > 0 && <span className="ml-2 text-amber-700">{copies} local cop{copies === 1 ? "y" : "ies"}</span>}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {rows.length === 0 && (
+                                <tr><td colSpan={6} className="px-4 py-8 text-center text-sm text-zinc-400">No nodes match.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div>
+                    {selected ? (
+                        <NodeDetail key={selected.id} entry={selected} openApp={openApp} onNewVersion={base => setPublishing({ base })} />
+                    ) : (
+                        <Card>
+                            <div className="text-sm text-zinc-500">Select a node to see its versions, schemas and the orchestrators that use it.</div>
+                        </Card>
+                    )}
+                </div>
+            </div>
+
+            {publishing && (
+                <PublishNodeDialog
+                    base={publishing.base}
+                    onPublished={node => { setPublishing(null); setSelectedId(node.id); }}
+                    onClose={() => setPublishing(null)}
+                />
+            )}
+        </div>
+    );
+}
@@ -1,19 +1,35 @@
 import Icon from "../components/Icon";
 import React, { useState, useMemo } from "react";
-import { ORCHESTRATORS } from "../data/mockOrchestrators";
+import { useOrchestrators } from "../orchestrators";
 import { badgeClasses, cn } from "../utils";
 import { Orchestrator } from "../types";
+import OrchestratorEditor from "../components/orchestrator/OrchestratorEditor";
+import CompletenessBadge from "../components/orchestrator/CompletenessBadge";
+import OpenApiExportDialog from "../components/orchestrator/OpenApiExportDialog";
+import AsyncApiExportDialog from "../components/orchestrator/AsyncApiExportDialog";
+import OpenApiImportDialog from "../components/orchestrator/OpenApiImportDialog";
+import NodeDependencyMap from "../components/orchestrator/NodeDependencyMap";
+import { analyzeOrchestrator, ConsistencyReport } from "../utils/orchestratorConsistency";
+
+type SortDir = "asc" | "desc" | null;
 
 export default function OrchestratorOverview({ openApp }: { openApp: (id: string) => void }) {
     const [search, setSearch] = useState("");
     const [statusFilter, setStatusFilter] = useState("all");
     const [domainFilter, setDomainFilter] = useState("all");
+    const [creating, setCreating] = useState(false);
+    const [exporting, setExporting] = useState(false);
+    const [exportingEvents, setExportingEvents] = useState(false);
+    const [importing, setImporting] = useState(false);
+    const [scoreSort, setScoreSort] = useState<SortDir>(null);
+    const [view, setView] = useState<"domains" | "nodes">("domains");
+    const { orchestrators, source, save } = useOrchestrators();
 
-    const domains = useMemo(() => Array.from(new Set(ORCHESTRATORS.map(o => o.domain))), []);
+    const domains = useMemo(() => Array.from(new Set(orchestrators.map(o => o.domain))), [orchestrators]);
     const statuses = ["active", "draft", "deprecated"];
 
     const filtered = useMemo(() => {
-        return ORCHESTRATORS.filter(o => {
+        return orchestrators.filter(o => {
             if (statusFilter !== "all" && o.status !== statusFilter) return false;
             if (domainFilter !== "all" && o.domain !== domainFilter) return false;
             if (search.trim()) {
@@ -22,17 +38,30 @@ export default function OrchestratorOverview({ openApp }: { openApp: (id: string
             }
             return true;
         });
-    }, [search, statusFilter, domainFilter]);
+    }, [orchestrators, search, statusFilter, domainFilter]);
+
+    const reports = useMemo(() => {
+        const m = new Map<string, ConsistencyReport>();
+        for (const o of orchestrators) m.set(o.id, analyzeOrchestrator(o));
+        return m;
+    }, [orchestrators]);
 
     const grouped = useMemo(() => {
         const m = new Map<string, Orchestrator[]>();
-        for (const o of filtered) {
+        const rows = [...filtered];
+        if (scoreSort) {
+            const sign = scoreSort === "asc" ? 1 : -1;
+            rows.sort((a, b) => sign * ((reports.get(a.id)?.score ?? 0) - (reports.get(b.id)?.score ?? 0)));
+        }
+        for (const o of rows) {
             const list = m.get(o.domain) || [];
             list.push(o);
             m.set(o.domain, list);
         }
         return m;
-    }, [filtered]);
+    }, [filtered, reports, scoreSort]);
+
+    const cycleScoreSort = () => setScoreSort(d => (d === null ? "desc" : d === "desc" ? "asc" : null));
 
     return (
         <div className="h-full overflow-y-auto space-y-6 animate-in fade-in duration-300 px-6">
@@ -40,91 +69,188 @@ export default function OrchestratorOverview({ openApp }: { openApp: (id: string
                 <div>
                     <h1 className="text-2xl font-bold text-zinc-900 tracking-tight">Orchestrator Registry</h1>
                     <p className="text-sm text-zinc-500">Browse and manage domain orchestrators across the factory.</p>
+                    {source === "memory" && (
+                        <p className="text-xs text-amber-700 mt-1 flex items-center gap-1">
+                            <Icon name="warning" size={12} /> Backend offline — showing the bundled seed; changes are kept in memory.
+                        </p>
+                    )}
                 </div>
 
                 <div className="flex items-center gap-2">
+                    <div className="flex rounded-md border border-zinc-300 overflow-hidden text-sm">
+                        {([["domains", "Domains"], ["nodes", "Node Map"]] as const).map(([id, label]) => (
+                            <button
+                                key={id}
+                                onClick={() => setView(id)}
+                                className={cn("px-3 py-1.5", view === id ? "bg-zinc-800 text-white" : "bg-white text-zinc-600 hover:bg-zinc-50")}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
                     <input
                         type="text"
-                        placeholder="Search orchestrators..."
+                        placeholder={view === "nodes" ? "Search nodes..." : "Search orchestrators..."}
                         value={search}
                         onChange={e => setSearch(e.target.value)}
                         className="px-3 py-1.5 text-sm border border-zinc-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500/20 w-64"
                     />
-                    <select
-                        value={domainFilter}
-                        onChange={e => setDomainFilter(e.target.value)}
-                        className="px-3 py-1.5 text-sm border border-zinc-300 rounded-md bg-white focus:outline-none"
+                    {view === "domains" && (
+                        <>
+                            <select
+                                value={domainFilter}
+                                onChange={e => setDomainFilter(e.target.value)}
+                                className="px-3 py-1.5 text-sm border border-zinc-300 rounded-md bg-white focus:outline-none"
+                            >
+                                <option value="all">All Domains</option>
+                                {domains.map(d => <option key={d} value={d}>{d}</option>)}
+                            </select>
+                            <select
+                                value={statusFilter}
+                                onChange={e => setStatusFilter(e.target.value)}
+                                className="px-3 py-1.5 text-sm border border-zinc-300 rounded-md bg-white focus:outline-none capitalize"
+                            >
+                                <option value="all">All Status</option>
+                                {statuses.map(s => <option key={s} value={s}>{s}</option>)}
+                            </select>
+                        </>
+                    )}
+                    <button
+                        onClick={() => setCreating(true)}
+                        className="px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700 flex items-center gap-1.5"
+                    >
+                        <Icon name="plus" size={14} /> New
+                    </button>
+                    <button
+                        onClick={() => setExporting(true)}
+                        className="px-3 py-1.5 text-sm font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50 flex items-center gap-1.5"
+                    >
+                        <Icon name="save" size={14} /> Export OpenAPI
+                    </button>
+                    <button
+                        onClick={() => setExportingEvents(true)}
+                        className="px-3 py-1.5 text-sm font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50 flex items-center gap-1.5"
                     >
-                        <option value="all">All Domains</option>
-                        {domains.map(d => <option key={d} value={d}>{d}</option>)}
-                    </select>
-                    <select
-                        value={statusFilter}
-                        onChange={e => setStatusFilter(e.target.value)}
-                        className="px-3 py-1.5 text-sm border border-zinc-300 rounded-md bg-white focus:outline-none capitalize"
+                        <Icon name="save" size={14} /> Export AsyncAPI
+                    </button>
+                    <button
+                        onClick={() => setImporting(true)}
+                        className="px-3 py-1.5 text-sm font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50 flex items-center gap-1.5"
                     >
-                        <option value="all">All Status</option>
-                        {statuses.map(s => <option key={s} value={s}>{s}</option>)}
-                    </select>
+                        <Icon name="plus" size={14} /> Import OpenAPI
+                    </button>
                 </div>
             </div>
 
-            <div className="h-full overflow-y-auto space-y-8 px-6">
-                {Array.from(grouped.entries()).map(([domain, items]) => (
-                    <div key={domain} className="bg-white rounded-xl shadow-sm border border-zinc-200 overflow-hidden">
-                        <div className="bg-zinc-50 border-b border-zinc-200 px-4 py-3 flex items-center gap-2">
-                            <span className="font-semibold text-zinc-800 uppercase tracking-wider text-sm">{domain} Domain</span>
-                            <span className="bg-blue-100 text-blue-700 text-xs font-bold px-2 py-0.5 rounded-full">{items.length}</span>
-                        </div>
-                        <div className="overflow-x-auto">
-                            <table className="min-w-full text-left text-sm whitespace-nowrap">
-                                <thead className="bg-white text-zinc-500 border-b border-zinc-100 uppercase tracking-wider text-[10px]">
-                                    <tr>
-                                        <th className="px-4 py-3 font-semibold">Orchestrator ID</th>
-                                        <th className="px-4 py-3 font-semibold">Name</th>
-                                        <th className="px-4 py-3 font-semibold">API Path</th>
-                                        <th className="px-4 py-3 font-semibold">Version</th>
-                                        <th className="px-4 py-3 font-semibold">Status</th>
-                                        <th className="px-4 py-3 font-semibold">Owner</th>
-                                    </tr>
-                                </thead>
-                                <tbody className="divide-y divide-zinc-100 text-zinc-700">
-                                    {items.map(orch => (
-                                        <tr 
-                                            key={orch.id} 
-                                            onClick={() => openApp(`orch.${orch.domain}.${orch.id}`)}
-                                            className="hover:bg-blue-50/50 cursor-pointer transition-colors group"
-                                        >
-                                            <td className="px-4 py-3 font-mono text-xs text-blue-600 group-hover:underline">
-                                                {orch.id}
-                                            </td>
-                                            <td className="px-4 py-3 font-medium text-zinc-900">{orch.name}</td>
-                                            <td className="px-4 py-3 font-mono text-xs text-zinc-500">{orch.apiPath}</td>
-                                            <td className="px-4 py-3">{orch.version}</td>
-                                            <td className="px-4 py-3">
-                                                <span className={cn(
-                                                    "rounded-full border px-2 py-0.5 text-[10px]",
-                                                    badgeClasses(orch.status === 'active' ? 'safe' : orch.status === 'draft' ? 'guarded' : 'external')
-                                                )}>
-                                                    {orch.status}
-                                                </span>
-                                            </td>
-                                            <td className="px-4 py-3 text-xs">{orch.owner}</td>
+            {view === "nodes" ? (
+                <div className="px-6">
+                    <NodeDependencyMap search={search} openApp={openApp} />
+                </div>
+            ) : (
+                <div className="h-full overflow-y-auto space-y-8 px-6">
+                    {Array.from(grouped.entries()).map(([domain, items]) => (
+                        <div key={domain} className="bg-white rounded-xl shadow-sm border border-zinc-200 overflow-hidden">
+                            <div className="bg-zinc-50 border-b border-zinc-200 px-4 py-3 flex items-center gap-2">
+                                <span className="font-semibold text-zinc-800 uppercase tracking-wider text-sm">{domain} Domain</span>
+                                <span className="bg-blue-100 text-blue-700 text-xs font-bold px-2 py-0.5 rounded-full">{items.length}</span>
+                            </div>
+                            <div className="overflow-x-auto">
+                                <table className="min-w-full text-left text-sm whitespace-nowrap">
+                                    <thead className="bg-white text-zinc-500 border-b border-zinc-100 uppercase tracking-wider text-[10px]">
+                                        <tr>
+                                            <th className="px-4 py-3 font-semibold">Orchestrator ID</th>
+                                            <th className="px-4 py-3 font-semibold">Name</th>
+                                            <th className="px-4 py-3 font-semibold">API Path</th>
+                                            <th className="px-4 py-3 font-semibold">Version</th>
+                                            <th className="px-4 py-3 font-semibold">Status</th>
+                                            <th className="px-4 py-3 font-semibold">Owner</th>
+                                            <th className="px-4 py-3 font-semibold">
+                                                <button onClick={cycleScoreSort} className="uppercase tracking-wider hover:text-zinc-800 flex items-center gap-1">
+                                                    Completeness
+                                                    <span className="text-zinc-400">{scoreSort === "desc" ? "↓" : scoreSort === "asc" ? "↑" : "↕"}</span>
+                                                </button>
+                                            </th>
                                         </tr>
-                                    ))}
-                                </tbody>
-                            </table>
+                                    </thead>
+                                    <tbody className="divide-y divide-zinc-100 text-zinc-700">
+                                        {items.map(orch => (
+                                            <tr 
+                                                key={orch.id} 
+                                                onClick={() => openApp(`orch.${orch.domain}.${orch.id}`)}
+                                                className="hover:bg-blue-50/50 cursor-pointer transition-colors group"
+                                            >
+                                                <td className="px-4 py-3 font-mono text-xs text-blue-600 group-hover:underline">
+                                                    {orch.id}
+                                                </td>
+                                                <td className="px-4 py-3 font-medium text-zinc-900">{orch.name}</td>
+                                                <td className="px-4 py-3 font-mono text-xs text-zinc-500">{orch.apiPath}</td>
+                                                <td className="px-4 py-3">{orch.version}</td>
+                                                <td className="px-4 py-3">
+                                                    <span className={cn(
+                                                        "rounded-full border px-2 py-0.5 text-[10px]",
+                                                        badgeClasses(orch.status === 'active' ? 'safe' : orch.status === 'draft' ? 'guarded' : 'external')
+                                                    )}>
+                                                        {orch.status}
+                                                    </span>
+                                                </td>
+                                                <td className="px-4 py-3 text-xs">{orch.owner}</td>
+                                                <td className="px-4 py-3">
+                                                    {reports.has(orch.id) && (
+                                                        <CompletenessBadge
+                                                            score={reports.get(orch.id)!.score}
+                                                            title={`${reports.get(orch.id)!.findings.length} gaps`}
+                                                        />
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
                         </div>
-                    </div>
-                ))}
+                    ))}
                 
-                {grouped.size === 0 && (
-                    <div className="text-center py-24 bg-white rounded-xl border border-zinc-200">
-                        <div className="text-zinc-400 mb-2"><Icon name="inbox" size={40} /></div>
-                        <div className="text-zinc-500 font-medium">No orchestrators found matching your filters.</div>
-                    </div>
-                )}
-            </div>
+                    {grouped.size === 0 && (
+                        <div className="text-center py-24 bg-white rounded-xl border border-zinc-200">
+                            <div className="text-zinc-400 mb-2"><Icon name="inbox" size={40} /></div>
+                            <div className="text-zinc-500 font-medium">No orchestrators found matching your filters.</div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {creating && (
+                <OrchestratorEditor
+                    mode="create"
+                    onSave={async record => {
+                        const saved = await save(record, { isNew: true });
+                        setCreating(false);
+                        openApp(`orch.${saved.domain}.${saved.id}`);
+                    }}
+                    onCancel={() => setCreating(false)}
+                />
+            )}
+            {exporting && (
+                <OpenApiExportDialog
+                    initialScope={domainFilter === "all" ? { kind: "registry" } : { kind: "domain", domain: domainFilter }}
+                    onClose={() => setExporting(false)}
+                />
+            )}
+            {exportingEvents && (
+                <AsyncApiExportDialog
+                    initialDomain={domainFilter === "all" ? undefined : domainFilter}
+                    onClose={() => setExportingEvents(false)}
+                />
+            )}
+            {importing && (
+                <OpenApiImportDialog
+                    onImported={saved => {
+                        setImporting(false);
+                        if (saved.length === 1) openApp(`orch.${saved[0].domain}.${saved[0].id}`);
+                    }}
+                    onClose={() => setImporting(false)}
+                />
+            )}
         </div>
     );
 }
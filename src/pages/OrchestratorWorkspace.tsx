@@ -1,5 +1,8 @@
-import React, { useMemo } from "react";
-import { ORCHESTRATORS } from "../data/mockOrchestrators";
+import React, { useState } from "react";
+import Icon from "../components/Icon";
+import { useOrchestrators } from "../orchestrators";
+import { Orchestrator, Run, RunArtifact } from "../types";
+import OrchestratorEditor, { EditorMode } from "../components/orchestrator/OrchestratorEditor";
 import OverviewCard from "../components/orchestrator/OverviewCard";
 import MarkdownSection from "../components/orchestrator/MarkdownSection";
 import ApiSpecSection from "../components/orchestrator/ApiSpecSection";
@@ -8,31 +11,70 @@ import DecisionRuleTable from "../components/orchestrator/DecisionRuleTable";
 import ObservabilityPanel from "../components/orchestrator/ObservabilityPanel";
 import NodeContractPanel from "../components/orchestrator/NodeContractPanel";
 import TestTargetsPanel from "../components/orchestrator/TestTargetsPanel";
+import DryRunPanel from "../components/orchestrator/DryRunPanel";
+import MockServerPanel from "../components/orchestrator/MockServerPanel";
+import OpenApiExportDialog from "../components/orchestrator/OpenApiExportDialog";
+import AsyncApiExportDialog from "../components/orchestrator/AsyncApiExportDialog";
+import VersionHistoryPanel from "../components/orchestrator/VersionHistoryPanel";
 
 export default function OrchestratorWorkspace({ 
     domain, 
-    orchId 
+    orchId,
+    openApp,
+    closeTab,
+    runs,
+    attachToRun,
 }: { 
     domain: string; 
     orchId: string; 
+    openApp: (id: string) => void;
+    closeTab: () => void;
+    runs: Run[];
+    attachToRun: (runId: string | null, title: string, artifact: RunArtifact) => void;
 }) {
-    const orch = useMemo(() => {
-        return ORCHESTRATORS.find(o => o.domain === domain && o.id === orchId);
-    }, [domain, orchId]);
+    const { orchestrators, source, loading, save, remove } = useOrchestrators();
+    const [editorMode, setEditorMode] = useState<EditorMode | null>(null);
+    const [exporting, setExporting] = useState(false);
+    const [exportingEvents, setExportingEvents] = useState(false);
 
-    if (!orch) return <div className="p-8 text-center text-zinc-500">Orchestrator not found.</div>;
+    // Matched by id only: the domain in the tab id goes stale once the record's domain is edited
+    const orch = orchestrators.find(o => o.id === orchId);
+
+    if (!orch) {
+        return (
+            <div className="p-8 text-center text-zinc-500">
+                {loading ? "Loading orchestrator..." : `Orchestrator "${domain}/${orchId}" not found.`}
+            </div>
+        );
+    }
+
+    const handleSave = async (record: Orchestrator) => {
+        const isNew = editorMode !== "edit";
+        const saved = await save(record, { isNew });
+        setEditorMode(null);
+        if (isNew) openApp(`orch.${saved.domain}.${saved.id}`);
+    };
+
+    const handleDelete = async (id: string) => {
+        await remove(id);
+        setEditorMode(null);
+        closeTab();
+    };
 
     const sections = [
-        { id: "overview", label: "Overview", component: <OverviewCard orch={orch} /> },
+        { id: "overview", label: "Overview", component: <OverviewCard orch={orch} runs={runs} /> },
         { id: "story", label: "User Story", component: <MarkdownSection title="User Story" content={orch.userStoryMarkdown} /> },
         { id: "api", label: "API", component: <ApiSpecSection spec={orch.apiSpec} /> },
         { id: "spec", label: "Spec", component: <MarkdownSection title="Orchestrator Spec" content={orch.orchestratorSpecMarkdown} /> },
-        { id: "flow", label: "Flow", component: <FlowStepList steps={orch.flowSteps} /> },
-        { id: "rules", label: "Rules", component: <DecisionRuleTable rules={orch.decisionRules} /> },
-        { id: "obs", label: "Observability", component: <ObservabilityPanel errorPolicy={orch.errorPolicy} errorCodes={orch.errorCodes} observability={orch.observability} /> },
+        { id: "flow", label: "Flow", component: <FlowStepList orch={orch} /> },
+        { id: "rules", label: "Rules", component: <DecisionRuleTable orch={orch} /> },
+        { id: "dryrun", label: "Dry Run", component: <DryRunPanel key={orch.id} orch={orch} /> },
+        { id: "mock", label: "Mock Server", component: <MockServerPanel key={orch.id} orch={orch} runs={runs} /> },
+        { id: "obs", label: "Observability", component: <ObservabilityPanel orch={orch} /> },
         { id: "nodes", label: "Nodes", component: <NodeContractPanel contracts={orch.nodeContracts} /> },
         { id: "runbook", label: "Runbook", component: <MarkdownSection title="Runbook" content={orch.runbookMarkdown} /> },
-        { id: "tests", label: "Tests", component: <TestTargetsPanel targets={orch.testTargets} /> },
+        { id: "tests", label: "Tests", component: <TestTargetsPanel orch={orch} runs={runs} attachToRun={attachToRun} /> },
+        { id: "history", label: "History", component: <VersionHistoryPanel key={orch.id} orch={orch} /> },
     ];
 
     const scrollTo = (id: string) => {
@@ -43,6 +85,42 @@ export default function OrchestratorWorkspace({
         <div className="flex h-full gap-6 max-w-[1400px] mx-auto animate-in fade-in duration-300 px-6">
             {/* Main Content Scrollable Area */}
             <div className="flex-1 overflow-y-auto pr-6 custom-scrollbar pb-24 h-full relative" style={{ height: "calc(100vh - 120px)" }}>
+                <div className="flex items-center justify-between gap-3 mb-4">
+                    {source === "memory" ? (
+                        <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-1.5 flex items-center gap-1.5">
+                            <Icon name="warning" size={12} /> Backend offline — changes are kept in memory until reload.
+                        </div>
+                    ) : <div />}
+                    <div className="flex items-center gap-2">
+                        {[
+                            { mode: "create" as const, icon: "plus", label: "New" },
+                            { mode: "edit" as const, icon: "edit", label: "Edit" },
+                            { mode: "clone" as const, icon: "clipboard", label: "Clone" },
+                        ].map(b => (
+                            <button
+                                key={b.mode}
+                                onClick={() => setEditorMode(b.mode)}
+                                className="px-3 py-1.5 text-xs font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50 flex items-center gap-1.5"
+                            >
+                                <Icon name={b.icon} size={12} /> {b.label}
+                            </button>
+                        ))}
+                        <button
+                            onClick={() => setExporting(true)}
+                            className="px-3 py-1.5 text-xs font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50 flex items-center gap-1.5"
+                        >
+                            <Icon name="save" size={12} /> OpenAPI
+                        </button>
+                        {orch.observability.events.length > 0 && (
+                            <button
+                                onClick={() => setExportingEvents(true)}
+                                className="px-3 py-1.5 text-xs font-semibold text-zinc-700 bg-white border border-zinc-300 rounded-md hover:bg-zinc-50 flex items-center gap-1.5"
+                            >
+                                <Icon name="save" size={12} /> AsyncAPI
+                            </button>
+                        )}
+                    </div>
+                </div>
                 <div className="space-y-8">
                     {sections.map(sec => sec.component ? (
                         <div key={sec.id} id={`section-${sec.id}`} className="scroll-mt-6">
@@ -69,6 +147,18 @@ export default function OrchestratorWorkspace({
                     ))}
                 </div>
             </div>
+
+            {editorMode && (
+                <OrchestratorEditor
+                    mode={editorMode}
+                    orch={editorMode === "create" ? null : orch}
+                    onSave={handleSave}
+                    onDelete={handleDelete}
+                    onCancel={() => setEditorMode(null)}
+                />
+            )}
+            {exporting && <OpenApiExportDialog initialScope={{ kind: "orchestrator", id: orch.id }} onClose={() => setExporting(false)} />}
+            {exportingEvents && <AsyncApiExportDialog initialDomain={orch.domain} onClose={() => setExportingEvents(false)} />}
         </div>
     );
 }
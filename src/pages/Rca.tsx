@@ -3,6 +3,9 @@ import { Card } from "../components/ui/shared";
 import { cn, fmtTime } from "../utils";
 import { INCIDENTS, SKILLS } from "../data/mockData";
 import { Skill } from "../types";
+import { useOrchestrators } from "../orchestrators";
+import { matchSnapshot, MetricsSnapshot } from "../utils/metricsSnapshot";
+import MetricsSnapshotView, { SnapshotImport, SnapshotSummary } from "../components/orchestrator/MetricsSnapshotView";
 
 interface RcaProps {
     selectedIncidentId: string | null;
@@ -12,6 +15,7 @@ interface RcaProps {
 
 export default function Rca({ selectedIncidentId, setSelectedIncidentId, runSkill }: RcaProps) {
     const [incidentQuery, setIncidentQuery] = useState("");
+    const [snapshots, setSnapshots] = useState<Record<string, MetricsSnapshot>>({});
 
     const incidentsFiltered = useMemo(() => {
         const q = incidentQuery.trim().toLowerCase();
@@ -101,6 +105,16 @@ export default function Rca({ selectedIncidentId, setSelectedIncidentId, runSkil
                                     </div>
                                 </div>
 
+                                <MetricsSnapshotSection
+                                    snapshot={snapshots[selectedIncident.id] ?? null}
+                                    onChange={(snapshot) => {
+                                        const next = { ...snapshots };
+                                        if (snapshot) next[selectedIncident.id] = snapshot;
+                                        else delete next[selectedIncident.id];
+                                        setSnapshots(next);
+                                    }}
+                                />
+
                                 <div className="rounded-xl border border-zinc-200 bg-white p-3">
                                     <div className="text-xs font-semibold text-zinc-700">Ask AI (preview)</div>
                                     <div className="mt-2 rounded-xl border border-zinc-200 bg-zinc-50 p-3 text-xs text-zinc-700">
@@ -126,3 +140,38 @@ export default function Rca({ selectedIncidentId, setSelectedIncidentId, runSkil
         </div>
     );
 }
+
+/** The bundle's metrics snapshot, charted against every orchestrator that declares metrics. */
+function MetricsSnapshotSection({ snapshot, onChange }: { snapshot: MetricsSnapshot | null; onChange: (snapshot: MetricsSnapshot | null) => void }) {
+    const { orchestrators } = useOrchestrators();
+    const declaring = orchestrators.filter((o) => o.observability?.metrics.length);
+    const withData = snapshot ? declaring.filter((o) => matchSnapshot(o.observability.metrics, snapshot, o.id).matched.length > 0) : [];
+    const withoutData = declaring.filter((o) => !withData.includes(o));
+
+    return (
+        <div className="rounded-xl border border-zinc-200 bg-white p-3 space-y-3">
+            <div className="text-xs font-semibold text-zinc-700">Metrics snapshot</div>
+            {!snapshot ? (
+                <SnapshotImport onImport={onChange} />
+            ) : (
+                <>
+                    <SnapshotSummary snapshot={snapshot} onClear={() => onChange(null)} />
+                    {withData.map((o) => (
+                        <div key={o.id} className="space-y-2">
+                            <div className="text-xs text-zinc-600">
+                                <span className="font-mono text-zinc-800">{o.domain}/{o.id}</span> · {o.name}
+                            </div>
+                            <MetricsSnapshotView metrics={o.observability.metrics} orchestratorId={o.id} snapshot={snapshot} />
+                        </div>
+                    ))}
+                    {withoutData.length > 0 && (
+                        <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                            No data in the snapshot for any declared metric of{" "}
+                            <span className="font-mono">{withoutData.map((o) => o.id).join(", ")}</span>.
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { Card, cn } from "../components/ui/shared";
+import Icon from "../components/Icon";
+import { INCIDENTS, RUNBOOKS } from "../data/mockData";
+import { useOrchestrators } from "../orchestrators";
+import { cellStatus, CoverageEntry, CoverageStatus, runbookCoverage } from "../utils/runbookCoverage";
+
+export const COVERAGE_STYLES: Record<CoverageStatus, { label: string; className: string }> = {
+    covered: { label: "covered", className: "bg-green-100 text-green-700 border-green-200" },
+    prefix: { label: "prefix only", className: "bg-amber-100 text-amber-800 border-amber-200" },
+    missing: { label: "missing", className: "bg-red-100 text-red-700 border-red-200" },
+};
+
+function StatusPill({ status }: { status: CoverageStatus }) {
+    return (
+        <span className={cn("rounded-full border px-2 py-0.5 text-[10px] font-semibold whitespace-nowrap", COVERAGE_STYLES[status].className)}>
+            {COVERAGE_STYLES[status].label}
+        </span>
+    );
+}
+
+function EntryDetail({ entry, openApp }: { entry: CoverageEntry; openApp: (id: string) => void }) {
+    const { orchestrators } = useOrchestrators();
+    const tabFor = (id: string) => {
+        const o = orchestrators.find(x => x.id === id);
+        return o ? `orch.${o.domain}.${o.id}` : null;
+    };
+
+    return (
+        <Card title={<span className="font-mono">{entry.code}</span>} right={<StatusPill status={entry.status} />}>
+            <div className="space-y-4 text-sm">
+                <div>
+                    <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-1">Used by</div>
+                    <ul className="space-y-0.5 text-xs">
+                        {entry.usages.map((u, i) => (
+                            <li key={i} className="flex items-center gap-2">
+                                {u.orchestratorId ? (
+                                    <button onClick={() => { const t = tabFor(u.orchestratorId!); if (t) openApp(t); }} className="font-mono text-blue-600 hover:underline">
+                                        {u.orchestratorId}
+                                    </button>
+                                ) : (
+                                    <span className="font-mono text-zinc-700">incident</span>
+                                )}
+                                <span className="text-zinc-400">{u.source}</span>
+                                <span className="font-mono text-zinc-600">{u.ref}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+
+                {entry.sections.map(s => (
+                    <div key={`${s.orchestratorId}:${s.line}`}>
+                        <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-1">
+                            Runbook section · {s.orchestratorId} line {s.line}
+                        </div>
+                        <div className="prose prose-sm max-w-none text-zinc-800 border border-zinc-200 rounded-lg p-3 bg-zinc-50">
+                            <ReactMarkdown>{s.body || "_(empty section)_"}</ReactMarkdown>
+                        </div>
+                    </div>
+                ))}
+
+                {entry.prefixRunbooks.length > 0 && (
+                    <div>
+                        <div className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-1">
+                            {entry.sections.length ? "Also matched by prefix" : "Generic runbook (prefix match)"}
+                        </div>
+                        {entry.prefixRunbooks.map(rb => (
+                            <div key={rb.id} className="border border-zinc-200 rounded-lg p-3 mb-2">
+                                <div className="text-sm font-semibold text-zinc-800">{rb.title}</div>
+                                <div className="text-xs text-zinc-500 mt-0.5 font-mono">{rb.id} · prefix {rb.errorCodePrefix}</div>
+                                <div className="text-xs text-zinc-600 mt-1">{rb.summary}</div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {entry.status !== "covered" && (
+                    <div className="text-xs text-zinc-500 flex items-start gap-1.5">
+                        <Icon name="info" size={12} />
+                        <span>Add a <span className="font-mono">## {entry.code}</span> section to the owning orchestrator's runbook to cover this code.</span>
+                    </div>
+                )}
+            </div>
+        </Card>
+    );
+}
+
+export default function RunbookCoverage({ openApp }: { openApp: (id: string) => void }) {
+    const { orchestrators } = useOrchestrators();
+    const report = useMemo(() => runbookCoverage(orchestrators, RUNBOOKS, INCIDENTS), [orchestrators]);
+    const [filter, setFilter] = useState<CoverageStatus | "all">("all");
+    const [selectedCode, setSelectedCode] = useState<string | null>(null);
+
+    // Only orchestrators that actually use a code get a column
+    const columns = report.orchestratorIds.filter(id => report.entries.some(e => e.usages.some(u => u.orchestratorId === id)));
+    const hasIncidents = report.entries.some(e => e.usages.some(u => u.source === "incident"));
+    const rows = report.entries.filter(e => filter === "all" || e.status === filter);
+    const selected = report.entries.find(e => e.code === selectedCode) ?? null;
+    const all = report.entries.length;
+
+    return (
+        <div className="h-full overflow-y-auto px-6 space-y-4">
+            <div>
+                <h1 className="text-2xl font-bold text-zinc-900 tracking-tight">Runbook Coverage</h1>
+                <p className="text-sm text-zinc-500">Every error code across orchestrators and incident bundles, resolved to a runbook section or a prefix runbook.</p>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                <button
+                    onClick={() => setFilter("all")}
+                    className={cn("rounded-full border px-3 py-1 text-xs", filter === "all" ? "border-zinc-800 bg-zinc-800 text-white" : "border-zinc-200 bg-white text-zinc-600")}
+                >
+                    All {all}
+                </button>
+                {(Object.keys(COVERAGE_STYLES) as CoverageStatus[]).map(s => (
+                    <button
+                        key={s}
+                        onClick={() => setFilter(s)}
+                        className={cn("rounded-full border px-3 py-1 text-xs", filter === s ? "ring-2 ring-offset-1 ring-zinc-400" : "", COVERAGE_STYLES[s].className)}
+                    >
+                        {COVERAGE_STYLES[s].label} {report.totals[s]}
+                    </button>
+                ))}
+                {all > 0 && (
+                    <span className="ml-auto text-xs text-zinc-500 self-center">
+                        {Math.round((100 * report.totals.covered) / all)}% have their own runbook section
+                    </span>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+                <div className="xl:col-span-2 bg-white border border-zinc-200 rounded-xl overflow-x-auto">
+                    <table className="min-w-full text-left text-sm whitespace-nowrap">
+                        <thead className="bg-zinc-50 text-zinc-500 border-b border-zinc-200 uppercase tracking-wider text-[10px]">
+                            <tr>
+                                <th className="px-4 py-3 font-semibold">Error Code</th>
+                                <th className="px-4 py-3 font-semibold">Overall</th>
+                                {columns.map(id => <th key={id} className="px-3 py-3 font-semibold font-mono normal-case">{id}</th>)}
+                                {hasIncidents && <th className="px-3 py-3 font-semibold">Incidents</th>}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-zinc-100">
+                            {rows.map(e => {
+                                const incidentHits = e.usages.filter(u => u.source === "incident").length;
+                                return (
+                                    <tr
+                                        key={e.code}
+                                        onClick={() => setSelectedCode(e.code)}
+                                        className={cn("cursor-pointer hover:bg-blue-50/50", selectedCode === e.code && "bg-blue-50")}
+                                    >
+                                        <td className="px-4 py-2 font-mono text-xs text-zinc-800">{e.code}</td>
+                                        <td className="px-4 py-2"><StatusPill status={e.status} /></td>
+                                        {columns.map(id => {
+                                            const status = cellStatus(e, id);
+                                            return (
+                                                <td key={id} className="px-3 py-2 text-center">
+                                                    {status ? (
+                                                        <span title={COVERAGE_STYLES[status].label} className={cn("inline-block w-3 h-3 rounded-sm border", COVERAGE_STYLES[status].className)} />
+                                                    ) : (
+                                                        <span className="text-zinc-200">·</span>
+                                                    )}
+                                                </td>
+                                            );
+                                        })}
+                                        {hasIncidents && (
+                                            <td className="px-3 py-2 text-center text-xs text-zinc-600">{incidentHits || <span className="text-zinc-200">·</span>}</td>
+                                        )}
+                                    </tr>
+                                );
+                            })}
+                            {rows.length === 0 && (
+                                <tr><td colSpan={columns.length + 3} className="px-4 py-8 text-center text-sm text-zinc-400">No error codes in this bucket.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                <div>
+                    {selected ? (
+                        <EntryDetail entry={selected} openApp={openApp} />
+                    ) : (
+                        <Card>
+                            <div className="text-sm text-zinc-500">Select an error code to see where it is used and which runbook an on-call engineer would land on.</div>
+                        </Card>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -83,6 +83,22 @@ export function buildSystemPrompt(crew: Skill, selectedSkillIds?: string[], form
 
 export type RunStatus = "queued" | "running" | "success" | "failed";
 
+export type RunArtifact = {
+    name: string;
+    mediaType: string;
+    content: string;
+    createdAt: string;
+};
+
+export type ContractGateResult = {
+    gate: "Q1";
+    orchestratorId: string;
+    baseUrl: string;
+    passed: number;
+    failed: number;
+    total: number;
+};
+
 export type Run = {
     id: string;
     title: string;
@@ -92,6 +108,8 @@ export type Run = {
     engine: SkillEngine;
     logs: string[];
     aiJsonLines?: unknown[];
+    artifacts?: RunArtifact[];
+    contract?: ContractGateResult;
 };
 
 export type FlowSpec = {
@@ -110,12 +128,15 @@ export type Runbook = {
     summary: string;
 };
 
+/** One published version of a reusable flow node in the Node Registry (see nodes.tsx). */
 export type NodeConfig = {
-    id: string;
-    nodeType: string;
+    id: string;             // the nodeId flow steps and node contracts refer to
+    nodeType: string;       // e.g. "service-call", "rule", "validation"
     owner: string;
     version: string;
-    schemaSnippet: string;
+    description: string;
+    inputSchema: any;
+    outputSchema: any;
 };
 
 export type IncidentBundle = {
@@ -162,6 +183,10 @@ export interface ErrorCodeDef {
     code: string;
     category: "BIZ" | "EXT" | "SYS";
     description: string;
+    /** ErrorType from Error Code Rules v1 (VALIDATION, NOT_FOUND, …), as chosen in the builder. */
+    errorType?: string;
+    /** HTTP status the ErrorType maps to. */
+    httpStatus?: number;
 }
 
 export interface MetricDef {
@@ -173,13 +198,23 @@ export interface MetricDef {
 export interface EventDef {
     name: string;
     trigger: string;
+    /** Topic / channel address the event is published to, e.g. "mfg.material.check-failed". */
+    channel?: string;
+    /** JSON Schema of the message body. */
+    payload?: any;
+    /** JSON Schema of the message headers. */
+    headers?: any;
+    /** Known consumers (team or service names). */
+    consumers?: string[];
 }
 
 export interface NodeContract {
     nodeId: string;
     description: string;
-    inputSchema: any;
-    outputSchema: any;
+    /** Node Registry version this contract references; its schemas then come from the registry. */
+    version?: string;
+    inputSchema?: any;
+    outputSchema?: any;
 }
 
 export interface TestTargets {
@@ -229,4 +264,29 @@ export interface Orchestrator {
     nodeContracts: NodeContract[];
     runbookMarkdown: string;
     testTargets: TestTargets;
+
+    /** Sections a generated draft (e.g. an OpenAPI import) was created without. */
+    missingSections?: string[];
+    /** Status changes, oldest first — appended by the lifecycle workflow only. */
+    lifecycle?: LifecycleTransition[];
+}
+
+/** One status change of an orchestrator and who made it (see utils/orchestratorLifecycle). */
+export interface LifecycleTransition {
+    from: Orchestrator["status"];
+    to: Orchestrator["status"];
+    actor: string;
+    at: string;
+    reason: string;
+    approvedBy?: string;        // owner sign-off, required to go active
+    replacementId?: string;     // deprecation: the orchestrator clients should move to
+    sunsetDate?: string;        // deprecation: YYYY-MM-DD after which it may be removed
+    checks?: string[];          // preconditions as they stood when the change was made
+}
+
+/** One saved state of an orchestrator, recorded by the registry on every save. */
+export interface OrchestratorRevision {
+    rev: number;            // 1-based, per orchestrator
+    savedAt: string;
+    snapshot: Orchestrator;
 }
@@ -0,0 +1,144 @@
+import { EventDef, Orchestrator } from "../types";
+import { isEmptySchema, JsonSchema } from "./jsonSchema";
+import { compareVersionsDesc } from "./nodeRegistry";
+import { hoistSchema, OpenApiFormat } from "./openApi";
+import { toYaml } from "./yaml";
+
+/**
+ * AsyncAPI export of the events a domain's orchestrators publish — the
+ * event-side counterpart of the OpenAPI export. Each EventDef becomes a
+ * message (payload and headers hoisted into components.schemas the same
+ * way the OpenAPI export hoists API schemas) on the channel it names;
+ * orchestrators publishing to the same channel share it. Known consumers
+ * travel as `x-consumers`, since AsyncAPI only describes the publisher.
+ *
+ * 2.6 describes publishing as a `subscribe` operation on the channel (what
+ * others may subscribe to); 3.0 as a `send` operation per message.
+ * Events without a channel can't be placed and are reported.
+ */
+
+export type AsyncApiVersion = "2.6.0" | "3.0.0";
+
+export const ASYNCAPI_VERSIONS: AsyncApiVersion[] = ["2.6.0", "3.0.0"];
+
+export interface AsyncApiExport {
+    document: Record<string, unknown>;
+    text: string;
+    fileName: string;
+    warnings: string[];
+    channels: number;
+    messages: number;
+}
+
+interface Published {
+    orch: Orchestrator;
+    event: EventDef;
+    key: string;
+}
+
+function pascal(text: string): string {
+    return text.replace(/[^A-Za-z0-9]+/g, " ").trim().split(/\s+/).filter(Boolean).map(w => w[0].toUpperCase() + w.slice(1)).join("");
+}
+
+function camel(text: string): string {
+    const name = pascal(text);
+    return name ? name[0].toLowerCase() + name.slice(1) : "channel";
+}
+
+function messageFor(p: Published, schemas: Record<string, unknown>, warnings: string[]): Record<string, unknown> {
+    const { orch, event, key } = p;
+    const payload = isEmptySchema(event.payload) ? undefined : hoistSchema(event.payload as JsonSchema, `${key}Payload`, schemas);
+    const headers = isEmptySchema(event.headers) ? undefined : hoistSchema(event.headers as JsonSchema, `${key}Headers`, schemas);
+    if (!payload) warnings.push(`${orch.id}: ${event.name} has no payload schema; the message is untyped.`);
+    if (!event.consumers?.length) warnings.push(`${orch.id}: ${event.name} lists no consumers.`);
+    return {
+        name: event.name,
+        title: event.name,
+        summary: event.trigger,
+        contentType: "application/json",
+        ...(headers ? { headers } : {}),
+        ...(payload ? { payload } : {}),
+        "x-orchestrator": { id: orch.id, version: orch.version, status: orch.status, owner: orch.owner },
+        ...(event.consumers?.length ? { "x-consumers": event.consumers } : {}),
+    };
+}
+
+export function asyncApiDocument(orchs: Orchestrator[], domain: string, version: AsyncApiVersion): { document: Record<string, unknown>; warnings: string[]; channels: number; messages: number } {
+    const selected = orchs.filter(o => o.domain === domain);
+    const warnings: string[] = [];
+    const schemas: Record<string, unknown> = {};
+    const messages: Record<string, unknown> = {};
+    const byChannel = new Map<string, Published[]>();
+
+    for (const orch of selected) {
+        for (const event of orch.observability?.events ?? []) {
+            const address = event.channel?.trim();
+            if (!address) {
+                warnings.push(`${orch.id}: ${event.name} has no channel; skipped.`);
+                continue;
+            }
+            // Same event name from another orchestrator gets its own message
+            const key = messages[pascal(event.name)] ? `${pascal(orch.id)}${pascal(event.name)}` : pascal(event.name);
+            const published = { orch, event, key };
+            messages[key] = messageFor(published, schemas, warnings);
+            byChannel.set(address, [...(byChannel.get(address) ?? []), published]);
+        }
+    }
+    if (byChannel.size === 0) warnings.push(`No event in ${domain} declares a channel; the document has no channels.`);
+
+    const channels: Record<string, unknown> = {};
+    const operations: Record<string, unknown> = {};
+    for (const [address, list] of byChannel) {
+        const publishers = Array.from(new Set(list.map(p => p.orch.id)));
+        const description = `Published by ${publishers.join(", ")}.`;
+        const refs = list.map(p => ({ $ref: `#/components/messages/${p.key}` }));
+        const summary = list.map(p => p.event.trigger).filter(Boolean).join(" / ");
+        if (version === "2.6.0") {
+            channels[address] = {
+                description,
+                subscribe: {
+                    operationId: `publish${pascal(address)}`,
+                    ...(summary ? { summary } : {}),
+                    message: refs.length === 1 ? refs[0] : { oneOf: refs },
+                },
+            };
+        } else {
+            const id = camel(address);
+            channels[id] = { address, description, messages: Object.fromEntries(list.map((p, i) => [p.key, refs[i]])) };
+            for (const p of list) {
+                operations[`send${p.key}`] = {
+                    action: "send",
+                    channel: { $ref: `#/channels/${id}` },
+                    ...(p.event.trigger ? { summary: p.event.trigger } : {}),
+                    messages: [{ $ref: `#/channels/${id}/messages/${p.key}` }],
+                };
+            }
+        }
+    }
+
+    const document = {
+        asyncapi: version,
+        info: {
+            title: `${domain} orchestrator events`,
+            version: selected.map(o => o.version).sort(compareVersionsDesc)[0] ?? "0.0.0",
+            description: `Events published by ${selected.length} orchestrator${selected.length === 1 ? "" : "s"} in the ${domain} domain.`,
+        },
+        defaultContentType: "application/json",
+        channels,
+        ...(version === "3.0.0" ? { operations } : {}),
+        components: { messages, schemas },
+    };
+    return { document, warnings, channels: byChannel.size, messages: Object.keys(messages).length };
+}
+
+export function exportAsyncApi(orchs: Orchestrator[], domain: string, version: AsyncApiVersion, format: OpenApiFormat): AsyncApiExport {
+    const { document, warnings, channels, messages } = asyncApiDocument(orchs, domain, version);
+    return {
+        document,
+        text: format === "yaml" ? toYaml(document) : `${JSON.stringify(document, null, 2)}\n`,
+        fileName: `${domain}-events.asyncapi.${format === "yaml" ? "yaml" : "json"}`,
+        warnings,
+        channels,
+        messages,
+    };
+}
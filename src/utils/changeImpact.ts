@@ -0,0 +1,146 @@
+import { Orchestrator, TestTargets } from "../types";
+import { ChangeLevel, CompatChange, compareSchemas, maxLevel } from "./schemaCompat";
+
+/**
+ * Impact of a node contract edit on the orchestrators that consume the
+ * contract. Schema changes are classified with the API rules (schemaCompat):
+ * the node's inputSchema is the request side of the call, its outputSchema
+ * the response side. Impact is then traced by name through each flow:
+ *
+ * - steps that run the node see every change;
+ * - later steps whose `input` names the node's output (the consuming step's
+ *   `output` label, the node id, or an output field) see the output changes;
+ * - test targets that name the node, its steps, a changed field, or an
+ *   error code raised on the affected path see the changes behind that name.
+ *
+ * An item is incompatible when one of the changes it sees is breaking.
+ */
+
+export type ImpactKind = "step" | "downstream" | "test";
+
+export interface SchemaPair {
+    inputSchema?: unknown;
+    outputSchema?: unknown;
+}
+
+export interface ImpactItem {
+    kind: ImpactKind;
+    orchestratorId: string;
+    /** stepId, or "testTargets.rejectCases[1]". */
+    ref: string;
+    /** Step purpose / input, or the test case text. */
+    text: string;
+    level: ChangeLevel | null;
+    compatible: boolean;
+    /** What ties the item to the change, e.g. "input names toolState". */
+    why: string[];
+}
+
+export interface ContractImpact {
+    nodeId: string;
+    changes: CompatChange[];
+    required: ChangeLevel | null;
+    breaking: boolean;
+    items: ImpactItem[];
+}
+
+const TEST_KEYS: Array<keyof TestTargets> = ["happyPath", "rejectCases", "errorCases", "contractValidation"];
+
+function escapeRe(s: string): string {
+    return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Whether `text` names `term` as a whole word (case-insensitive). */
+function mentions(text: string, term: string): boolean {
+    if (term.length < 3) return false;
+    return new RegExp(`(^|[^A-Za-z0-9_])${escapeRe(term)}([^A-Za-z0-9_]|$)`, "i").test(text);
+}
+
+/** Property names along a diffSchemas path: "lot.tools[].id" → lot, tools, id. */
+function fieldNames(path: string): string[] {
+    if (path === "(root)" || path.startsWith("#/")) return [];
+    return path
+        .replace(/<(oneOf|anyOf|allOf)\[\d+\]>/g, "")
+        .split(/[.[\]{}*]+/)
+        .filter(s => /^[A-Za-z_][A-Za-z0-9_-]*$/.test(s));
+}
+
+/** Field name → the changes that touch it. */
+function fieldIndex(changes: CompatChange[]): Map<string, CompatChange[]> {
+    const out = new Map<string, CompatChange[]>();
+    for (const c of changes) {
+        for (const name of fieldNames(c.path)) out.set(name, [...(out.get(name) ?? []), c]);
+    }
+    return out;
+}
+
+type Term = { term: string; why: string; changes: CompatChange[] };
+
+function item(kind: ImpactKind, orchestratorId: string, ref: string, text: string, terms: Term[]): ImpactItem {
+    const level = maxLevel(terms.flatMap(t => t.changes));
+    return { kind, orchestratorId, ref, text, level, compatible: level !== "major", why: Array.from(new Set(terms.map(t => t.why))) };
+}
+
+function orchestratorImpact(orch: Orchestrator, nodeId: string, input: CompatChange[], output: CompatChange[]): ImpactItem[] {
+    const all = [...input, ...output];
+    const items: ImpactItem[] = [];
+    const consumers = orch.flowSteps.filter(s => s.nodeId === nodeId);
+    const outputFields = Array.from(fieldIndex(output).entries()).map(([name, changes]): Term => ({ term: name, why: `names output field ${name}`, changes }));
+    const inputFields = Array.from(fieldIndex(input).entries()).map(([name, changes]): Term => ({ term: name, why: `names input field ${name}`, changes }));
+
+    for (const s of consumers) {
+        items.push(item("step", orch.id, s.stepId, s.purpose || s.input, [{ term: nodeId, why: `runs ${nodeId}`, changes: all }]));
+    }
+
+    // Names that stand for the node's output as a whole
+    const outputLabels: Term[] = [
+        { term: nodeId, why: `names ${nodeId}`, changes: output },
+        ...consumers.flatMap(s => s.output.split(",").map(l => l.trim()).filter(Boolean).map(l => ({ term: l, why: `names "${l}" (output of ${s.stepId})`, changes: output }))),
+    ];
+    const first = orch.flowSteps.findIndex(s => s.nodeId === nodeId);
+    if (first >= 0) {
+        for (const s of orch.flowSteps.slice(first + 1)) {
+            if (s.nodeId === nodeId) continue;
+            const hits = [...outputLabels, ...outputFields].filter(t => mentions(s.input, t.term));
+            if (hits.length) items.push(item("downstream", orch.id, s.stepId, s.input, hits));
+        }
+    }
+
+    // Error codes raised on the affected path: the node's own failures, and rules reading its output
+    const codes: Term[] = consumers.filter(s => s.onError).map(s => ({ term: s.onError, why: `expects ${s.onError} (onError of ${s.stepId})`, changes: all }));
+    for (const r of orch.decisionRules) {
+        if (!r.errorCode) continue;
+        const hits = [...outputLabels, ...outputFields].filter(t => mentions(r.when, t.term));
+        if (hits.length) codes.push({ term: r.errorCode, why: `expects ${r.errorCode} (${r.ruleId} reads the output)`, changes: hits.flatMap(h => h.changes) });
+    }
+
+    const testTerms: Term[] = [
+        { term: nodeId, why: `names ${nodeId}`, changes: all },
+        ...consumers.map(s => ({ term: s.stepId, why: `names ${s.stepId}`, changes: all })),
+        ...inputFields,
+        ...outputFields,
+        ...codes,
+    ];
+    for (const key of TEST_KEYS) {
+        orch.testTargets[key].forEach((text, i) => {
+            const hits = testTerms.filter(t => mentions(text, t.term));
+            if (hits.length) items.push(item("test", orch.id, `testTargets.${key}[${i}]`, text, hits));
+        });
+    }
+    return items;
+}
+
+/** Impact of changing `nodeId`'s contract from `before` to `after` on the given consumers. */
+export function contractImpact(nodeId: string, before: SchemaPair, after: SchemaPair, consumers: Orchestrator[]): ContractImpact {
+    const input = compareSchemas(before.inputSchema ?? {}, after.inputSchema ?? {}, "request", `nodeContracts.${nodeId}.inputSchema`);
+    const output = compareSchemas(before.outputSchema ?? {}, after.outputSchema ?? {}, "response", `nodeContracts.${nodeId}.outputSchema`);
+    const changes = [...input, ...output];
+    const required = maxLevel(changes);
+    return {
+        nodeId,
+        changes,
+        required,
+        breaking: required === "major",
+        items: consumers.flatMap(o => orchestratorImpact(o, nodeId, input, output)),
+    };
+}
@@ -0,0 +1,150 @@
+import { Orchestrator } from "../types";
+import { isEmptySchema, isSchemaObject, JsonSchema, validateJson } from "./jsonSchema";
+import { MockFixtureState, mockRoutes } from "./mockServer";
+import { buildTestCases, GeneratedTestCase, mockFixtureFor } from "./testSuiteGen";
+
+/**
+ * Q1 contract tests: every TestTargets case (as built by testSuiteGen)
+ * replayed as a real HTTP request against a base URL. Each response is
+ * checked for the expected status, responseSchema conformance and the
+ * expected error code. Against the local mock the case's node stubs are
+ * turned into fixture state first; a live instance gets the bare request.
+ */
+
+export interface ContractCheck {
+    label: string;
+    ok: boolean;
+    detail?: string;
+}
+
+export interface ContractCaseResult {
+    testCase: GeneratedTestCase;
+    outcome: "pass" | "fail" | "error";
+    httpStatus: number | null;
+    checks: ContractCheck[];
+    /** Set when the case needs node stubs the target could not receive. */
+    unstubbed: boolean;
+    durationMs: number;
+    error?: string;
+}
+
+export interface ContractSuiteOptions {
+    baseUrl: string;
+    onCase?: (result: ContractCaseResult, index: number, total: number) => void;
+    fetchImpl?: typeof fetch;
+}
+
+function joinUrl(base: string, path: string): string {
+    return `${base.replace(/\/+$/, "")}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
+/** True when the base URL answers like the portal's mock server (it lists its routes). */
+export async function isMockServer(baseUrl: string, fetchImpl: typeof fetch = fetch): Promise<boolean> {
+    try {
+        const resp = await fetchImpl(joinUrl(baseUrl, "/__routes"));
+        return resp.ok && Array.isArray(await resp.json());
+    } catch {
+        return false;
+    }
+}
+
+function checkResponse(orch: Orchestrator, testCase: GeneratedTestCase, status: number, body: unknown): ContractCheck[] {
+    const { expect } = testCase;
+    const checks: ContractCheck[] = [
+        { label: "status", ok: status === expect.status, detail: status === expect.status ? undefined : `expected ${expect.status}, got ${status}` },
+    ];
+
+    // EXT/SYS failures answer with the { error, message } envelope, not the response schema
+    const envelope = expect.errorKind === "EXT" || expect.errorKind === "SYS";
+    if (!envelope && !isEmptySchema(orch.apiSpec.responseSchema)) {
+        const errors = validateJson(body, orch.apiSpec.responseSchema as JsonSchema).filter(v => v.severity === "error");
+        checks.push({ label: "responseSchema", ok: errors.length === 0, detail: errors.length ? `${errors[0].path} ${errors[0].message}` : undefined });
+    }
+
+    const obj = isSchemaObject(body) ? body : {};
+    for (const [key, value] of Object.entries(expect.body)) {
+        const ok = obj[key] === value;
+        checks.push({ label: key, ok, detail: ok ? undefined : `expected ${JSON.stringify(value)}, got ${JSON.stringify(obj[key])}` });
+    }
+    if (expect.reasonField && expect.errorCode) {
+        const text = String(obj[expect.reasonField] ?? "");
+        const ok = text.includes(expect.errorCode);
+        checks.push({ label: "errorCode", ok, detail: ok ? undefined : `${expect.reasonField} does not mention ${expect.errorCode}` });
+    }
+    return checks;
+}
+
+export async function runContractSuite(orch: Orchestrator, options: ContractSuiteOptions): Promise<ContractCaseResult[]> {
+    const fetchImpl = options.fetchImpl ?? fetch;
+    const route = mockRoutes([orch])[0];
+    const cases = buildTestCases(orch);
+    const results: ContractCaseResult[] = [];
+    if (!route) return results;
+
+    const mock = await isMockServer(options.baseUrl, fetchImpl);
+    const fixtureUrl = joinUrl(options.baseUrl, `/__fixtures/${encodeURIComponent(orch.id)}`);
+    let previousFixture: MockFixtureState | null = null;
+    if (mock) {
+        try {
+            previousFixture = await (await fetchImpl(fixtureUrl)).json();
+        } catch {
+            previousFixture = null;
+        }
+    }
+
+    for (const [index, testCase] of cases.entries()) {
+        const started = Date.now();
+        const needsStubs = Object.keys(testCase.fixtures).length > 0;
+        let result: ContractCaseResult;
+        try {
+            if (mock) {
+                await fetchImpl(fixtureUrl, { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify(mockFixtureFor(testCase)) });
+            }
+            const resp = await fetchImpl(joinUrl(options.baseUrl, route.path), {
+                method: route.method,
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(testCase.request),
+            });
+            const text = await resp.text();
+            let body: unknown = null;
+            try {
+                body = text ? JSON.parse(text) : null;
+            } catch {
+                body = text;
+            }
+            const checks = checkResponse(orch, testCase, resp.status, body);
+            result = {
+                testCase,
+                outcome: checks.every(c => c.ok) ? "pass" : "fail",
+                httpStatus: resp.status,
+                checks,
+                unstubbed: needsStubs && !mock,
+                durationMs: Date.now() - started,
+            };
+        } catch (e: any) {
+            result = { testCase, outcome: "error", httpStatus: null, checks: [], unstubbed: needsStubs && !mock, durationMs: Date.now() - started, error: e.message };
+        }
+        results.push(result);
+        options.onCase?.(result, index, cases.length);
+    }
+
+    // Leave the mock the way QA had it
+    if (mock) {
+        const restore = previousFixture && (Object.keys(previousFixture.facts ?? {}).length || previousFixture.failWith);
+        await fetchImpl(fixtureUrl, restore
+            ? { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify(previousFixture) }
+            : { method: "DELETE" }).catch(() => undefined);
+    }
+    return results;
+}
+
+/** Run-log line for one case, in the `[tag] message` style of the skill runs. */
+export function contractCaseLine(result: ContractCaseResult): string {
+    const { testCase } = result;
+    if (result.outcome === "error") return `[error] ${testCase.target} — ${result.error}`;
+    const failed = result.checks.filter(c => !c.ok).map(c => `${c.label}: ${c.detail}`);
+    const suffix = result.unstubbed ? " (node stubs not applied)" : "";
+    return result.outcome === "pass"
+        ? `[pass] ${testCase.target} (${result.httpStatus}, ${result.durationMs} ms)${suffix}`
+        : `[fail] ${testCase.target} — ${failed.join("; ")}${suffix}`;
+}
@@ -0,0 +1,261 @@
+import { FlowStep, Orchestrator } from "../types";
+import { isEmptySchema, isSchemaObject, sampleFromSchema, SchemaViolation, validateJson } from "./jsonSchema";
+import { checkDecisionRules, evaluateRuleExpr, factVocabulary, Facts } from "./ruleExpr";
+
+/**
+ * In-browser dry run of an Orchestrator spec: walks flowSteps in order
+ * against mocked node outputs, applies decisionRules as soon as the facts
+ * they read exist, and handles failures per errorPolicy kind. Time is
+ * virtual — backoff delays are recorded in the trace, not waited for.
+ */
+
+export type ErrorKind = "BIZ" | "EXT" | "SYS";
+
+export interface NodeFixture {
+    /** Output returned instead of one fabricated from the node contract. */
+    output?: unknown;
+    /** Make the node fail. `times` failing attempts, then success; omitted = every attempt fails. */
+    fail?: { code?: string; times?: number };
+}
+
+export interface DryRunOptions {
+    request?: unknown;
+    fixtures?: Record<string, NodeFixture>;     // keyed by nodeId
+}
+
+export interface DryRunAttempt {
+    attempt: number;
+    delayMs: number;        // backoff waited before this attempt
+    ok: boolean;
+    error?: string;
+}
+
+export interface DryRunRuleResult {
+    ruleId: string;
+    when: string;
+    fired: boolean;
+    errorCode?: string;
+}
+
+export interface DryRunError {
+    code: string;
+    kind: ErrorKind;
+    message: string;
+}
+
+export interface DryRunStepTrace {
+    step: FlowStep;
+    status: "ok" | "failed" | "skipped";
+    input: unknown;
+    output?: unknown;
+    outputSource?: "fixture" | "contract" | "none";
+    attempts: DryRunAttempt[];
+    rules: DryRunRuleResult[];
+    error?: DryRunError;
+}
+
+export interface DryRunResult {
+    request: unknown;
+    requestViolations: SchemaViolation[];
+    steps: DryRunStepTrace[];
+    /** Rules whose fields no step ever produced; they are reported, not evaluated. */
+    unresolvedRules: Array<{ ruleId: string; missing: string[] }>;
+    outcome: "success" | "rejected" | "failed";
+    error: DryRunError | null;
+    response: { status: number; body: unknown };
+    elapsedMs: number;
+    notes: string[];
+}
+
+const DEFAULT_STATUS: Record<ErrorKind, number> = { BIZ: 200, EXT: 503, SYS: 500 };
+const DEFAULT_RETRIES = 3;
+const BASE_BACKOFF_MS = 200;
+const NODE_LATENCY_MS = 20;
+
+/** Category of an error code: its errorCodes entry, else the code prefix, else SYS. */
+export function errorKindOf(orch: Orchestrator, code: string): ErrorKind {
+    const def = orch.errorCodes.find(e => e.code === code);
+    if (def) return def.category;
+    const prefix = code.split("_")[0];
+    return prefix === "BIZ" || prefix === "EXT" ? prefix : "SYS";
+}
+
+/** Reads the knobs a policy sentence carries: "Retry up to 3 times ... return 503." */
+export function policyFor(orch: Orchestrator, kind: ErrorKind) {
+    const text = orch.errorPolicy.find(p => p.kind === kind)?.policy;
+    const retries = text ? /retry up to (\d+)/i.exec(text) : null;
+    const status = text ? /\b(?:return|returns)\s+(\d{3})\b/i.exec(text) : null;
+    return {
+        text,
+        retries: kind === "EXT" ? (retries ? Number(retries[1]) : DEFAULT_RETRIES) : 0,
+        status: status ? Number(status[1]) : DEFAULT_STATUS[kind],
+    };
+}
+
+/** Status a code is answered with: the httpStatus its ErrorCodeDef declares, else what its kind's errorPolicy returns. */
+export function errorStatusFor(orch: Orchestrator, code: string, kind: ErrorKind = errorKindOf(orch, code)): number {
+    return orch.errorCodes.find(e => e.code === code)?.httpStatus ?? policyFor(orch, kind).status;
+}
+
+/** True when a dotted field path exists in the facts (own properties only). */
+export function hasFact(facts: Facts, field: string): boolean {
+    let cur: unknown = facts;
+    for (const key of field.split(".")) {
+        if (typeof cur !== "object" || cur === null || !Object.prototype.hasOwnProperty.call(cur, key)) return false;
+        cur = (cur as Record<string, unknown>)[key];
+    }
+    return true;
+}
+
+function pick(facts: Facts, keys: string[]): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    for (const key of keys) if (Object.prototype.hasOwnProperty.call(facts, key)) out[key] = facts[key];
+    return out;
+}
+
+/**
+ * Response for a flow that ended in an error: BIZ rejections keep the
+ * success shape with isValid=false and a reason, everything else returns
+ * { error, message } — both with the status errorPolicy names.
+ */
+export function errorResponse(orch: Orchestrator, error: DryRunError, successBody: Record<string, unknown>) {
+    const status = errorStatusFor(orch, error.code, error.kind);
+    if (error.kind === "BIZ") {
+        return { outcome: "rejected" as const, status, body: { ...successBody, isValid: false, reason: `${error.code}: ${error.message}` } };
+    }
+    return { outcome: "failed" as const, status, body: { error: error.code, message: error.message } as Record<string, unknown> };
+}
+
+export function dryRunOrchestrator(orch: Orchestrator, options: DryRunOptions = {}): DryRunResult {
+    const request = options.request ?? orch.apiSpec.requestExample ?? {};
+    const fixtures = options.fixtures ?? {};
+    const notes: string[] = [];
+    const facts: Facts = isSchemaObject(request) ? { ...request } : {};
+    const checks = checkDecisionRules(orch.decisionRules, factVocabulary(orch));
+    const pending = new Set(checks.filter(c => c.expr).map(c => c.rule.ruleId));
+    const steps: DryRunStepTrace[] = [];
+    let clock = 0;
+    let error: DryRunError | null = null;
+
+    for (const c of checks) {
+        if (c.error) notes.push(`${c.rule.ruleId} does not parse (col ${c.error.column}: ${c.error.message}) and is ignored.`);
+    }
+
+    // Invalid payloads never reach the nodes: they fail the first step, which validates the request
+    const requestViolations = isEmptySchema(orch.apiSpec.requestSchema) ? [] : validateJson(request, orch.apiSpec.requestSchema);
+    const invalidRequest = requestViolations.some(v => v.severity === "error");
+
+    /** Evaluates pending rules whose fields are all present; the first that fires is returned. */
+    const applyReadyRules = (): { results: DryRunRuleResult[]; fired?: DryRunRuleResult } => {
+        const results: DryRunRuleResult[] = [];
+        for (const c of checks) {
+            if (!pending.has(c.rule.ruleId) || !c.fields.every(f => hasFact(facts, f))) continue;
+            pending.delete(c.rule.ruleId);
+            const result = { ruleId: c.rule.ruleId, when: c.rule.when, fired: !!evaluateRuleExpr(c.expr!, facts), errorCode: c.rule.errorCode };
+            results.push(result);
+            if (result.fired) return { results, fired: result };
+        }
+        return { results };
+    };
+
+    // Rules that only read request fields apply before any node runs
+    const upfront = invalidRequest ? { results: [] } : applyReadyRules();
+    if (upfront.results.length) notes.push(`Evaluated on the request alone: ${upfront.results.map(r => r.ruleId).join(", ")}.`);
+    let rejectedBy = upfront.fired;
+
+    for (const [idx, step] of orch.flowSteps.entries()) {
+        if (error || rejectedBy) {
+            steps.push({ step, status: "skipped", input: undefined, attempts: [], rules: [] });
+            continue;
+        }
+
+        const contract = orch.nodeContracts.find(c => c.nodeId === step.nodeId);
+        const inputKeys = contract && isSchemaObject(contract.inputSchema?.properties)
+            ? Object.keys(contract.inputSchema.properties)
+            : step.input.split(",").map(s => s.trim()).filter(k => Object.prototype.hasOwnProperty.call(facts, k));
+        const input = idx === 0 && !contract ? request : pick(facts, inputKeys);
+        const fixture = fixtures[step.nodeId];
+        const trace: DryRunStepTrace = { step, status: "ok", input, attempts: [], rules: [] };
+        steps.push(trace);
+
+        let failure: { code: string; message: string } | null = null;
+        if (idx === 0 && invalidRequest) {
+            failure = { code: step.onError || "SYS_INVALID_INPUT", message: `request does not match requestSchema (${requestViolations.filter(v => v.severity === "error").length} errors)` };
+        } else if (fixture?.fail) {
+            failure = { code: fixture.fail.code || step.onError || "SYS_INTERNAL_ERROR", message: "node failure injected by fixture" };
+        }
+
+        if (failure) {
+            const kind = errorKindOf(orch, failure.code);
+            const policy = policyFor(orch, kind);
+            const failingAttempts = idx === 0 && invalidRequest ? Infinity : fixture?.fail?.times ?? Infinity;
+            const maxAttempts = 1 + policy.retries;
+            let succeeded = false;
+            for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+                const delayMs = attempt === 1 ? 0 : BASE_BACKOFF_MS * 2 ** (attempt - 2);
+                clock += delayMs + NODE_LATENCY_MS;
+                const ok = attempt > failingAttempts;
+                trace.attempts.push({ attempt, delayMs, ok, error: ok ? undefined : `${failure.code}: ${failure.message}` });
+                if (ok) {
+                    succeeded = true;
+                    break;
+                }
+            }
+            if (!succeeded) {
+                trace.status = "failed";
+                error = { code: failure.code, kind, message: failure.message };
+                trace.error = error;
+                if (!policy.text) notes.push(`No errorPolicy for ${kind}; the default (${policy.status}) was applied.`);
+                continue;
+            }
+        } else {
+            clock += NODE_LATENCY_MS;
+            trace.attempts.push({ attempt: 1, delayMs: 0, ok: true });
+        }
+
+        if (fixture && "output" in fixture && fixture.output !== undefined) {
+            trace.output = fixture.output;
+            trace.outputSource = "fixture";
+        } else if (contract && !isEmptySchema(contract.outputSchema)) {
+            trace.output = sampleFromSchema(contract.outputSchema);
+            trace.outputSource = "contract";
+        } else {
+            trace.outputSource = "none";
+        }
+        if (isSchemaObject(trace.output)) Object.assign(facts, trace.output);
+
+        const { results, fired } = applyReadyRules();
+        trace.rules = results;
+        if (fired) rejectedBy = fired;
+    }
+
+    const unresolvedRules = checks
+        .filter(c => pending.has(c.rule.ruleId))
+        .map(c => ({ ruleId: c.rule.ruleId, missing: c.fields.filter(f => !hasFact(facts, f)) }));
+    if (!error && !rejectedBy && unresolvedRules.length) {
+        notes.push("Some rules read fields no step produced — add a fixture output that carries them to exercise those rules.");
+    }
+
+    // Success body: the response schema's shape, filled from the facts where names match
+    const responseBase = sampleFromSchema(orch.apiSpec.responseSchema);
+    const body: Record<string, unknown> = isSchemaObject(responseBase) ? { ...responseBase } : {};
+    for (const key of Object.keys(body)) if (Object.prototype.hasOwnProperty.call(facts, key)) body[key] = facts[key];
+
+    let outcome: DryRunResult["outcome"] = "success";
+    let response: DryRunResult["response"] = { status: 200, body };
+
+    if (rejectedBy) {
+        const code = rejectedBy.errorCode ?? "";
+        const rule = orch.decisionRules.find(r => r.ruleId === rejectedBy!.ruleId)!;
+        error = { code, kind: code ? errorKindOf(orch, code) : "BIZ", message: `${rule.ruleId}: ${rule.description}` };
+    }
+    if (error) {
+        const failed = errorResponse(orch, error, body);
+        outcome = failed.outcome;
+        response = { status: failed.status, body: failed.body };
+    } else if (Object.prototype.hasOwnProperty.call(body, "isValid")) {
+        body.isValid = true;
+    }
+
+    return { request, requestViolations, steps, unresolvedRules, outcome, error, response, elapsedMs: clock, notes };
+}
@@ -0,0 +1,176 @@
+import errorCodeRules from "../data/factory-standards/error-code-rules-v1.json";
+import { Orchestrator } from "../types";
+
+/**
+ * Error Code Rules v1 linter.
+ *
+ * Reads the standard from error-code-rules-v1.json (never hard-codes the
+ * allowed values) and checks every code an orchestrator references:
+ * - errorCodes[].code
+ * - flowSteps[].onError
+ * - decisionRules[].errorCode
+ */
+
+export type ErrorCodeSource = "errorCodes" | "flowSteps.onError" | "decisionRules.errorCode";
+
+export interface ErrorCodeViolation {
+    sectionId: string;      // section of the standard that is broken, e.g. "area"
+    sectionTitle: string;
+    message: string;
+}
+
+export interface ParsedErrorCode {
+    codeClass: string;
+    area: string;
+    family: string | null;
+    detail: string;
+}
+
+export interface ErrorCodeFinding {
+    orchestratorId: string;
+    code: string;
+    source: ErrorCodeSource;
+    ref: string;            // stepId / ruleId / code that carries the reference
+    violations: ErrorCodeViolation[];
+}
+
+type Section = { id: string; title: string; [key: string]: unknown };
+
+const SECTIONS = errorCodeRules.sections as Section[];
+
+function section(id: string): Section {
+    return SECTIONS.find(s => s.id === id) ?? { id, title: id };
+}
+
+type CodeMeaning = { code: string; meaning: string };
+
+/** The standard's lookup tables, in the order of its decision-order section. */
+export const ERROR_CODE_STANDARD = {
+    errorTypes: (section("error-type").mappings ?? []) as Array<{ type: string; httpStatus: number }>,
+    codeClasses: (section("code-class").values ?? []) as CodeMeaning[],
+    areas: (section("area").values ?? []) as CodeMeaning[],
+    families: Object.fromEntries(
+        ((section("family").groups ?? []) as Array<{ area: string; families: string[] }>).map(g => [g.area, g.families])
+    ) as Record<string, string[]>,
+    detailExamples: (section("detail").examples ?? []) as string[],
+    decisionOrder: (section("decision-order").steps ?? []) as string[],
+};
+
+const CODE_CLASSES = ERROR_CODE_STANDARD.codeClasses.map(v => v.code);
+const AREAS = ERROR_CODE_STANDARD.areas.map(v => v.code);
+const FAMILIES = ERROR_CODE_STANDARD.families;
+const FW_PHASE_FAMILIES = ((section("boot-init-startup").prefixes ?? []) as string[])
+    .map(p => p.replace(/^SYS_FW_/, "").replace(/_xxx$/, ""));
+
+const UPPER_SNAKE = /^[A-Z0-9]+(_[A-Z0-9]+)*$/;
+
+function violation(sectionId: string, message: string): ErrorCodeViolation {
+    return { sectionId, sectionTitle: section(sectionId).title, message };
+}
+
+/**
+ * Splits a code into {CODE_CLASS}_{AREA}_{FAMILY}_{DETAIL}. FAMILY may itself
+ * contain "_", so the longest known family wins; it may also take every
+ * remaining token, which leaves DETAIL empty for the linter to report.
+ */
+export function parseErrorCode(code: string): ParsedErrorCode {
+    const [codeClass = "", area = "", ...rest] = code.split("_");
+    const families = FAMILIES[area] ?? [];
+    let family: string | null = null;
+    let detailTokens = rest;
+
+    for (let n = rest.length; n >= 1; n--) {
+        const candidate = rest.slice(0, n).join("_");
+        if (families.includes(candidate)) {
+            family = candidate;
+            detailTokens = rest.slice(n);
+            break;
+        }
+    }
+
+    return { codeClass, area, family, detail: detailTokens.join("_") };
+}
+
+export function lintErrorCode(code: string, category?: string): ErrorCodeViolation[] {
+    const out: ErrorCodeViolation[] = [];
+
+    if (!UPPER_SNAKE.test(code)) {
+        out.push(violation("naming-style", `"${code}" is not upper snake case.`));
+    }
+
+    const tokens = code.split("_");
+    if (tokens.length < 4) {
+        out.push(violation("naming-format", `Expected ${String(section("naming-format").format)}, got ${tokens.length} segment(s).`));
+    }
+
+    const parsed = parseErrorCode(code);
+
+    if (!CODE_CLASSES.includes(parsed.codeClass)) {
+        out.push(violation("code-class", `CODE_CLASS "${parsed.codeClass}" must be one of ${CODE_CLASSES.join(" | ")}.`));
+    } else if (category && category !== parsed.codeClass) {
+        out.push(violation("code-class", `Declared category ${category} does not match CODE_CLASS ${parsed.codeClass}.`));
+    }
+
+    if (!AREAS.includes(parsed.area)) {
+        out.push(violation("area", `AREA "${parsed.area}" must be one of ${AREAS.join(" | ")}.`));
+    } else if (!parsed.family) {
+        out.push(violation("family", `No known FAMILY for AREA ${parsed.area}; allowed: ${FAMILIES[parsed.area].join(", ")}.`));
+    } else if (!parsed.detail) {
+        out.push(violation("detail", `DETAIL is missing after ${parsed.codeClass}_${parsed.area}_${parsed.family}.`));
+    }
+
+    if (parsed.family && FW_PHASE_FAMILIES.includes(parsed.family) && (parsed.codeClass !== "SYS" || parsed.area !== "FW")) {
+        out.push(violation("boot-init-startup", `${parsed.family} errors must use the SYS_FW_${parsed.family}_ prefix.`));
+    }
+
+    return out;
+}
+
+export function lintOrchestratorErrorCodes(orch: Orchestrator): ErrorCodeFinding[] {
+    const findings: ErrorCodeFinding[] = [];
+    const push = (code: string, source: ErrorCodeSource, ref: string, category?: string) => {
+        findings.push({ orchestratorId: orch.id, code, source, ref, violations: lintErrorCode(code, category) });
+    };
+
+    for (const c of orch.errorCodes) push(c.code, "errorCodes", c.code, c.category);
+    for (const s of orch.flowSteps) if (s.onError) push(s.onError, "flowSteps.onError", s.stepId);
+    for (const r of orch.decisionRules) if (r.errorCode) push(r.errorCode, "decisionRules.errorCode", r.ruleId);
+
+    return findings;
+}
+
+export function lintRegistryErrorCodes(orchs: Orchestrator[]): ErrorCodeFinding[] {
+    return orchs.flatMap(lintOrchestratorErrorCodes);
+}
+
+export function httpStatusForErrorType(errorType: string): number | undefined {
+    return ERROR_CODE_STANDARD.errorTypes.find(m => m.type === errorType)?.httpStatus;
+}
+
+const ERROR_TYPE_HINTS: Array<{ type: string; pattern: RegExp }> = [
+    { type: "TIMEOUT", pattern: /(^|_)TIMEOUT(_|$)/ },
+    { type: "NOT_FOUND", pattern: /(^|_)NOT_FOUND(_|$)/ },
+    { type: "UNAUTHENTICATED", pattern: /(^|_)(UNAUTHENTICATED|AUTH|TOKEN)(_|$)/ },
+    { type: "FORBIDDEN", pattern: /(^|_)(FORBIDDEN|DENIED|PERMISSION)(_|$)/ },
+    { type: "VALIDATION", pattern: /(^|_)(VALIDATION|INVALID|MALFORMED|REQUEST_BODY)(_|$)/ },
+];
+const CLASS_ERROR_TYPES: Record<string, string> = { BIZ: "BIZ", EXT: "DEPENDENCY", SYS: "SYSTEM" };
+
+/**
+ * Best guess at the ErrorType of a code that does not declare one (codes
+ * saved before the builder stored it, or codes only flow steps and rules
+ * mention): a type the code's tokens spell out, else the CODE_CLASS default
+ * (BIZ → BIZ, EXT → DEPENDENCY, SYS → SYSTEM). Callers should prefer
+ * ErrorCodeDef.errorType and say when they fall back to this.
+ */
+export function errorTypeForCode(code: string): string {
+    const types = ERROR_CODE_STANDARD.errorTypes.map(m => m.type);
+    const hinted = ERROR_TYPE_HINTS.find(h => types.includes(h.type) && h.pattern.test(code));
+    if (hinted) return hinted.type;
+    return CLASS_ERROR_TYPES[code.split("_")[0]] ?? "SYSTEM";
+}
+
+/** Orchestrators that already define `code` in errorCodes. */
+export function findErrorCodeOwners(code: string, orchs: Orchestrator[]): Orchestrator[] {
+    return orchs.filter(o => o.errorCodes.some(c => c.code === code));
+}
@@ -0,0 +1,373 @@
+/**
+ * Flow DSL parser — turns FlowSpec.dsl into a typed AST with source positions.
+ *
+ * Grammar (one statement per line, 2-space indentation):
+ *
+ *   BLOCK:<name>                          top level, column 1
+ *     RUN <node> [E:<handler>,...]
+ *     CALL <target> [E:<handler>,...] [: <errorCode>]
+ *     FOR_EACH <collection>               children indented one level deeper
+ *     COUNTER:<name>
+ *     BIZ <subject> : <predicate>
+ *     THEN <statement>                    attaches to the preceding BIZ
+ *     VALIDATE <target>
+ *     RECORD <target>
+ *
+ * CALL targets without a "." refer to a BLOCK; dotted targets (service.method)
+ * are external calls. Lines starting with "#" are comments.
+ */
+
+export interface SourcePos {
+    line: number;   // 1-based
+    column: number; // 1-based
+}
+
+export interface ErrorHandlerRef {
+    name: string;
+    pos: SourcePos;
+}
+
+export interface RunStatement {
+    kind: "run";
+    node: string;
+    handlers: ErrorHandlerRef[];
+    pos: SourcePos;
+}
+
+export interface CallStatement {
+    kind: "call";
+    target: string;
+    targetKind: "block" | "service";
+    handlers: ErrorHandlerRef[];
+    errorCode?: string;
+    pos: SourcePos;
+}
+
+export interface ForEachStatement {
+    kind: "forEach";
+    collection: string;
+    body: FlowStatement[];
+    pos: SourcePos;
+}
+
+export interface CounterStatement {
+    kind: "counter";
+    name: string;
+    pos: SourcePos;
+}
+
+export interface BizStatement {
+    kind: "biz";
+    subject: string;
+    predicate: string;
+    then?: FlowStatement;
+    pos: SourcePos;
+}
+
+export interface ValidateStatement {
+    kind: "validate";
+    target: string;
+    pos: SourcePos;
+}
+
+export interface RecordStatement {
+    kind: "record";
+    target: string;
+    pos: SourcePos;
+}
+
+export type FlowStatement =
+    | RunStatement
+    | CallStatement
+    | ForEachStatement
+    | CounterStatement
+    | BizStatement
+    | ValidateStatement
+    | RecordStatement;
+
+export interface FlowBlock {
+    name: string;
+    body: FlowStatement[];
+    pos: SourcePos;
+}
+
+export interface FlowProgram {
+    blocks: FlowBlock[];
+    entry: string | null;   // "execute" when defined, otherwise the first block
+}
+
+export type FlowDiagnosticCode =
+    | "syntax"
+    | "bad-indent"
+    | "duplicate-block"
+    | "undefined-block"
+    | "unreachable-block"
+    | "unknown-handler";
+
+export interface FlowDiagnostic {
+    severity: "error" | "warning";
+    code: FlowDiagnosticCode;
+    message: string;
+    pos: SourcePos;
+}
+
+export interface FlowParseResult {
+    program: FlowProgram;
+    diagnostics: FlowDiagnostic[];
+}
+
+export interface FlowParseOptions {
+    /** Extra error handler names accepted in E: lists, besides the built-ins and declared COUNTERs. */
+    handlers?: string[];
+}
+
+export const BUILTIN_ERROR_HANDLERS = ["PROPAGATE", "LOGGER"];
+
+const INDENT = 2;
+
+type Token = { text: string; column: number };
+
+function tokenize(content: string, column: number): Token[] {
+    const tokens: Token[] = [];
+    const re = /\S+/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(content))) {
+        tokens.push({ text: m[0], column: column + m.index });
+    }
+    return tokens;
+}
+
+type Container = { childLevel: number; body: FlowStatement[] };
+
+export function parseFlowDsl(src: string, options: FlowParseOptions = {}): FlowParseResult {
+    const diagnostics: FlowDiagnostic[] = [];
+    const blocks: FlowBlock[] = [];
+    const report = (severity: FlowDiagnostic["severity"], code: FlowDiagnosticCode, message: string, pos: SourcePos) =>
+        diagnostics.push({ severity, code, message, pos });
+
+    let stack: Container[] = [];
+    const lines = src.split(/\r?\n/);
+
+    lines.forEach((raw, i) => {
+        const line = i + 1;
+        const content = raw.trim();
+        if (!content || content.startsWith("#")) return;
+
+        const leading = raw.match(/^[ \t]*/)![0];
+        if (leading.includes("\t")) {
+            report("error", "bad-indent", "Tabs are not allowed for indentation; use 2 spaces.", { line, column: 1 });
+        }
+        const width = leading.replace(/\t/g, " ".repeat(INDENT)).length;
+        if (width % INDENT !== 0) {
+            report("error", "bad-indent", `Indentation of ${width} is not a multiple of ${INDENT}.`, { line, column: 1 });
+        }
+        let level = Math.floor(width / INDENT);
+        const tokens = tokenize(content, leading.length + 1);
+        const pos = { line, column: tokens[0].column };
+
+        if (tokens[0].text.startsWith("BLOCK:")) {
+            if (level !== 0) report("error", "bad-indent", "BLOCK must start at column 1.", pos);
+            const name = tokens[0].text.slice("BLOCK:".length);
+            if (!name) report("error", "syntax", "BLOCK is missing a name.", pos);
+            if (tokens.length > 1) report("error", "syntax", `Unexpected "${tokens[1].text}" after BLOCK name.`, { line, column: tokens[1].column });
+            if (blocks.some(b => b.name === name)) report("error", "duplicate-block", `BLOCK "${name}" is defined more than once.`, pos);
+            const block: FlowBlock = { name, body: [], pos };
+            blocks.push(block);
+            stack = [{ childLevel: 1, body: block.body }];
+            return;
+        }
+
+        if (stack.length === 0) {
+            report("error", "syntax", "Statement outside of a BLOCK.", pos);
+            return;
+        }
+        if (level === 0) {
+            report("error", "bad-indent", "Statements inside a BLOCK must be indented.", pos);
+            level = 1;
+        }
+
+        while (stack.length > 1 && stack[stack.length - 1].childLevel > level) stack.pop();
+        const top = stack[stack.length - 1];
+        if (level > top.childLevel) {
+            report("error", "bad-indent", "Unexpected indentation; only FOR_EACH may have nested statements.", pos);
+        }
+
+        if (tokens[0].text === "THEN") {
+            const prev = top.body[top.body.length - 1];
+            const then = parseStatement(tokens.slice(1), line, report);
+            if (!prev || prev.kind !== "biz") {
+                report("error", "syntax", "THEN must directly follow a BIZ check.", pos);
+            } else if (prev.then) {
+                report("error", "syntax", "BIZ check already has a THEN.", pos);
+            } else if (then) {
+                prev.then = then;
+            }
+            return;
+        }
+
+        const stmt = parseStatement(tokens, line, report);
+        if (!stmt) return;
+        top.body.push(stmt);
+        if (stmt.kind === "forEach") stack.push({ childLevel: level + 1, body: stmt.body });
+    });
+
+    const program: FlowProgram = {
+        blocks,
+        entry: blocks.find(b => b.name === "execute")?.name ?? blocks[0]?.name ?? null,
+    };
+
+    checkReferences(program, options, report);
+    return { program, diagnostics: diagnostics.sort((a, b) => a.pos.line - b.pos.line || a.pos.column - b.pos.column) };
+}
+
+type Reporter = (severity: FlowDiagnostic["severity"], code: FlowDiagnosticCode, message: string, pos: SourcePos) => void;
+
+function parseHandlers(token: Token, line: number): ErrorHandlerRef[] {
+    const out: ErrorHandlerRef[] = [];
+    let column = token.column + 2;
+    for (const name of token.text.slice(2).split(",")) {
+        if (name) out.push({ name, pos: { line, column } });
+        column += name.length + 1;
+    }
+    return out;
+}
+
+function parseStatement(tokens: Token[], line: number, report: Reporter): FlowStatement | null {
+    if (tokens.length === 0) {
+        report("error", "syntax", "Expected a statement.", { line, column: 1 });
+        return null;
+    }
+
+    const [head, ...rest] = tokens;
+    const pos = { line, column: head.column };
+    const word = (i: number, what: string): string | null => {
+        const t = rest[i];
+        if (!t || t.text === ":" || t.text.startsWith("E:")) {
+            report("error", "syntax", `${head.text} expects ${what}.`, t ? { line, column: t.column } : pos);
+            return null;
+        }
+        return t.text;
+    };
+    const expectEnd = (from: number) => {
+        if (rest[from]) report("error", "syntax", `Unexpected "${rest[from].text}".`, { line, column: rest[from].column });
+    };
+
+    if (head.text.startsWith("COUNTER:")) {
+        const name = head.text.slice("COUNTER:".length);
+        if (!name) report("error", "syntax", "COUNTER is missing a name.", pos);
+        expectEnd(0);
+        return { kind: "counter", name, pos };
+    }
+
+    switch (head.text) {
+        case "RUN": {
+            const node = word(0, "a node name");
+            if (node === null) return null;
+            const handlers = rest[1]?.text.startsWith("E:") ? parseHandlers(rest[1], line) : [];
+            expectEnd(handlers.length ? 2 : 1);
+            return { kind: "run", node, handlers, pos };
+        }
+        case "CALL": {
+            const target = word(0, "a block or service name");
+            if (target === null) return null;
+            let i = 1;
+            const handlers = rest[i]?.text.startsWith("E:") ? parseHandlers(rest[i++], line) : [];
+            let errorCode: string | undefined;
+            if (rest[i]?.text === ":") {
+                errorCode = rest[i + 1]?.text;
+                if (!errorCode) report("error", "syntax", "Expected an error code after \":\".", { line, column: rest[i].column });
+                i += 2;
+            }
+            expectEnd(i);
+            return { kind: "call", target, targetKind: target.includes(".") ? "service" : "block", handlers, errorCode, pos };
+        }
+        case "FOR_EACH": {
+            const collection = word(0, "a collection name");
+            if (collection === null) return null;
+            expectEnd(1);
+            return { kind: "forEach", collection, body: [], pos };
+        }
+        case "BIZ": {
+            const subject = word(0, "a subject");
+            if (subject === null) return null;
+            if (rest[1]?.text !== ":") {
+                report("error", "syntax", "BIZ expects \"<subject> : <predicate>\".", rest[1] ? { line, column: rest[1].column } : pos);
+                return null;
+            }
+            const predicate = word(2, "a predicate");
+            if (predicate === null) return null;
+            expectEnd(3);
+            return { kind: "biz", subject, predicate, pos };
+        }
+        case "VALIDATE":
+        case "RECORD": {
+            const target = word(0, "a target");
+            if (target === null) return null;
+            expectEnd(1);
+            return head.text === "VALIDATE" ? { kind: "validate", target, pos } : { kind: "record", target, pos };
+        }
+        default:
+            report("error", "syntax", `Unknown statement "${head.text}".`, pos);
+            return null;
+    }
+}
+
+/** Visits every statement (including FOR_EACH bodies and BIZ THEN branches) in source order. */
+export function walkStatements(body: FlowStatement[], visit: (stmt: FlowStatement) => void) {
+    for (const stmt of body) {
+        visit(stmt);
+        if (stmt.kind === "forEach") walkStatements(stmt.body, visit);
+        if (stmt.kind === "biz" && stmt.then) walkStatements([stmt.then], visit);
+    }
+}
+
+/** Block name → names of the blocks it CALLs. */
+export function blockCallGraph(program: FlowProgram): Map<string, string[]> {
+    const graph = new Map<string, string[]>();
+    for (const block of program.blocks) {
+        const targets: string[] = [];
+        walkStatements(block.body, s => {
+            if (s.kind === "call" && s.targetKind === "block" && !targets.includes(s.target)) targets.push(s.target);
+        });
+        graph.set(block.name, targets);
+    }
+    return graph;
+}
+
+function checkReferences(program: FlowProgram, options: FlowParseOptions, report: Reporter) {
+    const defined = new Set(program.blocks.map(b => b.name));
+    const counters = new Set<string>();
+    for (const block of program.blocks) {
+        walkStatements(block.body, s => { if (s.kind === "counter") counters.add(s.name); });
+    }
+    const knownHandlers = new Set([...BUILTIN_ERROR_HANDLERS, ...counters, ...(options.handlers ?? [])]);
+
+    for (const block of program.blocks) {
+        walkStatements(block.body, s => {
+            if (s.kind === "call" && s.targetKind === "block" && !defined.has(s.target)) {
+                report("error", "undefined-block", `CALL targets undefined BLOCK "${s.target}".`, s.pos);
+            }
+            if (s.kind === "run" || s.kind === "call") {
+                for (const h of s.handlers) {
+                    if (!knownHandlers.has(h.name)) report("warning", "unknown-handler", `Unknown error handler "${h.name}".`, h.pos);
+                }
+            }
+        });
+    }
+
+    if (!program.entry) return;
+    const graph = blockCallGraph(program);
+    const reachable = new Set<string>();
+    const queue = [program.entry];
+    while (queue.length) {
+        const name = queue.shift()!;
+        if (reachable.has(name)) continue;
+        reachable.add(name);
+        queue.push(...(graph.get(name) ?? []).filter(n => defined.has(n)));
+    }
+    for (const block of program.blocks) {
+        if (!reachable.has(block.name)) {
+            report("warning", "unreachable-block", `BLOCK "${block.name}" is never called from "${program.entry}".`, block.pos);
+        }
+    }
+}
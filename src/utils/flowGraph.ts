@@ -0,0 +1,218 @@
+import { FlowSpec, Orchestrator } from "../types";
+import { parseFlowDsl, walkStatements, FlowDiagnostic } from "./flowDsl";
+
+/**
+ * Graph models for the flow graph view.
+ *
+ * Orchestrators: flowSteps as boxes chained top-to-bottom, each step with an
+ * onError edge to its error code.
+ * FlowSpecs: DSL blocks with CALL edges, RUN/service nodes, and gates as
+ * diamonds chained in pipeline order.
+ */
+
+export type GraphNodeKind = "step" | "block" | "node" | "service" | "gate" | "error";
+export type GraphNodeShape = "box" | "diamond" | "pill";
+export type GraphEdgeKind = "next" | "call" | "run" | "onError" | "gate";
+
+export interface GraphNode {
+    id: string;
+    label: string;
+    sublabel?: string;
+    kind: GraphNodeKind;
+    shape: GraphNodeShape;
+    ref?: string;           // nodeId used to look up a NodeContract
+    missing?: boolean;      // referenced but not defined (e.g. undefined BLOCK)
+    x: number;              // center
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface GraphEdge {
+    from: string;
+    to: string;
+    kind: GraphEdgeKind;
+    label?: string;
+}
+
+export interface FlowGraphModel {
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+    width: number;
+    height: number;
+    diagnostics: FlowDiagnostic[];
+}
+
+type Direction = "TB" | "LR";
+type PendingNode = Omit<GraphNode, "x" | "y" | "width" | "height"> & { layer?: number };
+
+const SIZES: Record<GraphNodeShape, { width: number; height: number }> = {
+    box: { width: 190, height: 52 },
+    diamond: { width: 130, height: 70 },
+    pill: { width: 190, height: 30 },
+};
+const LAYER_GAP = { TB: 96, LR: 250 };
+const ROW_GAP = { TB: 230, LR: 84 };
+const MARGIN = 40;
+
+/**
+ * Layered layout: a node's layer is its BFS distance from the roots (unless
+ * fixed by the caller); nodes keep insertion order within a layer.
+ */
+function layout(pending: PendingNode[], edges: GraphEdge[], direction: Direction): Pick<FlowGraphModel, "nodes" | "width" | "height"> {
+    const layers = new Map<string, number>();
+    const incoming = new Set(edges.map(e => e.to));
+    const queue: string[] = [];
+
+    for (const n of pending) {
+        if (n.layer !== undefined) layers.set(n.id, n.layer);
+        else if (!incoming.has(n.id)) { layers.set(n.id, 0); queue.push(n.id); }
+    }
+    while (queue.length) {
+        const id = queue.shift()!;
+        for (const e of edges.filter(e => e.from === id)) {
+            if (layers.has(e.to)) continue;
+            layers.set(e.to, layers.get(id)! + 1);
+            queue.push(e.to);
+        }
+    }
+    // Nodes only reachable through a cycle end up after everything else
+    const maxLayer = Math.max(0, ...layers.values());
+    for (const n of pending) if (!layers.has(n.id)) layers.set(n.id, maxLayer + 1);
+
+    const slots = new Map<number, number>();
+    const nodes: GraphNode[] = pending.map(({ layer: _layer, ...n }) => {
+        const layer = layers.get(n.id)!;
+        const slot = slots.get(layer) ?? 0;
+        slots.set(layer, slot + 1);
+        const main = MARGIN + layer * LAYER_GAP[direction];
+        const cross = MARGIN + slot * ROW_GAP[direction];
+        const size = SIZES[n.shape];
+        return direction === "TB"
+            ? { ...n, ...size, x: cross + size.width / 2, y: main + size.height / 2 }
+            : { ...n, ...size, x: main + size.width / 2, y: cross + size.height / 2 };
+    });
+
+    const width = Math.max(0, ...nodes.map(n => n.x + n.width / 2)) + MARGIN;
+    const height = Math.max(0, ...nodes.map(n => n.y + n.height / 2)) + MARGIN;
+    return { nodes, width, height };
+}
+
+export function orchestratorGraph(orch: Orchestrator): FlowGraphModel {
+    const pending: PendingNode[] = [];
+    const edges: GraphEdge[] = [];
+
+    orch.flowSteps.forEach((step, i) => {
+        pending.push({
+            id: `step:${step.stepId}`,
+            label: step.nodeId,
+            sublabel: step.stepId,
+            kind: "step",
+            shape: "box",
+            ref: step.nodeId,
+            layer: i,
+        });
+        if (i > 0) edges.push({ from: `step:${orch.flowSteps[i - 1].stepId}`, to: `step:${step.stepId}`, kind: "next", label: orch.flowSteps[i - 1].output });
+    });
+
+    orch.flowSteps.forEach((step, i) => {
+        if (!step.onError) return;
+        const id = `error:${step.onError}`;
+        if (!pending.some(n => n.id === id)) {
+            pending.push({
+                id,
+                label: step.onError,
+                kind: "error",
+                shape: "pill",
+                missing: !orch.errorCodes.some(c => c.code === step.onError),
+                layer: i,
+            });
+        }
+        edges.push({ from: `step:${step.stepId}`, to: id, kind: "onError" });
+    });
+
+    return { ...layout(pending, edges, "TB"), edges, diagnostics: [] };
+}
+
+export function flowSpecGraph(flow: FlowSpec): FlowGraphModel {
+    const { program, diagnostics } = parseFlowDsl(flow.dsl);
+    const pending: PendingNode[] = [];
+    const edges: GraphEdge[] = [];
+    const specNode = (title: string) => flow.nodes.find(n => n.kind === "node" && n.title === title);
+
+    const ensure = (node: PendingNode) => {
+        if (!pending.some(n => n.id === node.id)) pending.push(node);
+        return node.id;
+    };
+    const addEdge = (edge: GraphEdge) => {
+        if (!edges.some(e => e.from === edge.from && e.to === edge.to && e.kind === edge.kind)) edges.push(edge);
+    };
+
+    for (const block of program.blocks) {
+        ensure({ id: `block:${block.name}`, label: block.name, sublabel: "BLOCK", kind: "block", shape: "box", ref: block.name });
+    }
+
+    for (const block of program.blocks) {
+        const from = `block:${block.name}`;
+        walkStatements(block.body, s => {
+            if (s.kind === "run" || (s.kind === "call" && s.targetKind === "service")) {
+                const title = s.kind === "run" ? s.node : s.target;
+                const spec = specNode(title);
+                const id = ensure({
+                    id: `node:${title}`,
+                    label: title,
+                    sublabel: spec?.notes ?? (s.kind === "run" ? "RUN" : "CALL"),
+                    kind: s.kind === "run" ? "node" : "service",
+                    shape: "box",
+                    ref: title,
+                });
+                addEdge({ from, to: id, kind: s.kind === "run" ? "run" : "call", label: s.handlers.map(h => h.name).join(",") || undefined });
+            } else if (s.kind === "call") {
+                const id = ensure({
+                    id: `block:${s.target}`,
+                    label: s.target,
+                    sublabel: "undefined BLOCK",
+                    kind: "block",
+                    shape: "box",
+                    ref: s.target,
+                    missing: true,
+                });
+                addEdge({ from, to: id, kind: "call", label: s.errorCode ?? (s.handlers.map(h => h.name).join(",") || undefined) });
+            }
+        });
+    }
+
+    // FlowSpec nodes the DSL never mentions are still drawn
+    for (const n of flow.nodes.filter(n => n.kind === "node")) {
+        ensure({ id: `node:${n.title}`, label: n.title, sublabel: n.notes, kind: "node", shape: "box", ref: n.title });
+    }
+
+    const placed = layout(pending, edges, "LR");
+    const gates = flow.nodes.filter(n => n.kind === "gate");
+    const lastLayer = Math.max(-1, ...placed.nodes.map(n => Math.round((n.x - n.width / 2 - MARGIN) / LAYER_GAP.LR)));
+    const gateLayer = lastLayer + 1;
+    const gatePending: PendingNode[] = gates.map(g => ({ id: `gate:${g.id}`, label: g.title, sublabel: g.notes, kind: "gate", shape: "diamond", layer: gateLayer }));
+    const gateEdges: GraphEdge[] = gates.slice(1).map((g, i) => ({ from: `gate:${gates[i].id}`, to: `gate:${g.id}`, kind: "gate" }));
+    const gateLayout = layout(gatePending, gateEdges, "LR");
+
+    return {
+        nodes: [...placed.nodes, ...gateLayout.nodes],
+        edges: [...edges, ...gateEdges],
+        width: Math.max(placed.width, gateLayout.width),
+        height: Math.max(placed.height, gateLayout.height),
+        diagnostics,
+    };
+}
+
+/** Point where the segment from the node center towards (tx, ty) leaves the node's outline. */
+export function anchorPoint(n: GraphNode, tx: number, ty: number): { x: number; y: number } {
+    const dx = tx - n.x;
+    const dy = ty - n.y;
+    if (dx === 0 && dy === 0) return { x: n.x, y: n.y };
+    const hw = n.width / 2;
+    const hh = n.height / 2;
+    const t = n.shape === "diamond"
+        ? 1 / (Math.abs(dx) / hw + Math.abs(dy) / hh)
+        : Math.min(dx ? hw / Math.abs(dx) : Infinity, dy ? hh / Math.abs(dy) : Infinity);
+    return { x: n.x + dx * t, y: n.y + dy * t };
+}
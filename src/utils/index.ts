@@ -25,6 +25,16 @@ export function safeJsonParse<T>(s: string): T | null {
     }
 }
 
+/** Saves text as a file through a temporary object URL. */
+export function downloadText(name: string, mediaType: string, content: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mediaType }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = name;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
 export function randId() {
     return (
         Math.random().toString(16).slice(2) +
@@ -0,0 +1,448 @@
+/**
+ * JSON Schema (draft-07) helpers shared by the schema explorer and the
+ * contract tooling. Only the keywords the portal's contracts use are typed;
+ * anything else passes through the index signature.
+ */
+
+export interface JsonSchema {
+    $schema?: string;
+    $id?: string;
+    $ref?: string;
+    title?: string;
+    description?: string;
+    type?: string | string[];
+    format?: string;
+    enum?: unknown[];
+    const?: unknown;
+    default?: unknown;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema | JsonSchema[];
+    definitions?: Record<string, JsonSchema>;
+    $defs?: Record<string, JsonSchema>;
+    oneOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    allOf?: JsonSchema[];
+    not?: JsonSchema;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    multipleOf?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    minProperties?: number;
+    maxProperties?: number;
+    [key: string]: unknown;
+}
+
+export type SchemaBranchKind = "oneOf" | "anyOf" | "allOf";
+export const SCHEMA_BRANCH_KINDS: SchemaBranchKind[] = ["oneOf", "anyOf", "allOf"];
+
+export function isSchemaObject(v: unknown): v is JsonSchema {
+    return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** True for `{}` / `{ $schema }` — a placeholder that constrains nothing. */
+export function isEmptySchema(schema: unknown): boolean {
+    if (!isSchemaObject(schema)) return true;
+    return Object.keys(schema).filter(k => k !== "$schema").length === 0;
+}
+
+/**
+ * Resolves a local `$ref` ("#/definitions/Lot", "#/$defs/Lot", "#") against
+ * the root schema. Remote refs are not fetched and resolve to undefined.
+ */
+export function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+    if (!ref.startsWith("#")) return undefined;
+    const pointer = ref.slice(1);
+    if (pointer === "" || pointer === "/") return root;
+
+    let cur: unknown = root;
+    for (const raw of pointer.replace(/^\//, "").split("/")) {
+        const key = decodeURIComponent(raw).replace(/~1/g, "/").replace(/~0/g, "~");
+        if (!isSchemaObject(cur) && !Array.isArray(cur)) return undefined;
+        cur = (cur as Record<string, unknown>)[key];
+    }
+    return isSchemaObject(cur) ? cur : undefined;
+}
+
+/** Named definitions declared on the root, from both draft-07 `definitions` and 2019+ `$defs`. */
+export function schemaDefinitions(root: JsonSchema): Array<{ name: string; ref: string; schema: JsonSchema }> {
+    const out: Array<{ name: string; ref: string; schema: JsonSchema }> = [];
+    for (const key of ["definitions", "$defs"] as const) {
+        const defs = root[key];
+        if (!isSchemaObject(defs)) continue;
+        for (const [name, schema] of Object.entries(defs)) {
+            const escaped = name.replace(/~/g, "~0").replace(/\//g, "~1");
+            if (isSchemaObject(schema)) out.push({ name, ref: `#/${key}/${escaped}`, schema });
+        }
+    }
+    return out;
+}
+
+/** Short type label: "string", "integer | null", "array<object>", "Lot" for a ref. */
+export function schemaTypeLabel(schema: JsonSchema): string {
+    if (schema.$ref) return schema.$ref.split("/").pop() || schema.$ref;
+    if (schema.const !== undefined) return "const";
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    if (types.length === 0) {
+        if (schema.properties) return "object";
+        if (schema.items) return "array";
+        if (schema.enum) return "enum";
+        for (const kind of SCHEMA_BRANCH_KINDS) if (schema[kind]) return kind;
+        return "any";
+    }
+    return types.map(t => {
+        if (t !== "array" || !isSchemaObject(schema.items)) return t;
+        return `array<${schemaTypeLabel(schema.items)}>`;
+    }).join(" | ");
+}
+
+/** Human-readable validation keywords, e.g. ["min 0", "maxLength 32", "pattern ^LOT"]. */
+export function schemaConstraints(schema: JsonSchema): string[] {
+    const out: string[] = [];
+    const add = (key: keyof JsonSchema, label: string) => {
+        if (schema[key] !== undefined) out.push(`${label} ${String(schema[key])}`);
+    };
+    add("minimum", "min");
+    add("exclusiveMinimum", ">");
+    add("maximum", "max");
+    add("exclusiveMaximum", "<");
+    add("multipleOf", "multipleOf");
+    add("minLength", "minLength");
+    add("maxLength", "maxLength");
+    add("pattern", "pattern");
+    add("minItems", "minItems");
+    add("maxItems", "maxItems");
+    add("minProperties", "minProperties");
+    add("maxProperties", "maxProperties");
+    if (schema.uniqueItems) out.push("unique");
+    if (schema.additionalProperties === false) out.push("no additional properties");
+    return out;
+}
+
+/* ── Validation ── */
+
+export interface SchemaViolation {
+    path: string;           // "$.details.toolStatus", "$.items[2]"
+    keyword: string;
+    message: string;
+    severity: "error" | "warning";
+}
+
+export interface ValidateOptions {
+    /**
+     * Also warn about object properties the schema doesn't declare. Draft-07
+     * accepts them unless additionalProperties is false, but in an example
+     * they usually mean the schema and the payload have drifted apart.
+     */
+    flagUndeclared?: boolean;
+}
+
+const FORMATS: Record<string, RegExp> = {
+    "date-time": /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+    date: /^\d{4}-\d{2}-\d{2}$/,
+    time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/,
+    email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/,
+    uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+    ipv4: /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/,
+    hostname: /^(?=.{1,253}$)[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/,
+};
+
+/** JSON Schema type name of a value; integers report as "integer". */
+export function jsonTypeOf(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    const actual = jsonTypeOf(value);
+    return actual === type || (type === "number" && actual === "integer");
+}
+
+/** JSON with object keys sorted, so equal values serialize equally. */
+export function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+    if (isSchemaObject(value)) {
+        return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(",")}}`;
+    }
+    return JSON.stringify(value);
+}
+
+function childPath(path: string, key: string | number): string {
+    if (typeof key === "number") return `${path}[${key}]`;
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Compiles a schema `pattern`. Unicode mode is tried first (so \p{…} and
+ * astral characters work), then plain mode, which still accepts the identity
+ * escapes (`\-`, `\/`) draft-07 patterns commonly use. Null when neither compiles.
+ */
+function schemaRegex(source: string): RegExp | null {
+    for (const flags of ["u", ""]) {
+        try {
+            return new RegExp(source, flags);
+        } catch {
+            // try the next mode
+        }
+    }
+    return null;
+}
+
+/**
+ * Validates a JSON value against a draft-07 schema. Local `$ref`s resolve
+ * against `schema` itself; remote refs are reported rather than fetched.
+ * Returns every violation found, not just the first.
+ */
+export function validateJson(value: unknown, schema: JsonSchema | boolean, options: ValidateOptions = {}): SchemaViolation[] {
+    const root: JsonSchema = isSchemaObject(schema) ? schema : {};
+    const out: SchemaViolation[] = [];
+
+    const check = (v: unknown, s: JsonSchema | boolean, path: string, sink: SchemaViolation[], refDepth: number): void => {
+        const fail = (keyword: string, message: string, severity: SchemaViolation["severity"] = "error") => {
+            sink.push({ path, keyword, message, severity });
+        };
+
+        if (s === true) return;
+        if (s === false) return fail("false", "no value is allowed here");
+        if (!isSchemaObject(s)) return;
+
+        // Draft-07: siblings of $ref are ignored
+        if (s.$ref) {
+            const target = resolveRef(root, s.$ref);
+            if (!target) return fail("$ref", `cannot resolve ${s.$ref}`);
+            if (refDepth > 32) return fail("$ref", `${s.$ref} recurses too deeply`);
+            return check(v, target, path, sink, refDepth + 1);
+        }
+
+        const countErrors = (sub: JsonSchema | boolean) => {
+            const tmp: SchemaViolation[] = [];
+            check(v, sub, path, tmp, refDepth);
+            return tmp.filter(x => x.severity === "error").length;
+        };
+
+        if (s.type !== undefined) {
+            const types = Array.isArray(s.type) ? s.type : [s.type];
+            if (!types.some(t => matchesType(v, t))) {
+                // Nothing below makes sense once the type is wrong
+                return fail("type", `expected ${types.join(" | ")}, got ${jsonTypeOf(v)}`);
+            }
+        }
+        if (s.enum && !s.enum.some(e => stableStringify(e) === stableStringify(v))) {
+            fail("enum", `must be one of ${s.enum.map(e => JSON.stringify(e)).join(", ")}`);
+        }
+        if (s.const !== undefined && stableStringify(s.const) !== stableStringify(v)) {
+            fail("const", `must equal ${JSON.stringify(s.const)}`);
+        }
+
+        if (typeof v === "number") {
+            if (s.minimum !== undefined && v < s.minimum) fail("minimum", `must be >= ${s.minimum}`);
+            if (s.maximum !== undefined && v > s.maximum) fail("maximum", `must be <= ${s.maximum}`);
+            if (s.exclusiveMinimum !== undefined && v <= s.exclusiveMinimum) fail("exclusiveMinimum", `must be > ${s.exclusiveMinimum}`);
+            if (s.exclusiveMaximum !== undefined && v >= s.exclusiveMaximum) fail("exclusiveMaximum", `must be < ${s.exclusiveMaximum}`);
+            if (s.multipleOf !== undefined && Math.abs(v / s.multipleOf - Math.round(v / s.multipleOf)) > 1e-9) {
+                fail("multipleOf", `must be a multiple of ${s.multipleOf}`);
+            }
+        }
+
+        if (typeof v === "string") {
+            const length = Array.from(v).length;
+            if (s.minLength !== undefined && length < s.minLength) fail("minLength", `must be at least ${s.minLength} characters`);
+            if (s.maxLength !== undefined && length > s.maxLength) fail("maxLength", `must be at most ${s.maxLength} characters`);
+            if (s.pattern !== undefined) {
+                const re = schemaRegex(s.pattern);
+                if (!re) fail("pattern", `schema pattern /${s.pattern}/ is not a valid regex`);
+                else if (!re.test(v)) fail("pattern", `must match /${s.pattern}/`);
+            }
+            if (s.format && FORMATS[s.format] && !FORMATS[s.format].test(v)) fail("format", `must be a valid ${s.format}`);
+        }
+
+        if (Array.isArray(v)) {
+            if (s.minItems !== undefined && v.length < s.minItems) fail("minItems", `must have at least ${s.minItems} items`);
+            if (s.maxItems !== undefined && v.length > s.maxItems) fail("maxItems", `must have at most ${s.maxItems} items`);
+            if (s.uniqueItems) {
+                const seen = new Set<string>();
+                v.forEach((item, i) => {
+                    const key = stableStringify(item);
+                    if (seen.has(key)) sink.push({ path: childPath(path, i), keyword: "uniqueItems", message: "duplicates an earlier item", severity: "error" });
+                    seen.add(key);
+                });
+            }
+            if (Array.isArray(s.items)) {
+                s.items.forEach((itemSchema, i) => { if (i < v.length) check(v[i], itemSchema, childPath(path, i), sink, refDepth); });
+                const extra = s.additionalItems as JsonSchema | boolean | undefined;
+                if (extra !== undefined) {
+                    for (let i = s.items.length; i < v.length; i++) check(v[i], extra, childPath(path, i), sink, refDepth);
+                }
+            } else if (s.items !== undefined) {
+                v.forEach((item, i) => check(item, s.items as JsonSchema, childPath(path, i), sink, refDepth));
+            }
+            const contains = s.contains as JsonSchema | boolean | undefined;
+            if (contains !== undefined && !v.some(item => {
+                const tmp: SchemaViolation[] = [];
+                check(item, contains, path, tmp, refDepth);
+                return tmp.every(x => x.severity !== "error");
+            })) {
+                fail("contains", "no item matches the contains schema");
+            }
+        }
+
+        if (isSchemaObject(v)) {
+            const keys = Object.keys(v);
+            const props = s.properties ?? {};
+            const patternProps: Array<{ re: RegExp; sub: JsonSchema | boolean }> = [];
+            for (const [source, sub] of Object.entries((s.patternProperties ?? {}) as Record<string, JsonSchema | boolean>)) {
+                const re = schemaRegex(source);
+                if (re) patternProps.push({ re, sub });
+                else fail("patternProperties", `schema pattern /${source}/ is not a valid regex`);
+            }
+
+            if (s.minProperties !== undefined && keys.length < s.minProperties) fail("minProperties", `must have at least ${s.minProperties} properties`);
+            if (s.maxProperties !== undefined && keys.length > s.maxProperties) fail("maxProperties", `must have at most ${s.maxProperties} properties`);
+            for (const name of s.required ?? []) {
+                if (!Object.prototype.hasOwnProperty.call(v, name)) sink.push({ path: childPath(path, name), keyword: "required", message: "is required", severity: "error" });
+            }
+
+            for (const key of keys) {
+                const kp = childPath(path, key);
+                let declared = false;
+                if (Object.prototype.hasOwnProperty.call(props, key)) {
+                    declared = true;
+                    check(v[key], props[key], kp, sink, refDepth);
+                }
+                for (const { re, sub } of patternProps) {
+                    if (re.test(key)) {
+                        declared = true;
+                        check(v[key], sub, kp, sink, refDepth);
+                    }
+                }
+                if (declared) continue;
+                if (s.additionalProperties === false) {
+                    sink.push({ path: kp, keyword: "additionalProperties", message: "is not allowed by the schema", severity: "error" });
+                } else if (isSchemaObject(s.additionalProperties)) {
+                    check(v[key], s.additionalProperties, kp, sink, refDepth);
+                } else if (options.flagUndeclared && s.properties) {
+                    sink.push({ path: kp, keyword: "undeclared", message: "is not declared in the schema", severity: "warning" });
+                }
+            }
+
+            const propertyNames = s.propertyNames as JsonSchema | boolean | undefined;
+            if (propertyNames !== undefined) {
+                for (const key of keys) check(key, propertyNames, childPath(path, key), sink, refDepth);
+            }
+            const dependencies = (s.dependencies ?? {}) as Record<string, string[] | JsonSchema | boolean>;
+            for (const [key, dep] of Object.entries(dependencies)) {
+                if (!Object.prototype.hasOwnProperty.call(v, key)) continue;
+                if (Array.isArray(dep)) {
+                    for (const name of dep) {
+                        if (!Object.prototype.hasOwnProperty.call(v, name)) sink.push({ path: childPath(path, name), keyword: "dependencies", message: `is required when "${key}" is present`, severity: "error" });
+                    }
+                } else {
+                    check(v, dep, path, sink, refDepth);
+                }
+            }
+        }
+
+        for (const sub of s.allOf ?? []) check(v, sub, path, sink, refDepth);
+        if (s.anyOf && !s.anyOf.some(sub => countErrors(sub) === 0)) {
+            fail("anyOf", `does not match any of the ${s.anyOf.length} anyOf branches`);
+        }
+        if (s.oneOf) {
+            const matched = s.oneOf.filter(sub => countErrors(sub) === 0).length;
+            if (matched !== 1) {
+                fail("oneOf", matched === 0 ? `does not match any of the ${s.oneOf.length} oneOf branches` : `matches ${matched} oneOf branches, expected exactly one`);
+            }
+        }
+        if (s.not !== undefined && countErrors(s.not) === 0) fail("not", "must not match the not schema");
+
+        const ifSchema = s.if as JsonSchema | boolean | undefined;
+        if (ifSchema !== undefined) {
+            const branch = (countErrors(ifSchema) === 0 ? s.then : s.else) as JsonSchema | boolean | undefined;
+            if (branch !== undefined) check(v, branch, path, sink, refDepth);
+        }
+    };
+
+    check(value, schema, "$", out, 0);
+    return out;
+}
+
+/* ── Sample data ── */
+
+const FORMAT_SAMPLES: Record<string, string> = {
+    "date-time": "2024-01-01T00:00:00Z",
+    date: "2024-01-01",
+    time: "00:00:00Z",
+    email: "user@example.com",
+    uri: "https://example.com",
+    uuid: "00000000-0000-4000-8000-000000000000",
+    ipv4: "127.0.0.1",
+    hostname: "example.com",
+};
+
+/**
+ * Builds a deterministic value that satisfies the simple parts of a schema
+ * (type, const/enum/default, format, numeric bounds, required shape).
+ * Patterns are not reverse-engineered; strings fall back to the property name.
+ */
+export function sampleFromSchema(schema: JsonSchema | boolean | undefined, root?: JsonSchema, name?: string, depth = 0): unknown {
+    if (!isSchemaObject(schema) || depth > 16) return null;
+    const base = root ?? schema;
+
+    if (schema.$ref) return sampleFromSchema(resolveRef(base, schema.$ref), base, name, depth + 1);
+    if (schema.const !== undefined) return schema.const;
+    if (schema.default !== undefined) return schema.default;
+    if (Array.isArray(schema.examples) && schema.examples.length) return schema.examples[0];
+    if (schema.enum?.length) return schema.enum[0];
+    if (schema.oneOf?.length) return sampleFromSchema(schema.oneOf[0], base, name, depth + 1);
+    if (schema.anyOf?.length) return sampleFromSchema(schema.anyOf[0], base, name, depth + 1);
+    if (schema.allOf?.length) {
+        const parts = schema.allOf.map(s => sampleFromSchema(s, base, name, depth + 1));
+        return parts.every(isSchemaObject) ? Object.assign({}, ...parts) : parts[0];
+    }
+
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    const type = types.find(t => t !== "null") ?? types[0] ?? (schema.properties ? "object" : schema.items ? "array" : undefined);
+
+    switch (type) {
+        case "object": {
+            const out: Record<string, unknown> = {};
+            for (const [key, prop] of Object.entries(schema.properties ?? {})) out[key] = sampleFromSchema(prop, base, key, depth + 1);
+            return out;
+        }
+        case "array": {
+            const itemSchema = Array.isArray(schema.items) ? undefined : schema.items;
+            if (Array.isArray(schema.items)) return schema.items.map(s => sampleFromSchema(s, base, name, depth + 1));
+            const count = Math.max(1, schema.minItems ?? 1);
+            return Array.from({ length: count }, () => sampleFromSchema(itemSchema ?? {}, base, name, depth + 1));
+        }
+        case "string": {
+            if (schema.format && FORMAT_SAMPLES[schema.format]) return FORMAT_SAMPLES[schema.format];
+            let s = name ?? "string";
+            if (schema.minLength !== undefined) s = s.padEnd(schema.minLength, "x");
+            if (schema.maxLength !== undefined) s = s.slice(0, schema.maxLength);
+            return s;
+        }
+        case "integer":
+        case "number": {
+            let n = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : 0);
+            if (schema.maximum !== undefined && n > schema.maximum) n = schema.maximum;
+            return type === "integer" ? Math.ceil(n) : n;
+        }
+        case "boolean":
+            return true;
+        case "null":
+            return null;
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,200 @@
+import { MetricDef } from "../types";
+import { isSchemaObject } from "./jsonSchema";
+import { exportedMetricName } from "./observabilityCodegen";
+
+/**
+ * Metrics snapshots: the "metrics (snapshot)" part of an incident bundle or
+ * monitoring report, read into series that can be charted against the
+ * orchestrators' declared MetricDefs. Two formats are accepted:
+ *
+ * - Prometheus text exposition (one or more scrapes concatenated; samples
+ *   without a timestamp are stamped with the import time);
+ * - a JSON range dump — a Prometheus query_range response
+ *   ({data: {result: [{metric, values}]}}) or an OpenMetrics-style list of
+ *   {name, labels, samples}.
+ *
+ * A declared metric matches a series by its declared name or by the names
+ * the exporters derive from it (`_total`, `_seconds`, `_seconds_count`, …).
+ * Series labelled with another orchestrator are left out.
+ */
+
+export type SnapshotFormat = "prometheus" | "json";
+
+export interface MetricSample {
+    /** Epoch milliseconds. */
+    t: number;
+    v: number;
+}
+
+export interface MetricSeries {
+    name: string;
+    labels: Record<string, string>;
+    samples: MetricSample[];
+}
+
+export interface MetricsSnapshot {
+    format: SnapshotFormat;
+    source: string;
+    series: MetricSeries[];
+    /** `# TYPE` declarations, by metric family. */
+    types: Record<string, string>;
+    from: number;
+    to: number;
+}
+
+export interface MetricPanel {
+    /** Exposed series name, e.g. "tool_query_latency_seconds_count". */
+    name: string;
+    series: MetricSeries[];
+}
+
+export interface MetricMatch {
+    metric: MetricDef;
+    panels: MetricPanel[];
+}
+
+export interface SnapshotMatch {
+    matched: MetricMatch[];
+    /** Declared metrics with no series in the snapshot. */
+    missing: MetricDef[];
+}
+
+const SAMPLE_LINE = /^([a-zA-Z_:][a-zA-Z0-9_:]*)(?:\{(.*)\})?\s+(\S+)(?:\s+(-?\d+))?\s*$/;
+const LABEL = /\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*"((?:[^"\\]|\\.)*)"\s*(?:,|$)/y;
+
+function sampleValue(text: string): number {
+    if (/^\+?Inf$/i.test(text)) return Infinity;
+    if (/^-Inf$/i.test(text)) return -Infinity;
+    return Number(text);
+}
+
+function parseLabels(text: string, line: number): Record<string, string> {
+    const labels: Record<string, string> = {};
+    LABEL.lastIndex = 0;
+    while (LABEL.lastIndex < text.length) {
+        const start = LABEL.lastIndex;
+        const m = LABEL.exec(text);
+        if (!m) {
+            if (!text.slice(start).trim()) break;
+            throw new Error(`Line ${line}: malformed labels "${text}".`);
+        }
+        labels[m[1]] = m[2].replace(/\\(.)/g, (_, ch: string) => (ch === "n" ? "\n" : ch));
+    }
+    return labels;
+}
+
+function seriesKey(name: string, labels: Record<string, string>): string {
+    return `${name}{${Object.keys(labels).sort().map(k => `${k}=${JSON.stringify(labels[k])}`).join(",")}}`;
+}
+
+function collect(): { add: (name: string, labels: Record<string, string>, sample: MetricSample) => void; series: () => MetricSeries[] } {
+    const byKey = new Map<string, MetricSeries>();
+    return {
+        add(name, labels, sample) {
+            const key = seriesKey(name, labels);
+            if (!byKey.has(key)) byKey.set(key, { name, labels, samples: [] });
+            byKey.get(key)!.samples.push(sample);
+        },
+        series: () => Array.from(byKey.values()).map(s => ({ ...s, samples: s.samples.sort((a, b) => a.t - b.t) })),
+    };
+}
+
+export function parsePrometheusText(text: string, at = Date.now()): { series: MetricSeries[]; types: Record<string, string> } {
+    const types: Record<string, string> = {};
+    const out = collect();
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line) continue;
+        if (line === "# EOF") break;
+        if (line.startsWith("#")) {
+            const type = /^#\s*TYPE\s+(\S+)\s+(\S+)/.exec(line);
+            if (type) types[type[1]] = type[2];
+            continue;
+        }
+        const m = SAMPLE_LINE.exec(line);
+        if (!m) throw new Error(`Line ${i + 1}: not a Prometheus sample: "${line.slice(0, 80)}".`);
+        const v = sampleValue(m[3]);
+        if (Number.isNaN(v) && !/^nan$/i.test(m[3])) throw new Error(`Line ${i + 1}: "${m[3]}" is not a number.`);
+        out.add(m[1], m[2] ? parseLabels(m[2], i + 1) : {}, { t: m[4] ? Number(m[4]) : at, v });
+    }
+    return { series: out.series(), types };
+}
+
+/** Seconds (Prometheus API) or milliseconds, told apart by magnitude. */
+function toMillis(t: unknown): number {
+    const n = typeof t === "string" ? Number(t) : typeof t === "number" ? t : NaN;
+    if (!Number.isFinite(n)) throw new Error(`"${String(t)}" is not a timestamp.`);
+    return n < 1e11 ? n * 1000 : n;
+}
+
+function jsonSample(raw: unknown): MetricSample {
+    if (Array.isArray(raw) && raw.length >= 2) return { t: toMillis(raw[0]), v: sampleValue(String(raw[1])) };
+    if (isSchemaObject(raw)) return { t: toMillis(raw.timestamp ?? raw.t), v: sampleValue(String(raw.value ?? raw.v)) };
+    throw new Error(`Unreadable sample ${JSON.stringify(raw)}.`);
+}
+
+export function parseRangeJson(text: string): MetricSeries[] {
+    const doc: unknown = JSON.parse(text);
+    const data = isSchemaObject(doc) && isSchemaObject(doc.data) ? doc.data : doc;
+    if (isSchemaObject(doc) && doc.status === "error") throw new Error(`The dump is an error response: ${String(doc.error ?? "unknown error")}.`);
+    const result = Array.isArray(data) ? data : isSchemaObject(data) && Array.isArray(data.result) ? data.result : null;
+    if (!result) throw new Error("Not a range dump: expected data.result (Prometheus API) or a list of series.");
+
+    const out = collect();
+    result.forEach((item, i) => {
+        if (!isSchemaObject(item)) throw new Error(`Series ${i}: expected an object.`);
+        const metric = isSchemaObject(item.metric) ? item.metric : isSchemaObject(item.labels) ? item.labels : {};
+        const { __name__, ...rest } = metric as Record<string, unknown>;
+        const name = String(item.name ?? __name__ ?? "");
+        if (!name) throw new Error(`Series ${i}: no metric name (metric.__name__ or name).`);
+        const labels = Object.fromEntries(Object.entries(rest).map(([k, v]) => [k, String(v)]));
+        const raw = Array.isArray(item.values) ? item.values : Array.isArray(item.samples) ? item.samples : item.value !== undefined ? [item.value] : [];
+        for (const s of raw) out.add(name, labels, jsonSample(s));
+    });
+    return out.series();
+}
+
+/** Reads a snapshot in either format; throws with the reason when it is neither. */
+export function parseMetricsSnapshot(text: string, source: string, at = Date.now()): MetricsSnapshot {
+    const trimmed = text.trim();
+    if (!trimmed) throw new Error("The snapshot is empty.");
+    const json = trimmed.startsWith("{") || trimmed.startsWith("[");
+    const parsed = json ? { series: parseRangeJson(trimmed), types: {} } : parsePrometheusText(trimmed, at);
+    if (parsed.series.length === 0) throw new Error("The snapshot contains no samples.");
+    const times = parsed.series.flatMap(s => s.samples.map(p => p.t));
+    return {
+        format: json ? "json" : "prometheus",
+        source,
+        series: parsed.series,
+        types: parsed.types,
+        from: times.reduce((a, b) => Math.min(a, b)),
+        to: times.reduce((a, b) => Math.max(a, b)),
+    };
+}
+
+/** Series names an exporter may derive from a declared metric, most telling first. */
+export function exposedNames(m: MetricDef): string[] {
+    const exported = exportedMetricName(m);
+    if (m.type !== "Timer") return [exported, m.name];
+    return [`${exported}_count`, `${exported}_sum`, `${exported}_max`, exported, m.name, `${m.name}_count`, `${m.name}_sum`, `${m.name}_max`];
+}
+
+export function matchSnapshot(metrics: MetricDef[], snapshot: MetricsSnapshot, orchestratorId: string): SnapshotMatch {
+    const ours = snapshot.series.filter(s => s.labels.orchestrator === undefined || s.labels.orchestrator === orchestratorId);
+    const matched: MetricMatch[] = [];
+    const missing: MetricDef[] = [];
+    for (const metric of metrics) {
+        const panels = exposedNames(metric)
+            .map(name => ({ name, series: ours.filter(s => s.name === name && s.samples.length > 0) }))
+            .filter(p => p.series.length > 0);
+        if (panels.length) matched.push({ metric, panels });
+        else missing.push(metric);
+    }
+    return { matched, missing };
+}
+
+export function seriesLabel(s: MetricSeries): string {
+    const labels = Object.entries(s.labels).filter(([k]) => k !== "orchestrator");
+    return labels.length ? labels.map(([k, v]) => `${k}="${v}"`).join(", ") : s.name;
+}
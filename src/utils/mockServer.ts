@@ -0,0 +1,118 @@
+import { Orchestrator } from "../types";
+import { errorKindOf, errorResponse, hasFact } from "./dryRun";
+import { isEmptySchema, isSchemaObject, SchemaViolation, validateJson } from "./jsonSchema";
+import { checkDecisionRules, evaluateRuleExpr, factVocabulary, Facts } from "./ruleExpr";
+
+/**
+ * Request handling for the local mock server (server/mockServerPlugin.ts),
+ * which mounts every Orchestrator.apiPath under MOCK_BASE on the Vite dev
+ * server. Bodies are validated against requestSchema; decision rules run
+ * against the request merged with the fixture state QA sets per
+ * orchestrator; the reply is responseExample or the rule's rejection shape.
+ * Pure so the portal can share the types and the log format.
+ */
+
+export const MOCK_BASE = "/mock";
+export const MOCK_RUN_TITLE = "Mock server traffic";
+
+export interface MockFixtureState {
+    /** Facts merged over the request before rules run, e.g. { toolStatus: "DOWN" }. */
+    facts: Facts;
+    /** Error code every call fails with, to exercise EXT/SYS handling. */
+    failWith?: string;
+}
+
+export interface MockRoute {
+    orchestratorId: string;
+    method: string;
+    path: string;
+}
+
+export interface MockReply {
+    status: number;
+    body: unknown;
+    errorCode: string | null;
+    ruleId: string | null;
+    violations: SchemaViolation[];
+    /** Rules left out because a field they read is in neither the request nor the fixtures. */
+    skippedRules: string[];
+}
+
+export interface MockCall {
+    id: number;
+    at: string;
+    method: string;
+    path: string;
+    orchestratorId: string | null;
+    status: number;
+    errorCode: string | null;
+    ruleId: string | null;
+    durationMs: number;
+}
+
+export const EMPTY_FIXTURE_STATE: MockFixtureState = { facts: {} };
+
+function methodOf(orch: Orchestrator): string {
+    const m = /^\s*([A-Z]+)\s+\S/.exec(orch.apiSpec.endpoint ?? "");
+    return m ? m[1] : "POST";
+}
+
+function normalizePath(path: string): string {
+    const p = path.split("?")[0].replace(/\/+$/, "");
+    return p.startsWith("/") ? p : `/${p}`;
+}
+
+export function mockRoutes(orchs: Orchestrator[]): MockRoute[] {
+    return orchs
+        .filter(o => o.apiPath.trim())
+        .map(o => ({ orchestratorId: o.id, method: methodOf(o), path: normalizePath(o.apiPath) }));
+}
+
+export function matchMockRoute(routes: MockRoute[], method: string, path: string): MockRoute | null {
+    const p = normalizePath(path);
+    return routes.find(r => r.path === p && r.method === method.toUpperCase()) ?? null;
+}
+
+export function mockReply(orch: Orchestrator, request: unknown, state: MockFixtureState = EMPTY_FIXTURE_STATE): MockReply {
+    const example = isSchemaObject(orch.apiSpec.responseExample) ? orch.apiSpec.responseExample : {};
+    const reply = (status: number, body: unknown, extra: Partial<MockReply> = {}): MockReply =>
+        ({ status, body, errorCode: null, ruleId: null, violations: [], skippedRules: [], ...extra });
+
+    const violations = isEmptySchema(orch.apiSpec.requestSchema) ? [] : validateJson(request, orch.apiSpec.requestSchema);
+    const errors = violations.filter(v => v.severity === "error");
+    if (errors.length) {
+        // Same code the flow's first step raises for a bad payload
+        const code = orch.flowSteps[0]?.onError.trim() || "SYS_INVALID_INPUT";
+        const failed = errorResponse(orch, { code, kind: errorKindOf(orch, code), message: "request does not match requestSchema" }, example);
+        const body = { ...failed.body, violations: errors.map(v => `${v.path}: ${v.message}`) };
+        return reply(failed.status, body, { errorCode: code, violations });
+    }
+
+    if (state.failWith) {
+        const code = state.failWith;
+        const failed = errorResponse(orch, { code, kind: errorKindOf(orch, code), message: "failure injected by mock fixture" }, example);
+        return reply(failed.status, failed.body, { errorCode: code, violations });
+    }
+
+    const facts: Facts = { ...(isSchemaObject(request) ? request : {}), ...state.facts };
+    const skippedRules: string[] = [];
+    for (const c of checkDecisionRules(orch.decisionRules, factVocabulary(orch))) {
+        if (!c.expr) continue;
+        if (!c.fields.every(f => hasFact(facts, f))) {
+            skippedRules.push(c.rule.ruleId);
+            continue;
+        }
+        if (!evaluateRuleExpr(c.expr, facts)) continue;
+        const code = c.rule.errorCode ?? "";
+        const failed = errorResponse(orch, { code, kind: code ? errorKindOf(orch, code) : "BIZ", message: `${c.rule.ruleId}: ${c.rule.description}` }, example);
+        return reply(failed.status, failed.body, { errorCode: code || null, ruleId: c.rule.ruleId, violations, skippedRules });
+    }
+
+    return reply(200, orch.apiSpec.responseExample ?? {}, { violations, skippedRules });
+}
+
+/** One run-log line per call: `[mock] POST /api/... → 200 BIZ_TOOL_NOT_UP (RULE-MAT-01) 2 ms`. */
+export function mockCallLine(call: MockCall): string {
+    const outcome = [call.status, call.errorCode, call.ruleId && `(${call.ruleId})`].filter(Boolean).join(" ");
+    return `[mock] ${call.method} ${call.path} → ${outcome} ${call.durationMs} ms`;
+}
@@ -0,0 +1,128 @@
+import { NodeConfig, NodeContract, Orchestrator } from "../types";
+import { stableStringify } from "./jsonSchema";
+import { diffSchemas, SchemaChange } from "./orchestratorDiff";
+import { latestNode, nodeUsages } from "./nodeRegistry";
+
+/**
+ * Node reuse across the orchestrator registry: every nodeId that appears in
+ * a flow step or a node contract, the orchestrators that use it, and where
+ * their contracts for the same node disagree. The users of a node are the
+ * orchestrators affected by a change to it.
+ */
+
+export type ConflictAspect = "version" | "inputSchema" | "outputSchema";
+
+export interface NodeUser {
+    orchestrator: Orchestrator;
+    /** Flow steps that run the node. */
+    steps: string[];
+    contract?: NodeContract;
+}
+
+export interface ContractVariant {
+    label: string;
+    orchestratorIds: string[];
+}
+
+export interface ContractConflict {
+    aspect: ConflictAspect;
+    /** Largest group first. */
+    variants: ContractVariant[];
+    /** For schema aspects: how each other variant differs from the first, in variant order. */
+    changes: SchemaChange[][];
+}
+
+export interface NodeDependency {
+    nodeId: string;
+    users: NodeUser[];
+    /** Latest Node Registry version, when the node is registered. */
+    registryVersion?: string;
+    /** Orchestrators that run the node in their flow without declaring a contract for it. */
+    undeclared: string[];
+    conflicts: ContractConflict[];
+}
+
+export interface NodeDependencyIndex {
+    nodes: NodeDependency[];
+    shared: number;
+    singleUse: number;
+    conflicted: number;
+}
+
+const VARIANT_NAMES = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+function groupBy(users: NodeUser[], keyOf: (u: NodeUser) => string): Array<{ key: string; users: NodeUser[] }> {
+    const groups = new Map<string, NodeUser[]>();
+    for (const u of users) {
+        const key = keyOf(u);
+        groups.set(key, [...(groups.get(key) ?? []), u]);
+    }
+    return Array.from(groups.entries())
+        .map(([key, list]) => ({ key, users: list }))
+        .sort((a, b) => b.users.length - a.users.length);
+}
+
+function schemaConflict(aspect: "inputSchema" | "outputSchema", declared: NodeUser[]): ContractConflict | null {
+    const groups = groupBy(declared, u => stableStringify(u.contract![aspect] ?? {}));
+    if (groups.length < 2) return null;
+    const first = groups[0].users[0].contract![aspect];
+    return {
+        aspect,
+        variants: groups.map((g, i) => ({ label: `variant ${VARIANT_NAMES[i] ?? i + 1}`, orchestratorIds: g.users.map(u => u.orchestrator.id) })),
+        changes: groups.slice(1).map(g => diffSchemas(first, g.users[0].contract![aspect])),
+    };
+}
+
+/** Contracts for the same node that do not match: different registry versions / local copies, or different schemas. */
+export function contractConflicts(users: NodeUser[]): ContractConflict[] {
+    const declared = users.filter(u => u.contract);
+    if (declared.length < 2) return [];
+    const out: ContractConflict[] = [];
+
+    if (declared.some(u => u.contract!.version !== undefined)) {
+        const groups = groupBy(declared, u => u.contract!.version ?? "");
+        if (groups.length > 1) {
+            out.push({
+                aspect: "version",
+                variants: groups.map(g => ({ label: g.key ? `@${g.key}` : "local copy", orchestratorIds: g.users.map(u => u.orchestrator.id) })),
+                changes: [],
+            });
+        }
+    }
+    for (const aspect of ["inputSchema", "outputSchema"] as const) {
+        const conflict = schemaConflict(aspect, declared);
+        if (conflict) out.push(conflict);
+    }
+    return out;
+}
+
+export function nodeDependencyIndex(orchestrators: Orchestrator[], registry: NodeConfig[]): NodeDependencyIndex {
+    const ids = new Set<string>();
+    for (const o of orchestrators) {
+        for (const s of o.flowSteps) if (s.nodeId) ids.add(s.nodeId);
+        for (const c of o.nodeContracts) if (c.nodeId) ids.add(c.nodeId);
+    }
+
+    const nodes = Array.from(ids).map(nodeId => {
+        const users: NodeUser[] = nodeUsages(nodeId, orchestrators).map(u => ({
+            orchestrator: u.orchestrator,
+            steps: u.steps,
+            contract: u.orchestrator.nodeContracts.find(c => c.nodeId === nodeId),
+        }));
+        return {
+            nodeId,
+            users,
+            registryVersion: latestNode(registry, nodeId)?.version,
+            undeclared: users.filter(u => !u.contract).map(u => u.orchestrator.id),
+            conflicts: contractConflicts(users),
+        };
+    });
+    nodes.sort((a, b) => b.users.length - a.users.length || a.nodeId.localeCompare(b.nodeId));
+
+    return {
+        nodes,
+        shared: nodes.filter(n => n.users.length > 1).length,
+        singleUse: nodes.filter(n => n.users.length === 1).length,
+        conflicted: nodes.filter(n => n.conflicts.length > 0).length,
+    };
+}
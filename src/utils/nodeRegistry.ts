@@ -0,0 +1,97 @@
+import { NodeConfig, NodeContract, Orchestrator } from "../types";
+import { parseSemver } from "./schemaCompat";
+
+/**
+ * Node Registry lookups. A registry entry is one published version of a
+ * node (id + version); node contracts either carry their own schemas (a
+ * local copy) or reference an entry by nodeId and version, in which case
+ * the registry resolves the schemas and only the reference is stored.
+ */
+
+export interface NodeEntry {
+    id: string;
+    /** Newest first. */
+    versions: NodeConfig[];
+}
+
+export interface NodeUsage {
+    orchestrator: Orchestrator;
+    /** Registry version the node contract references; null for a local copy, undefined with no contract. */
+    version: string | null | undefined;
+    /** Flow steps that run the node. */
+    steps: string[];
+}
+
+/** Semver order, newest first; versions that do not parse sort last. */
+export function compareVersionsDesc(a: string, b: string): number {
+    const pa = parseSemver(a);
+    const pb = parseSemver(b);
+    if (!pa || !pb) return pa ? -1 : pb ? 1 : b.localeCompare(a);
+    for (let i = 0; i < 3; i++) if (pa[i] !== pb[i]) return pb[i] - pa[i];
+    return 0;
+}
+
+export function findNode(nodes: NodeConfig[], id: string, version: string): NodeConfig | undefined {
+    return nodes.find(n => n.id === id && n.version === version);
+}
+
+export function nodeVersions(nodes: NodeConfig[], id: string): NodeConfig[] {
+    return nodes.filter(n => n.id === id).sort((a, b) => compareVersionsDesc(a.version, b.version));
+}
+
+export function latestNode(nodes: NodeConfig[], id: string): NodeConfig | undefined {
+    return nodeVersions(nodes, id)[0];
+}
+
+/** Registry entries grouped by node id, sorted by id. */
+export function groupNodes(nodes: NodeConfig[]): NodeEntry[] {
+    const ids = Array.from(new Set(nodes.map(n => n.id))).sort();
+    return ids.map(id => ({ id, versions: nodeVersions(nodes, id) }));
+}
+
+/** Orchestrators that declare or run `nodeId`. */
+export function nodeUsages(nodeId: string, orchestrators: Orchestrator[]): NodeUsage[] {
+    const out: NodeUsage[] = [];
+    for (const orchestrator of orchestrators) {
+        const contract = orchestrator.nodeContracts.find(c => c.nodeId === nodeId);
+        const steps = orchestrator.flowSteps.filter(s => s.nodeId === nodeId).map(s => s.stepId);
+        if (!contract && steps.length === 0) continue;
+        out.push({ orchestrator, version: contract ? contract.version ?? null : undefined, steps });
+    }
+    return out;
+}
+
+/** The contract with its schemas filled in from the registry; unknown references resolve to empty schemas. */
+export function resolveNodeContract(contract: NodeContract, nodes: NodeConfig[]): NodeContract {
+    if (contract.version === undefined) return contract;
+    const node = findNode(nodes, contract.nodeId, contract.version);
+    return {
+        ...contract,
+        description: contract.description || node?.description || "",
+        inputSchema: node ? node.inputSchema : {},
+        outputSchema: node ? node.outputSchema : {},
+    };
+}
+
+export function resolveNodeContracts(orch: Orchestrator, nodes: NodeConfig[]): Orchestrator {
+    if (!orch.nodeContracts.some(c => c.version !== undefined)) return orch;
+    return { ...orch, nodeContracts: orch.nodeContracts.map(c => resolveNodeContract(c, nodes)) };
+}
+
+/** The record as stored: referencing contracts keep only nodeId, description and version. */
+export function stripNodeRefs(orch: Orchestrator): Orchestrator {
+    if (!orch.nodeContracts.some(c => c.version !== undefined)) return orch;
+    return {
+        ...orch,
+        nodeContracts: orch.nodeContracts.map(c => (c.version === undefined ? c : { nodeId: c.nodeId, description: c.description, version: c.version })),
+    };
+}
+
+/** References to registry versions that do not exist. */
+export function nodeRefProblems(orch: Orchestrator, nodes: NodeConfig[]): string[] {
+    return orch.nodeContracts.flatMap((c, i) =>
+        c.version !== undefined && !findNode(nodes, c.nodeId, c.version)
+            ? [`nodeContracts[${i}]: no Node Registry entry ${c.nodeId}@${c.version}`]
+            : []
+    );
+}
@@ -0,0 +1,404 @@
+import { EventDef, MetricDef, Orchestrator } from "../types";
+import { isSchemaObject } from "./jsonSchema";
+
+/**
+ * Code generation from an orchestrator's observability block, so the
+ * declared metrics, log fields and events reach the service without being
+ * copied by hand:
+ *
+ * - metrics → a typed module (Micrometer for Java, prom-client for TS);
+ * - logFields → an MDC helper (Java) or a typed structured-field helper (TS);
+ * - events → typed event classes (bodies from the payload schema) and a
+ *   publisher stub that sends each event to its channel.
+ *
+ * Both languages expose the same Prometheus names — Micrometer's: counters
+ * gain `_total`, timers `_seconds` — so dashboards work for either stack.
+ * Metric names are checked against the naming conventions below and against
+ * every other orchestrator, since Prometheus merges series by name.
+ */
+
+export type CodegenLanguage = "java" | "typescript";
+export type CodegenPart = "metrics" | "logFields" | "events";
+
+export const CODEGEN_PARTS: Array<{ part: CodegenPart; label: string }> = [
+    { part: "metrics", label: "Metrics" },
+    { part: "logFields", label: "Log fields" },
+    { part: "events", label: "Events" },
+];
+
+export interface MetricFinding {
+    metric: string;
+    level: "error" | "warning";
+    message: string;
+}
+
+export interface GeneratedFile {
+    part: CodegenPart;
+    fileName: string;
+    mediaType: string;
+    content: string;
+}
+
+const METRIC_TYPES = ["Counter", "Timer"];
+const SNAKE_CASE = /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/;
+const RESERVED_SUFFIX = /_(total|count|sum|bucket|seconds|ms|millis|milliseconds)$/;
+const DURATION_WORD = /(^|_)(latency|duration|time|elapsed)(_|$)/;
+
+/** Naming problems of one metric, ignoring the rest of the registry. */
+export function lintMetricName(m: MetricDef): MetricFinding[] {
+    const out: MetricFinding[] = [];
+    const add = (level: MetricFinding["level"], message: string) => out.push({ metric: m.name, level, message });
+
+    if (!SNAKE_CASE.test(m.name)) add("error", "use lower snake_case (letters, digits and single underscores)");
+    else if (!m.name.includes("_")) add("warning", "prefix the name with its subject, e.g. material_check_success");
+    if (RESERVED_SUFFIX.test(m.name)) add("warning", "drop the suffix — the exporter adds _total to counters and _seconds to timers");
+    if (!METRIC_TYPES.includes(m.type)) add("error", `unsupported type "${m.type}" — declare Counter or Timer`);
+    else if (m.type === "Counter" && DURATION_WORD.test(m.name)) add("warning", "the name reads like a duration; declare it as a Timer");
+    if (!m.description.trim()) add("warning", "add a description; it becomes the metric's help text");
+    return out;
+}
+
+/** Naming findings plus duplicates within the orchestrator and across the registry. */
+export function metricFindings(orch: Orchestrator, orchestrators: Orchestrator[]): MetricFinding[] {
+    const metrics = orch.observability?.metrics ?? [];
+    const out = metrics.flatMap(lintMetricName);
+
+    const seen = new Set<string>();
+    for (const m of metrics) {
+        if (seen.has(m.name)) out.push({ metric: m.name, level: "error", message: "declared more than once in this orchestrator" });
+        seen.add(m.name);
+    }
+
+    for (const m of metrics.filter((m, i) => metrics.findIndex(x => x.name === m.name) === i)) {
+        const others = orchestrators.filter(o => o.id !== orch.id && (o.observability?.metrics ?? []).some(x => x.name === m.name));
+        if (!others.length) continue;
+        const clash = others.filter(o => o.observability.metrics.some(x => x.name === m.name && x.type !== m.type));
+        out.push({
+            metric: m.name,
+            level: clash.length ? "error" : "warning",
+            message: clash.length
+                ? `also declared with another type by ${clash.map(o => o.id).join(", ")} — Prometheus rejects one name with two types`
+                : `also declared by ${others.map(o => o.id).join(", ")} — series merge unless queries filter on the orchestrator label`,
+        });
+    }
+    return out;
+}
+
+export function suggestedLanguage(orch: Orchestrator): CodegenLanguage {
+    return orch.tags.some(t => /^(java|spring|micrometer)$/i.test(t)) ? "java" : "typescript";
+}
+
+/** Prometheus name of a metric as both generated modules expose it. */
+export function exportedMetricName(m: MetricDef): string {
+    return m.type === "Timer" ? `${m.name}_seconds` : `${m.name}_total`;
+}
+
+function words(text: string): string[] {
+    return text.replace(/[^A-Za-z0-9]+/g, " ").trim().split(/\s+/).filter(Boolean);
+}
+
+function pascal(text: string): string {
+    const name = words(text).map(w => w[0].toUpperCase() + w.slice(1)).join("") || "Generated";
+    return /^\d/.test(name) ? `_${name}` : name;
+}
+
+function camel(text: string): string {
+    const name = pascal(text);
+    return name.startsWith("_") ? name : name[0].toLowerCase() + name.slice(1);
+}
+
+/** lotId → LOT_ID, is_valid → IS_VALID. */
+function constant(text: string): string {
+    return words(text.replace(/([a-z0-9])([A-Z])/g, "$1_$2")).join("_").toUpperCase() || "FIELD";
+}
+
+function tsKey(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function comment(text: string): string {
+    return text.replace(/\*\//g, "*\\/").replace(/\s+/g, " ").trim();
+}
+
+type FieldType = "string" | "number" | "integer" | "boolean";
+
+function schemaType(prop: unknown): FieldType {
+    const type = isSchemaObject(prop) ? prop.type : undefined;
+    return type === "number" || type === "integer" || type === "boolean" ? type : "string";
+}
+
+/**
+ * JSON type of a log field, looked up by name (ignoring case and
+ * underscores, so is_valid finds isValid) in the API and node schemas.
+ */
+function fieldType(orch: Orchestrator, field: string): FieldType {
+    const norm = (s: string) => s.replace(/[^a-z0-9]/gi, "").toLowerCase();
+    const schemas = [
+        orch.apiSpec.requestSchema,
+        orch.apiSpec.responseSchema,
+        ...orch.nodeContracts.flatMap(c => [c.inputSchema, c.outputSchema]),
+    ];
+    for (const schema of schemas) {
+        if (!isSchemaObject(schema) || !isSchemaObject(schema.properties)) continue;
+        for (const [name, prop] of Object.entries(schema.properties)) {
+            if (norm(name) === norm(field)) return schemaType(prop);
+        }
+    }
+    return "string";
+}
+
+const JAVA_TYPES: Record<FieldType, string> = { string: "String", number: "Double", integer: "Long", boolean: "Boolean" };
+const TS_TYPES: Record<FieldType, string> = { string: "string", number: "number", integer: "number", boolean: "boolean" };
+
+type EventField = { name: string; type: FieldType; required: boolean };
+
+/** Body fields of an event: its payload schema's properties, or the required log fields while it declares none. */
+function eventFields(orch: Orchestrator, e: EventDef): EventField[] {
+    if (isSchemaObject(e.payload) && isSchemaObject(e.payload.properties)) {
+        const required: unknown[] = Array.isArray(e.payload.required) ? e.payload.required : [];
+        return Object.entries(e.payload.properties).map(([name, prop]) => ({ name, type: schemaType(prop), required: required.includes(name) }));
+    }
+    return orch.observability.logFields.map(f => ({ name: f, type: fieldType(orch, f), required: false }));
+}
+
+function header(orch: Orchestrator, what: string, extra: string[] = []): string[] {
+    return ["/**", ` * ${what} of ${comment(orch.name)} (${orch.id} v${orch.version}), generated from its observability block.`, ...extra.map(l => ` * ${l}`), " */"];
+}
+
+function notes(findings: MetricFinding[], metric: string, indent: string): string[] {
+    return findings.filter(f => f.metric === metric).map(f => `${indent}// ${f.level === "error" ? "ERROR" : "NOTE"}: ${f.message}`);
+}
+
+function javaMetrics(orch: Orchestrator, base: string, findings: MetricFinding[]): string {
+    const metrics = orch.observability.metrics;
+    const out = [
+        "import io.micrometer.core.instrument.Counter;",
+        "import io.micrometer.core.instrument.MeterRegistry;",
+        "import io.micrometer.core.instrument.Timer;",
+        "",
+        ...header(orch, "Metrics", ["Prometheus exposes counters as <name>_total and timers as <name>_seconds."]),
+        `public final class ${base}Metrics {`,
+        `    public static final String ORCHESTRATOR = ${JSON.stringify(orch.id)};`,
+    ];
+    for (const m of metrics) out.push(`    public static final String ${constant(m.name)} = ${JSON.stringify(m.name)};`);
+    out.push("");
+    for (const m of metrics) out.push(`    private final ${m.type === "Timer" ? "Timer" : "Counter"} ${camel(m.name)};`);
+    out.push("", `    public ${base}Metrics(MeterRegistry registry) {`);
+    metrics.forEach((m, i) => {
+        if (i) out.push("");
+        out.push(...notes(findings, m.name, "        "));
+        out.push(
+            `        this.${camel(m.name)} = ${m.type === "Timer" ? "Timer" : "Counter"}.builder(${constant(m.name)})`,
+            `                .description(${JSON.stringify(m.description)})`,
+            `                .tag("orchestrator", ORCHESTRATOR)`,
+        );
+        if (m.type === "Timer") out.push("                .publishPercentileHistogram()");
+        out.push("                .register(registry);");
+    });
+    out.push("    }");
+    for (const m of metrics) {
+        out.push("", `    /** ${comment(m.description || m.name)} */`);
+        if (m.type === "Timer") {
+            out.push(`    public Timer ${camel(m.name)}() {`, `        return ${camel(m.name)};`, "    }");
+        } else {
+            out.push(`    public void increment${pascal(m.name)}() {`, `        ${camel(m.name)}.increment();`, "    }");
+        }
+    }
+    out.push("}", "");
+    return out.join("\n");
+}
+
+function tsMetrics(orch: Orchestrator, base: string, findings: MetricFinding[]): string {
+    const metrics = orch.observability.metrics;
+    const classes = Array.from(new Set(metrics.map(m => (m.type === "Timer" ? "Histogram" : "Counter")))).sort();
+    const out = [
+        `import { ${[...classes, "Registry", "register"].join(", ")} } from "prom-client";`,
+        "",
+        ...header(orch, "Metrics", ["Counters are exposed as <name>_total and timers as <name>_seconds histograms,", "matching what Micrometer exports for the same declarations."]),
+        `const ORCHESTRATOR = ${JSON.stringify(orch.id)};`,
+        "",
+        `export function create${base}Metrics(registry: Registry = register) {`,
+        "    return {",
+    ];
+    metrics.forEach((m, i) => {
+        if (i) out.push("");
+        out.push(...notes(findings, m.name, "        "));
+        out.push(
+            `        /** ${comment(m.description || m.name)} */`,
+            `        ${camel(m.name)}: new ${m.type === "Timer" ? "Histogram" : "Counter"}({`,
+            `            name: ${JSON.stringify(exportedMetricName(m))},`,
+            `            help: ${JSON.stringify(m.description || m.name)},`,
+            `            labelNames: ["orchestrator"],`,
+            "            registers: [registry],",
+            "        }).labels(ORCHESTRATOR),",
+        );
+    });
+    out.push("    };", "}", "", `export type ${base}Metrics = ReturnType<typeof create${base}Metrics>;`, "");
+    return out.join("\n");
+}
+
+function javaLogFields(orch: Orchestrator, base: string): string {
+    const fields = orch.observability.logFields.map(f => ({ name: f, key: constant(f), param: camel(f), type: JAVA_TYPES[fieldType(orch, f)] }));
+    const out = [
+        "import org.slf4j.MDC;",
+        "",
+        ...header(orch, "Required log fields", ["Bind them once per request so every log line carries them."]),
+        `public final class ${base}LogFields {`,
+        ...fields.map(f => `    public static final String ${f.key} = ${JSON.stringify(f.name)};`),
+        "",
+        "    /** Removes the bound fields from the MDC when closed. */",
+        "    public interface Scope extends AutoCloseable {",
+        "        @Override",
+        "        void close();",
+        "    }",
+        "",
+        `    private ${base}LogFields() {`,
+        "    }",
+        "",
+        "    /** Puts the non-null fields into the MDC; use with try-with-resources. */",
+        `    public static Scope bind(${fields.map(f => `${f.type} ${f.param}`).join(", ")}) {`,
+        ...fields.map(f => `        put(${f.key}, ${f.param});`),
+        "        return () -> {",
+        ...fields.map(f => `            MDC.remove(${f.key});`),
+        "        };",
+        "    }",
+    ];
+    for (const f of fields) {
+        out.push("", `    public static void set${pascal(f.name)}(${f.type} value) {`, `        put(${f.key}, value);`, "    }");
+    }
+    out.push(
+        "",
+        "    private static void put(String key, Object value) {",
+        "        if (value != null) MDC.put(key, String.valueOf(value));",
+        "    }",
+        "}",
+        "",
+    );
+    return out.join("\n");
+}
+
+function tsLogFields(orch: Orchestrator, base: string): string {
+    const fields = orch.observability.logFields;
+    return [
+        ...header(orch, "Required log fields", ["Pass logFields(...) to the logger (or a child logger) so every line carries them."]),
+        `export const LOG_FIELDS = [${fields.map(f => JSON.stringify(f)).join(", ")}] as const;`,
+        "",
+        `export interface ${base}LogFields {`,
+        ...fields.map(f => `    ${tsKey(f)}: ${TS_TYPES[fieldType(orch, f)]};`),
+        "}",
+        "",
+        "/** Structured fields for a log call; unset fields are dropped. */",
+        `export function logFields(fields: Partial<${base}LogFields>): Partial<${base}LogFields> {`,
+        "    return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined && v !== null));",
+        "}",
+        "",
+    ].join("\n");
+}
+
+function javaEvents(orch: Orchestrator, base: string): string {
+    const events = orch.observability.events;
+    const out = [
+        "import java.time.Instant;",
+        "",
+        ...header(orch, "Events", ["Event bodies follow each event's payload schema; implement Publisher against the broker."]),
+        `public final class ${base}Events {`,
+        `    public static final String ORCHESTRATOR = ${JSON.stringify(orch.id)};`,
+        `    public static final String VERSION = ${JSON.stringify(orch.version)};`,
+        "",
+        `    private ${base}Events() {`,
+        "    }",
+    ];
+    for (const e of events) {
+        const fields = eventFields(orch, e);
+        const params = fields.map(f => `${JAVA_TYPES[f.type]} ${camel(f.name)}`);
+        out.push(
+            "",
+            `    /** ${comment(e.trigger || e.name)} */`,
+            `    public record ${pascal(e.name)}(${["String orchestratorId", "String orchestratorVersion", "Instant occurredAt", ...params].join(", ")}) {`,
+            `        public static final String NAME = ${JSON.stringify(e.name)};`,
+            `        public static final String CHANNEL = ${JSON.stringify(e.channel || e.name)};`,
+            "",
+            `        public static ${pascal(e.name)} now(${params.join(", ")}) {`,
+            `            return new ${pascal(e.name)}(${["ORCHESTRATOR", "VERSION", "Instant.now()", ...fields.map(f => camel(f.name))].join(", ")});`,
+            "        }",
+            "    }",
+        );
+    }
+    out.push("", "    public interface Publisher {");
+    events.forEach((e, i) => {
+        if (i) out.push("");
+        out.push(`        /** ${comment(e.trigger || e.name)} Sent to ${pascal(e.name)}.CHANNEL. */`, `        void publish${pascal(e.name)}(${pascal(e.name)} event);`);
+    });
+    out.push("    }", "}", "");
+    return out.join("\n");
+}
+
+function tsEvents(orch: Orchestrator, base: string): string {
+    const events = orch.observability.events;
+    const out = [
+        ...header(orch, "Events", ["Event bodies follow each event's payload schema; pass a transport", "(Kafka producer, outbox writer, ...) to the publisher factory."]),
+        "interface Envelope {",
+        "    orchestratorId: string;",
+        "    orchestratorVersion: string;",
+        "    occurredAt: string;",
+        "}",
+    ];
+    for (const e of events) {
+        out.push(
+            "",
+            `export interface ${pascal(e.name)}Fields {`,
+            ...eventFields(orch, e).map(f => `    ${tsKey(f.name)}${f.required ? "" : "?"}: ${TS_TYPES[f.type]};`),
+            "}",
+            "",
+            `/** ${comment(e.trigger || e.name)} */`,
+            `export interface ${pascal(e.name)} extends Envelope, ${pascal(e.name)}Fields {`,
+            `    name: ${JSON.stringify(e.name)};`,
+            "}",
+        );
+    }
+    out.push(
+        "",
+        `export type ${base}Event = ${events.map(e => pascal(e.name)).join(" | ")};`,
+        "",
+        "export const CHANNELS = {",
+        ...events.map(e => `    ${tsKey(e.name)}: ${JSON.stringify(e.channel || e.name)},`),
+        "} as const;",
+        "",
+        `export interface ${base}EventPublisher {`,
+        ...events.map(e => `    publish${pascal(e.name)}(fields: ${pascal(e.name)}Fields): Promise<void>;`),
+        "}",
+        "",
+        `export function create${base}EventPublisher(send: (channel: string, event: ${base}Event) => Promise<void>): ${base}EventPublisher {`,
+        "    const envelope = (): Envelope => ({",
+        `        orchestratorId: ${JSON.stringify(orch.id)},`,
+        `        orchestratorVersion: ${JSON.stringify(orch.version)},`,
+        "        occurredAt: new Date().toISOString(),",
+        "    });",
+        "    return {",
+        ...events.map(e => `        publish${pascal(e.name)}: fields => send(CHANNELS[${JSON.stringify(e.name)}], { ...fields, ...envelope(), name: ${JSON.stringify(e.name)} }),`),
+        "    };",
+        "}",
+        "",
+    );
+    return out.join("\n");
+}
+
+/** One file per non-empty part of the observability block. */
+export function generateObservabilityCode(orch: Orchestrator, language: CodegenLanguage, findings = metricFindings(orch, [])): GeneratedFile[] {
+    const obs = orch.observability;
+    if (!obs) return [];
+    const base = pascal(orch.name || orch.id);
+    const java = language === "java";
+    const file = (part: CodegenPart, suffix: string, content: string): GeneratedFile => ({
+        part,
+        fileName: java ? `${base}${suffix}.java` : `${orch.id}.${part === "logFields" ? "log-fields" : part}.ts`,
+        mediaType: java ? "text/x-java-source" : "text/typescript",
+        content,
+    });
+
+    const out: GeneratedFile[] = [];
+    if (obs.metrics.length) out.push(file("metrics", "Metrics", java ? javaMetrics(orch, base, findings) : tsMetrics(orch, base, findings)));
+    if (obs.logFields.length) out.push(file("logFields", "LogFields", java ? javaLogFields(orch, base) : tsLogFields(orch, base)));
+    if (obs.events.length) out.push(file("events", "Events", java ? javaEvents(orch, base) : tsEvents(orch, base)));
+    return out;
+}
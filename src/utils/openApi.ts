@@ -0,0 +1,245 @@
+import { ErrorCodeDef, Orchestrator } from "../types";
+import { errorKindOf, errorStatusFor } from "./dryRun";
+import { errorTypeForCode } from "./errorCodeLint";
+import { isEmptySchema, isSchemaObject, JsonSchema } from "./jsonSchema";
+import { referencedErrorCodes } from "./orchestratorConsistency";
+import { toYaml } from "./yaml";
+
+/**
+ * OpenAPI 3.1 export. Each orchestrator becomes one operation on its
+ * apiPath: apiSpec schemas and examples go to components and the request
+ * body / 200 response; every error code it declares or emits becomes an
+ * example under the status the orchestrator answers it with — the code's
+ * declared httpStatus, else its kind's errorPolicy (see errorStatusFor), the
+ * same status the mock server and dry run use. Codes without a declared
+ * ErrorType are labelled with a guess from the code name, with a warning.
+ * The errorPolicy sentence is carried in the response description.
+ */
+
+export type OpenApiScope = { kind: "orchestrator"; id: string } | { kind: "domain"; domain: string } | { kind: "registry" };
+export type OpenApiFormat = "yaml" | "json";
+
+export interface OpenApiExport {
+    document: Record<string, unknown>;
+    text: string;
+    fileName: string;
+    warnings: string[];
+    operations: number;
+}
+
+const ERROR_RESPONSE = "ErrorResponse";
+
+function pascal(text: string): string {
+    return text.replace(/[^A-Za-z0-9]+/g, " ").trim().split(/\s+/).map(w => w[0].toUpperCase() + w.slice(1)).join("");
+}
+
+function methodAndPath(orch: Orchestrator): { method: string; path: string } {
+    const m = /^\s*([A-Z]+)\s+(\S+)/.exec(orch.apiSpec.endpoint ?? "");
+    return { method: (m ? m[1] : "POST").toLowerCase(), path: orch.apiPath.trim() || (m ? m[2] : "") };
+}
+
+function compareSemver(a: string, b: string): number {
+    const pa = a.split(/[.-]/).map(n => parseInt(n, 10) || 0);
+    const pb = b.split(/[.-]/).map(n => parseInt(n, 10) || 0);
+    for (let i = 0; i < 3; i++) if ((pa[i] ?? 0) !== (pb[i] ?? 0)) return (pa[i] ?? 0) - (pb[i] ?? 0);
+    return 0;
+}
+
+/**
+ * Copies a draft-07 schema into components: `$schema` is dropped,
+ * definitions / $defs become sibling component schemas and every local
+ * $ref is rewritten to point at them.
+ */
+export function hoistSchema(schema: JsonSchema, name: string, components: Record<string, unknown>): JsonSchema {
+    const defs: Record<string, string> = {};
+    for (const bucket of ["definitions", "$defs"]) {
+        const group = (schema as Record<string, unknown>)[bucket];
+        if (isSchemaObject(group)) for (const key of Object.keys(group)) defs[`#/${bucket}/${key}`] = `${name}${pascal(key)}`;
+    }
+
+    const rewrite = (node: unknown): unknown => {
+        if (Array.isArray(node)) return node.map(rewrite);
+        if (!isSchemaObject(node)) return node;
+        const out: Record<string, unknown> = {};
+        for (const [k, v] of Object.entries(node)) {
+            if (k === "$schema" || k === "definitions" || k === "$defs") continue;
+            if (k === "$ref" && typeof v === "string") {
+                out[k] = v === "#" ? `#/components/schemas/${name}` : defs[v] ? `#/components/schemas/${defs[v]}` : v;
+                continue;
+            }
+            out[k] = rewrite(v);
+        }
+        return out;
+    };
+
+    for (const bucket of ["definitions", "$defs"]) {
+        const group = (schema as Record<string, unknown>)[bucket];
+        if (isSchemaObject(group)) for (const [key, def] of Object.entries(group)) components[defs[`#/${bucket}/${key}`]] = rewrite(def);
+    }
+    const root = rewrite(schema) as JsonSchema;
+    components[name] = root;
+    return { $ref: `#/components/schemas/${name}` };
+}
+
+function operationFor(orch: Orchestrator, components: Record<string, unknown>, warnings: string[]) {
+    const base = pascal(orch.id);
+    const spec = orch.apiSpec;
+    const requestRef = isEmptySchema(spec.requestSchema) ? undefined : hoistSchema(spec.requestSchema, `${base}Request`, components);
+    const responseRef = isEmptySchema(spec.responseSchema) ? undefined : hoistSchema(spec.responseSchema, `${base}Response`, components);
+    if (!requestRef) warnings.push(`${orch.id}: requestSchema is empty; the request body is untyped.`);
+    if (!responseRef) warnings.push(`${orch.id}: responseSchema is empty; the 200 response is untyped.`);
+
+    // Declared codes first, then codes only steps or rules mention
+    const codes = new Map<string, Pick<ErrorCodeDef, "description" | "errorType" | "httpStatus">>();
+    for (const e of orch.errorCodes) codes.set(e.code, e);
+    for (const { code, ref } of referencedErrorCodes(orch)) if (!codes.has(code)) codes.set(code, { description: `Raised by ${ref} (not declared in errorCodes)` });
+
+    type Documented = { code: string; description: string; errorType: string; kind: string; declared: boolean; body: unknown };
+    const byStatus = new Map<number, Documented[]>();
+    for (const [code, def] of codes) {
+        const { description } = def;
+        const errorType = def.errorType ?? errorTypeForCode(code);
+        const kind = errorKindOf(orch, code);
+        // The status the mock server and dry run answer with, so the document and the runtime agree
+        const status = errorStatusFor(orch, code, kind);
+        if (!def.errorType) warnings.push(`${orch.id}: ${code} declares no errorType; documented as ${errorType}, guessed from the code name.`);
+        const body = kind === "BIZ" && isSchemaObject(spec.responseExample)
+            ? { ...spec.responseExample, isValid: false, reason: `${code}: ${description}` }
+            : { error: code, message: description };
+        const list = byStatus.get(status) ?? [];
+        list.push({ code, description, errorType, kind, declared: def.httpStatus !== undefined, body });
+        byStatus.set(status, list);
+    }
+
+    /** Summary line, plus the policy sentence of every kind whose status comes from its errorPolicy. */
+    const describe = (list: Documented[]) => {
+        const types = Array.from(new Set(list.map(e => e.errorType)));
+        const policyLines = Array.from(new Set(list.filter(e => !e.declared).map(e => e.kind)))
+            .map(k => orch.errorPolicy.find(p => p.kind === k))
+            .filter((p): p is Orchestrator["errorPolicy"][number] => !!p)
+            .map(p => `${p.kind} policy: ${p.policy}`);
+        return [`${types.join(" / ")}: ${list.map(e => e.code).join(", ")}`, ...policyLines];
+    };
+    const examplesOf = (list: Documented[]) => Object.fromEntries(list.map(e => [e.code, { summary: e.description, value: e.body }]));
+    const codesOf = (list: Documented[]) => list.map(e => ({ code: e.code, errorType: e.errorType, category: e.kind }));
+
+    // Rejections answered with 200 (a BIZ policy returning isValid=false) share the success response
+    const rejections = byStatus.get(200) ?? [];
+    byStatus.delete(200);
+    const successExamples = spec.responseExample !== undefined ? { success: { summary: "Success", value: spec.responseExample } } : {};
+    const responses: Record<string, Record<string, unknown>> = {
+        "200": {
+            description: [spec.purpose || "Success", ...(rejections.length ? describe(rejections) : [])].join("\n"),
+            content: {
+                "application/json": {
+                    ...(responseRef ? { schema: responseRef } : {}),
+                    ...(rejections.length
+                        ? { examples: { ...successExamples, ...examplesOf(rejections) } }
+                        : spec.responseExample !== undefined ? { example: spec.responseExample } : {}),
+                },
+            },
+            ...(rejections.length ? { "x-error-codes": codesOf(rejections) } : {}),
+        },
+    };
+
+    for (const [status, list] of Array.from(byStatus.entries()).sort((a, b) => a[0] - b[0])) {
+        const kinds = Array.from(new Set(list.map(e => e.kind)));
+        const errorSchema = { $ref: `#/components/schemas/${ERROR_RESPONSE}` };
+        const bizOnly = kinds.every(k => k === "BIZ") && responseRef;
+        const someBiz = kinds.includes("BIZ") && responseRef;
+        responses[String(status)] = {
+            description: describe(list).join("\n"),
+            content: {
+                "application/json": {
+                    schema: bizOnly ? responseRef : someBiz ? { oneOf: [responseRef, errorSchema] } : errorSchema,
+                    examples: examplesOf(list),
+                },
+            },
+            "x-error-codes": codesOf(list),
+        };
+    }
+
+    const { method } = methodAndPath(orch);
+    return {
+        method,
+        operation: {
+            operationId: orch.id,
+            summary: orch.name,
+            description: orch.summary,
+            tags: [orch.domain],
+            ...(orch.status === "deprecated" ? { deprecated: true } : {}),
+            ...(method === "get" || method === "delete" ? {} : {
+                requestBody: {
+                    required: true,
+                    content: { "application/json": { ...(requestRef ? { schema: requestRef } : {}), ...(spec.requestExample !== undefined ? { example: spec.requestExample } : {}) } },
+                },
+            }),
+            responses,
+            "x-orchestrator": { id: orch.id, version: orch.version, status: orch.status, owner: orch.owner, apiId: orch.apiId },
+        },
+    };
+}
+
+export function scopeOrchestrators(orchs: Orchestrator[], scope: OpenApiScope): Orchestrator[] {
+    if (scope.kind === "orchestrator") return orchs.filter(o => o.id === scope.id);
+    if (scope.kind === "domain") return orchs.filter(o => o.domain === scope.domain);
+    return orchs;
+}
+
+export function openApiDocument(orchs: Orchestrator[], scope: OpenApiScope): { document: Record<string, unknown>; warnings: string[]; operations: number } {
+    const selected = scopeOrchestrators(orchs, scope);
+    const warnings: string[] = [];
+    const schemas: Record<string, unknown> = {
+        [ERROR_RESPONSE]: {
+            type: "object",
+            properties: { error: { type: "string", description: "Error code" }, message: { type: "string" } },
+            required: ["error"],
+        },
+    };
+    const paths: Record<string, Record<string, unknown>> = {};
+    let operations = 0;
+
+    for (const orch of selected) {
+        const { method, path } = methodAndPath(orch);
+        if (!path) {
+            warnings.push(`${orch.id}: no apiPath; skipped.`);
+            continue;
+        }
+        const item = paths[path] ?? {};
+        if (item[method]) {
+            warnings.push(`${orch.id}: ${method.toUpperCase()} ${path} is already exported by ${(item[method] as { operationId: string }).operationId}; skipped.`);
+            continue;
+        }
+        item[method] = operationFor(orch, schemas, warnings).operation;
+        paths[path] = item;
+        operations++;
+    }
+
+    const single = scope.kind === "orchestrator" ? selected[0] : undefined;
+    const version = single?.version ?? selected.map(o => o.version).sort(compareSemver).pop() ?? "0.0.0";
+    const title = single ? single.name : scope.kind === "domain" ? `${scope.domain} orchestrators` : "Orchestrator registry";
+    const description = single
+        ? single.summary
+        : `${selected.length} orchestrator${selected.length === 1 ? "" : "s"} exported from the factory registry.`;
+
+    const document = {
+        openapi: "3.1.0",
+        info: { title, version, description },
+        tags: Array.from(new Set(selected.map(o => o.domain))).map(name => ({ name })),
+        paths,
+        components: { schemas },
+    };
+    return { document, warnings, operations };
+}
+
+export function exportOpenApi(orchs: Orchestrator[], scope: OpenApiScope, format: OpenApiFormat): OpenApiExport {
+    const { document, warnings, operations } = openApiDocument(orchs, scope);
+    const stem = scope.kind === "orchestrator" ? scope.id : scope.kind === "domain" ? `${scope.domain}-orchestrators` : "orchestrator-registry";
+    return {
+        document,
+        text: format === "yaml" ? toYaml(document) : `${JSON.stringify(document, null, 2)}\n`,
+        fileName: `${stem}.openapi.${format === "yaml" ? "yaml" : "json"}`,
+        warnings,
+        operations,
+    };
+}
@@ -0,0 +1,405 @@
+import { ErrorCodeDef, Orchestrator } from "../types";
+import { ERROR_CODE_STANDARD, httpStatusForErrorType } from "./errorCodeLint";
+import { isSchemaObject, JsonSchema, sampleFromSchema } from "./jsonSchema";
+import { missingSections, PLACEHOLDER_CODE_PREFIX } from "./orchestratorConsistency";
+import { parseYaml } from "./yaml";
+
+/**
+ * OpenAPI 3.x import. Every operation of the document becomes one draft
+ * Orchestrator: the path (under the first server's base path) and method
+ * give apiPath / endpoint, the JSON request body (or the parameters, when
+ * there is none) and the first 2xx response give the schemas and examples,
+ * and each 4xx/5xx response gives errorCodes. Responses that name their
+ * codes (x-error-codes, or examples keyed by code, as exportOpenApi writes
+ * them) keep those codes; the rest get a placeholder code for the status's
+ * ErrorType that still has to be renamed and described.
+ */
+
+export interface ImportedDraft {
+    method: string;
+    path: string;
+    orchestrator: Orchestrator;
+    warnings: string[];
+}
+
+export interface OpenApiImport {
+    title: string;
+    version: string;
+    drafts: ImportedDraft[];
+    warnings: string[];
+}
+
+export interface OpenApiImportOptions {
+    /** Domain for every draft; by default the operation's first tag. */
+    domain?: string;
+    owner?: string;
+    /** Ids already in the registry; imported ids are suffixed to stay unique. */
+    existingIds?: string[];
+}
+
+type Obj = Record<string, unknown>;
+
+const METHODS = ["get", "put", "post", "delete", "patch", "head", "options"];
+const JSON_MEDIA = /^application\/(.+\+)?json\b/;
+const ERROR_CODE = /^(BIZ|EXT|SYS)(_[A-Z0-9]+){2,}$/;
+export const IMPORT_TAG = "imported-openapi";
+
+/** Placeholder code per ErrorType; each lints clean against error-code-rules-v1. */
+const PLACEHOLDER_CODES: Record<string, string> = {
+    VALIDATION: "SYS_CTRL_REQUEST_BODY_INVALID",
+    UNAUTHENTICATED: "SYS_CTRL_AUTH_UNAUTHENTICATED",
+    FORBIDDEN: "SYS_CTRL_AUTH_FORBIDDEN",
+    NOT_FOUND: "BIZ_ORCH_PRECHECK_NOT_FOUND",
+    BIZ: "BIZ_ORCH_PRECHECK_FAILED",
+    DEPENDENCY: "EXT_ORCH_FLOW_BAD_RESPONSE",
+    TIMEOUT: "EXT_ORCH_FLOW_TIMEOUT",
+    SYSTEM: "SYS_ORCH_FLOW_FAILED",
+};
+
+function kebab(text: string): string {
+    return text
+        .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+}
+
+function titleCase(text: string): string {
+    return kebab(text).split("-").filter(Boolean).map(w => w[0].toUpperCase() + w.slice(1)).join(" ");
+}
+
+/** Parses an uploaded OpenAPI file (JSON or YAML) and checks it is 3.x. */
+export function parseOpenApiText(text: string): Obj {
+    const trimmed = text.trim();
+    const doc = trimmed.startsWith("{") ? JSON.parse(trimmed) : parseYaml(trimmed);
+    if (!isSchemaObject(doc)) throw new Error("Not an OpenAPI document: expected an object at the top level.");
+    if (typeof doc.swagger === "string") throw new Error(`Swagger ${doc.swagger} documents are not supported; convert to OpenAPI 3.x first.`);
+    if (!/^3\./.test(String(doc.openapi ?? ""))) throw new Error(`Unsupported OpenAPI version "${String(doc.openapi ?? "")}"; expected 3.x.`);
+    if (!isSchemaObject(doc.paths)) throw new Error("OpenAPI document has no paths.");
+    return doc;
+}
+
+function basePath(doc: Obj): string {
+    const servers = Array.isArray(doc.servers) ? doc.servers : [];
+    const url = isSchemaObject(servers[0]) ? String(servers[0].url ?? "") : "";
+    const path = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, "");
+    return path.startsWith("/") ? path.replace(/\/+$/, "") : "";
+}
+
+/** Follows `#/components/...` refs on non-schema objects (parameters, bodies, responses, examples). */
+function deref(doc: Obj, value: unknown, warnings: string[]): Obj | undefined {
+    let cur = value;
+    for (let hops = 0; isSchemaObject(cur) && typeof cur.$ref === "string" && hops < 16; hops++) {
+        const ref = cur.$ref as string;
+        if (!ref.startsWith("#/")) {
+            warnings.push(`external $ref ${ref} was not followed`);
+            return undefined;
+        }
+        let target: unknown = doc;
+        for (const key of ref.slice(2).split("/")) target = isSchemaObject(target) ? target[key.replace(/~1/g, "/").replace(/~0/g, "~")] : undefined;
+        cur = target;
+    }
+    return isSchemaObject(cur) ? cur : undefined;
+}
+
+/**
+ * Turns an OpenAPI schema into a self-contained draft-07 schema: component
+ * schemas it references (transitively) become `definitions`, a schema that is
+ * itself a component ref becomes that component, and 3.0 `nullable` /
+ * `example` are rewritten to their JSON Schema forms.
+ */
+function toJsonSchema(doc: Obj, schema: unknown, warnings: string[]): JsonSchema {
+    const components = isSchemaObject(doc.components) && isSchemaObject(doc.components.schemas) ? doc.components.schemas : {};
+    const prefix = "#/components/schemas/";
+    const rootName = isSchemaObject(schema) && typeof schema.$ref === "string" && schema.$ref.startsWith(prefix) ? schema.$ref.slice(prefix.length) : null;
+    const used = new Set<string>();
+    const queue: string[] = [];
+
+    const convert = (node: unknown): unknown => {
+        if (Array.isArray(node)) return node.map(convert);
+        if (!isSchemaObject(node)) return node;
+        const out: Obj = {};
+        for (const [k, v] of Object.entries(node)) {
+            if (k === "$ref" && typeof v === "string") {
+                if (v.startsWith(prefix)) {
+                    const name = v.slice(prefix.length);
+                    if (name === rootName) out.$ref = "#";
+                    else {
+                        if (!used.has(name)) queue.push(name);
+                        used.add(name);
+                        out.$ref = `#/definitions/${name}`;
+                    }
+                } else {
+                    warnings.push(`schema $ref ${v} was left as is`);
+                    out.$ref = v;
+                }
+                continue;
+            }
+            if (k === "nullable" || k === "discriminator" || k === "xml" || k === "externalDocs") continue;
+            if (k === "example") {
+                if (!("examples" in node)) out.examples = [v];
+                continue;
+            }
+            out[k] = k === "properties" || k === "patternProperties" || k === "definitions"
+                ? Object.fromEntries(Object.entries(isSchemaObject(v) ? v : {}).map(([name, sub]) => [name, convert(sub)]))
+                : convert(v);
+        }
+        if (node.nullable === true && out.type !== undefined) {
+            out.type = Array.from(new Set([...(Array.isArray(out.type) ? out.type : [out.type]), "null"]));
+        }
+        return out;
+    };
+
+    const rootSource = rootName ? components[rootName] : schema;
+    if (rootName && !isSchemaObject(rootSource)) warnings.push(`component schema ${rootName} does not exist`);
+    const root = (isSchemaObject(rootSource) ? convert(rootSource) : {}) as JsonSchema;
+    const definitions: Record<string, JsonSchema> = {};
+    while (queue.length) {
+        const name = queue.shift()!;
+        const def = components[name];
+        if (!isSchemaObject(def)) warnings.push(`component schema ${name} does not exist`);
+        definitions[name] = (isSchemaObject(def) ? convert(def) : {}) as JsonSchema;
+    }
+    if (Object.keys(root).length === 0) return {};
+    return {
+        $schema: "http://json-schema.org/draft-07/schema#",
+        ...root,
+        ...(Object.keys(definitions).length ? { definitions } : {}),
+    };
+}
+
+/** JSON media type object of a request body / response, if any. */
+function jsonMedia(doc: Obj, owner: Obj | undefined, warnings: string[], what: string): Obj | undefined {
+    const content = owner && isSchemaObject(owner.content) ? owner.content : undefined;
+    if (!content) return undefined;
+    const key = Object.keys(content).find(k => JSON_MEDIA.test(k));
+    if (!key) {
+        warnings.push(`${what} has no JSON content (${Object.keys(content).join(", ")}); its schema was not imported`);
+        return undefined;
+    }
+    return deref(doc, content[key], warnings);
+}
+
+/** media.example, else the first of media.examples, else a sample built from the schema. */
+function exampleOf(doc: Obj, media: Obj | undefined, schema: JsonSchema, warnings: string[]): unknown {
+    if (media && media.example !== undefined) return media.example;
+    if (media && isSchemaObject(media.examples)) {
+        const first = deref(doc, Object.values(media.examples)[0], warnings);
+        if (first && first.value !== undefined) return first.value;
+    }
+    return Object.keys(schema).length ? sampleFromSchema(schema) : {};
+}
+
+/** Request schema built from path / query / header parameters, for operations without a body. */
+function parameterSchema(doc: Obj, params: Obj[], warnings: string[]): { schema: Obj; example: Obj } {
+    const properties: Obj = {};
+    const definitions: Obj = {};
+    const required: string[] = [];
+    const example: Obj = {};
+    for (const p of params) {
+        const name = String(p.name ?? "");
+        if (!name || p.in === "cookie") continue;
+        const converted = toJsonSchema(doc, p.schema ?? {}, warnings);
+        const schema: Obj = { ...converted };
+        delete schema.$schema;
+        if (isSchemaObject(schema.definitions)) Object.assign(definitions, schema.definitions);
+        delete schema.definitions;
+        properties[name] = { ...schema, ...(p.description ? { description: p.description } : {}) };
+        if (p.required) required.push(name);
+        example[name] = p.example !== undefined ? p.example : sampleFromSchema(converted, undefined, name);
+    }
+    if (Object.keys(properties).length === 0) return { schema: {}, example: {} };
+    return {
+        schema: {
+            $schema: "http://json-schema.org/draft-07/schema#",
+            type: "object",
+            properties,
+            ...(required.length ? { required } : {}),
+            ...(Object.keys(definitions).length ? { definitions } : {}),
+        },
+        example,
+    };
+}
+
+function errorTypeForStatus(status: number): string {
+    const exact = ERROR_CODE_STANDARD.errorTypes.find(m => m.httpStatus === status);
+    if (exact) return exact.type;
+    if (status === 503) return "DEPENDENCY";
+    return status < 500 ? "VALIDATION" : "SYSTEM";
+}
+
+function categoryOf(code: string, errorType: string): ErrorCodeDef["category"] {
+    const prefix = code.split("_")[0];
+    if (prefix === "BIZ" || prefix === "EXT" || prefix === "SYS") return prefix;
+    return errorType === "BIZ" || errorType === "NOT_FOUND" ? "BIZ" : errorType === "DEPENDENCY" || errorType === "TIMEOUT" ? "EXT" : "SYS";
+}
+
+type NamedCode = { code: string; description: string; errorType?: string };
+
+/** Codes a response names itself: x-error-codes (which may carry the ErrorType), example keys, or the example's error / code field. */
+function namedCodes(doc: Obj, response: Obj, media: Obj | undefined, warnings: string[]): NamedCode[] {
+    const out: NamedCode[] = [];
+    const add = (code: unknown, description: unknown, errorType?: unknown) => {
+        if (typeof code !== "string" || !ERROR_CODE.test(code)) return;
+        const known = out.find(c => c.code === code);
+        const type = ERROR_CODE_STANDARD.errorTypes.find(m => m.type === errorType)?.type;
+        if (!known) out.push({ code, description: String(description ?? ""), ...(type ? { errorType: type } : {}) });
+        else if (!known.description) known.description = String(description ?? "");
+    };
+    if (Array.isArray(response["x-error-codes"])) {
+        for (const e of response["x-error-codes"]) if (isSchemaObject(e)) add(e.code, e.description, e.errorType);
+    }
+    if (media && isSchemaObject(media.examples)) {
+        for (const [key, raw] of Object.entries(media.examples)) {
+            const ex = deref(doc, raw, warnings);
+            add(key, ex?.summary ?? ex?.description);
+            if (ex && isSchemaObject(ex.value)) add(ex.value.error ?? ex.value.code, ex.value.message ?? ex.summary);
+        }
+    }
+    if (media && isSchemaObject(media.example)) add(media.example.error ?? media.example.code, media.example.message);
+    return out;
+}
+
+/** The ErrorType always; httpStatus only when the response's status is the one the type maps to — otherwise the errorPolicy decides. */
+function declaredStatus(errorType: string, status: number): Pick<ErrorCodeDef, "errorType" | "httpStatus"> {
+    return { errorType, ...(httpStatusForErrorType(errorType) === status ? { httpStatus: status } : {}) };
+}
+
+function errorCodesFor(doc: Obj, responses: Obj, warnings: string[]): ErrorCodeDef[] {
+    const codes: ErrorCodeDef[] = [];
+
+    // Rejections answered with a 2xx (isValid=false bodies) are listed in the success response's x-error-codes
+    for (const [key, raw] of Object.entries(responses).filter(([status]) => /^2\d\d$/.test(status))) {
+        const response = deref(doc, raw, warnings);
+        if (!response || !Array.isArray(response["x-error-codes"])) continue;
+        const listed = new Set(response["x-error-codes"].map(e => (isSchemaObject(e) ? e.code : undefined)));
+        const named = namedCodes(doc, response, jsonMedia(doc, response, [], `response ${key}`), warnings).filter(c => listed.has(c.code));
+        for (const { code, description, errorType = "BIZ" } of named) {
+            if (codes.some(c => c.code === code)) continue;
+            codes.push({ code, category: categoryOf(code, errorType), description, ...declaredStatus(errorType, Number(key)) });
+        }
+    }
+
+    const entries = Object.entries(responses).filter(([status]) => /^[45]\d\d$/.test(status) || status === "default");
+    const hasServerError = entries.some(([status]) => status.startsWith("5"));
+
+    for (const [key, raw] of entries) {
+        if (key === "default" && hasServerError) continue;
+        const status = key === "default" ? 500 : Number(key);
+        const response = deref(doc, raw, warnings);
+        if (!response) continue;
+        const text = String(response.description ?? "").trim();
+        const media = jsonMedia(doc, response, [], `response ${key}`);
+        const named = namedCodes(doc, response, media, warnings);
+
+        // The ErrorType x-error-codes lists, else the one the response's status stands for
+        const errorType = errorTypeForStatus(status);
+        for (const { code, description, errorType: listed = errorType } of named) {
+            if (codes.some(c => c.code === code)) continue;
+            codes.push({ code, category: categoryOf(code, listed), description: description || `${listed} (${status}) — ${text}`, ...declaredStatus(listed, status) });
+        }
+        if (named.length) continue;
+
+        let code = PLACEHOLDER_CODES[errorType] ?? PLACEHOLDER_CODES.SYSTEM;
+        if (codes.some(c => c.code === code)) code = `${code}_${status}`;
+        codes.push({
+            code,
+            category: categoryOf(code, errorType),
+            description: `${PLACEHOLDER_CODE_PREFIX} ${errorType} (${status}) from OpenAPI response ${key}${text ? `: ${text}` : ""}`,
+            ...declaredStatus(errorType, status),
+        });
+    }
+    return codes;
+}
+
+function draftFor(doc: Obj, path: string, method: string, pathItem: Obj, op: Obj, options: OpenApiImportOptions, taken: Set<string>): ImportedDraft {
+    const warnings: string[] = [];
+    const info = isSchemaObject(doc.info) ? doc.info : {};
+    const contact = isSchemaObject(info.contact) ? info.contact : {};
+    const apiPath = `${basePath(doc)}${path}`;
+    const opTags = Array.isArray(op.tags) ? op.tags.map(String) : [];
+
+    let id = kebab(typeof op.operationId === "string" ? op.operationId : `${method} ${path.replace(/[{}]/g, "")}`) || "imported-operation";
+    if (!/^[a-z0-9]/.test(id)) id = `op-${id}`;
+    for (let n = 2, base = id; taken.has(id); n++) id = `${base}-${n}`;
+    taken.add(id);
+
+    // Request: JSON body, else the parameters
+    const params = [...(Array.isArray(pathItem.parameters) ? pathItem.parameters : []), ...(Array.isArray(op.parameters) ? op.parameters : [])]
+        .map(p => deref(doc, p, warnings))
+        .filter((p): p is Obj => !!p);
+    const body = deref(doc, op.requestBody, warnings);
+    const requestMedia = jsonMedia(doc, body, warnings, "request body");
+    let requestSchema: JsonSchema;
+    let requestExample: unknown;
+    if (requestMedia) {
+        requestSchema = toJsonSchema(doc, requestMedia.schema ?? {}, warnings);
+        requestExample = exampleOf(doc, requestMedia, requestSchema, warnings);
+        if (params.some(p => p.in === "path" || p.in === "query")) warnings.push("path / query parameters are not part of the request schema");
+    } else {
+        const fromParams = parameterSchema(doc, params, warnings);
+        requestSchema = fromParams.schema;
+        requestExample = fromParams.example;
+    }
+
+    // Response: first 2xx with JSON content
+    const responses = isSchemaObject(op.responses) ? op.responses : {};
+    const success = Object.keys(responses).filter(s => /^2\d\d$/.test(s)).sort()[0];
+    const responseMedia = success ? jsonMedia(doc, deref(doc, responses[success], warnings), warnings, `response ${success}`) : undefined;
+    if (!success) warnings.push("no 2xx response declared");
+    const responseSchema = responseMedia ? toJsonSchema(doc, responseMedia.schema ?? {}, warnings) : {};
+    const responseExample = exampleOf(doc, responseMedia, responseSchema, warnings);
+
+    const orchestrator: Orchestrator = {
+        id,
+        name: String(op.summary ?? "").trim() || titleCase(String(op.operationId ?? "")) || `${method.toUpperCase()} ${apiPath}`,
+        domain: kebab(options.domain ?? opTags[0] ?? "") || "imported",
+        apiPath,
+        apiId: `api-${id}`,
+        version: String(info.version ?? "").trim() || "0.1.0",
+        status: "draft",
+        owner: options.owner?.trim() || String(contact.name ?? contact.email ?? "").trim() || "unassigned",
+        lastUpdated: "",
+        tags: [IMPORT_TAG, ...opTags.map(kebab).filter(Boolean)],
+        summary: String(op.description ?? op.summary ?? "").trim(),
+        userStoryMarkdown: "",
+        apiSpec: {
+            endpoint: `${method.toUpperCase()} ${apiPath}`,
+            purpose: String(op.summary ?? "").trim(),
+            requestSchema,
+            responseSchema,
+            requestExample,
+            responseExample,
+        },
+        orchestratorSpecMarkdown: "",
+        flowSteps: [],
+        decisionRules: [],
+        errorPolicy: [],
+        errorCodes: errorCodesFor(doc, responses, warnings),
+        observability: { metrics: [], logFields: [], events: [] },
+        nodeContracts: [],
+        runbookMarkdown: "",
+        testTargets: { happyPath: [], rejectCases: [], errorCases: [], contractValidation: [] },
+    };
+    orchestrator.missingSections = missingSections(orchestrator);
+    return { method, path: apiPath, orchestrator, warnings: Array.from(new Set(warnings)) };
+}
+
+/** One draft per operation, in document order. */
+export function importOpenApi(doc: Obj, options: OpenApiImportOptions = {}): OpenApiImport {
+    const info = isSchemaObject(doc.info) ? doc.info : {};
+    const taken = new Set(options.existingIds ?? []);
+    const drafts: ImportedDraft[] = [];
+    const warnings: string[] = [];
+
+    for (const [path, rawItem] of Object.entries(isSchemaObject(doc.paths) ? doc.paths : {})) {
+        const pathItem = deref(doc, rawItem, warnings);
+        if (!pathItem) continue;
+        for (const method of METHODS) {
+            const op = pathItem[method];
+            if (isSchemaObject(op)) drafts.push(draftFor(doc, path, method, pathItem, op, options, taken));
+        }
+    }
+    if (drafts.length === 0) warnings.push("The document declares no operations.");
+    return { title: String(info.title ?? "Untitled API"), version: String(info.version ?? ""), drafts, warnings };
+}
@@ -0,0 +1,252 @@
+import { Orchestrator } from "../types";
+import { isEmptySchema, JsonSchema, validateJson } from "./jsonSchema";
+import { checkDecisionRules, factVocabulary } from "./ruleExpr";
+
+/**
+ * Cross-section consistency checks for an Orchestrator spec. Each check
+ * counts satisfied items out of a total; the completeness score is the
+ * weighted mean of those ratios. Checks whose items come from another
+ * section (e.g. runbook coverage of error codes) drop out of the score when
+ * there is nothing to cover; sections every spec needs score 0 when empty.
+ */
+
+export type GapSeverity = "error" | "warning" | "info";
+
+export interface ConsistencyFinding {
+    checkId: string;
+    severity: GapSeverity;
+    message: string;
+    ref?: string;           // stepId, ruleId, error code, nodeId...
+}
+
+export interface ConsistencyCheck {
+    id: string;
+    label: string;
+    weight: number;
+    passed: number;
+    total: number;
+    /** False when there was nothing to check and the check is left out of the score. */
+    applicable: boolean;
+}
+
+export interface ConsistencyReport {
+    score: number;          // 0–100
+    checks: ConsistencyCheck[];
+    findings: ConsistencyFinding[];
+}
+
+const PLACEHOLDER = /^(\.{2,}|…|tbd|todo|wip|n\/a|none|-+|draft( spec)?\.?)$/i;
+const MIN_DOC_LENGTH = 40;
+
+/** True for empty text and the "...", "TBD" style stand-ins drafts are created with. */
+export function isPlaceholder(text: string | undefined): boolean {
+    const t = (text ?? "").trim();
+    return t === "" || PLACEHOLDER.test(t);
+}
+
+/** Marks an errorCodes description that still has to be written (OpenAPI imports create these). */
+export const PLACEHOLDER_CODE_PREFIX = "TBD —";
+
+/**
+ * Sections of the spec that are still empty or placeholders, by field name.
+ * Coarser than analyzeOrchestrator: it answers "what has nobody written yet",
+ * not "is what was written consistent".
+ */
+export function missingSections(orch: Orchestrator): string[] {
+    const t = orch.testTargets;
+    const obs = orch.observability;
+    const sections: Array<[string, boolean]> = [
+        ["summary", isPlaceholder(orch.summary)],
+        ["userStoryMarkdown", isPlaceholder(orch.userStoryMarkdown)],
+        ["apiSpec.requestSchema", isEmptySchema(orch.apiSpec.requestSchema)],
+        ["apiSpec.responseSchema", isEmptySchema(orch.apiSpec.responseSchema)],
+        ["orchestratorSpecMarkdown", isPlaceholder(orch.orchestratorSpecMarkdown)],
+        ["flowSteps", orch.flowSteps.length === 0],
+        ["decisionRules", orch.decisionRules.length === 0],
+        ["errorPolicy", orch.errorPolicy.length === 0],
+        ["errorCodes", orch.errorCodes.length === 0 || orch.errorCodes.some(e => e.description.startsWith(PLACEHOLDER_CODE_PREFIX))],
+        ["observability", obs.metrics.length + obs.logFields.length + obs.events.length === 0],
+        ["nodeContracts", orch.nodeContracts.length === 0],
+        ["runbookMarkdown", isPlaceholder(orch.runbookMarkdown)],
+        ["testTargets", [t.happyPath, t.rejectCases, t.errorCases, t.contractValidation].every(list => list.every(isPlaceholder))],
+    ];
+    return sections.filter(([, missing]) => missing).map(([key]) => key);
+}
+
+/** `## CODE` / `### CODE` headings of a runbook, in order, with their 1-based line. */
+export function runbookHeadings(markdown: string): Array<{ code: string; line: number }> {
+    const out: Array<{ code: string; line: number }> = [];
+    markdown.split("\n").forEach((line, i) => {
+        const m = /^#{2,3}\s+`?([A-Z][A-Z0-9]*(?:_[A-Z0-9]+)+)`?\s*$/.exec(line.trim());
+        if (m) out.push({ code: m[1], line: i + 1 });
+    });
+    return out;
+}
+
+/** Every error code the flow can emit: flowSteps.onError and decisionRules.errorCode, first-use order. */
+export function referencedErrorCodes(orch: Orchestrator): Array<{ code: string; ref: string }> {
+    const out: Array<{ code: string; ref: string }> = [];
+    for (const s of orch.flowSteps) if (s.onError.trim()) out.push({ code: s.onError.trim(), ref: s.stepId });
+    for (const r of orch.decisionRules) if (r.errorCode?.trim()) out.push({ code: r.errorCode.trim(), ref: r.ruleId });
+    return out;
+}
+
+export function analyzeOrchestrator(orch: Orchestrator): ConsistencyReport {
+    const checks: ConsistencyCheck[] = [];
+    const findings: ConsistencyFinding[] = [];
+
+    const check = (id: string, label: string, weight: number, requiredSection: boolean, items: Array<{ ok: boolean; severity?: GapSeverity; message: string; ref?: string }>) => {
+        for (const item of items) {
+            if (!item.ok) findings.push({ checkId: id, severity: item.severity ?? "warning", message: item.message, ref: item.ref });
+        }
+        checks.push({
+            id,
+            label,
+            weight,
+            passed: items.filter(i => i.ok).length,
+            total: items.length,
+            applicable: requiredSection || items.length > 0,
+        });
+    };
+
+    // Narrative sections
+    const docs: Array<[string, string]> = [
+        ["summary", orch.summary],
+        ["userStoryMarkdown", orch.userStoryMarkdown],
+        ["orchestratorSpecMarkdown", orch.orchestratorSpecMarkdown],
+        ["runbookMarkdown", orch.runbookMarkdown],
+    ];
+    check("docs", "Documentation", 1, true, docs.map(([key, text]) => {
+        const placeholder = isPlaceholder(text);
+        const stub = !placeholder && key !== "summary" && text.trim().length < MIN_DOC_LENGTH;
+        return {
+            ok: !placeholder && !stub,
+            severity: placeholder ? "error" : "warning",
+            message: placeholder ? `${key} is empty or a placeholder` : `${key} is only ${text.trim().length} characters — looks like a stub`,
+            ref: key,
+        };
+    }));
+
+    // API contract: schemas present, examples conform
+    const { requestSchema, responseSchema, requestExample, responseExample } = orch.apiSpec;
+    const exampleItem = (name: string, example: unknown, schema: unknown) => {
+        if (isEmptySchema(schema)) return { ok: false, severity: "error" as const, message: `${name}Schema is empty`, ref: `${name}Schema` };
+        const errors = validateJson(example, schema as JsonSchema).filter(v => v.severity === "error");
+        return {
+            ok: errors.length === 0,
+            severity: "error" as const,
+            message: errors.length ? `${name}Example violates ${name}Schema at ${errors[0].path} (${errors[0].message})` : "",
+            ref: `${name}Example`,
+        };
+    };
+    check("api", "API contract", 2, true, [
+        exampleItem("request", requestExample, requestSchema),
+        exampleItem("response", responseExample, responseSchema),
+    ]);
+
+    // Flow steps, each backed by a node contract
+    const contractIds = new Set(orch.nodeContracts.map(c => c.nodeId));
+    check("flow", "Flow steps", 2, true, orch.flowSteps.length === 0
+        ? [{ ok: false, severity: "error", message: "no flow steps defined" }]
+        : orch.flowSteps.map(s => ({
+            ok: contractIds.has(s.nodeId),
+            message: `${s.stepId} runs ${s.nodeId}, which has no node contract`,
+            ref: s.stepId,
+        })));
+
+    // Node contracts are used and carry schemas
+    const usedNodes = new Set(orch.flowSteps.map(s => s.nodeId));
+    check("contracts", "Node contracts", 1, false, orch.nodeContracts.map(c => {
+        const unused = !usedNodes.has(c.nodeId);
+        const emptySchema = isEmptySchema(c.inputSchema) || isEmptySchema(c.outputSchema);
+        return {
+            ok: !unused && !emptySchema,
+            message: unused ? `contract ${c.nodeId} is not used by any flow step` : `contract ${c.nodeId} has an empty input or output schema`,
+            ref: c.nodeId,
+        };
+    }));
+
+    // Every emitted code is declared
+    const declared = new Set(orch.errorCodes.map(e => e.code));
+    const referenced = referencedErrorCodes(orch);
+    check("errorCodes", "Error codes declared", 2, false, referenced.map(({ code, ref }) => ({
+        ok: declared.has(code),
+        severity: "error" as const,
+        message: `${code} (used by ${ref}) is missing from errorCodes`,
+        ref: code,
+    })));
+    const referencedSet = new Set(referenced.map(r => r.code));
+    for (const e of orch.errorCodes) {
+        if (!referencedSet.has(e.code)) {
+            findings.push({ checkId: "errorCodes", severity: "info", message: `${e.code} is declared but no step or rule emits it`, ref: e.code });
+        }
+    }
+
+    // Decision rules parse, read known fields, and name a code
+    const ruleChecks = checkDecisionRules(orch.decisionRules, factVocabulary(orch));
+    check("rules", "Decision rules", 1, false, ruleChecks.map(c => ({
+        ok: !c.error && c.unknownFields.length === 0 && !!c.rule.errorCode,
+        severity: c.error ? "error" as const : "warning" as const,
+        message: c.error
+            ? `${c.rule.ruleId}: "when" does not parse (${c.error.message})`
+            : c.unknownFields.length
+                ? `${c.rule.ruleId} reads unknown field${c.unknownFields.length > 1 ? "s" : ""} ${c.unknownFields.join(", ")}`
+                : `${c.rule.ruleId} has no errorCode`,
+        ref: c.rule.ruleId,
+    })));
+
+    // A policy for every error category in use
+    const allCodes = Array.from(new Set([...orch.errorCodes.map(e => e.code), ...referencedSet]));
+    const categories = Array.from(new Set(allCodes.map(code => orch.errorCodes.find(e => e.code === code)?.category ?? code.split("_")[0])));
+    const policies = new Set(orch.errorPolicy.map(p => p.kind));
+    check("policy", "Error policy", 1, false, categories.map(kind => ({
+        ok: policies.has(kind),
+        message: `no errorPolicy for ${kind} errors`,
+        ref: kind,
+    })));
+
+    // Runbook has a section per code
+    const headings = runbookHeadings(orch.runbookMarkdown);
+    const headingCodes = new Set(headings.map(h => h.code));
+    check("runbook", "Runbook coverage", 1, false, allCodes.map(code => ({
+        ok: headingCodes.has(code),
+        message: `runbook has no "## ${code}" section`,
+        ref: code,
+    })));
+    for (const h of headings) {
+        if (!allCodes.includes(h.code)) {
+            findings.push({ checkId: "runbook", severity: "warning", message: `runbook section ${h.code} (line ${h.line}) is not a known error code`, ref: h.code });
+        }
+    }
+
+    // Test targets: every category filled, every code exercised somewhere
+    const t = orch.testTargets;
+    const targetLists: Array<[string, string[]]> = [
+        ["happyPath", t.happyPath],
+        ["rejectCases", t.rejectCases],
+        ["errorCases", t.errorCases],
+        ["contractValidation", t.contractValidation],
+    ];
+    const testText = targetLists.flatMap(([, list]) => list).join("\n");
+    check("tests", "Test targets", 2, true, [
+        ...targetLists.map(([key, list]) => ({
+            ok: list.some(x => !isPlaceholder(x)),
+            message: `testTargets.${key} is empty`,
+            ref: key,
+        })),
+        ...allCodes.map(code => ({
+            ok: testText.includes(code),
+            message: `no test target exercises ${code}`,
+            ref: code,
+        })),
+    ]);
+
+    const applicable = checks.filter(c => c.applicable);
+    const weightSum = applicable.reduce((n, c) => n + c.weight, 0);
+    const weighted = applicable.reduce((n, c) => n + c.weight * (c.total ? c.passed / c.total : 0), 0);
+    const score = weightSum ? Math.round((100 * weighted) / weightSum) : 0;
+
+    const order: Record<GapSeverity, number> = { error: 0, warning: 1, info: 2 };
+    findings.sort((a, b) => order[a.severity] - order[b.severity]);
+    return { score, checks, findings };
+}
@@ -0,0 +1,335 @@
+import { Orchestrator } from "../types";
+import { isSchemaObject, JsonSchema } from "./jsonSchema";
+
+/**
+ * Semantic diff between two revisions of an Orchestrator. Schemas are
+ * compared structurally (properties, required, types, enums, constraints,
+ * refs) rather than as JSON text, keyed sections (flow steps, rules, error
+ * codes, ...) are matched by their id, and markdown sections get a line
+ * diff. Everything is reported from `before` to `after`.
+ */
+
+export type ChangeKind = "added" | "removed" | "changed";
+
+export type SchemaAspect = "property" | "required" | "type" | "enum" | "format" | "constraint" | "ref" | "additionalProperties" | "definition" | "branch" | "annotation";
+
+export interface SchemaChange {
+    /** Property path inside the schema: "lot.tools[].id", "(root)", "#/definitions/Lot". */
+    path: string;
+    kind: ChangeKind;
+    aspect: SchemaAspect;
+    before?: unknown;
+    after?: unknown;
+    /** For added / removed properties: whether the property is (was) required. */
+    required?: boolean;
+    message: string;
+}
+
+export interface FieldChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+export interface CollectionDiff {
+    section: string;
+    added: string[];
+    removed: string[];
+    changed: Array<{ key: string; fields: FieldChange[] }>;
+    /** Keys present on both sides whose relative order differs. */
+    reordered: boolean;
+}
+
+export interface LineDiff {
+    op: "same" | "added" | "removed";
+    text: string;
+    beforeLine?: number;
+    afterLine?: number;
+}
+
+export interface OrchestratorDiff {
+    fields: FieldChange[];
+    schemas: Array<{ section: string; changes: SchemaChange[] }>;
+    collections: CollectionDiff[];
+    text: Array<{ section: string; lines: LineDiff[]; added: number; removed: number }>;
+    /** Number of individual changes across all groups. */
+    total: number;
+}
+
+const CONSTRAINTS = [
+    "minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum", "multipleOf",
+    "minLength", "maxLength", "pattern", "minItems", "maxItems", "uniqueItems",
+    "minProperties", "maxProperties",
+] as const;
+
+function show(value: unknown): string {
+    if (value === undefined) return "(none)";
+    const s = JSON.stringify(value);
+    return s.length > 60 ? `${s.slice(0, 57)}...` : s;
+}
+
+function same(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function typesOf(schema: JsonSchema): string[] {
+    const t = schema.type;
+    return (Array.isArray(t) ? t : t ? [t] : []).slice().sort();
+}
+
+function child(path: string, name: string): string {
+    return path === "(root)" ? name : `${path}.${name}`;
+}
+
+/** Structural changes from one JSON Schema to another. */
+export function diffSchemas(before: unknown, after: unknown, path = "(root)"): SchemaChange[] {
+    const out: SchemaChange[] = [];
+    const a: JsonSchema = isSchemaObject(before) ? before : {};
+    const b: JsonSchema = isSchemaObject(after) ? after : {};
+    const push = (kind: ChangeKind, aspect: SchemaAspect, message: string, at = path, beforeValue?: unknown, afterValue?: unknown) =>
+        out.push({ path: at, kind, aspect, message, before: beforeValue, after: afterValue });
+
+    if (a.$ref !== b.$ref) {
+        push(a.$ref === undefined ? "added" : b.$ref === undefined ? "removed" : "changed", "ref", `$ref ${show(a.$ref)} → ${show(b.$ref)}`, path, a.$ref, b.$ref);
+    }
+
+    const ta = typesOf(a);
+    const tb = typesOf(b);
+    if (!same(ta, tb)) {
+        push(ta.length === 0 ? "added" : tb.length === 0 ? "removed" : "changed", "type", `type ${ta.join(" | ") || "(any)"} → ${tb.join(" | ") || "(any)"}`, path, a.type, b.type);
+    }
+
+    if (a.enum || b.enum) {
+        const ea = (a.enum ?? []).map(v => JSON.stringify(v));
+        const eb = (b.enum ?? []).map(v => JSON.stringify(v));
+        // A restriction appearing or going away is "changed"; "added" / "removed" are individual values
+        if (!a.enum) push("changed", "enum", `enum restricted to ${eb.join(", ")}`, path, undefined, b.enum);
+        else if (!b.enum) push("changed", "enum", "enum restriction removed", path, a.enum, undefined);
+        else {
+            const added = eb.filter(v => !ea.includes(v));
+            const removed = ea.filter(v => !eb.includes(v));
+            if (added.length) push("added", "enum", `enum value${added.length > 1 ? "s" : ""} ${added.join(", ")} added`, path, undefined, added.map(v => JSON.parse(v)));
+            if (removed.length) push("removed", "enum", `enum value${removed.length > 1 ? "s" : ""} ${removed.join(", ")} removed`, path, removed.map(v => JSON.parse(v)), undefined);
+        }
+    }
+    if (!same(a.const, b.const)) push(a.const === undefined ? "added" : b.const === undefined ? "removed" : "changed", "enum", `const ${show(a.const)} → ${show(b.const)}`, path, a.const, b.const);
+    if (a.format !== b.format) push(a.format === undefined ? "added" : b.format === undefined ? "removed" : "changed", "format", `format ${show(a.format)} → ${show(b.format)}`, path, a.format, b.format);
+
+    for (const key of CONSTRAINTS) {
+        if (same(a[key], b[key])) continue;
+        push(a[key] === undefined ? "added" : b[key] === undefined ? "removed" : "changed", "constraint", `${key} ${show(a[key])} → ${show(b[key])}`, path, a[key], b[key]);
+    }
+
+    for (const key of ["title", "description"] as const) {
+        if (a[key] !== b[key]) push("changed", "annotation", `${key} ${show(a[key])} → ${show(b[key])}`, path, a[key], b[key]);
+    }
+
+    // Object shape
+    const pa = isSchemaObject(a.properties) ? a.properties : {};
+    const pb = isSchemaObject(b.properties) ? b.properties : {};
+    const ra = new Set(Array.isArray(a.required) ? a.required : []);
+    const rb = new Set(Array.isArray(b.required) ? b.required : []);
+    for (const name of Object.keys(pa)) {
+        if (!Object.prototype.hasOwnProperty.call(pb, name)) {
+            out.push({ path: child(path, name), kind: "removed", aspect: "property", before: pa[name], required: ra.has(name), message: `property ${name} removed${ra.has(name) ? " (was required)" : ""}` });
+        }
+    }
+    for (const name of Object.keys(pb)) {
+        if (!Object.prototype.hasOwnProperty.call(pa, name)) {
+            out.push({ path: child(path, name), kind: "added", aspect: "property", after: pb[name], required: rb.has(name), message: `property ${name} added${rb.has(name) ? " (required)" : " (optional)"}` });
+        } else {
+            out.push(...diffSchemas(pa[name], pb[name], child(path, name)));
+        }
+    }
+    for (const name of Array.from(new Set([...Array.from(ra), ...Array.from(rb)]))) {
+        // Requiredness of added / removed properties is already in their message
+        if (Object.prototype.hasOwnProperty.call(pa, name) !== Object.prototype.hasOwnProperty.call(pb, name)) continue;
+        if (ra.has(name) && !rb.has(name)) push("removed", "required", `${name} is no longer required`, child(path, name));
+        if (!ra.has(name) && rb.has(name)) push("added", "required", `${name} is now required`, child(path, name));
+    }
+
+    if (!same(a.additionalProperties, b.additionalProperties)) {
+        if (isSchemaObject(a.additionalProperties) && isSchemaObject(b.additionalProperties)) {
+            out.push(...diffSchemas(a.additionalProperties, b.additionalProperties, child(path, "{*}")));
+        } else {
+            push("changed", "additionalProperties", `additionalProperties ${show(a.additionalProperties)} → ${show(b.additionalProperties)}`, path, a.additionalProperties, b.additionalProperties);
+        }
+    }
+
+    // Arrays
+    if (a.items !== undefined || b.items !== undefined) {
+        if (Array.isArray(a.items) || Array.isArray(b.items)) {
+            const ia = Array.isArray(a.items) ? a.items : [];
+            const ib = Array.isArray(b.items) ? b.items : [];
+            for (let i = 0; i < Math.max(ia.length, ib.length); i++) {
+                if (i >= ia.length) push("added", "property", `tuple item ${i} added`, `${path}[${i}]`, undefined, ib[i]);
+                else if (i >= ib.length) push("removed", "property", `tuple item ${i} removed`, `${path}[${i}]`, ia[i], undefined);
+                else out.push(...diffSchemas(ia[i], ib[i], `${path}[${i}]`));
+            }
+        } else {
+            out.push(...diffSchemas(a.items, b.items, `${path === "(root)" ? "" : path}[]`));
+        }
+    }
+
+    // Composition, compared branch by branch
+    for (const key of ["oneOf", "anyOf", "allOf"] as const) {
+        const ba = a[key] ?? [];
+        const bb = b[key] ?? [];
+        for (let i = 0; i < Math.max(ba.length, bb.length); i++) {
+            const at = `${path}<${key}[${i}]>`;
+            if (i >= ba.length) push("added", "branch", `${key} branch ${i} added`, at, undefined, bb[i]);
+            else if (i >= bb.length) push("removed", "branch", `${key} branch ${i} removed`, at, ba[i], undefined);
+            else out.push(...diffSchemas(ba[i], bb[i], at));
+        }
+    }
+
+    // Named definitions (only walked from the root)
+    if (path === "(root)") {
+        for (const bucket of ["definitions", "$defs"] as const) {
+            const da = isSchemaObject(a[bucket]) ? a[bucket]! : {};
+            const db = isSchemaObject(b[bucket]) ? b[bucket]! : {};
+            for (const name of Object.keys(da)) if (!Object.prototype.hasOwnProperty.call(db, name)) push("removed", "definition", `definition ${name} removed`, `#/${bucket}/${name}`);
+            for (const name of Object.keys(db)) {
+                if (!Object.prototype.hasOwnProperty.call(da, name)) push("added", "definition", `definition ${name} added`, `#/${bucket}/${name}`);
+                else out.push(...diffSchemas(da[name], db[name], `#/${bucket}/${name}`));
+            }
+        }
+    }
+    return out;
+}
+
+/** Line diff (longest common subsequence) of two texts. */
+export function diffLines(before: string, after: string): LineDiff[] {
+    const a = before.replace(/\r\n?/g, "\n").split("\n");
+    const b = after.replace(/\r\n?/g, "\n").split("\n");
+    const n = a.length;
+    const m = b.length;
+    // lcs[i][j] = LCS length of a[i..] and b[j..]
+    const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+    const out: LineDiff[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && a[i] === b[j]) {
+            out.push({ op: "same", text: a[i], beforeLine: i + 1, afterLine: j + 1 });
+            i++;
+            j++;
+        } else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            out.push({ op: "added", text: b[j], afterLine: j + 1 });
+            j++;
+        } else {
+            out.push({ op: "removed", text: a[i], beforeLine: i + 1 });
+            i++;
+        }
+    }
+    return out;
+}
+
+function diffKeyed<T extends object>(section: string, before: T[], after: T[], keyOf: (item: T) => string): CollectionDiff {
+    const mapA = new Map(before.map(x => [keyOf(x), x]));
+    const mapB = new Map(after.map(x => [keyOf(x), x]));
+    const changed: CollectionDiff["changed"] = [];
+    for (const [key, b] of mapB) {
+        const a = mapA.get(key);
+        if (!a) continue;
+        const fields = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+            .filter(f => !same((a as Record<string, unknown>)[f], (b as Record<string, unknown>)[f]))
+            .map(f => ({ field: f, before: (a as Record<string, unknown>)[f], after: (b as Record<string, unknown>)[f] }));
+        if (fields.length) changed.push({ key, fields });
+    }
+    const commonA = before.map(keyOf).filter(k => mapB.has(k));
+    const commonB = after.map(keyOf).filter(k => mapA.has(k));
+    return {
+        section,
+        added: after.map(keyOf).filter(k => !mapA.has(k)),
+        removed: before.map(keyOf).filter(k => !mapB.has(k)),
+        changed,
+        reordered: !same(commonA, commonB),
+    };
+}
+
+function diffStrings(section: string, before: string[], after: string[]): CollectionDiff {
+    return {
+        section,
+        added: after.filter(s => !before.includes(s)),
+        removed: before.filter(s => !after.includes(s)),
+        changed: [],
+        reordered: false,
+    };
+}
+
+function collectionSize(c: CollectionDiff): number {
+    return c.added.length + c.removed.length + c.changed.length + (c.reordered ? 1 : 0);
+}
+
+export function diffOrchestrators(before: Orchestrator, after: Orchestrator): OrchestratorDiff {
+    const fields: FieldChange[] = [];
+    const scalar = (field: string, a: unknown, b: unknown) => {
+        if (!same(a, b)) fields.push({ field, before: a, after: b });
+    };
+    for (const key of ["name", "domain", "apiPath", "apiId", "version", "status", "owner", "summary"] as const) scalar(key, before[key], after[key]);
+    scalar("apiSpec.endpoint", before.apiSpec.endpoint, after.apiSpec.endpoint);
+    scalar("apiSpec.purpose", before.apiSpec.purpose, after.apiSpec.purpose);
+
+    const schemas: OrchestratorDiff["schemas"] = [
+        { section: "apiSpec.requestSchema", changes: diffSchemas(before.apiSpec.requestSchema, after.apiSpec.requestSchema) },
+        { section: "apiSpec.responseSchema", changes: diffSchemas(before.apiSpec.responseSchema, after.apiSpec.responseSchema) },
+    ];
+    const contractsA = new Map(before.nodeContracts.map(c => [c.nodeId, c]));
+    for (const c of after.nodeContracts) {
+        const prev = contractsA.get(c.nodeId);
+        if (!prev) continue;
+        schemas.push({ section: `nodeContracts.${c.nodeId}.inputSchema`, changes: diffSchemas(prev.inputSchema, c.inputSchema) });
+        schemas.push({ section: `nodeContracts.${c.nodeId}.outputSchema`, changes: diffSchemas(prev.outputSchema, c.outputSchema) });
+    }
+
+    const collections: CollectionDiff[] = [
+        diffKeyed("flowSteps", before.flowSteps, after.flowSteps, s => s.stepId),
+        diffKeyed("decisionRules", before.decisionRules, after.decisionRules, r => r.ruleId),
+        diffKeyed("errorCodes", before.errorCodes, after.errorCodes, e => e.code),
+        diffKeyed("errorPolicy", before.errorPolicy, after.errorPolicy, p => p.kind),
+        // Schema edits are reported above; here only which contracts exist and their descriptions
+        diffKeyed("nodeContracts", before.nodeContracts.map(c => ({ nodeId: c.nodeId, version: c.version, description: c.description })), after.nodeContracts.map(c => ({ nodeId: c.nodeId, version: c.version, description: c.description })), c => c.nodeId),
+        diffKeyed("observability.metrics", before.observability.metrics, after.observability.metrics, m => m.name),
+        diffKeyed("observability.events", before.observability.events, after.observability.events, e => e.name),
+        diffStrings("observability.logFields", before.observability.logFields, after.observability.logFields),
+        diffStrings("tags", before.tags, after.tags),
+        diffStrings("testTargets.happyPath", before.testTargets.happyPath, after.testTargets.happyPath),
+        diffStrings("testTargets.rejectCases", before.testTargets.rejectCases, after.testTargets.rejectCases),
+        diffStrings("testTargets.errorCases", before.testTargets.errorCases, after.testTargets.errorCases),
+        diffStrings("testTargets.contractValidation", before.testTargets.contractValidation, after.testTargets.contractValidation),
+    ];
+
+    const pretty = (v: unknown) => JSON.stringify(v ?? null, null, 2);
+    const texts: Array<[string, string, string]> = [
+        ["userStoryMarkdown", before.userStoryMarkdown, after.userStoryMarkdown],
+        ["orchestratorSpecMarkdown", before.orchestratorSpecMarkdown, after.orchestratorSpecMarkdown],
+        ["runbookMarkdown", before.runbookMarkdown, after.runbookMarkdown],
+        ["apiSpec.requestExample", pretty(before.apiSpec.requestExample), pretty(after.apiSpec.requestExample)],
+        ["apiSpec.responseExample", pretty(before.apiSpec.responseExample), pretty(after.apiSpec.responseExample)],
+    ];
+    const text = texts
+        .filter(([, a, b]) => a !== b)
+        .map(([section, a, b]) => {
+            const lines = diffLines(a, b);
+            return { section, lines, added: lines.filter(l => l.op === "added").length, removed: lines.filter(l => l.op === "removed").length };
+        });
+
+    const nonEmptySchemas = schemas.filter(s => s.changes.length > 0);
+    const nonEmptyCollections = collections.filter(c => collectionSize(c) > 0);
+    return {
+        fields,
+        schemas: nonEmptySchemas,
+        collections: nonEmptyCollections,
+        text,
+        total: fields.length
+            + nonEmptySchemas.reduce((n, s) => n + s.changes.length, 0)
+            + nonEmptyCollections.reduce((n, c) => n + collectionSize(c), 0)
+            + text.length,
+    };
+}
@@ -0,0 +1,220 @@
+import { LifecycleTransition, Orchestrator, OrchestratorRevision, Risk, Run } from "../types";
+import { analyzeOrchestrator } from "./orchestratorConsistency";
+import { lintOrchestratorErrorCodes } from "./errorCodeLint";
+import { compatibilityBaseline, compatibilityReport } from "./schemaCompat";
+
+/**
+ * Orchestrator lifecycle: draft → active → deprecated, plus the way back
+ * (active → draft for rework, deprecated → active to undo a deprecation).
+ * Every status change goes through a transition with preconditions and is
+ * appended to `Orchestrator.lifecycle` with actor, timestamp and reason.
+ *
+ * Preconditions that need state outside the record (Q1 runs, revisions)
+ * are checked where the transition is made; the registry re-checks what
+ * the record itself carries (see transitionProblems).
+ */
+
+export type LifecycleStatus = Orchestrator["status"];
+
+export interface TransitionDef {
+    from: LifecycleStatus;
+    to: LifecycleStatus;
+    label: string;
+    description: string;
+}
+
+export const TRANSITIONS: TransitionDef[] = [
+    { from: "draft", to: "active", label: "Activate", description: "Release the API: the spec is complete, its gates pass and the owner signed off." },
+    { from: "active", to: "deprecated", label: "Deprecate", description: "Announce the end of the API with a replacement or a sunset date." },
+    { from: "active", to: "draft", label: "Return to draft", description: "Take the API back for rework; it needs a fresh activation." },
+    { from: "deprecated", to: "active", label: "Reactivate", description: "Withdraw the deprecation; needs the same sign-off as an activation." },
+];
+
+/** Tab risk per status: only released APIs are safe to build against. */
+export const STATUS_RISK: Record<LifecycleStatus, Risk> = {
+    active: "safe",
+    draft: "guarded",
+    deprecated: "guarded",
+};
+
+/** Completeness score (see analyzeOrchestrator) an orchestrator needs to go active. */
+export const MIN_ACTIVATION_SCORE = 80;
+
+export interface TransitionRequest {
+    actor: string;
+    reason: string;
+    approvedBy?: string;
+    replacementId?: string;
+    sunsetDate?: string;
+}
+
+export interface TransitionContext {
+    orchestrators: Orchestrator[];
+    /** App runs, newest first; the latest Q1 run of the orchestrator is its gate result. */
+    runs: Run[];
+    revisions: OrchestratorRevision[];
+    /** YYYY-MM-DD */
+    today: string;
+}
+
+export interface Precondition {
+    id: string;
+    label: string;
+    ok: boolean;
+    detail: string;
+}
+
+export function transitionsFrom(status: LifecycleStatus): TransitionDef[] {
+    return TRANSITIONS.filter(t => t.from === status);
+}
+
+export function findTransition(from: LifecycleStatus, to: LifecycleStatus): TransitionDef | undefined {
+    return TRANSITIONS.find(t => t.from === from && t.to === to);
+}
+
+const isDate = (s: string | undefined): s is string => !!s && /^\d{4}-\d{2}-\d{2}$/.test(s) && !isNaN(Date.parse(s));
+
+/** Checks on the transition record itself: who, why, and the sign-off / deprecation details. */
+function recordChecks(orch: Orchestrator, to: LifecycleStatus, req: TransitionRequest, orchestrators: Orchestrator[], today?: string): Precondition[] {
+    const out: Precondition[] = [];
+    const actor = req.actor.trim();
+    out.push({ id: "actor", label: "Actor", ok: !!actor, detail: actor || "who makes the change" });
+    out.push({ id: "reason", label: "Reason", ok: !!req.reason.trim(), detail: req.reason.trim() ? "given" : "why the status changes" });
+
+    if (to === "active") {
+        const approver = (req.approvedBy ?? "").trim();
+        out.push({
+            id: "approval",
+            label: `Owner approval (${orch.owner})`,
+            ok: !!approver && approver !== actor,
+            detail: !approver ? "sign-off from the owning team" : approver === actor ? "the approver cannot be the actor" : `approved by ${approver}`,
+        });
+    }
+
+    if (to === "deprecated") {
+        const replacement = req.replacementId ? orchestrators.find(o => o.id === req.replacementId) : undefined;
+        const problems: string[] = [];
+        if (req.replacementId && !replacement) problems.push(`no orchestrator "${req.replacementId}"`);
+        else if (replacement?.id === orch.id) problems.push("cannot replace itself");
+        else if (replacement?.status === "deprecated") problems.push(`${replacement.id} is deprecated too`);
+        if (req.sunsetDate && !isDate(req.sunsetDate)) problems.push(`sunset date "${req.sunsetDate}" is not YYYY-MM-DD`);
+        else if (req.sunsetDate && today && req.sunsetDate <= today) problems.push("sunset date must be in the future");
+        const given = [replacement && `replaced by ${replacement.id}`, isDate(req.sunsetDate) && `sunset ${req.sunsetDate}`].filter(Boolean).join(" · ");
+        out.push({
+            id: "deprecation",
+            label: "Replacement or sunset date",
+            ok: problems.length === 0 && (!!req.replacementId || !!req.sunsetDate),
+            detail: problems.join("; ") || given || "name a replacement, a sunset date, or both",
+        });
+    }
+    return out;
+}
+
+/** Everything that must hold for `orch` to move to `to`; the transition is allowed when all are ok. */
+export function checkTransition(orch: Orchestrator, to: LifecycleStatus, req: TransitionRequest, ctx: TransitionContext): Precondition[] {
+    const def = findTransition(orch.status, to);
+    if (!def) return [{ id: "transition", label: "Transition", ok: false, detail: `${orch.status} → ${to} is not a lifecycle transition` }];
+
+    const out: Precondition[] = [];
+    if (to === "active") {
+        const report = analyzeOrchestrator(orch);
+        const errors = report.findings.filter(f => f.severity === "error").length;
+        out.push({
+            id: "completeness",
+            label: "Completeness",
+            ok: report.score >= MIN_ACTIVATION_SCORE && errors === 0,
+            detail: `${report.score}% (needs ${MIN_ACTIVATION_SCORE}%)${errors ? ` · ${errors} error${errors === 1 ? "" : "s"}` : ""}`,
+        });
+
+        const q1 = ctx.runs.find(r => r.contract?.orchestratorId === orch.id);
+        out.push({
+            id: "q1",
+            label: "Q1 · Contract tests",
+            ok: q1?.status === "success",
+            detail: !q1 ? "no run yet — run them from Tests or Gates"
+                : q1.status === "success" || q1.status === "failed" ? `${q1.contract!.passed}/${q1.contract!.total} passed`
+                : `${q1.status}…`,
+        });
+
+        const lint = lintOrchestratorErrorCodes(orch).filter(f => f.violations.length > 0);
+        out.push({
+            id: "lint",
+            label: "Error-code lint",
+            ok: lint.length === 0,
+            detail: lint.length === 0 ? "all codes follow the standard" : `${lint.length} code${lint.length === 1 ? "" : "s"} break the standard: ${lint.slice(0, 3).map(f => f.code).join(", ")}${lint.length > 3 ? ", …" : ""}`,
+        });
+
+        const baseline = compatibilityBaseline(orch, { ...orch, status: to }, ctx.revisions);
+        if (baseline) {
+            const compat = compatibilityReport(baseline, orch);
+            out.push({
+                id: "compat",
+                label: "API compatibility",
+                ok: compat.ok,
+                detail: compat.ok ? `compatible with ${compat.fromVersion}` : `needs a ${compat.required} bump over ${compat.fromVersion}`,
+            });
+        }
+    }
+    out.push(...recordChecks(orch, to, req, ctx.orchestrators, ctx.today));
+    return out;
+}
+
+/** `orch` moved to `to` with the transition appended; throws when a precondition fails. */
+export function applyTransition(orch: Orchestrator, to: LifecycleStatus, req: TransitionRequest, ctx: TransitionContext, at: string): Orchestrator {
+    const checks = checkTransition(orch, to, req, ctx);
+    const failed = checks.filter(c => !c.ok);
+    if (failed.length) throw new Error(failed.map(c => `${c.label}: ${c.detail}`).join("\n"));
+
+    const gates = checks.filter(c => !["actor", "reason", "approval", "deprecation"].includes(c.id)).map(c => `${c.label}: ${c.detail}`);
+    const entry: LifecycleTransition = {
+        from: orch.status,
+        to,
+        actor: req.actor.trim(),
+        at,
+        reason: req.reason.trim(),
+        ...(to === "active" ? { approvedBy: req.approvedBy!.trim() } : {}),
+        ...(to === "deprecated" && req.replacementId ? { replacementId: req.replacementId } : {}),
+        ...(to === "deprecated" && req.sunsetDate ? { sunsetDate: req.sunsetDate } : {}),
+        ...(gates.length ? { checks: gates } : {}),
+    };
+    return { ...orch, status: to, lifecycle: [...(orch.lifecycle ?? []), entry] };
+}
+
+/**
+ * Problems with the status change from `stored` to `next`, for the registry
+ * to reject. New records start as drafts with no history; the recorded
+ * history cannot be rewritten; a status change needs exactly one new,
+ * allowed and complete transition entry.
+ */
+export function transitionProblems(stored: Orchestrator | undefined, next: Orchestrator, orchestrators: Orchestrator[]): string[] {
+    const log = next.lifecycle ?? [];
+    if (!stored) {
+        if (next.status !== "draft") return [`status: new orchestrators start as draft, not ${next.status} — activate them from the Overview.`];
+        return log.length ? ["lifecycle: a new orchestrator has no status history."] : [];
+    }
+
+    const before = stored.lifecycle ?? [];
+    if (log.length < before.length || before.some((t, i) => JSON.stringify(t) !== JSON.stringify(log[i]))) {
+        return ["lifecycle: recorded status changes cannot be edited or removed."];
+    }
+    const added = log.slice(before.length);
+    if (next.status === stored.status) {
+        return added.length ? ["lifecycle: a transition was recorded but the status did not change."] : [];
+    }
+    if (added.length !== 1) {
+        return [`status: ${stored.status} → ${next.status} must go through the lifecycle workflow (Overview › Lifecycle).`];
+    }
+
+    const t = added[0];
+    if (t.from !== stored.status || t.to !== next.status) return [`lifecycle: transition ${t.from} → ${t.to} does not match ${stored.status} → ${next.status}.`];
+    if (!findTransition(t.from, t.to)) return [`lifecycle: ${t.from} → ${t.to} is not a lifecycle transition.`];
+    return recordChecks(stored, t.to, t, orchestrators)
+        .filter(c => !c.ok)
+        .map(c => `lifecycle: ${c.label} — ${c.detail}`);
+}
+
+/** The transition that deprecated `orch`, while it is deprecated. */
+export function deprecationOf(orch: Orchestrator): LifecycleTransition | undefined {
+    if (orch.status !== "deprecated") return undefined;
+    return (orch.lifecycle ?? []).slice().reverse().find(t => t.to === "deprecated");
+}
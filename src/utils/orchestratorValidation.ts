@@ -0,0 +1,179 @@
+import { ERROR_CODE_STANDARD } from "./errorCodeLint";
+
+/**
+ * Runtime shape check for Orchestrator and Node Registry records — mirrors
+ * the Orchestrator and NodeConfig types in types/index.ts. Used before
+ * anything is saved to the backend, and on records coming back from it.
+ */
+
+type Check = (value: unknown, path: string, out: string[]) => void;
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const str: Check = (v, path, out) => {
+    if (typeof v !== "string") out.push(`${path} must be a string`);
+};
+
+const nonEmpty: Check = (v, path, out) => {
+    if (typeof v !== "string") out.push(`${path} must be a string`);
+    else if (!v.trim()) out.push(`${path} is required`);
+};
+
+const optional = (check: Check): Check => (v, path, out) => {
+    if (v !== undefined) check(v, path, out);
+};
+
+const oneOf = (...values: string[]): Check => (v, path, out) => {
+    if (typeof v !== "string" || !values.includes(v)) out.push(`${path} must be one of ${values.join(" | ")}`);
+};
+
+const pattern = (re: RegExp, hint: string): Check => (v, path, out) => {
+    if (typeof v !== "string" || !re.test(v)) out.push(`${path} ${hint}`);
+};
+
+/** Any JSON value (schemas, examples). Only undefined is rejected. */
+const json: Check = (v, path, out) => {
+    if (v === undefined) out.push(`${path} is required`);
+};
+
+const arr = (item: Check, uniqueKey?: string): Check => (v, path, out) => {
+    if (!Array.isArray(v)) {
+        out.push(`${path} must be an array`);
+        return;
+    }
+    v.forEach((x, i) => item(x, `${path}[${i}]`, out));
+    if (uniqueKey) {
+        const seen = new Set<unknown>();
+        v.forEach((x, i) => {
+            const key = isObject(x) ? x[uniqueKey] : undefined;
+            if (key === undefined) return;
+            if (seen.has(key)) out.push(`${path}[${i}].${uniqueKey} "${String(key)}" is duplicated`);
+            seen.add(key);
+        });
+    }
+};
+
+const obj = (fields: Record<string, Check>): Check => (v, path, out) => {
+    if (!isObject(v)) {
+        out.push(`${path} must be an object`);
+        return;
+    }
+    for (const [key, check] of Object.entries(fields)) check(v[key], `${path}.${key}`, out);
+};
+
+const FLOW_STEP = obj({ stepId: nonEmpty, nodeId: nonEmpty, purpose: str, input: str, output: str, onError: str });
+const DECISION_RULE = obj({ ruleId: nonEmpty, description: str, when: str, then: str, errorCode: optional(str) });
+const ERROR_POLICY = obj({ kind: nonEmpty, policy: str });
+const HTTP_STATUS: Check = (v, path, out) => {
+    if (typeof v !== "number" || !Number.isInteger(v) || v < 100 || v > 599) out.push(`${path} must be an HTTP status code`);
+};
+
+/** errorType must be one of the standard's ErrorTypes, and httpStatus the status it maps to. */
+const ERROR_CODE: Check = (v, path, out) => {
+    const types = ERROR_CODE_STANDARD.errorTypes;
+    obj({
+        code: nonEmpty,
+        category: oneOf("BIZ", "EXT", "SYS"),
+        description: str,
+        errorType: optional(oneOf(...types.map(m => m.type))),
+        httpStatus: optional(HTTP_STATUS),
+    })(v, path, out);
+    if (!isObject(v) || v.errorType === undefined || v.httpStatus === undefined) return;
+    const expected = types.find(m => m.type === v.errorType)?.httpStatus;
+    if (expected !== undefined && expected !== v.httpStatus) out.push(`${path}.httpStatus ${String(v.httpStatus)} does not match ${String(v.errorType)} (${expected})`);
+};
+const METRIC = obj({ name: nonEmpty, description: str, type: nonEmpty });
+const EVENT = obj({ name: nonEmpty, trigger: str, channel: optional(nonEmpty), payload: optional(json), headers: optional(json), consumers: optional(arr(nonEmpty)) });
+const SEMVER = pattern(/^\d+\.\d+\.\d+$/, "must be MAJOR.MINOR.PATCH");
+
+/** Local contracts carry their schemas; contracts referencing a registry version may leave them out. */
+const NODE_CONTRACT: Check = (v, path, out) => {
+    const local = !isObject(v) || v.version === undefined;
+    obj({
+        nodeId: nonEmpty,
+        description: str,
+        version: optional(SEMVER),
+        inputSchema: local ? json : optional(json),
+        outputSchema: local ? json : optional(json),
+    })(v, path, out);
+};
+const STATUS = oneOf("active", "draft", "deprecated");
+const TRANSITION = obj({
+    from: STATUS,
+    to: STATUS,
+    actor: nonEmpty,
+    at: nonEmpty,
+    reason: nonEmpty,
+    approvedBy: optional(str),
+    replacementId: optional(str),
+    sunsetDate: optional(pattern(/^\d{4}-\d{2}-\d{2}$/, "must be YYYY-MM-DD")),
+    checks: optional(arr(str)),
+});
+
+const ORCHESTRATOR = obj({
+    // Ids end up in tab ids ("orch.<domain>.<id>"), so no dots
+    id: pattern(/^[a-z0-9][a-z0-9-]*$/, "must be lower-case kebab case"),
+    name: nonEmpty,
+    domain: pattern(/^[a-z0-9][a-z0-9-]*$/, "must be lower-case kebab case"),
+    apiPath: pattern(/^\//, "must start with /"),
+    apiId: nonEmpty,
+    version: nonEmpty,
+    status: STATUS,
+    owner: nonEmpty,
+    lastUpdated: str,
+    tags: arr(str),
+    summary: str,
+    userStoryMarkdown: str,
+    apiSpec: obj({
+        endpoint: str,
+        purpose: str,
+        requestSchema: json,
+        responseSchema: json,
+        requestExample: json,
+        responseExample: json,
+    }),
+    orchestratorSpecMarkdown: str,
+    flowSteps: arr(FLOW_STEP, "stepId"),
+    decisionRules: arr(DECISION_RULE, "ruleId"),
+    errorPolicy: arr(ERROR_POLICY, "kind"),
+    errorCodes: arr(ERROR_CODE, "code"),
+    observability: obj({
+        metrics: arr(METRIC, "name"),
+        logFields: arr(str),
+        events: arr(EVENT, "name"),
+    }),
+    nodeContracts: arr(NODE_CONTRACT, "nodeId"),
+    runbookMarkdown: str,
+    testTargets: obj({
+        happyPath: arr(str),
+        rejectCases: arr(str),
+        errorCases: arr(str),
+        contractValidation: arr(str),
+    }),
+    missingSections: optional(arr(str)),
+    lifecycle: optional(arr(TRANSITION)),
+});
+
+const NODE_CONFIG = obj({
+    id: pattern(/^[a-z0-9][a-z0-9-]*$/, "must be lower-case kebab case"),
+    nodeType: nonEmpty,
+    owner: nonEmpty,
+    version: SEMVER,
+    description: str,
+    inputSchema: json,
+    outputSchema: json,
+});
+
+/** Returns a list of problems; empty when `value` is a well-formed Orchestrator. */
+export function validateOrchestrator(value: unknown): string[] {
+    const out: string[] = [];
+    ORCHESTRATOR(value, "orchestrator", out);
+    return out;
+}
+
+/** Returns a list of problems; empty when `value` is a well-formed Node Registry entry. */
+export function validateNodeConfig(value: unknown): string[] {
+    const out: string[] = [];
+    NODE_CONFIG(value, "node", out);
+    return out;
+}
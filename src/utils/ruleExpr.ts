@@ -0,0 +1,371 @@
+import { DecisionRule, Orchestrator } from "../types";
+import { isSchemaObject, SCHEMA_BRANCH_KINDS } from "./jsonSchema";
+
+/**
+ * Decision rule expressions — the JavaScript-like subset used in
+ * DecisionRule.when (`toolStatus !== 'UP' && retries < 3`).
+ *
+ * Parsed into an AST and walked by a small interpreter; nothing is ever
+ * handed to eval/Function, and member access only reaches the fact set's
+ * own properties (plus `.length`), never the prototype chain.
+ *
+ *   or      := and ("||" and)*
+ *   and     := eq ("&&" eq)*
+ *   eq      := rel (("===" | "!==" | "==" | "!=") rel)*
+ *   rel     := add (("<" | "<=" | ">" | ">=") add)*
+ *   add     := mul (("+" | "-") mul)*
+ *   mul     := unary (("*" | "/" | "%") unary)*
+ *   unary   := ("!" | "-") unary | member
+ *   member  := primary ("." IDENT)*
+ *   primary := NUMBER | STRING | true | false | null | undefined | IDENT | "(" or ")"
+ */
+
+export type RuleExpr =
+    | { kind: "literal"; value: string | number | boolean | null | undefined; column: number }
+    | { kind: "field"; path: string[]; column: number }
+    | { kind: "unary"; op: "!" | "-"; arg: RuleExpr; column: number }
+    | { kind: "binary"; op: string; left: RuleExpr; right: RuleExpr; column: number };
+
+export interface RuleExprError {
+    message: string;
+    column: number;     // 1-based
+}
+
+export type Facts = Record<string, unknown>;
+
+type Token = { type: "num" | "str" | "ident" | "op" | "eof"; text: string; value?: string | number; column: number };
+
+const OPERATORS = ["===", "!==", "==", "!=", "<=", ">=", "&&", "||", "<", ">", "+", "-", "*", "/", "%", "!", "(", ")", "."];
+const KEYWORDS: Record<string, string | number | boolean | null | undefined> = { true: true, false: false, null: null, undefined: undefined };
+
+class ParseFailure {
+    constructor(public message: string, public column: number) {}
+}
+
+function tokenize(src: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < src.length) {
+        const ch = src[i];
+        const column = i + 1;
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+        if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(src[i + 1] ?? ""))) {
+            const m = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(src.slice(i))!;
+            tokens.push({ type: "num", text: m[0], value: Number(m[0]), column });
+            i += m[0].length;
+            continue;
+        }
+        if (ch === "'" || ch === '"') {
+            let j = i + 1;
+            let value = "";
+            while (j < src.length && src[j] !== ch) {
+                if (src[j] === "\\" && j + 1 < src.length) {
+                    const esc = src[j + 1];
+                    value += esc === "n" ? "\n" : esc === "t" ? "\t" : esc;
+                    j += 2;
+                } else {
+                    value += src[j++];
+                }
+            }
+            if (j >= src.length) throw new ParseFailure("unterminated string", column);
+            tokens.push({ type: "str", text: src.slice(i, j + 1), value, column });
+            i = j + 1;
+            continue;
+        }
+        if (/[A-Za-z_$]/.test(ch)) {
+            const m = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(src.slice(i))!;
+            tokens.push({ type: "ident", text: m[0], column });
+            i += m[0].length;
+            continue;
+        }
+        const op = OPERATORS.find(o => src.startsWith(o, i));
+        if (!op) throw new ParseFailure(`unexpected character '${ch}'`, column);
+        tokens.push({ type: "op", text: op, column });
+        i += op.length;
+    }
+    tokens.push({ type: "eof", text: "", column: src.length + 1 });
+    return tokens;
+}
+
+/** Parses a rule expression. Exactly one of `expr` / `error` is set. */
+export function parseRuleExpr(src: string): { expr: RuleExpr | null; error: RuleExprError | null } {
+    try {
+        if (!src.trim()) throw new ParseFailure("expression is empty", 1);
+        const tokens = tokenize(src);
+        let pos = 0;
+        const peek = () => tokens[pos];
+        const isOp = (...ops: string[]) => peek().type === "op" && ops.includes(peek().text);
+        const expectOp = (op: string) => {
+            if (!isOp(op)) throw new ParseFailure(`expected '${op}' but found ${describe(peek())}`, peek().column);
+            pos++;
+        };
+
+        const binaryLevel = (ops: string[], next: () => RuleExpr) => (): RuleExpr => {
+            let left = next();
+            while (isOp(...ops)) {
+                const tok = tokens[pos++];
+                left = { kind: "binary", op: tok.text, left, right: next(), column: tok.column };
+            }
+            return left;
+        };
+
+        const primary = (): RuleExpr => {
+            const tok = tokens[pos];
+            if (tok.type === "num" || tok.type === "str") {
+                pos++;
+                return { kind: "literal", value: tok.value, column: tok.column };
+            }
+            if (tok.type === "ident") {
+                pos++;
+                if (tok.text in KEYWORDS) return { kind: "literal", value: KEYWORDS[tok.text], column: tok.column };
+                const path = [tok.text];
+                while (isOp(".")) {
+                    pos++;
+                    const prop = peek();
+                    if (prop.type !== "ident") throw new ParseFailure(`expected a property name after '.'`, prop.column);
+                    path.push(prop.text);
+                    pos++;
+                }
+                if (isOp("(")) throw new ParseFailure(`function calls are not allowed (${path.join(".")})`, peek().column);
+                return { kind: "field", path, column: tok.column };
+            }
+            if (isOp("(")) {
+                pos++;
+                const inner = or();
+                expectOp(")");
+                return inner;
+            }
+            throw new ParseFailure(`unexpected ${describe(tok)}`, tok.column);
+        };
+
+        const unary = (): RuleExpr => {
+            if (isOp("!", "-")) {
+                const tok = tokens[pos++];
+                return { kind: "unary", op: tok.text as "!" | "-", arg: unary(), column: tok.column };
+            }
+            return primary();
+        };
+
+        const mul = binaryLevel(["*", "/", "%"], unary);
+        const add = binaryLevel(["+", "-"], mul);
+        const rel = binaryLevel(["<", "<=", ">", ">="], add);
+        const eq = binaryLevel(["===", "!==", "==", "!="], rel);
+        const and = binaryLevel(["&&"], eq);
+        const or = binaryLevel(["||"], and);
+
+        const expr = or();
+        if (peek().type !== "eof") throw new ParseFailure(`unexpected ${describe(peek())}`, peek().column);
+        return { expr, error: null };
+    } catch (e) {
+        if (e instanceof ParseFailure) return { expr: null, error: { message: e.message, column: e.column } };
+        throw e;
+    }
+}
+
+function describe(tok: Token): string {
+    return tok.type === "eof" ? "end of expression" : `'${tok.text}'`;
+}
+
+/** Dotted field paths an expression reads, in first-use order. */
+export function referencedFields(expr: RuleExpr): string[] {
+    const out: string[] = [];
+    const visit = (e: RuleExpr) => {
+        if (e.kind === "field") {
+            const name = e.path.join(".");
+            if (!out.includes(name)) out.push(name);
+        } else if (e.kind === "unary") {
+            visit(e.arg);
+        } else if (e.kind === "binary") {
+            visit(e.left);
+            visit(e.right);
+        }
+    };
+    visit(expr);
+    return out;
+}
+
+function readField(facts: Facts, path: string[]): unknown {
+    let cur: unknown = facts;
+    for (const key of path) {
+        if (key === "length" && (typeof cur === "string" || Array.isArray(cur))) {
+            cur = cur.length;
+        } else if (typeof cur === "object" && cur !== null && Object.prototype.hasOwnProperty.call(cur, key)) {
+            cur = (cur as Record<string, unknown>)[key];
+        } else {
+            // Missing fields read as undefined, like optional chaining
+            return undefined;
+        }
+    }
+    return cur;
+}
+
+type Primitive = string | number | boolean | null | undefined;
+
+function primitive(v: unknown): Primitive {
+    if (v === null || ["string", "number", "boolean", "undefined"].includes(typeof v)) return v as Primitive;
+    // Objects and arrays only take part in comparisons through their JSON text
+    return JSON.stringify(v);
+}
+
+/** Evaluates a parsed expression against a fact set. Never throws. */
+export function evaluateRuleExpr(expr: RuleExpr, facts: Facts): unknown {
+    switch (expr.kind) {
+        case "literal":
+            return expr.value;
+        case "field":
+            return readField(facts, expr.path);
+        case "unary": {
+            const v = evaluateRuleExpr(expr.arg, facts);
+            return expr.op === "!" ? !v : -Number(primitive(v));
+        }
+        case "binary": {
+            if (expr.op === "&&") {
+                const l = evaluateRuleExpr(expr.left, facts);
+                return l ? evaluateRuleExpr(expr.right, facts) : l;
+            }
+            if (expr.op === "||") {
+                const l = evaluateRuleExpr(expr.left, facts);
+                return l ? l : evaluateRuleExpr(expr.right, facts);
+            }
+            const l = primitive(evaluateRuleExpr(expr.left, facts));
+            const r = primitive(evaluateRuleExpr(expr.right, facts));
+            switch (expr.op) {
+                case "===": return l === r;
+                case "!==": return l !== r;
+                case "==": return l == r;
+                case "!=": return l != r;
+            }
+            // The rest coerce as JavaScript does: two strings compare as text, `+` with a string concatenates, anything else is numeric
+            if (typeof l === "string" && typeof r === "string") {
+                switch (expr.op) {
+                    case "<": return l < r;
+                    case "<=": return l <= r;
+                    case ">": return l > r;
+                    case ">=": return l >= r;
+                    case "+": return l + r;
+                }
+            }
+            if (expr.op === "+" && (typeof l === "string" || typeof r === "string")) return String(l) + String(r);
+            const a = Number(l);
+            const b = Number(r);
+            switch (expr.op) {
+                case "<": return a < b;
+                case "<=": return a <= b;
+                case ">": return a > b;
+                case ">=": return a >= b;
+                case "+": return a + b;
+                case "-": return a - b;
+                case "*": return a * b;
+                case "/": return a / b;
+                case "%": return a % b;
+            }
+            return undefined;
+        }
+    }
+}
+
+/* ── Rules ── */
+
+/**
+ * Field names an orchestrator's contracts mention: every property key, at
+ * any depth, of the API schemas and examples and of the node contract
+ * schemas. A rule that reads anything else is probably a typo.
+ */
+export function factVocabulary(orch: Orchestrator): Set<string> {
+    const names = new Set<string>();
+    const fromSchema = (s: unknown) => {
+        if (!isSchemaObject(s)) return;
+        if (isSchemaObject(s.properties)) {
+            for (const [k, v] of Object.entries(s.properties)) {
+                names.add(k);
+                fromSchema(v);
+            }
+        }
+        if (Array.isArray(s.items)) s.items.forEach(fromSchema);
+        else fromSchema(s.items);
+        for (const key of SCHEMA_BRANCH_KINDS) {
+            const branches = s[key];
+            if (Array.isArray(branches)) branches.forEach(fromSchema);
+        }
+        for (const key of ["definitions", "$defs"] as const) {
+            const defs = s[key];
+            if (isSchemaObject(defs)) Object.values(defs).forEach(fromSchema);
+        }
+    };
+    const fromExample = (v: unknown) => {
+        if (Array.isArray(v)) v.forEach(fromExample);
+        else if (v && typeof v === "object") {
+            for (const [k, child] of Object.entries(v)) {
+                names.add(k);
+                fromExample(child);
+            }
+        }
+    };
+
+    fromSchema(orch.apiSpec.requestSchema);
+    fromSchema(orch.apiSpec.responseSchema);
+    fromExample(orch.apiSpec.requestExample);
+    fromExample(orch.apiSpec.responseExample);
+    for (const c of orch.nodeContracts) {
+        fromSchema(c.inputSchema);
+        fromSchema(c.outputSchema);
+    }
+    return names;
+}
+
+export interface RuleCheck {
+    rule: DecisionRule;
+    expr: RuleExpr | null;
+    error: RuleExprError | null;
+    fields: string[];
+    unknownFields: string[];
+}
+
+/** Parses every rule's `when` and flags references outside the vocabulary. */
+export function checkDecisionRules(rules: DecisionRule[], vocabulary: Set<string>): RuleCheck[] {
+    return rules.map(rule => {
+        const { expr, error } = parseRuleExpr(rule.when);
+        const fields = expr ? referencedFields(expr) : [];
+        const unknownFields = vocabulary.size === 0 ? [] : fields.filter(f => !vocabulary.has(f.split(".")[0]));
+        return { rule, expr, error, fields, unknownFields };
+    });
+}
+
+export interface RuleOutcome extends RuleCheck {
+    status: "fired" | "passed" | "invalid";
+    value?: unknown;
+}
+
+export interface SimulationResult {
+    outcomes: RuleOutcome[];
+    /** First rule that fired — rules are evaluated in order and the first rejection wins. */
+    decidingRule: DecisionRule | null;
+    errorCode: string | null;
+}
+
+export function simulateRules(checks: RuleCheck[], facts: Facts): SimulationResult {
+    const outcomes: RuleOutcome[] = checks.map(check => {
+        if (!check.expr) return { ...check, status: "invalid" };
+        const value = evaluateRuleExpr(check.expr, facts);
+        return { ...check, status: value ? "fired" : "passed", value };
+    });
+    const deciding = outcomes.find(o => o.status === "fired");
+    return {
+        outcomes,
+        decidingRule: deciding?.rule ?? null,
+        errorCode: deciding?.rule.errorCode ?? null,
+    };
+}
+
+/** Fact values are typed as JSON literals when they parse (`3`, `true`, `null`), and as plain strings otherwise. */
+export function parseFactValue(text: string): unknown {
+    const trimmed = text.trim();
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        return text;
+    }
+}
@@ -0,0 +1,137 @@
+import { IncidentBundle, Orchestrator, Runbook } from "../types";
+import { runbookHeadings } from "./orchestratorConsistency";
+
+/**
+ * Factory-wide runbook coverage. Every error code an orchestrator declares
+ * or emits (plus codes named in incident bundles) is resolved to:
+ *   covered — some orchestrator's runbookMarkdown has a `## CODE` section
+ *   prefix  — only a generic Runbook record matches by errorCodePrefix
+ *   missing — nothing an on-call engineer could open
+ */
+
+export type CoverageStatus = "covered" | "prefix" | "missing";
+
+export interface CodeUsage {
+    orchestratorId: string | null;      // null for incident mentions
+    source: "errorCodes" | "flowSteps.onError" | "decisionRules.errorCode" | "incident";
+    ref: string;                        // stepId, ruleId, incident id...
+}
+
+export interface RunbookSection {
+    orchestratorId: string;
+    code: string;
+    line: number;
+    body: string;
+}
+
+export interface CoverageEntry {
+    code: string;
+    usages: CodeUsage[];
+    sections: RunbookSection[];
+    /** Prefix runbooks matching the code, most specific prefix first. */
+    prefixRunbooks: Runbook[];
+    status: CoverageStatus;
+}
+
+export interface CoverageReport {
+    entries: CoverageEntry[];
+    totals: Record<CoverageStatus, number>;
+    orchestratorIds: string[];
+}
+
+const CODE_IN_TEXT = /\b[A-Z]{2,}(?:_[A-Z0-9]+){2,}\b/g;
+
+/** Splits runbook markdown into its `## CODE` sections. */
+export function runbookSections(orchestratorId: string, markdown: string): RunbookSection[] {
+    const lines = markdown.split("\n");
+    const headings = runbookHeadings(markdown);
+    return headings.map((h, i) => {
+        const end = i + 1 < headings.length ? headings[i + 1].line - 1 : lines.length;
+        // Stop at the next heading of any level, not just the next code heading
+        const bodyLines = lines.slice(h.line, end);
+        const stop = bodyLines.findIndex(l => /^#{1,3}\s/.test(l.trim()));
+        return {
+            orchestratorId,
+            code: h.code,
+            line: h.line,
+            body: (stop === -1 ? bodyLines : bodyLines.slice(0, stop)).join("\n").trim(),
+        };
+    });
+}
+
+/** Status of a code from one orchestrator's point of view (its own runbook only). */
+export function cellStatus(entry: CoverageEntry, orchestratorId: string): CoverageStatus | null {
+    if (!entry.usages.some(u => u.orchestratorId === orchestratorId)) return null;
+    if (entry.sections.some(s => s.orchestratorId === orchestratorId)) return "covered";
+    return entry.prefixRunbooks.length ? "prefix" : "missing";
+}
+
+export function runbookCoverage(orchs: Orchestrator[], runbooks: Runbook[], incidents: IncidentBundle[] = []): CoverageReport {
+    const usages = new Map<string, CodeUsage[]>();
+    const use = (code: string, usage: CodeUsage) => {
+        const list = usages.get(code) ?? [];
+        list.push(usage);
+        usages.set(code, list);
+    };
+
+    for (const o of orchs) {
+        for (const e of o.errorCodes) use(e.code, { orchestratorId: o.id, source: "errorCodes", ref: e.code });
+        for (const s of o.flowSteps) if (s.onError.trim()) use(s.onError.trim(), { orchestratorId: o.id, source: "flowSteps.onError", ref: s.stepId });
+        for (const r of o.decisionRules) if (r.errorCode?.trim()) use(r.errorCode.trim(), { orchestratorId: o.id, source: "decisionRules.errorCode", ref: r.ruleId });
+    }
+    for (const inc of incidents) {
+        for (const code of new Set(inc.summary.match(CODE_IN_TEXT) ?? [])) use(code, { orchestratorId: null, source: "incident", ref: inc.id });
+    }
+
+    const sections = orchs.flatMap(o => runbookSections(o.id, o.runbookMarkdown));
+    const byPrefix = [...runbooks].sort((a, b) => b.errorCodePrefix.length - a.errorCodePrefix.length);
+
+    const entries: CoverageEntry[] = Array.from(usages.entries()).map(([code, list]) => {
+        const own = sections.filter(s => s.code === code);
+        const prefixRunbooks = byPrefix.filter(rb => rb.errorCodePrefix && code.startsWith(rb.errorCodePrefix));
+        return {
+            code,
+            usages: list,
+            sections: own,
+            prefixRunbooks,
+            status: own.length ? "covered" : prefixRunbooks.length ? "prefix" : "missing",
+        };
+    });
+
+    // Worst coverage first, then the most used codes
+    const rank: Record<CoverageStatus, number> = { missing: 0, prefix: 1, covered: 2 };
+    entries.sort((a, b) => rank[a.status] - rank[b.status] || b.usages.length - a.usages.length || a.code.localeCompare(b.code));
+
+    const totals: Record<CoverageStatus, number> = { covered: 0, prefix: 0, missing: 0 };
+    for (const e of entries) totals[e.status]++;
+
+    return { entries, totals, orchestratorIds: orchs.map(o => o.id) };
+}
+
+/** Markdown digest for the Monitoring report: totals, then every code that lacks its own section. */
+export function coverageMarkdown(report: CoverageReport, top = 10): string {
+    const { totals } = report;
+    const all = totals.covered + totals.prefix + totals.missing;
+    const lines = [
+        "## Top Error Codes + Runbook Coverage",
+        "",
+        `${all} error codes · ${totals.covered} covered · ${totals.prefix} prefix-only · ${totals.missing} missing`,
+        "",
+        "| Code | Status | Used by | Runbook |",
+        "| --- | --- | --- | --- |",
+    ];
+    const mostUsed = [...report.entries].sort((a, b) => b.usages.length - a.usages.length).slice(0, top);
+    for (const e of mostUsed) {
+        const owners = Array.from(new Set(e.usages.map(u => u.orchestratorId ?? `incident ${u.ref}`))).join(", ");
+        const runbook = e.sections.length
+            ? e.sections.map(s => `${s.orchestratorId}#L${s.line}`).join(", ")
+            : e.prefixRunbooks[0]?.id ?? "—";
+        lines.push(`| ${e.code} | ${e.status} | ${owners} | ${runbook} |`);
+    }
+    const gaps = report.entries.filter(e => e.status !== "covered");
+    if (gaps.length) {
+        lines.push("", "### Runbook gaps", "");
+        for (const e of gaps) lines.push(`- \`${e.code}\` — ${e.status === "prefix" ? `only the generic ${e.prefixRunbooks[0].id}` : "no runbook at all"}`);
+    }
+    return lines.join("\n");
+}
@@ -0,0 +1,219 @@
+import { Orchestrator, OrchestratorRevision } from "../types";
+import { diffSchemas, SchemaChange } from "./orchestratorDiff";
+
+/**
+ * Backward-compatibility rules for API schema changes. A schema change
+ * either narrows what the schema admits, widens it, or both; whether that
+ * breaks clients depends on which side of the wire the schema describes:
+ * narrowing a request rejects calls that used to work, widening a response
+ * hands clients values they never had to handle. Breaking changes need a
+ * major bump, compatible ones a minor, documentation-only ones a patch.
+ * The same rules apply to node contracts: a node's inputSchema is the
+ * request side of its call, its outputSchema the response side.
+ */
+
+export type ChangeLevel = "major" | "minor" | "patch";
+export type SchemaDirection = "request" | "response";
+export type VersionBump = ChangeLevel | "none" | "downgrade" | "invalid";
+
+type Effect = "narrow" | "widen" | "both" | "additive" | "none";
+
+export interface CompatChange extends SchemaChange {
+    /** Which schema the change is in, e.g. "apiSpec.requestSchema". */
+    section: string;
+    direction: SchemaDirection;
+    level: ChangeLevel;
+    breaking: boolean;
+    /** JSONPath of the affected value in a request / response body ("$.lot.tools[*].id"). */
+    jsonPath: string;
+    reason: string;
+}
+
+export interface CompatibilityReport {
+    fromVersion: string;
+    toVersion: string;
+    changes: CompatChange[];
+    /** Smallest bump the schema changes call for; null when the schemas are unchanged. */
+    required: ChangeLevel | null;
+    actual: VersionBump;
+    ok: boolean;
+    problems: string[];
+}
+
+const LEVEL_RANK: Record<ChangeLevel, number> = { patch: 1, minor: 2, major: 3 };
+const MIN_KEYS = ["minimum", "exclusiveMinimum", "minLength", "minItems", "minProperties"];
+const MAX_KEYS = ["maximum", "exclusiveMaximum", "maxLength", "maxItems", "maxProperties"];
+
+const REASONS: Record<SchemaDirection, Record<Effect, string>> = {
+    request: {
+        narrow: "requests that were valid can now be rejected",
+        widen: "the API accepts more than before",
+        both: "the accepted values changed; some old requests no longer fit",
+        additive: "new optional field",
+        none: "documentation only",
+    },
+    response: {
+        narrow: "responses stay within what clients already handle",
+        widen: "clients can receive values they did not have to handle before",
+        both: "the returned values changed; clients may get shapes they do not expect",
+        additive: "new optional field",
+        none: "documentation only",
+    },
+};
+
+function typeList(t: unknown): string[] {
+    return Array.isArray(t) ? t.map(String) : t === undefined ? [] : [String(t)];
+}
+
+/** "integer" is admitted by "number", so a number → integer change narrows. */
+function admits(types: string[], t: string): boolean {
+    return types.includes(t) || (t === "integer" && types.includes("number"));
+}
+
+function typeEffect(before: unknown, after: unknown): Effect {
+    const a = typeList(before);
+    const b = typeList(after);
+    if (a.length === 0) return "narrow";   // any → typed
+    if (b.length === 0) return "widen";
+    const narrows = b.every(t => admits(a, t));
+    const widens = a.every(t => admits(b, t));
+    return narrows && widens ? "none" : narrows ? "narrow" : widens ? "widen" : "both";
+}
+
+function effectOf(change: SchemaChange): Effect {
+    const { kind, before, after } = change;
+    const key = change.message.split(" ")[0];
+    switch (change.aspect) {
+        case "property":
+            if (/\[\d+\]$/.test(change.path)) return "both";      // tuple positions shift
+            if (kind === "added") return change.required ? "narrow" : "additive";
+            return "widen";
+        case "required":
+            return kind === "added" ? "narrow" : "widen";
+        case "type":
+            return typeEffect(before, after);
+        case "enum":
+            if (key === "const") return kind === "added" ? "narrow" : kind === "removed" ? "widen" : "both";
+            if (kind === "added") return "widen";
+            if (kind === "removed") return "narrow";
+            return before === undefined ? "narrow" : "widen";
+        case "format":
+            return kind === "added" ? "narrow" : kind === "removed" ? "widen" : "both";
+        case "constraint": {
+            if (kind === "added") return key === "uniqueItems" && after === false ? "none" : "narrow";
+            if (kind === "removed") return "widen";
+            if (MIN_KEYS.includes(key)) return Number(after) > Number(before) ? "narrow" : "widen";
+            if (MAX_KEYS.includes(key)) return Number(after) < Number(before) ? "narrow" : "widen";
+            if (key === "uniqueItems") return after === true ? "narrow" : "widen";
+            return "both";                                          // pattern, multipleOf
+        }
+        case "additionalProperties":
+            if (after === false) return "narrow";
+            if (before === false) return "widen";
+            return "both";
+        case "branch": {
+            const union = !change.path.includes("<allOf[");
+            return (kind === "added") === union ? "widen" : "narrow";
+        }
+        case "ref":
+            return "both";
+        case "definition":
+        case "annotation":
+            return "none";
+    }
+}
+
+function levelOf(effect: Effect, direction: SchemaDirection): ChangeLevel {
+    if (effect === "none") return "patch";
+    if (effect === "additive") return "minor";
+    if (effect === "both") return "major";
+    const breaking = direction === "request" ? effect === "narrow" : effect === "widen";
+    return breaking ? "major" : "minor";
+}
+
+/** Schema path from diffSchemas ("lot.tools[].id") as a JSONPath into the body ("$.lot.tools[*].id"). */
+export function toJsonPath(path: string): string {
+    if (path.startsWith("#/")) return path;
+    if (path === "(root)") return "$";
+    const body = path
+        .replace(/<(oneOf|anyOf|allOf)\[\d+\]>/g, "")
+        .replace(/\[\]/g, "[*]")
+        .replace(/\{\*\}/g, "*");
+    return body.startsWith("[") ? `$${body}` : `$.${body}`;
+}
+
+/** Every structural change between two versions of a schema, classified for the given side of the wire. */
+export function compareSchemas(before: unknown, after: unknown, direction: SchemaDirection, section: string): CompatChange[] {
+    return diffSchemas(before, after).map(change => {
+        const effect = effectOf(change);
+        const level = levelOf(effect, direction);
+        return { ...change, section, direction, level, breaking: level === "major", jsonPath: toJsonPath(change.path), reason: REASONS[direction][effect] };
+    });
+}
+
+/** The largest level among `changes`; null when there are none. */
+export function maxLevel(changes: Array<{ level: ChangeLevel }>): ChangeLevel | null {
+    return changes.reduce<ChangeLevel | null>((max, c) => (!max || LEVEL_RANK[c.level] > LEVEL_RANK[max] ? c.level : max), null);
+}
+
+export function parseSemver(version: string): [number, number, number] | null {
+    const m = /^v?(\d+)\.(\d+)\.(\d+)(?:[-+].*)?$/.exec(version.trim());
+    return m ? [Number(m[1]), Number(m[2]), Number(m[3])] : null;
+}
+
+/** Which part of the version moved from `from` to `to`. */
+export function versionBump(from: string, to: string): VersionBump {
+    const a = parseSemver(from);
+    const b = parseSemver(to);
+    if (!a || !b) return "invalid";
+    for (let i = 0; i < 3; i++) {
+        if (b[i] > a[i]) return (["major", "minor", "patch"] as const)[i];
+        if (b[i] < a[i]) return "downgrade";
+    }
+    return "none";
+}
+
+/** `version` with the given part bumped: 1.4.2 + minor → 1.5.0. */
+export function bumpVersion(version: string, level: ChangeLevel): string {
+    const [major, minor, patch] = parseSemver(version) ?? [0, 0, 0];
+    if (level === "major") return `${major + 1}.0.0`;
+    if (level === "minor") return `${major}.${minor + 1}.0`;
+    return `${major}.${minor}.${patch + 1}`;
+}
+
+export function compatibilityReport(before: Orchestrator, after: Orchestrator): CompatibilityReport {
+    const changes = [
+        ...compareSchemas(before.apiSpec.requestSchema, after.apiSpec.requestSchema, "request", "apiSpec.requestSchema"),
+        ...compareSchemas(before.apiSpec.responseSchema, after.apiSpec.responseSchema, "response", "apiSpec.responseSchema"),
+    ];
+    const required = maxLevel(changes);
+    const actual = versionBump(before.version, after.version);
+
+    const problems: string[] = [];
+    if (required) {
+        const needed = `${required} bump (${before.version} → ${bumpVersion(before.version, required)})`;
+        if (actual === "invalid") {
+            problems.push(`version: "${after.version}" is not MAJOR.MINOR.PATCH; schema changes since ${before.version} need a ${needed}.`);
+        } else if (actual === "none" || actual === "downgrade" || LEVEL_RANK[actual] < LEVEL_RANK[required]) {
+            problems.push(`version: schema changes since ${before.version} need at least a ${needed}, got ${after.version}.`);
+            for (const c of changes.filter(x => x.level === required)) problems.push(`  ${c.section} ${c.jsonPath}: ${c.message} — ${c.reason}`);
+        }
+    }
+    return { fromVersion: before.version, toVersion: after.version, changes, required, actual, ok: problems.length === 0, problems };
+}
+
+/**
+ * The record a save has to stay compatible with, or null when nothing is
+ * enforced. Saving a non-draft is checked against what is stored; activating
+ * a draft is checked against the last active revision (the first activation
+ * of a new API is free); saving a draft is not checked. `revisions` must be
+ * the registry's revisions of this record — a deleted record's history must
+ * not leak into a new record with the same id.
+ */
+export function compatibilityBaseline(stored: Orchestrator | undefined, next: Orchestrator, revisions: OrchestratorRevision[]): Orchestrator | null {
+    if (!stored) return null;
+    if (stored.status !== "draft") return stored;
+    if (next.status !== "active") return null;
+    const released = revisions.slice().reverse().find(r => r.snapshot.status === "active");
+    return released ? released.snapshot : null;
+}
@@ -0,0 +1,541 @@
+import { Orchestrator, TestTargets } from "../types";
+import { dryRunOrchestrator, ErrorKind, errorKindOf, errorStatusFor, NodeFixture, policyFor } from "./dryRun";
+import { isSchemaObject, sampleFromSchema } from "./jsonSchema";
+import { MockFixtureState } from "./mockServer";
+import { checkDecisionRules, evaluateRuleExpr, factVocabulary, Facts, RuleCheck, RuleExpr } from "./ruleExpr";
+
+/**
+ * Test-suite generation from TestTargets. Each prose target
+ * ("Material HOLD -> returns BIZ_MATERIAL_ON_HOLD") becomes a case: the
+ * request example with the fields the case needs mutated, stubs for the
+ * nodes whose outputs carry the facts a decision rule reads, and
+ * assertions derived from the error code's category and the status it is
+ * answered with (its declared httpStatus, else its errorPolicy).
+ * Every case is replayed through the dry-run engine so a skeleton that
+ * disagrees with the spec is flagged before anyone runs it.
+ */
+
+export type TestCaseKind = keyof TestTargets;
+export type TestSuiteFormat = "vitest" | "junit5";
+
+export const TEST_CASE_KINDS: Array<{ kind: TestCaseKind; label: string }> = [
+    { kind: "happyPath", label: "Happy path" },
+    { kind: "rejectCases", label: "Reject cases" },
+    { kind: "errorCases", label: "Error cases" },
+    { kind: "contractValidation", label: "Contract validation" },
+];
+
+export interface ParsedTarget {
+    given: string;
+    expectation: string;
+    status: number | null;
+    errorCode: string | null;
+}
+
+export interface TestExpectation {
+    status: number;
+    errorCode: string | null;
+    errorKind: ErrorKind | null;
+    /** Top-level response fields asserted exactly. */
+    body: Record<string, unknown>;
+    /** Field expected to mention the error code (BIZ reason text). */
+    reasonField?: string;
+    /** Calls to the failing node, retries included. */
+    attempts?: number;
+}
+
+export interface GeneratedTestCase {
+    kind: TestCaseKind;
+    target: string;
+    name: string;
+    request: unknown;
+    mutations: string[];
+    fixtures: Record<string, NodeFixture>;     // keyed by nodeId
+    expect: TestExpectation;
+    /** What the dry run returned for the same request and fixtures. */
+    dryRun: { status: number; errorCode: string | null; agrees: boolean };
+    notes: string[];
+}
+
+const CODE = /\b[A-Z]{2,}(?:_[A-Z0-9]+)+\b/;
+const CAPS_WORD = /\b[A-Z][A-Z0-9_]+\b/g;
+const MAX_COMBINATIONS = 256;
+
+export function parseTestTarget(text: string): ParsedTarget {
+    const [given, ...rest] = text.split(/\s*->\s*/);
+    const expectation = rest.join(" -> ").replace(/^returns?\s+/i, "").trim();
+    const status = /\b([1-5]\d\d)\b/.exec(expectation);
+    const code = CODE.exec(expectation);
+    return { given: given.trim(), expectation, status: status ? Number(status[1]) : null, errorCode: code ? code[0] : null };
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown) {
+    const keys = path.split(".");
+    let cur = target;
+    for (const key of keys.slice(0, -1)) {
+        if (!isSchemaObject(cur[key])) cur[key] = {};
+        cur = cur[key] as Record<string, unknown>;
+    }
+    cur[keys[keys.length - 1]] = value;
+}
+
+/** Scalar values found under `key` anywhere in the given documents. */
+function exampleValues(key: string, docs: unknown[]): unknown[] {
+    const out: unknown[] = [];
+    const walk = (node: unknown) => {
+        if (Array.isArray(node)) node.forEach(walk);
+        else if (isSchemaObject(node)) {
+            for (const [k, v] of Object.entries(node)) {
+                if (k === key && (typeof v !== "object" || v === null)) out.push(v);
+                walk(v);
+            }
+        }
+    };
+    docs.forEach(walk);
+    return out;
+}
+
+function literals(expr: RuleExpr, out: unknown[] = []): unknown[] {
+    if (expr.kind === "literal") {
+        out.push(expr.value);
+        if (typeof expr.value === "number") out.push(expr.value + 1, expr.value - 1);
+    } else if (expr.kind === "unary") literals(expr.arg, out);
+    else if (expr.kind === "binary") {
+        literals(expr.left, out);
+        literals(expr.right, out);
+    }
+    return out;
+}
+
+function unique(values: unknown[]): unknown[] {
+    const seen = new Set<string>();
+    return values.filter(v => {
+        const key = JSON.stringify(v) ?? "undefined";
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * Finds values for a rule's fields that make it fire (or not). Words in
+ * capitals from the target text are tried first when the rule should fire
+ * ("Tool DOWN"), example values first when it should pass.
+ */
+function solveRule(check: RuleCheck, fire: boolean, hintWords: string[], docs: unknown[], fixed: Facts): Facts | null {
+    if (!check.expr) return null;
+    const lits = literals(check.expr);
+    const candidates = check.fields.map(field => {
+        const key = field.split(".").pop()!;
+        const examples = exampleValues(key, docs);
+        const ordered = fire ? [...hintWords, ...lits, ...examples] : [...examples, ...lits, ...hintWords];
+        return unique([...ordered, "OTHER", 0, true, false, null]).slice(0, 8);
+    });
+
+    let tried = 0;
+    const assign = (i: number, facts: Facts): Facts | null => {
+        if (i === check.fields.length) {
+            tried++;
+            return !!evaluateRuleExpr(check.expr!, facts) === fire ? facts : null;
+        }
+        if (fixed[check.fields[i]] !== undefined) return assign(i + 1, facts);
+        for (const value of candidates[i]) {
+            if (tried >= MAX_COMBINATIONS) return null;
+            const next = clone(facts);
+            setPath(next, check.fields[i], value);
+            const found = assign(i + 1, next);
+            if (found) return found;
+        }
+        return null;
+    };
+    const base: Facts = {};
+    for (const [k, v] of Object.entries(fixed)) setPath(base, k, v);
+    return assign(0, base);
+}
+
+/** Node that most plausibly produces a fact: a contract output declaring it, else a step mentioning its leading word. */
+function producerOf(orch: Orchestrator, field: string): { nodeId: string; guessed: boolean } | null {
+    const top = field.split(".")[0];
+    const declared = orch.nodeContracts.find(c => isSchemaObject(c.outputSchema?.properties) && top in c.outputSchema.properties);
+    if (declared) return { nodeId: declared.nodeId, guessed: false };
+    const word = top.split(/(?=[A-Z])/)[0].toLowerCase();
+    const step = orch.flowSteps.slice(1).find(s => `${s.purpose} ${s.output}`.toLowerCase().includes(word));
+    if (step) return { nodeId: step.nodeId, guessed: true };
+    const last = orch.flowSteps[orch.flowSteps.length - 1];
+    return last ? { nodeId: last.nodeId, guessed: true } : null;
+}
+
+function contractSample(orch: Orchestrator, nodeId: string): Record<string, unknown> {
+    const contract = orch.nodeContracts.find(c => c.nodeId === nodeId);
+    const sample = contract ? sampleFromSchema(contract.outputSchema) : undefined;
+    return isSchemaObject(sample) ? { ...sample } : {};
+}
+
+function slug(text: string): string {
+    const words = text.replace(/[^A-Za-z0-9]+/g, " ").trim().split(/\s+/).filter(Boolean);
+    if (!words.length) return "case";
+    const name = words.map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase())).join("");
+    return /^\d/.test(name) ? `case${name}` : name;
+}
+
+function wrongTypeValue(schema: unknown): unknown {
+    const type = isSchemaObject(schema) ? schema.type : undefined;
+    if (type === "string") return 12345;
+    if (type === "number" || type === "integer") return "not-a-number";
+    if (type === "boolean") return "yes";
+    if (type === "array") return {};
+    return null;
+}
+
+/** Resolves a name used in prose ("toolid", "tool id") to a request property, case-insensitively. */
+function requestField(orch: Orchestrator, name: string): string | null {
+    const props = isSchemaObject(orch.apiSpec.requestSchema?.properties) ? Object.keys(orch.apiSpec.requestSchema.properties) : [];
+    const example = isSchemaObject(orch.apiSpec.requestExample) ? Object.keys(orch.apiSpec.requestExample) : [];
+    const norm = (s: string) => s.replace(/[^a-z0-9]/gi, "").toLowerCase();
+    return [...props, ...example].find(p => norm(p) === norm(name)) ?? null;
+}
+
+export function buildTestCases(orch: Orchestrator): GeneratedTestCase[] {
+    const checks = checkDecisionRules(orch.decisionRules, factVocabulary(orch)).filter(c => c.expr);
+    const docs = [orch.apiSpec.requestExample, orch.apiSpec.responseExample];
+    const responseProps = isSchemaObject(orch.apiSpec.responseSchema?.properties) ? orch.apiSpec.responseSchema.properties : {};
+    const names = new Map<string, number>();
+    const cases: GeneratedTestCase[] = [];
+
+    for (const { kind } of TEST_CASE_KINDS) {
+        for (const target of orch.testTargets[kind] ?? []) {
+            if (!target.trim()) continue;
+            const parsed = parseTestTarget(target);
+            const request = clone(orch.apiSpec.requestExample ?? {});
+            const mutations: string[] = [];
+            const notes: string[] = [];
+            const fixtures: Record<string, NodeFixture> = {};
+            const hintWords = parsed.given.match(CAPS_WORD) ?? [];
+            const code = kind === "happyPath" ? null : parsed.errorCode;
+
+            const stubFacts = (facts: Facts) => {
+                for (const [field, value] of Object.entries(facts)) {
+                    if (isSchemaObject(request) && field in request) {
+                        request[field] = value;
+                        mutations.push(`${field} = ${JSON.stringify(value)}`);
+                        continue;
+                    }
+                    const producer = producerOf(orch, field);
+                    if (!producer) {
+                        notes.push(`No flow step to carry ${field}; set it up by hand.`);
+                        continue;
+                    }
+                    const fixture = fixtures[producer.nodeId] ?? { output: contractSample(orch, producer.nodeId) };
+                    (fixture.output as Record<string, unknown>)[field] = value;
+                    fixtures[producer.nodeId] = fixture;
+                    mutations.push(`${producer.nodeId} returns ${field} = ${JSON.stringify(value)}`);
+                    if (producer.guessed) notes.push(`${field} is not declared by any node contract; stubbed on ${producer.nodeId} (best guess).`);
+                }
+            };
+
+            // Rules that must pass: every rule on the happy path, the others on a reject case
+            const targetRule = code ? checks.find(c => c.rule.errorCode === code) : undefined;
+            if (kind === "happyPath" || kind === "rejectCases") {
+                let facts: Facts = {};
+                if (targetRule) {
+                    const fired = solveRule(targetRule, true, hintWords, docs, {});
+                    if (fired) facts = fired;
+                    else notes.push(`Could not find values that make ${targetRule.rule.ruleId} fire.`);
+                } else if (kind === "rejectCases") {
+                    notes.push(code ? `No decision rule emits ${code}; the payload is the unmodified example.` : "Target names no error code.");
+                }
+                for (const c of checks) {
+                    if (c === targetRule) continue;
+                    const passing = solveRule(c, false, hintWords, docs, facts);
+                    if (passing) facts = passing;
+                }
+                const flat: Facts = {};
+                for (const c of checks) for (const f of c.fields) {
+                    const v = f.split(".").reduce<unknown>((cur, k) => (isSchemaObject(cur) ? cur[k] : undefined), facts);
+                    if (v !== undefined) flat[f] = v;
+                }
+                stubFacts(flat);
+            }
+
+            if (kind === "contractValidation") {
+                const missing = /\bmissing\s+([A-Za-z_][\w.]*)/i.exec(parsed.given);
+                const invalid = /\b(?:invalid|wrong(?:ly)?[- ]typed?|bad)\s+([A-Za-z_][\w.]*)/i.exec(parsed.given);
+                const empty = /\bempty\s+([A-Za-z_][\w.]*)/i.exec(parsed.given);
+                const field = requestField(orch, (missing ?? invalid ?? empty)?.[1] ?? "");
+                if (field && isSchemaObject(request)) {
+                    if (missing) {
+                        delete request[field];
+                        mutations.push(`removed ${field}`);
+                    } else if (empty) {
+                        request[field] = "";
+                        mutations.push(`${field} = ""`);
+                    } else {
+                        request[field] = wrongTypeValue(orch.apiSpec.requestSchema?.properties?.[field]);
+                        mutations.push(`${field} = ${JSON.stringify(request[field])} (wrong type)`);
+                    }
+                } else {
+                    notes.push("Could not tell which request field this case breaks; edit the payload by hand.");
+                }
+            }
+
+            let attempts: number | undefined;
+            if (kind === "errorCases" && code) {
+                const step = orch.flowSteps.find(s => s.onError.trim() === code);
+                if (step) {
+                    fixtures[step.nodeId] = { fail: { code } };
+                    mutations.push(`${step.nodeId} fails with ${code}`);
+                    attempts = 1 + policyFor(orch, errorKindOf(orch, code)).retries;
+                } else {
+                    notes.push(`No flow step raises ${code}; stub the failing dependency by hand.`);
+                }
+            }
+
+            // Assertions use the status the orchestrator answers with (declared httpStatus, else errorPolicy);
+            // a status written in the target only raises a note when it disagrees
+            const errorKind = code ? errorKindOf(orch, code) : null;
+            const status = code && errorKind ? errorStatusFor(orch, code, errorKind) : 200;
+            if (parsed.status !== null && parsed.status !== status) {
+                const source = !code ? "a success" : orch.errorCodes.some(e => e.code === code && e.httpStatus !== undefined) ? `${code}'s declared httpStatus` : `the ${errorKind} errorPolicy`;
+                notes.push(`Target says ${parsed.status}, but ${source} gives ${status}; the test asserts ${status}.`);
+            }
+            const body: Record<string, unknown> = {};
+            let reasonField: string | undefined;
+            if (!code) {
+                if ("isValid" in responseProps) body.isValid = true;
+            } else if (errorKind === "BIZ") {
+                if ("isValid" in responseProps) body.isValid = false;
+                reasonField = "reason";
+            } else {
+                body.error = code;
+            }
+            if (kind !== "happyPath" && !code) notes.push("Target names no error code; only the status is asserted.");
+
+            const dry = dryRunOrchestrator(orch, { request, fixtures });
+            const dryCode = dry.error?.code ?? null;
+
+            const base = slug(parsed.given);
+            const n = names.get(base) ?? 0;
+            names.set(base, n + 1);
+
+            cases.push({
+                kind,
+                target,
+                name: n ? `${base}${n + 1}` : base,
+                request,
+                mutations,
+                fixtures,
+                expect: { status, errorCode: code, errorKind, body, reasonField, attempts },
+                dryRun: { status: dry.response.status, errorCode: dryCode, agrees: dry.response.status === status && dryCode === code },
+                notes,
+            });
+        }
+    }
+    return cases;
+}
+
+function endpointOf(orch: Orchestrator): { method: string; path: string } {
+    const m = /^\s*([A-Z]+)\s+(\S+)/.exec(orch.apiSpec.endpoint ?? "");
+    return m ? { method: m[1], path: m[2] } : { method: "POST", path: orch.apiPath };
+}
+
+/** Fixture state that reproduces a case's node stubs on the mock server. */
+export function mockFixtureFor(testCase: GeneratedTestCase): MockFixtureState {
+    const facts: Record<string, unknown> = {};
+    let failWith: string | undefined;
+    for (const fixture of Object.values(testCase.fixtures)) {
+        if (fixture.fail) failWith = failWith ?? fixture.fail.code;
+        if (isSchemaObject(fixture.output)) Object.assign(facts, fixture.output);
+    }
+    return { facts, failWith };
+}
+
+export function suggestedFormat(orch: Orchestrator): TestSuiteFormat {
+    return orch.tags.some(t => /^(java|spring|junit)$/i.test(t)) ? "junit5" : "vitest";
+}
+
+export function suiteFileName(orch: Orchestrator, format: TestSuiteFormat): string {
+    return format === "junit5" ? `${className(orch)}.java` : `${orch.id}.test.ts`;
+}
+
+function className(orch: Orchestrator): string {
+    const s = slug(orch.name || orch.id);
+    return `${s[0].toUpperCase()}${s.slice(1)}Test`;
+}
+
+function indent(text: string, by: string): string {
+    return text.split("\n").map(l => (l ? by + l : l)).join("\n");
+}
+
+function vitestSuite(orch: Orchestrator, cases: GeneratedTestCase[]): string {
+    const { method, path } = endpointOf(orch);
+    const out = [
+        "/**",
+        ` * Generated from the test targets of ${orch.name} (${orch.id} v${orch.version}).`,
+        " * Runs under Jest or Vitest with globals enabled. Point ORCH_BASE_URL at a",
+        " * running instance. Node stubs are PUT to the portal mock's fixture endpoint",
+        " * (ORCH_BASE_URL = <portal>/mock); anywhere else stubNodes throws \"not wired\"",
+        " * until you replace it with your own node test doubles.",
+        " */",
+        `const BASE_URL = process.env.ORCH_BASE_URL ?? "http://localhost:8080";`,
+        `const ENDPOINT = ${JSON.stringify(path)};`,
+        `const FIXTURE_URL = BASE_URL + ${JSON.stringify(`/__fixtures/${encodeURIComponent(orch.id)}`)};`,
+        "",
+        "type FixtureState = { facts: Record<string, unknown>; failWith?: string };",
+        "let stubbed = false;",
+        "",
+        "async function stubNodes(state: FixtureState) {",
+        "    const res = await fetch(FIXTURE_URL, { method: \"PUT\", headers: { \"Content-Type\": \"application/json\" }, body: JSON.stringify(state) }).catch(() => null);",
+        "    if (!res?.ok) throw new Error(`stubNodes is not wired: ${FIXTURE_URL} answered ${res?.status ?? \"nothing\"}; point ORCH_BASE_URL at the portal mock or stub the nodes yourself`);",
+        "    stubbed = true;",
+        "}",
+        "",
+        "async function call(body: unknown): Promise<{ status: number; body: any }> {",
+        `    const res = await fetch(BASE_URL + ENDPOINT, { method: ${JSON.stringify(method)}, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });`,
+        "    return { status: res.status, body: await res.json().catch(() => null) };",
+        "}",
+        "",
+        `describe(${JSON.stringify(orch.name)}, () => {`,
+        "    afterEach(async () => {",
+        "        if (stubbed) await fetch(FIXTURE_URL, { method: \"DELETE\" }).catch(() => undefined);",
+        "        stubbed = false;",
+        "    });",
+    ];
+
+    for (const { kind, label } of TEST_CASE_KINDS) {
+        const group = cases.filter(c => c.kind === kind);
+        if (!group.length) continue;
+        out.push("", `    describe(${JSON.stringify(label)}, () => {`);
+        group.forEach((c, i) => {
+            if (i) out.push("");
+            for (const note of c.notes) out.push(`        // NOTE: ${note}`);
+            if (!c.dryRun.agrees) out.push(`        // NOTE: the dry run returned ${c.dryRun.status} ${c.dryRun.errorCode ?? ""}`.trimEnd());
+            out.push(`        it(${JSON.stringify(c.target)}, async () => {`);
+            if (Object.keys(c.fixtures).length) {
+                out.push(`            // stubs ${Object.keys(c.fixtures).join(", ")}`, `            await stubNodes(${JSON.stringify(mockFixtureFor(c))});`);
+            }
+            out.push(indent(`const res = await call(${JSON.stringify(c.request, null, 4)});`, "            "));
+            out.push(`            expect(res.status).toBe(${c.expect.status});`);
+            for (const [key, value] of Object.entries(c.expect.body)) {
+                out.push(`            expect(res.body.${key}).toBe(${JSON.stringify(value)});`);
+            }
+            if (c.expect.reasonField && c.expect.errorCode) {
+                out.push(`            expect(res.body.${c.expect.reasonField}).toContain(${JSON.stringify(c.expect.errorCode)});`);
+            }
+            out.push("        });");
+        });
+        out.push("    });");
+    }
+    out.push("});", "");
+    return out.join("\n");
+}
+
+function javaString(value: unknown): string {
+    return JSON.stringify(JSON.stringify(value));
+}
+
+function junitSuite(orch: Orchestrator, cases: GeneratedTestCase[]): string {
+    const { method, path } = endpointOf(orch);
+    const out = [
+        "import com.fasterxml.jackson.databind.JsonNode;",
+        "import com.fasterxml.jackson.databind.ObjectMapper;",
+        "import org.junit.jupiter.api.AfterEach;",
+        "import org.junit.jupiter.api.DisplayName;",
+        "import org.junit.jupiter.api.Nested;",
+        "import org.junit.jupiter.api.Test;",
+        "",
+        "import java.net.URI;",
+        "import java.net.http.HttpClient;",
+        "import java.net.http.HttpRequest;",
+        "import java.net.http.HttpResponse;",
+        "",
+        "import static org.junit.jupiter.api.Assertions.*;",
+        "",
+        "/**",
+        ` * Generated from the test targets of ${orch.name} (${orch.id} v${orch.version}).`,
+        " * Point ORCH_BASE_URL at a running instance. Node stubs are PUT to the portal mock's",
+        " * fixture endpoint (ORCH_BASE_URL = <portal>/mock); anywhere else stubNodes throws",
+        " * \"not wired\" until you replace it with your own node test doubles.",
+        " */",
+        `@DisplayName(${JSON.stringify(orch.name)})`,
+        `class ${className(orch)} {`,
+        `    private static final String BASE_URL = System.getenv().getOrDefault("ORCH_BASE_URL", "http://localhost:8080");`,
+        `    private static final String ENDPOINT = ${JSON.stringify(path)};`,
+        `    private static final String FIXTURE_URL = BASE_URL + ${JSON.stringify(`/__fixtures/${encodeURIComponent(orch.id)}`)};`,
+        "    private static final ObjectMapper JSON = new ObjectMapper();",
+        "",
+        "    private final HttpClient http = HttpClient.newHttpClient();",
+        "    private boolean stubbed = false;",
+        "",
+        "    void stubNodes(String fixtureJson) throws Exception {",
+        "        HttpRequest request = HttpRequest.newBuilder(URI.create(FIXTURE_URL))",
+        `                .header("Content-Type", "application/json")`,
+        "                .PUT(HttpRequest.BodyPublishers.ofString(fixtureJson))",
+        "                .build();",
+        "        int status;",
+        "        try {",
+        "            status = http.send(request, HttpResponse.BodyHandlers.discarding()).statusCode();",
+        "        } catch (java.io.IOException e) {",
+        "            status = -1;",
+        "        }",
+        "        if (status < 200 || status >= 300) {",
+        `            throw new IllegalStateException("stubNodes is not wired: " + FIXTURE_URL + " answered " + status + "; point ORCH_BASE_URL at the portal mock or stub the nodes yourself");`,
+        "        }",
+        "        stubbed = true;",
+        "    }",
+        "",
+        "    HttpResponse<String> call(String body) throws Exception {",
+        "        HttpRequest request = HttpRequest.newBuilder(URI.create(BASE_URL + ENDPOINT))",
+        `                .header("Content-Type", "application/json")`,
+        `                .method(${JSON.stringify(method)}, HttpRequest.BodyPublishers.ofString(body))`,
+        "                .build();",
+        "        return http.send(request, HttpResponse.BodyHandlers.ofString());",
+        "    }",
+        "",
+        "    @AfterEach",
+        "    void clearStubs() throws Exception {",
+        "        if (stubbed) {",
+        "            http.send(HttpRequest.newBuilder(URI.create(FIXTURE_URL)).DELETE().build(), HttpResponse.BodyHandlers.discarding());",
+        "        }",
+        "        stubbed = false;",
+        "    }",
+    ];
+
+    for (const { kind, label } of TEST_CASE_KINDS) {
+        const group = cases.filter(c => c.kind === kind);
+        if (!group.length) continue;
+        const nested = label.replace(/\s+(\w)/g, (_, ch: string) => ch.toUpperCase()).replace(/^\w/, ch => ch.toUpperCase());
+        out.push("", "    @Nested", `    @DisplayName(${JSON.stringify(label)})`, `    class ${nested} {`);
+        group.forEach((c, i) => {
+            if (i) out.push("");
+            for (const note of c.notes) out.push(`        // NOTE: ${note}`);
+            if (!c.dryRun.agrees) out.push(`        // NOTE: the dry run returned ${c.dryRun.status} ${c.dryRun.errorCode ?? ""}`.trimEnd());
+            out.push("        @Test", `        @DisplayName(${JSON.stringify(c.target)})`, `        void ${c.name}() throws Exception {`);
+            if (Object.keys(c.fixtures).length) {
+                out.push(`            // stubs ${Object.keys(c.fixtures).join(", ")}`, `            stubNodes(${javaString(mockFixtureFor(c))});`);
+            }
+            out.push(`            HttpResponse<String> res = call(${javaString(c.request)});`);
+            out.push(`            assertEquals(${c.expect.status}, res.statusCode());`);
+            const fields = Object.entries(c.expect.body);
+            if (fields.length || c.expect.reasonField) out.push("            JsonNode body = JSON.readTree(res.body());");
+            for (const [key, value] of fields) {
+                if (typeof value === "boolean") out.push(`            ${value ? "assertTrue" : "assertFalse"}(body.path(${JSON.stringify(key)}).asBoolean());`);
+                else out.push(`            assertEquals(${JSON.stringify(String(value))}, body.path(${JSON.stringify(key)}).asText());`);
+            }
+            if (c.expect.reasonField && c.expect.errorCode) {
+                out.push(`            assertTrue(body.path(${JSON.stringify(c.expect.reasonField)}).asText().contains(${JSON.stringify(c.expect.errorCode)}));`);
+            }
+            out.push("        }");
+        });
+        out.push("    }");
+    }
+    out.push("}", "");
+    return out.join("\n");
+}
+
+export function generateTestSuite(orch: Orchestrator, format: TestSuiteFormat, cases = buildTestCases(orch)): string {
+    return format === "junit5" ? junitSuite(orch, cases) : vitestSuite(orch, cases);
+}
@@ -0,0 +1,330 @@
+/**
+ * Minimal YAML emitter for JSON-compatible values (block style, two-space
+ * indent). Strings are quoted whenever a plain scalar could be read back as
+ * something else; multi-line strings use literal blocks.
+ */
+
+const PLAIN = /^[A-Za-z_/.][\w .,/()-]*$/;
+const RESERVED = /^(true|false|yes|no|on|off|null|~|y|n)$/i;
+
+function scalar(value: unknown): string {
+    if (value === null || value === undefined) return "null";
+    if (typeof value === "number") return Number.isFinite(value) ? String(value) : ".nan";
+    if (typeof value === "boolean") return String(value);
+    const s = String(value);
+    if (s !== "" && PLAIN.test(s) && !RESERVED.test(s) && !/\s$/.test(s) && !/: |\s#/.test(s)) return s;
+    return JSON.stringify(s);
+}
+
+function key(k: string): string {
+    return PLAIN.test(k) && !RESERVED.test(k) && !/\s/.test(k) ? k : JSON.stringify(k);
+}
+
+function isBlock(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    return typeof value === "object" && value !== null && Object.keys(value).length > 0;
+}
+
+function emit(value: unknown, indent: string): string[] {
+    if (Array.isArray(value)) {
+        return value.flatMap(item => {
+            if (!isBlock(item)) return [`${indent}- ${inline(item, indent + "  ")}`];
+            const [first, ...rest] = emit(item, indent + "  ");
+            return [`${indent}- ${first.trimStart()}`, ...rest];
+        });
+    }
+    return Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined)
+        .flatMap(([k, v]) => {
+            if (isBlock(v)) return [`${indent}${key(k)}:`, ...emit(v, indent + "  ")];
+            return [`${indent}${key(k)}: ${inline(v, indent + "  ")}`];
+        });
+}
+
+function inline(value: unknown, indent: string): string {
+    if (Array.isArray(value)) return "[]";
+    if (typeof value === "object" && value !== null) return "{}";
+    if (typeof value === "string" && value.includes("\n")) {
+        const body = value.replace(/\n+$/, "");
+        const chomp = value.endsWith("\n") ? "" : "-";
+        return `|${chomp}\n${body.split("\n").map(l => (l ? indent + l : "")).join("\n")}`;
+    }
+    return scalar(value);
+}
+
+export function toYaml(value: unknown): string {
+    if (!isBlock(value)) return `${inline(value, "")}\n`;
+    return `${emit(value, "").join("\n")}\n`;
+}
+
+/*
+ * Reader for the subset of YAML that OpenAPI documents use: block mappings
+ * and sequences, flow collections, plain / quoted scalars and literal /
+ * folded block scalars. Anchors, aliases and multi-document streams are not
+ * supported and raise an error naming the line.
+ */
+
+interface Line {
+    indent: number;
+    text: string;           // line without its indentation
+    no: number;             // 1-based line number
+}
+
+function isSeqItem(text: string): boolean {
+    return text === "-" || text.startsWith("- ");
+}
+
+/** Index of the quote closing the one at `start`, or -1. */
+function closingQuote(text: string, start: number): number {
+    const q = text[start];
+    for (let i = start + 1; i < text.length; i++) {
+        if (q === '"' && text[i] === "\\") i++;
+        else if (text[i] === q) {
+            if (q === "'" && text[i + 1] === "'") i++;
+            else return i;
+        }
+    }
+    return -1;
+}
+
+function unquote(token: string): string {
+    if (token[0] === "'") return token.slice(1, -1).replace(/''/g, "'");
+    try {
+        return JSON.parse(token.replace(/\\x([0-9A-Fa-f]{2})/g, "\\u00$1").replace(/\t/g, "\\t"));
+    } catch {
+        return token.slice(1, -1);
+    }
+}
+
+function plainScalar(token: string): unknown {
+    if (token === "" || token === "~" || /^null$/i.test(token)) return null;
+    if (/^(true|false)$/i.test(token)) return token.toLowerCase() === "true";
+    if (/^[-+]?\d+$/.test(token)) return Number(token);
+    if (/^0x[0-9a-fA-F]+$/.test(token)) return parseInt(token.slice(2), 16);
+    if (/^0o[0-7]+$/.test(token)) return parseInt(token.slice(2), 8);
+    if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(token)) return Number(token);
+    if (/^[-+]?\.inf$/i.test(token)) return token.startsWith("-") ? -Infinity : Infinity;
+    if (/^\.nan$/i.test(token)) return NaN;
+    return token;
+}
+
+/** `key: rest` of a block mapping line, or null when the line is not one. */
+function mapEntry(text: string): { key: string; rest: string } | null {
+    if (text[0] === '"' || text[0] === "'") {
+        const end = closingQuote(text, 0);
+        const m = end < 0 ? null : /^\s*:(?:\s+(.*)|$)/.exec(text.slice(end + 1));
+        return m ? { key: unquote(text.slice(0, end + 1)), rest: m[1] ?? "" } : null;
+    }
+    if (/^[#[{&*!|>%@`]/.test(text) || isSeqItem(text)) return null;
+    const m = /^(.*?)\s*:(?:\s+(.*)|$)/.exec(text);
+    return m && m[1] && !/\s#/.test(m[1]) ? { key: m[1], rest: m[2] ?? "" } : null;
+}
+
+function bracketsBalanced(src: string): boolean {
+    let depth = 0;
+    for (let i = 0; i < src.length; i++) {
+        const c = src[i];
+        if (c === '"' || c === "'") {
+            const end = closingQuote(src, i);
+            if (end < 0) return false;
+            i = end;
+        } else if (c === "[" || c === "{") depth++;
+        else if (c === "]" || c === "}") depth--;
+    }
+    return depth <= 0;
+}
+
+export function parseYaml(source: string): unknown {
+    const lines: Line[] = source.replace(/\r\n?/g, "\n").split("\n").map((raw, i) => {
+        const indent = raw.length - raw.replace(/^ +/, "").length;
+        return { indent, text: raw.slice(indent).trimEnd(), no: i + 1 };
+    });
+    let pos = 0;
+
+    const fail = (message: string, no = lines[Math.min(pos, lines.length - 1)].no) => new Error(`YAML line ${no}: ${message}`);
+    const marker = (l: Line) => l.indent === 0 && (/^(---|\.\.\.)(\s|$)/.test(l.text) || l.text.startsWith("%"));
+    const skip = () => {
+        while (pos < lines.length && (lines[pos].text === "" || lines[pos].text.startsWith("#") || marker(lines[pos]))) pos++;
+    };
+
+    const flow = (src: string, no: number): unknown => {
+        let i = 0;
+        const ws = () => {
+            while (i < src.length && /\s/.test(src[i])) i++;
+        };
+        const value = (terminators: string): unknown => {
+            ws();
+            const c = src[i];
+            if (c === "[" || c === "{") {
+                const close = c === "[" ? "]" : "}";
+                const list: unknown[] = [];
+                const map: Record<string, unknown> = {};
+                i++;
+                for (;;) {
+                    ws();
+                    if (src[i] === close) {
+                        i++;
+                        return c === "[" ? list : map;
+                    }
+                    if (c === "[") list.push(value(",]"));
+                    else {
+                        const key = value(":,}");
+                        ws();
+                        let v: unknown = null;
+                        if (src[i] === ":") {
+                            i++;
+                            v = value(",}");
+                        }
+                        map[String(key)] = v;
+                    }
+                    ws();
+                    if (src[i] === ",") i++;
+                    else if (src[i] !== close) throw fail(`expected "," or "${close}" in flow collection`, no);
+                }
+            }
+            if (c === '"' || c === "'") {
+                const end = closingQuote(src, i);
+                if (end < 0) throw fail("unterminated quoted string", no);
+                const token = src.slice(i, end + 1);
+                i = end + 1;
+                return unquote(token);
+            }
+            if (c === "&" || c === "*") throw fail("anchors and aliases are not supported", no);
+            let j = i;
+            while (j < src.length) {
+                const ch = src[j];
+                if (ch === "#" && /\s/.test(src[j - 1] ?? " ")) break;
+                if (terminators.includes(ch) && (ch !== ":" || j + 1 >= src.length || /[\s,}\]]/.test(src[j + 1]))) break;
+                j++;
+            }
+            const token = src.slice(i, j).trim();
+            i = j;
+            return plainScalar(token);
+        };
+        const result = value("");
+        ws();
+        if (i < src.length && src[i] !== "#") throw fail(`unexpected "${src.slice(i, i + 10)}"`, no);
+        return result;
+    };
+
+    const blockScalar = (header: string, ownerIndent: number, no: number): string => {
+        const m = /^([|>])([+-]?)(\d?)([+-]?)\s*(#.*)?$/.exec(header);
+        if (!m) throw fail(`bad block scalar header "${header}"`, no);
+        const chomp = m[2] || m[4];
+        let contentIndent = m[3] ? ownerIndent + Number(m[3]) : -1;
+        const body: string[] = [];
+        while (pos < lines.length) {
+            const l = lines[pos];
+            if (l.text === "") {
+                body.push("");
+                pos++;
+                continue;
+            }
+            if (contentIndent < 0) {
+                if (l.indent <= ownerIndent) break;
+                contentIndent = l.indent;
+            }
+            if (l.indent < contentIndent) break;
+            body.push(" ".repeat(l.indent - contentIndent) + l.text);
+            pos++;
+        }
+        let trailing = 0;
+        while (body.length && body[body.length - 1] === "") {
+            body.pop();
+            trailing++;
+        }
+        let text = body[0] ?? "";
+        for (let k = 1; k < body.length; k++) {
+            const line = body[k];
+            const prev = body[k - 1];
+            if (m[1] === "|" || line === "" || prev === "" || line.startsWith(" ") || prev.startsWith(" ")) {
+                text += (m[1] === ">" && prev === "" ? "" : "\n") + line;
+            } else {
+                text += " " + line;
+            }
+        }
+        if (chomp === "-" || body.length === 0) return text;
+        return chomp === "+" ? text + "\n".repeat(trailing + 1) : `${text}\n`;
+    };
+
+    /** Value written on the same line as its key / dash; `ownerIndent` bounds its continuation lines. */
+    const inlineValue = (text: string, ownerIndent: number, no: number): unknown => {
+        if (text.startsWith("!")) text = text.replace(/^!\S*\s*/, "");
+        if (text === "" || text.startsWith("#")) return nested(ownerIndent);
+        if (text[0] === "|" || text[0] === ">") return blockScalar(text, ownerIndent, no);
+        if (text[0] === "&" || text[0] === "*") throw fail("anchors and aliases are not supported", no);
+        if (/^["'[{]/.test(text)) {
+            let src = text;
+            const open = () => (src[0] === '"' || src[0] === "'" ? closingQuote(src, 0) < 0 : !bracketsBalanced(src));
+            while (open() && pos < lines.length) src += ` ${lines[pos++].text}`;
+            return flow(src, no);
+        }
+        let s = text.replace(/\s+#.*$/, "");
+        while (pos < lines.length && lines[pos].text !== "" && !lines[pos].text.startsWith("#") && lines[pos].indent > ownerIndent) {
+            s += ` ${lines[pos++].text.replace(/\s+#.*$/, "")}`;
+        }
+        return plainScalar(s.trim());
+    };
+
+    /** Block node on the following lines, indented deeper than its owner (or a same-indent sequence under a key). */
+    const nested = (ownerIndent: number): unknown => {
+        skip();
+        if (pos >= lines.length) return null;
+        const next = lines[pos];
+        if (next.indent > ownerIndent) return node(ownerIndent + 1);
+        if (next.indent === ownerIndent && isSeqItem(next.text)) return sequence(ownerIndent);
+        return null;
+    };
+
+    const sequence = (indent: number): unknown[] => {
+        const out: unknown[] = [];
+        for (skip(); pos < lines.length; skip()) {
+            const line = lines[pos];
+            if (line.indent < indent || (line.indent === indent && !isSeqItem(line.text))) break;
+            if (line.indent > indent) throw fail("bad indentation of a sequence entry");
+            const rest = line.text.slice(1).replace(/^ +/, "");
+            if (rest === "" || rest.startsWith("#")) {
+                pos++;
+                skip();
+                out.push(pos < lines.length && lines[pos].indent > indent ? node(indent + 1) : null);
+                continue;
+            }
+            // Re-read the entry's content as a line of its own at its column
+            lines[pos] = { indent: indent + line.text.length - rest.length, text: rest, no: line.no };
+            out.push(node(lines[pos].indent));
+        }
+        return out;
+    };
+
+    const mapping = (indent: number): Record<string, unknown> => {
+        const out: Record<string, unknown> = {};
+        for (skip(); pos < lines.length; skip()) {
+            const line = lines[pos];
+            if (line.indent < indent) break;
+            if (line.indent > indent) throw fail("bad indentation of a mapping entry");
+            const entry = mapEntry(line.text);
+            if (!entry) {
+                if (isSeqItem(line.text)) break;
+                throw fail(`expected "key: value", got "${line.text}"`);
+            }
+            pos++;
+            out[entry.key] = inlineValue(entry.rest, indent, line.no);
+        }
+        return out;
+    };
+
+    const node = (minIndent: number): unknown => {
+        skip();
+        if (pos >= lines.length || lines[pos].indent < minIndent) return null;
+        const line = lines[pos];
+        if (isSeqItem(line.text)) return sequence(line.indent);
+        if (mapEntry(line.text)) return mapping(line.indent);
+        pos++;
+        return inlineValue(line.text, minIndent - 1, line.no);
+    };
+
+    const result = node(0);
+    skip();
+    if (pos < lines.length) throw fail(`unexpected content "${lines[pos].text}"`);
+    return result;
+}
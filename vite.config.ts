@@ -1,8 +1,9 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
+import mockServer from "./server/mockServerPlugin";
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mockServer()],
   server: {
     port: 5173,
     strictPort: true